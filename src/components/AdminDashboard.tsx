@@ -20,6 +20,9 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { AiBudgetManager } from '@/components/AiBudgetManager';
+import { KnowledgeCurationConsole } from '@/components/KnowledgeCurationConsole';
+import { PromptProfileManager } from '@/components/PromptProfileManager';
 
 interface AdminStats {
   totalFiles: number;
@@ -389,9 +392,12 @@ const AdminDashboard = () => {
 
         {/* Detailed Views */}
         <Tabs defaultValue="files" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="files">All Files & Versions</TabsTrigger>
             <TabsTrigger value="activity">Recent Activity</TabsTrigger>
+            <TabsTrigger value="budgets">AI Budgets</TabsTrigger>
+            <TabsTrigger value="knowledge">Knowledge Review</TabsTrigger>
+            <TabsTrigger value="profiles">Assistant Profiles</TabsTrigger>
           </TabsList>
           
           <TabsContent value="files" className="space-y-4">
@@ -501,6 +507,18 @@ const AdminDashboard = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="budgets" className="space-y-4">
+            <AiBudgetManager />
+          </TabsContent>
+
+          <TabsContent value="knowledge" className="space-y-4">
+            <KnowledgeCurationConsole />
+          </TabsContent>
+
+          <TabsContent value="profiles" className="space-y-4">
+            <PromptProfileManager />
+          </TabsContent>
         </Tabs>
       </div>
     </TooltipProvider>
@@ -0,0 +1,447 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Building2, Pencil, Plus, RefreshCw, Trash2, Wallet } from 'lucide-react';
+
+type Budget = Tables<'ai_usage_budgets'>;
+
+type BudgetTarget =
+  | { scope: 'default'; id: null; label: string }
+  | { scope: 'user'; id: string; label: string }
+  | { scope: 'organization'; id: string; label: string };
+
+interface MonthUsage {
+  tokens: number;
+  usd: number;
+}
+
+interface BudgetForm {
+  tokenLimit: string;
+  usdLimit: string;
+  warningPercent: string;
+  hardLimit: boolean;
+  notes: string;
+  organizationId: string;
+}
+
+const NO_ORGANIZATION = 'none';
+
+const budgetFor = (budgets: Budget[], target: BudgetTarget) =>
+  budgets.find(budget =>
+    target.scope === 'default' ? !budget.user_id && !budget.organization_id :
+    target.scope === 'user' ? budget.user_id === target.id : budget.organization_id === target.id
+  );
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+// Admin view of the monthly AI budgets: the default budget, organization budgets and
+// per-user overrides, with this month's usage next to each limit
+export function AiBudgetManager() {
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [organizations, setOrganizations] = useState<Tables<'organizations'>[]>([]);
+  const [memberships, setMemberships] = useState<Tables<'organization_members'>[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [usage, setUsage] = useState<Record<string, MonthUsage>>({});
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<BudgetTarget | null>(null);
+  const [form, setForm] = useState<BudgetForm | null>(null);
+  const [newOrganization, setNewOrganization] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadBudgets();
+  }, []);
+
+  const loadBudgets = async () => {
+    try {
+      setLoading(true);
+      const now = new Date();
+      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+
+      const [budgetsResult, organizationsResult, membersResult, usageResult, profilesResult] = await Promise.all([
+        supabase.from('ai_usage_budgets').select('*'),
+        supabase.from('organizations').select('*').order('name'),
+        supabase.from('organization_members').select('*'),
+        supabase.from('ai_usage_logs').select('user_id, total_tokens, cost_usd').gte('created_at', monthStart),
+        supabase.from('profiles').select('id, full_name'),
+      ]);
+
+      if (budgetsResult.error) throw budgetsResult.error;
+
+      const usageByUser: Record<string, MonthUsage> = {};
+      for (const log of usageResult.data || []) {
+        const entry = usageByUser[log.user_id] || { tokens: 0, usd: 0 };
+        entry.tokens += log.total_tokens;
+        entry.usd += Number(log.cost_usd) || 0;
+        usageByUser[log.user_id] = entry;
+      }
+
+      setBudgets(budgetsResult.data || []);
+      setOrganizations(organizationsResult.data || []);
+      setMemberships(membersResult.data || []);
+      setUsage(usageByUser);
+      setUserNames(Object.fromEntries(
+        (profilesResult.data || []).filter(profile => profile.full_name).map(profile => [profile.id, profile.full_name!])
+      ));
+    } catch (error) {
+      console.error('Error loading AI budgets:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load AI budgets",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const organizationOf = (userId: string) =>
+    memberships.find(member => member.user_id === userId)?.organization_id;
+
+  const usageOf = (target: BudgetTarget): MonthUsage => {
+    if (target.scope === 'user') return usage[target.id] || { tokens: 0, usd: 0 };
+    if (target.scope === 'organization') {
+      return memberships
+        .filter(member => member.organization_id === target.id)
+        .reduce((sum, member) => ({
+          tokens: sum.tokens + (usage[member.user_id]?.tokens || 0),
+          usd: sum.usd + (usage[member.user_id]?.usd || 0),
+        }), { tokens: 0, usd: 0 });
+    }
+    return Object.values(usage).reduce((sum, entry) => ({
+      tokens: sum.tokens + entry.tokens,
+      usd: sum.usd + entry.usd,
+    }), { tokens: 0, usd: 0 });
+  };
+
+  const userIds = [...new Set([
+    ...Object.keys(usage),
+    ...budgets.filter(budget => budget.user_id).map(budget => budget.user_id!),
+    ...memberships.map(member => member.user_id),
+  ])];
+
+  const targets: BudgetTarget[] = [
+    { scope: 'default', id: null, label: 'Default (all users)' },
+    ...organizations.map(org => ({ scope: 'organization' as const, id: org.id, label: org.name })),
+    ...userIds.map(id => ({ scope: 'user' as const, id, label: userNames[id] || `${id.slice(0, 8)}...` })),
+  ];
+
+  const openEditor = (target: BudgetTarget) => {
+    const budget = budgetFor(budgets, target);
+    setEditing(target);
+    setForm({
+      tokenLimit: budget?.monthly_token_limit?.toString() ?? '',
+      usdLimit: budget?.monthly_usd_limit?.toString() ?? '',
+      warningPercent: Math.round((budget?.warning_threshold ?? 0.8) * 100).toString(),
+      hardLimit: budget?.hard_limit ?? true,
+      notes: budget?.notes ?? '',
+      organizationId: target.scope === 'user' ? organizationOf(target.id) || NO_ORGANIZATION : NO_ORGANIZATION,
+    });
+  };
+
+  const saveBudget = async () => {
+    if (!editing || !form) return;
+
+    const warningPercent = Number(form.warningPercent);
+    if (!Number.isFinite(warningPercent) || warningPercent <= 0 || warningPercent > 100) {
+      toast({
+        title: "Invalid warning threshold",
+        description: "Enter a percentage between 1 and 100.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const existing = budgetFor(budgets, editing);
+      const values = {
+        monthly_token_limit: form.tokenLimit.trim() ? Number(form.tokenLimit) : null,
+        monthly_usd_limit: form.usdLimit.trim() ? Number(form.usdLimit) : null,
+        warning_threshold: warningPercent / 100,
+        hard_limit: form.hardLimit,
+        notes: form.notes.trim() || null,
+        updated_by: user?.id ?? null,
+      };
+
+      const { error } = existing
+        ? await supabase.from('ai_usage_budgets').update(values).eq('id', existing.id)
+        : await supabase.from('ai_usage_budgets').insert({
+            ...values,
+            user_id: editing.scope === 'user' ? editing.id : null,
+            organization_id: editing.scope === 'organization' ? editing.id : null,
+          });
+      if (error) throw error;
+
+      if (editing.scope === 'user' && form.organizationId !== (organizationOf(editing.id) || NO_ORGANIZATION)) {
+        await supabase.from('organization_members').delete().eq('user_id', editing.id);
+        if (form.organizationId !== NO_ORGANIZATION) {
+          const { error: memberError } = await supabase
+            .from('organization_members')
+            .insert({ organization_id: form.organizationId, user_id: editing.id });
+          if (memberError) throw memberError;
+        }
+      }
+
+      toast({
+        title: "Budget saved",
+        description: `Updated the AI budget for ${editing.label}.`,
+      });
+      setEditing(null);
+      await loadBudgets();
+    } catch (error) {
+      console.error('Error saving AI budget:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the AI budget",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeBudget = async (target: BudgetTarget) => {
+    const budget = budgetFor(budgets, target);
+    if (!budget) return;
+
+    const { error } = await supabase.from('ai_usage_budgets').delete().eq('id', budget.id);
+    if (error) {
+      console.error('Error removing AI budget:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove the AI budget",
+        variant: "destructive",
+      });
+      return;
+    }
+    await loadBudgets();
+  };
+
+  const createOrganization = async () => {
+    const name = newOrganization.trim();
+    if (!name) return;
+
+    const { error } = await supabase.from('organizations').insert({ name });
+    if (error) {
+      console.error('Error creating organization:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create the organization",
+        variant: "destructive",
+      });
+      return;
+    }
+    setNewOrganization('');
+    await loadBudgets();
+  };
+
+  const describeLimit = (budget: Budget | undefined) => {
+    if (!budget) return <span className="text-muted-foreground">Default</span>;
+    const limits = [
+      budget.monthly_token_limit !== null ? `${budget.monthly_token_limit.toLocaleString()} tokens` : null,
+      budget.monthly_usd_limit !== null ? formatUsd(Number(budget.monthly_usd_limit)) : null,
+    ].filter(Boolean);
+    return limits.length > 0 ? limits.join(' / ') : 'Unlimited';
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            AI Budgets
+          </CardTitle>
+          <Button onClick={loadBudgets} variant="outline" size="sm" disabled={loading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+        <CardDescription>
+          Monthly token and cost limits. Users over a hard limit are refused AI requests; warnings start at the threshold.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Input
+            value={newOrganization}
+            onChange={(e) => setNewOrganization(e.target.value)}
+            placeholder="New organization name"
+            className="max-w-xs"
+          />
+          <Button variant="outline" size="sm" onClick={createOrganization} disabled={!newOrganization.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Organization
+          </Button>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Budget</TableHead>
+              <TableHead>Used This Month</TableHead>
+              <TableHead>Limit</TableHead>
+              <TableHead>Enforcement</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {targets.map((target) => {
+              const budget = budgetFor(budgets, target);
+              const used = usageOf(target);
+              const organization = target.scope === 'user'
+                ? organizations.find(org => org.id === organizationOf(target.id))
+                : undefined;
+              return (
+                <TableRow key={`${target.scope}-${target.id ?? 'default'}`}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {target.scope === 'organization' && <Building2 className="h-4 w-4 text-muted-foreground" />}
+                      <span className={target.scope === 'user' && !userNames[target.id] ? 'font-mono text-xs' : 'font-medium'}>
+                        {target.label}
+                      </span>
+                    </div>
+                    {organization && (
+                      <div className="text-xs text-muted-foreground">{organization.name}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {used.tokens.toLocaleString()} tokens · {formatUsd(used.usd)}
+                  </TableCell>
+                  <TableCell className="text-sm">{describeLimit(budget)}</TableCell>
+                  <TableCell>
+                    {budget ? (
+                      <Badge variant={budget.hard_limit ? 'destructive' : 'secondary'}>
+                        {budget.hard_limit ? 'Hard limit' : 'Warn only'}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline">Inherited</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button size="sm" variant="outline" onClick={() => openEditor(target)}>
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      {budget && (
+                        <Button size="sm" variant="outline" onClick={() => removeBudget(target)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>AI Budget: {editing?.label}</DialogTitle>
+              <DialogDescription>
+                Leave a limit empty for no limit. Turn off the hard limit to let this budget warn without blocking requests.
+              </DialogDescription>
+            </DialogHeader>
+            {form && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="budget-tokens">Monthly tokens</Label>
+                    <Input
+                      id="budget-tokens"
+                      type="number"
+                      min={0}
+                      value={form.tokenLimit}
+                      onChange={(e) => setForm({ ...form, tokenLimit: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="budget-usd">Monthly cost (USD)</Label>
+                    <Input
+                      id="budget-usd"
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={form.usdLimit}
+                      onChange={(e) => setForm({ ...form, usdLimit: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4 items-end">
+                  <div className="space-y-2">
+                    <Label htmlFor="budget-warning">Warn at (%)</Label>
+                    <Input
+                      id="budget-warning"
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={form.warningPercent}
+                      onChange={(e) => setForm({ ...form, warningPercent: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2 pb-2">
+                    <Switch
+                      id="budget-hard-limit"
+                      checked={form.hardLimit}
+                      onCheckedChange={(checked) => setForm({ ...form, hardLimit: checked })}
+                    />
+                    <Label htmlFor="budget-hard-limit">Block requests at the limit</Label>
+                  </div>
+                </div>
+                {editing?.scope === 'user' && (
+                  <div className="space-y-2">
+                    <Label>Organization</Label>
+                    <Select
+                      value={form.organizationId}
+                      onValueChange={(value) => setForm({ ...form, organizationId: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_ORGANIZATION}>No organization</SelectItem>
+                        {organizations.map(org => (
+                          <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="budget-notes">Notes</Label>
+                  <Textarea
+                    id="budget-notes"
+                    value={form.notes}
+                    onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                    placeholder="Reason for the override"
+                    rows={2}
+                  />
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+              <Button onClick={saveBudget} disabled={saving}>Save Budget</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
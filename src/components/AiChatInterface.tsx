@@ -3,34 +3,94 @@ import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
 import { useToast } from '@/hooks/use-toast';
 import { useExport } from '@/hooks/useExport';
-import { MessageSquare, Send, Bot, User, Loader2, Download } from 'lucide-react';
+import { MessageSquare, Send, Bot, User, Loader2, Download, AlertTriangle, Square, History, Pencil, RefreshCw } from 'lucide-react';
+import { AI_BUDGET_EXCEEDED, readFunctionErrorBody, type BudgetNotice } from '@/lib/aiBudget';
+import { readChatStream } from '@/lib/chatStream';
+import { branchPath, latestLeaf, siblingsOf } from '@/lib/chatBranches';
+import { loadChatTranscript } from '@/lib/chatTranscript';
+import {
+  SUGGESTION_RESULT_EVENT,
+  type EditProposal,
+  type EditProposalStatus,
+  type SuggestionResultDetail
+} from '@/lib/chatEditProposals';
+import { EditProposalCard } from '@/components/EditProposalCard';
+import { ChatSessionHistory, type ChatSession } from '@/components/ChatSessionHistory';
+import { MessageFeedbackBar, type MessageFeedback } from '@/components/MessageFeedbackBar';
+import { ChatBranchSwitcher } from '@/components/ChatBranchSwitcher';
+import { PromptProfilePicker } from '@/components/PromptProfilePicker';
+import { useAuth } from '@/hooks/useAuth';
+import type { Json } from '@/integrations/supabase/types';
 
 interface Message {
   id: string;
+  // The message this one follows; messages with the same parent are versions of each other
+  parentId: string | null;
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: string;
+  streaming?: boolean;
+  cancelled?: boolean;
+  dbId?: string | null;
+  editProposals?: EditProposal[];
+  feedback?: MessageFeedback;
 }
 
+// Regenerate answers the question of an assistant message again; edit sends a new version
+// of a user message. The previous version stays available as a sibling.
+interface ChatBranch {
+  regenerate?: Message;
+  edit?: Message;
+}
+
+type ChatExportFormat = 'pdf' | 'markdown' | 'docx' | 'json';
+
+// ai_chat_messages.metadata as far as the chat shows it
+const storedMessageMetadata = (metadata: Json | null) =>
+  (metadata && typeof metadata === 'object' && !Array.isArray(metadata)
+    ? metadata
+    : {}) as { cancelled?: boolean; editProposals?: EditProposal[] };
+
 interface AiChatInterfaceProps {
   bpmnFileId?: string;
   bpmnContext?: any;
   analysisResult?: any;
+  onApplyEdit?: (proposal: EditProposal) => void;
 }
 
-const AiChatInterface = ({ bpmnFileId, bpmnContext, analysisResult }: AiChatInterfaceProps) => {
+const AiChatInterface = ({ bpmnFileId, bpmnContext, analysisResult, onApplyEdit }: AiChatInterfaceProps) => {
+  // Every message of the session, all branches; the chat shows the path to activeLeafId
   const [messages, setMessages] = useState<Message[]>([]);
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
   const [inputMessage, setInputMessage] = useState('');
   const [loading, setLoading] = useState(false);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [isOpen, setIsOpen] = useState(false);
+  const [budgetNotice, setBudgetNotice] = useState<BudgetNotice | null>(null);
+  const [applyingProposalId, setApplyingProposalId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [resumingSession, setResumingSession] = useState(false);
+  const [promptProfileId, setPromptProfileId] = useState<string | null>(null);
   const { toast } = useToast();
-  const { exportChatToPDF } = useExport();
+  const { user } = useAuth();
+  const { exportChatToPDF, exportChatToMarkdown, exportChatToDocx, exportChatToJson } = useExport();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const visibleMessages = branchPath(messages, activeLeafId);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -40,40 +100,170 @@ const AiChatInterface = ({ bpmnFileId, bpmnContext, analysisResult }: AiChatInte
     scrollToBottom();
   }, [messages]);
 
+  // Stop a running answer when the chat is unmounted
+  useEffect(() => () => streamAbortRef.current?.abort(), []);
+
+  // The editor reports whether an applied proposal made it into the diagram
+  useEffect(() => {
+    const handleSuggestionResult = (event: Event) => {
+      const { suggestionId, success, error } = (event as CustomEvent<SuggestionResultDetail>).detail;
+      if (suggestionId !== applyingProposalId) return;
+
+      setApplyingProposalId(null);
+      if (success) {
+        updateProposalStatus(suggestionId, 'applied');
+      } else {
+        toast({
+          title: "Edit not applied",
+          description: error || "The proposed edit could not be applied to the diagram.",
+          variant: "destructive",
+        });
+      }
+    };
+
+    window.addEventListener(SUGGESTION_RESULT_EVENT, handleSuggestionResult);
+    return () => window.removeEventListener(SUGGESTION_RESULT_EVENT, handleSuggestionResult);
+  }, [applyingProposalId, messages]);
+
   useEffect(() => {
     if (isOpen && bpmnFileId && messages.length === 0) {
-      // Send initial context message when chat opens with BPMN data
-      const contextMessage = `I'm looking at a BPMN process${analysisResult ? ` with ${analysisResult.findings?.length || 0} analysis findings` : ''}. Can you help me understand and optimize this HRIS process?`;
-      handleSendMessage(contextMessage, true);
+      resumeLatestSessionOrGreet();
     }
   }, [isOpen, bpmnFileId, analysisResult]);
 
-  const handleSendMessage = async (messageText?: string, isInitial = false) => {
-    const message = messageText || inputMessage.trim();
-    if (!message || loading) return;
+  // Reopening the chat continues the most recent conversation about this file
+  const resumeLatestSessionOrGreet = async () => {
+    const { data: latestSession, error } = await supabase
+      .from('ai_chat_sessions')
+      .select('id, title, session_summary, status, last_activity_at, prompt_profile_id, active_message_id')
+      .eq('bpmn_file_id', bpmnFileId)
+      .eq('status', 'active')
+      .order('last_activity_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading latest chat session:', error);
+    }
+
+    if (latestSession) {
+      await resumeSession(latestSession);
+      return;
+    }
 
-    if (!isInitial) {
+    // Send initial context message when chat opens with BPMN data
+    const contextMessage = `I'm looking at a BPMN process${analysisResult ? ` with ${analysisResult.findings?.length || 0} analysis findings` : ''}. Can you help me understand and optimize this HRIS process?`;
+    handleSendMessage(contextMessage, true);
+  };
+
+  // Opens the session at its active branch, or at the newest branch through focusMessageId
+  const resumeSession = async (session: ChatSession, focusMessageId?: string) => {
+    if (loading) return;
+    setResumingSession(true);
+
+    try {
+      const { data, error } = await supabase
+        .from('ai_chat_messages')
+        .select('id, parent_message_id, role, content, metadata, created_at')
+        .eq('session_id', session.id)
+        .in('role', ['user', 'assistant'])
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const { data: feedbackRows, error: feedbackError } = await supabase
+        .from('ai_message_feedback')
+        .select('message_id, rating, applied')
+        .in('message_id', (data || []).map(row => row.id));
+
+      if (feedbackError) {
+        console.error('Error loading message feedback:', feedbackError);
+      }
+      const feedbackByMessage = new Map((feedbackRows || []).map(row => [
+        row.message_id,
+        { rating: row.rating as MessageFeedback['rating'], applied: row.applied }
+      ]));
+
+      const loadedMessages: Message[] = (data || []).map(row => {
+        const metadata = storedMessageMetadata(row.metadata);
+        return {
+          id: row.id,
+          dbId: row.id,
+          parentId: row.parent_message_id,
+          role: row.role as Message['role'],
+          content: row.content,
+          timestamp: row.created_at,
+          cancelled: !!metadata.cancelled,
+          editProposals: metadata.editProposals,
+          feedback: feedbackByMessage.get(row.id),
+        };
+      });
+      const focus = loadedMessages.find(msg => msg.id === (focusMessageId ?? session.active_message_id));
+      const leaf = focus ? latestLeaf(loadedMessages, focus) : loadedMessages[loadedMessages.length - 1];
+
+      setMessages(loadedMessages);
+      setActiveLeafId(leaf?.id ?? null);
+      if (leaf && leaf.id !== session.active_message_id) {
+        saveActiveMessage(session.id, leaf.id);
+      }
+      setSessionId(session.id);
+      setPromptProfileId(session.prompt_profile_id ?? null);
+      setBudgetNotice(null);
+      setApplyingProposalId(null);
+      console.log('📂 Resumed chat session:', session.id, `(${data?.length || 0} messages)`);
+    } catch (error) {
+      console.error('Error resuming chat session:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the chat history",
+        variant: "destructive",
+      });
+    } finally {
+      setResumingSession(false);
+    }
+  };
+
+  const handleSendMessage = async (messageText?: string, isInitial = false, branch: ChatBranch = {}) => {
+    const { regenerate, edit } = branch;
+    const message = regenerate ? '' : messageText || inputMessage.trim();
+    if ((!message && !regenerate) || loading) return;
+
+    if (!isInitial && !regenerate && !edit) {
       setInputMessage('');
     }
     
     setLoading(true);
-    console.log('💬 Sending AI chat message:', { message, bpmnFileId, sessionId });
-
-    // Add user message to UI immediately
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: 'user',
-      content: message,
-      timestamp: new Date().toISOString()
-    };
+    console.log('💬 Sending AI chat message:', { message, bpmnFileId, sessionId, branch: regenerate ? 'regenerate' : edit ? 'edit' : null });
+
+    // The question being answered: the stored one when regenerating, otherwise a new message
+    // added to the UI immediately (after the shown branch, or next to the edited message)
+    const questionId = regenerate?.parentId ?? Date.now().toString();
+    if (!regenerate) {
+      const userMessage: Message = {
+        id: questionId,
+        parentId: edit ? edit.parentId : activeLeafId,
+        role: 'user',
+        content: message,
+        timestamp: new Date().toISOString()
+      };
+      setMessages(prev => [...prev, userMessage]);
+    }
+    setActiveLeafId(questionId);
 
-    setMessages(prev => [...prev, userMessage]);
+    const abortController = new AbortController();
+    streamAbortRef.current = abortController;
+    // The answer is stored under this id, so a stopped answer is known without a `done` event
+    const assistantId = crypto.randomUUID();
 
     try {
       const requestPayload = {
         sessionId,
         message,
         bpmnFileId,
+        promptProfileId,
+        regenerateMessageId: regenerate?.dbId,
+        editMessageId: edit?.dbId,
+        assistantMessageId: assistantId,
         bpmnContext: {
           ...bpmnContext,
           analysisResult: analysisResult ? {
@@ -87,55 +277,102 @@ const AiChatInterface = ({ bpmnFileId, bpmnContext, analysisResult }: AiChatInte
       console.log('📤 AI chat request payload:', requestPayload);
 
       const { data, error } = await supabase.functions.invoke('ai-chat', {
-        body: requestPayload
+        body: { ...requestPayload, stream: true }
       });
 
-      console.log('📥 AI chat response:', { data, error });
+      console.log('📥 AI chat response:', { streaming: data instanceof Response, error });
 
       if (error) {
+        const errorBody = await readFunctionErrorBody(error);
+        if (errorBody?.code === AI_BUDGET_EXCEEDED && errorBody.budget) {
+          console.warn('🚫 AI budget exceeded:', errorBody.budget);
+          setBudgetNotice(errorBody.budget);
+          if (regenerate) setActiveLeafId(regenerate.id);
+          toast({
+            title: "AI budget reached",
+            description: errorBody.budget.message,
+            variant: "destructive",
+          });
+          return;
+        }
         console.error('❌ AI chat error:', error);
-        throw new Error(error.message || 'Failed to get AI response');
+        throw new Error(errorBody?.error || error.message || 'Failed to get AI response');
       }
 
-      if (!data || !data.response) {
+      if (!(data instanceof Response)) {
         console.error('❌ Invalid AI response format:', data);
         throw new Error('Invalid response format from AI service');
       }
 
-      // VALIDATE AI RESPONSE CONTENT
-      if (typeof data.response !== 'string' || data.response.trim().length === 0) {
-        console.error('❌ AI response is empty or invalid type:', typeof data.response);
-        throw new Error('AI response is empty or invalid');
-      }
+      // Render the answer as it streams in
+      const updateAssistant = (update: (message: Message) => Partial<Message>) =>
+        setMessages(prev => prev.map(msg => msg.id === assistantId ? { ...msg, ...update(msg) } : msg));
 
-      // Check if response seems to be about HR/HRIS
-      const isHRResponse = data.response.toLowerCase().includes('hr') || 
-                          data.response.toLowerCase().includes('employee') ||
-                          data.response.toLowerCase().includes('process') ||
-                          data.response.toLowerCase().includes('workflow');
-      
-      if (!isHRResponse) {
-        console.warn('⚠️ AI response does not seem HR-focused:', data.response.substring(0, 100));
-        // Continue anyway but log the warning
+      setMessages(prev => [...prev, {
+        id: assistantId,
+        parentId: questionId,
+        role: 'assistant',
+        content: '',
+        timestamp: new Date().toISOString(),
+        streaming: true
+      }]);
+      setActiveLeafId(assistantId);
+
+      let finished = false;
+      let streamedContent = '';
+      for await (const streamEvent of readChatStream(data, abortController.signal)) {
+        switch (streamEvent.event) {
+          case 'session':
+            setBudgetNotice(streamEvent.data.budgetWarning || null);
+            setMessages(prev => prev.map(msg =>
+              msg.id === questionId ? { ...msg, dbId: streamEvent.data.questionMessageId } : msg
+            ));
+            // Update session ID if new
+            if (streamEvent.data.sessionId && !sessionId) {
+              setSessionId(streamEvent.data.sessionId);
+              console.log('✅ Session ID updated:', streamEvent.data.sessionId);
+            }
+            break;
+          case 'delta': {
+            const { content } = streamEvent.data;
+            streamedContent += content;
+            updateAssistant(msg => ({ content: msg.content + content }));
+            break;
+          }
+          case 'done': {
+            // The stored answer replaces the streamed text (off-topic answers are redirected)
+            const { response, cancelled, messageId, editProposals } = streamEvent.data;
+            updateAssistant(() => ({ content: response, streaming: false, cancelled, dbId: messageId, editProposals }));
+            finished = true;
+            console.log('✅ AI response added to chat:', response.substring(0, 100) + '...');
+            break;
+          }
+          case 'error':
+            throw new Error(streamEvent.data.error || 'Failed to get AI response');
+        }
       }
 
-      // Update session ID if new
-      if (data.sessionId && !sessionId) {
-        setSessionId(data.sessionId);
-        console.log('✅ Session ID updated:', data.sessionId);
+      if (!finished) {
+        // Keep what was shown so far (a stopped answer is stored under assistantId); drop the
+        // placeholder if nothing arrived
+        if (streamedContent) {
+          const stopped = abortController.signal.aborted;
+          updateAssistant(() => ({ streaming: false, cancelled: true, dbId: stopped ? assistantId : null }));
+        } else {
+          setMessages(prev => prev.filter(msg => msg.id !== assistantId));
+          setActiveLeafId(regenerate ? regenerate.id : questionId);
+        }
+        if (!abortController.signal.aborted) {
+          throw new Error('The response stream ended unexpectedly');
+        }
+        console.log('🛑 AI response stopped by the user');
+        toast({
+          title: "Response stopped",
+          description: "The partial answer was kept in the conversation.",
+        });
+        return;
       }
 
-      // Add assistant message
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: data.response,
-        timestamp: new Date().toISOString()
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
-      console.log('✅ AI response added to chat:', assistantMessage.content.substring(0, 100) + '...');
-
       toast({
         title: "AI Response",
         description: "Got insights from your HRIS process expert.",
@@ -147,12 +384,20 @@ const AiChatInterface = ({ bpmnFileId, bpmnContext, analysisResult }: AiChatInte
       // Add error message
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
+        parentId: questionId,
         role: 'assistant',
         content: `I apologize, but I encountered an error: ${error.message || 'Unknown error'}. Please try again or clear the conversation to start fresh.`,
         timestamp: new Date().toISOString()
       };
 
-      setMessages(prev => [...prev, errorMessage]);
+      // Drop the placeholder of an answer that never started
+      setMessages(prev => [
+        ...prev
+          .filter(msg => !(msg.streaming && !msg.content))
+          .map(msg => msg.streaming ? { ...msg, streaming: false } : msg),
+        errorMessage
+      ]);
+      setActiveLeafId(errorMessage.id);
 
       toast({
         title: "Chat Error",
@@ -160,11 +405,131 @@ const AiChatInterface = ({ bpmnFileId, bpmnContext, analysisResult }: AiChatInte
         variant: "destructive",
       });
     } finally {
+      streamAbortRef.current = null;
       setLoading(false);
       console.log('🏁 AI chat request completed, loading state cleared');
     }
   };
 
+  const stopResponse = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  // Stored on the session, so the next question and a reopened chat continue this branch
+  const saveActiveMessage = async (targetSessionId: string, messageId: string) => {
+    const { error } = await supabase
+      .from('ai_chat_sessions')
+      .update({ active_message_id: messageId })
+      .eq('id', targetSessionId);
+
+    if (error) {
+      console.error('Error saving the active chat branch:', error);
+    }
+  };
+
+  const switchBranch = (message: Message, index: number) => {
+    const sibling = siblingsOf(messages, message)[index];
+    if (!sibling) return;
+
+    const leaf = latestLeaf(messages, sibling);
+    setActiveLeafId(leaf.id);
+    // Answers that failed are only shown locally; the branch continues from the last stored message
+    const stored = branchPath(messages, leaf.id).reverse().find(msg => msg.dbId);
+    if (sessionId && stored?.dbId) {
+      saveActiveMessage(sessionId, stored.dbId);
+    }
+  };
+
+  const regenerateAnswer = (message: Message) => {
+    handleSendMessage(undefined, false, { regenerate: message });
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditValue(message.content);
+  };
+
+  const submitEdit = (message: Message) => {
+    const text = editValue.trim();
+    if (!text) return;
+    setEditingMessageId(null);
+    if (text !== message.content) {
+      handleSendMessage(text, false, { edit: message });
+    }
+  };
+
+  // Stored with the message, so the decision is kept when the session is reopened
+  const saveProposalStatuses = async (messageId: string, editProposals: EditProposal[]) => {
+    const { data, error } = await supabase
+      .from('ai_chat_messages')
+      .select('metadata')
+      .eq('id', messageId)
+      .single();
+
+    if (error) {
+      console.error('Error loading chat message metadata:', error);
+      return;
+    }
+
+    const metadata = data.metadata && typeof data.metadata === 'object' && !Array.isArray(data.metadata)
+      ? data.metadata
+      : {};
+    const { error: updateError } = await supabase
+      .from('ai_chat_messages')
+      .update({ metadata: { ...metadata, editProposals } as unknown as Json })
+      .eq('id', messageId);
+
+    if (updateError) {
+      console.error('Error saving edit proposal status:', updateError);
+    }
+  };
+
+  const updateProposalStatus = (proposalId: string, status: EditProposalStatus) => {
+    const message = messages.find(msg => msg.editProposals?.some(proposal => proposal.id === proposalId));
+    if (!message?.editProposals) return;
+
+    const editProposals = message.editProposals.map(proposal =>
+      proposal.id === proposalId ? { ...proposal, status } : proposal
+    );
+    setMessages(prev => prev.map(msg => msg.id === message.id ? { ...msg, editProposals } : msg));
+    if (message.dbId) {
+      saveProposalStatuses(message.dbId, editProposals);
+    }
+  };
+
+  const saveFeedback = async (message: Message, feedback: MessageFeedback) => {
+    if (!message.dbId || !user) return;
+
+    const previous = message.feedback;
+    setMessages(prev => prev.map(msg => msg.id === message.id ? { ...msg, feedback } : msg));
+
+    const { error } = await supabase
+      .from('ai_message_feedback')
+      .upsert({
+        message_id: message.dbId,
+        user_id: user.id,
+        rating: feedback.rating,
+        applied: feedback.applied
+      }, { onConflict: 'message_id,user_id' });
+
+    if (error) {
+      console.error('Error saving message feedback:', error);
+      setMessages(prev => prev.map(msg => msg.id === message.id ? { ...msg, feedback: previous } : msg));
+      toast({
+        title: "Feedback not saved",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const applyProposal = (proposal: EditProposal) => {
+    if (!onApplyEdit) return;
+    console.log('🛠️ Applying chat edit proposal:', proposal);
+    setApplyingProposalId(proposal.id);
+    onApplyEdit(proposal);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -172,17 +537,32 @@ const AiChatInterface = ({ bpmnFileId, bpmnContext, analysisResult }: AiChatInte
     }
   };
 
-  const clearConversation = () => {
+  const resetConversation = () => {
     setMessages([]);
+    setActiveLeafId(null);
+    setEditingMessageId(null);
     setSessionId(null);
+    setPromptProfileId(null);
+    setBudgetNotice(null);
+    setApplyingProposalId(null);
+  };
+
+  const clearConversation = () => {
+    resetConversation();
     toast({
       title: "Conversation Cleared",
       description: "Started a new chat session.",
     });
   };
 
-  const handleExportChat = async () => {
-    if (!bpmnContext || messages.length === 0) {
+  const handleSessionRemoved = (removedSessionId: string) => {
+    if (removedSessionId === sessionId) {
+      resetConversation();
+    }
+  };
+
+  const handleExportChat = async (format: ChatExportFormat) => {
+    if (!bpmnContext || visibleMessages.length === 0) {
       toast({
         title: "Nothing to export",
         description: "No chat messages to export yet",
@@ -192,14 +572,26 @@ const AiChatInterface = ({ bpmnFileId, bpmnContext, analysisResult }: AiChatInte
     }
 
     try {
-      const exportMessages = messages
+      const chatMessages = visibleMessages
         .filter(msg => msg.role !== 'system')
-        .map(msg => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-          created_at: msg.timestamp,
-        }));
-      await exportChatToPDF(exportMessages, bpmnContext.fileName);
+        .map(msg => ({ ...msg, role: msg.role as 'user' | 'assistant' }));
+
+      if (format === 'pdf') {
+        await exportChatToPDF(
+          chatMessages.map(msg => ({ role: msg.role, content: msg.content, created_at: msg.timestamp })),
+          bpmnContext.fileName
+        );
+      } else {
+        const transcript = await loadChatTranscript({
+          sessionId,
+          bpmnFileId,
+          fileName: bpmnContext.fileName,
+          messages: chatMessages,
+        });
+        if (format === 'markdown') exportChatToMarkdown(transcript);
+        else if (format === 'docx') exportChatToDocx(transcript);
+        else exportChatToJson(transcript);
+      }
       toast({
         title: "Success",
         description: "Chat conversation exported successfully",
@@ -230,7 +622,7 @@ const AiChatInterface = ({ bpmnFileId, bpmnContext, analysisResult }: AiChatInte
   }
 
   return (
-    <Card className="fixed bottom-4 right-4 w-96 h-[600px] flex flex-col shadow-lg">
+    <Card className={`fixed bottom-4 right-4 ${showHistory ? 'w-[44rem]' : 'w-96'} h-[600px] flex flex-col shadow-lg`}>
       <CardHeader className="pb-3 flex-shrink-0">
         <div className="flex items-center justify-between">
           <div>
@@ -243,16 +635,34 @@ const AiChatInterface = ({ bpmnFileId, bpmnContext, analysisResult }: AiChatInte
             </CardDescription>
           </div>
           <div className="flex gap-2">
-            {messages.length > 0 && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={handleExportChat}
-                disabled={loading}
-              >
-                <Download className="h-3 w-3 mr-1" />
-                Export
-              </Button>
+            <Button
+              variant={showHistory ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setShowHistory(!showHistory)}
+              disabled={!bpmnFileId}
+              title="Chat history"
+            >
+              <History className="h-3 w-3" />
+            </Button>
+            {visibleMessages.length > 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={loading}
+                  >
+                    <Download className="h-3 w-3 mr-1" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => handleExportChat('pdf')}>PDF</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExportChat('markdown')}>Markdown</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExportChat('docx')}>Word document</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExportChat('json')}>JSON transcript</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             )}
             <Button
               variant="ghost"
@@ -271,98 +681,236 @@ const AiChatInterface = ({ bpmnFileId, bpmnContext, analysisResult }: AiChatInte
             </Button>
           </div>
         </div>
-        {sessionId && (
-          <Badge variant="outline" className="w-fit text-xs">
-            Session Active
-          </Badge>
-        )}
+        <div className="flex items-center gap-2">
+          <PromptProfilePicker
+            bpmnFileId={bpmnFileId}
+            value={promptProfileId}
+            disabled={loading}
+            onChange={setPromptProfileId}
+          />
+          {sessionId && (
+            <Badge variant="outline" className="w-fit text-xs flex-shrink-0">
+              Session Active
+            </Badge>
+          )}
+        </div>
       </CardHeader>
 
-      <CardContent className="flex-1 flex flex-col p-0 min-h-0">
-        <div className="flex-1 overflow-y-auto p-4 space-y-4">
-          {messages.length === 0 && (
-            <div className="text-center text-muted-foreground py-8">
-              <Bot className="h-8 w-8 mx-auto mb-2 opacity-50" />
-              <p className="text-sm">
-                Ask me anything about this HRIS process!
-              </p>
-            </div>
-          )}
-          
-          {messages.map((message) => (
-            <div
-              key={message.id}
-              className={`flex gap-3 ${
-                message.role === 'user' ? 'flex-row-reverse' : ''
-              }`}
-            >
-              <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
-                message.role === 'user' 
-                  ? 'bg-primary text-primary-foreground' 
-                  : 'bg-muted'
-              }`}>
-                {message.role === 'user' ? (
-                  <User className="h-4 w-4" />
-                ) : (
-                  <Bot className="h-4 w-4" />
-                )}
+      <CardContent className="flex-1 flex p-0 min-h-0">
+        {showHistory && (
+          <div className="w-64 flex-shrink-0 border-r">
+            <ChatSessionHistory
+              bpmnFileId={bpmnFileId}
+              activeSessionId={sessionId}
+              disabled={loading || resumingSession}
+              onResume={resumeSession}
+              onSessionRemoved={handleSessionRemoved}
+            />
+          </div>
+        )}
+        <div className="flex-1 flex flex-col min-w-0 min-h-0">
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {resumingSession && (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
               </div>
-              
-              <div className={`flex-1 min-w-0 ${
-                message.role === 'user' ? 'text-right' : ''
-              }`}>
-                <div className={`inline-block max-w-full rounded-lg p-3 text-sm break-words ${
-                  message.role === 'user'
-                    ? 'bg-primary text-primary-foreground'
-                    : 'bg-muted'
-                }`}>
-                  <div className="whitespace-pre-wrap break-words leading-relaxed">
-                    {message.content}
+            )}
+
+            {visibleMessages.length === 0 && !resumingSession && (
+              <div className="text-center text-muted-foreground py-8">
+                <Bot className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">
+                  Ask me anything about this HRIS process!
+                </p>
+              </div>
+            )}
+          
+            {visibleMessages.map((message, index) => {
+              const siblings = siblingsOf(messages, message);
+              const isLastAnswer = message.role === 'assistant' && index === visibleMessages.length - 1;
+              const editing = editingMessageId === message.id;
+
+              return (
+                <div
+                  key={message.id}
+                  className={`flex gap-3 ${
+                    message.role === 'user' ? 'flex-row-reverse' : ''
+                  }`}
+                >
+                  <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
+                    message.role === 'user' 
+                      ? 'bg-primary text-primary-foreground' 
+                      : 'bg-muted'
+                  }`}>
+                    {message.role === 'user' ? (
+                      <User className="h-4 w-4" />
+                    ) : (
+                      <Bot className="h-4 w-4" />
+                    )}
+                  </div>
+                
+                  <div className={`flex-1 min-w-0 ${
+                    message.role === 'user' ? 'text-right' : ''
+                  }`}>
+                    {editing ? (
+                      <div className="space-y-2 text-left">
+                        <Textarea
+                          value={editValue}
+                          onChange={(e) => setEditValue(e.target.value)}
+                          className="min-h-[60px] text-sm"
+                          autoFocus
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => setEditingMessageId(null)}>
+                            Cancel
+                          </Button>
+                          <Button size="sm" onClick={() => submitEdit(message)} disabled={!editValue.trim()}>
+                            <Send className="h-3 w-3 mr-1" />
+                            Send
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className={`inline-block max-w-full rounded-lg p-3 text-sm break-words ${
+                        message.role === 'user'
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-muted'
+                      }`}>
+                        {message.streaming && !message.content ? (
+                          <div className="flex items-center gap-2">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            <span>Thinking...</span>
+                          </div>
+                        ) : (
+                          <div className="whitespace-pre-wrap break-words leading-relaxed">
+                            {message.content}
+                            {message.streaming && <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-foreground/60 animate-pulse" />}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {message.editProposals && message.editProposals.length > 0 && (
+                      <div className="mt-2 space-y-2 text-left">
+                        {message.editProposals.map((proposal) => (
+                          <EditProposalCard
+                            key={proposal.id}
+                            proposal={proposal}
+                            applying={applyingProposalId === proposal.id}
+                            disabled={!!applyingProposalId}
+                            onApply={onApplyEdit ? () => applyProposal(proposal) : undefined}
+                            onReject={() => updateProposalStatus(proposal.id, 'rejected')}
+                          />
+                        ))}
+                      </div>
+                    )}
+                    <div className="text-xs text-muted-foreground mt-1 px-1">
+                      {siblings.length > 1 && (
+                        <span className="mr-2">
+                          <ChatBranchSwitcher
+                            index={siblings.indexOf(message)}
+                            count={siblings.length}
+                            disabled={loading}
+                            onSelect={(siblingIndex) => switchBranch(message, siblingIndex)}
+                          />
+                        </span>
+                      )}
+                      {new Date(message.timestamp).toLocaleTimeString()}
+                      {message.cancelled && ' · Stopped'}
+                      {message.role === 'user' && message.dbId && !editing && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-5 w-5 p-0 ml-1 align-middle"
+                          onClick={() => startEditing(message)}
+                          disabled={loading}
+                          title="Edit and resend"
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {message.role === 'assistant' && message.dbId && !message.streaming && (
+                        <span className="ml-2 align-middle">
+                          <MessageFeedbackBar
+                            feedback={message.feedback}
+                            onChange={(feedback) => saveFeedback(message, feedback)}
+                          />
+                          {isLastAnswer && message.parentId && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-5 w-5 p-0"
+                              onClick={() => regenerateAnswer(message)}
+                              disabled={loading || budgetNotice?.status === 'exceeded'}
+                              title="Regenerate answer"
+                            >
+                              <RefreshCw className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </span>
+                      )}
+                    </div>
                   </div>
                 </div>
-                <div className="text-xs text-muted-foreground mt-1 px-1">
-                  {new Date(message.timestamp).toLocaleTimeString()}
-                </div>
-              </div>
-            </div>
-          ))}
+              );
+            })}
           
-          {loading && (
-            <div className="flex gap-3">
-              <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted flex items-center justify-center">
-                <Bot className="h-4 w-4" />
-              </div>
-              <div className="flex-1 min-w-0">
-                <div className="inline-block bg-muted rounded-lg p-3 text-sm">
-                  <div className="flex items-center gap-2">
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                    <span>Thinking...</span>
+            {loading && !messages.some(msg => msg.streaming) && (
+              <div className="flex gap-3">
+                <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted flex items-center justify-center">
+                  <Bot className="h-4 w-4" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="inline-block bg-muted rounded-lg p-3 text-sm">
+                    <div className="flex items-center gap-2">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      <span>Thinking...</span>
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          )}
+            )}
           
-          <div ref={messagesEndRef} className="h-1" />
-        </div>
+            <div ref={messagesEndRef} className="h-1" />
+          </div>
 
-        <div className="p-4 border-t flex-shrink-0 bg-background">
-          <div className="flex gap-2">
-            <Input
-              value={inputMessage}
-              onChange={(e) => setInputMessage(e.target.value)}
-              onKeyPress={handleKeyPress}
-              placeholder="Ask about process optimization, risks, best practices..."
-              disabled={loading}
-              className="flex-1"
-            />
-            <Button
-              onClick={() => handleSendMessage()}
-              disabled={loading || !inputMessage.trim()}
-              size="sm"
-            >
-              <Send className="h-4 w-4" />
-            </Button>
+          <div className="p-4 border-t flex-shrink-0 bg-background">
+            {budgetNotice && (
+              <Alert variant={budgetNotice.status === 'exceeded' ? 'destructive' : 'default'} className="mb-3 py-2">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle className="text-sm">
+                  {budgetNotice.status === 'exceeded' ? 'Monthly AI limit reached' : 'Approaching AI limit'}
+                </AlertTitle>
+                <AlertDescription className="text-xs">{budgetNotice.message}</AlertDescription>
+              </Alert>
+            )}
+            <div className="flex gap-2">
+              <Input
+                value={inputMessage}
+                onChange={(e) => setInputMessage(e.target.value)}
+                onKeyPress={handleKeyPress}
+                placeholder="Ask about process optimization, risks, best practices..."
+                disabled={loading || resumingSession || budgetNotice?.status === 'exceeded'}
+                className="flex-1"
+              />
+              {loading ? (
+                <Button
+                  onClick={stopResponse}
+                  variant="outline"
+                  size="sm"
+                  title="Stop generating"
+                >
+                  <Square className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => handleSendMessage()}
+                  disabled={!inputMessage.trim() || budgetNotice?.status === 'exceeded'}
+                  size="sm"
+                >
+                  <Send className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
           </div>
         </div>
       </CardContent>
@@ -1,10 +1,15 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
 import { useExport } from '@/hooks/useExport';
 import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { RulePackSettings, type RulePackSummary } from '@/components/RulePackSettings';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import type { BudgetNotice } from '@/lib/aiBudget';
 import * as XLSX from 'xlsx';
 import { 
   AlertCircle, 
@@ -17,7 +22,10 @@ import {
   FileText,
   FileSpreadsheet,
   Zap,
-  Play
+  Play,
+  Crosshair,
+  EyeOff,
+  Undo2
 } from 'lucide-react';
 
 interface Finding {
@@ -29,10 +37,45 @@ interface Finding {
   elementId: string | null;
   elementName: string | null;
   description: string;
+  relatedElementIds?: string[];
+  packId?: string;
+}
+
+interface SuppressedFinding extends Finding {
+  suppression: {
+    id: string;
+    ruleId: string;
+    elementId: string;
+    justification: string;
+  };
+}
+
+interface ComplexityMetric {
+  id: string;
+  name: string;
+  value: number;
+  medium: number;
+  high: number;
+  level: 'Low' | 'Medium' | 'High';
+  score: number;
+  contribution: number;
+  explanation: string;
+}
+
+interface ReadinessFactor {
+  id: string;
+  name: string;
+  applicable: boolean;
+  ratio: number;
+  contribution: number;
+  maxContribution: number;
+  detail: string;
 }
 
 interface AnalysisResult {
   fileId: string;
+  fileInfo?: { fileId: string; filePath: string };
+  aiBudget?: BudgetNotice | null;
   fileName: string;
   analyzedAt: string;
   summary: {
@@ -58,6 +101,20 @@ interface AnalysisResult {
     }>;
   };
   findings: Finding[];
+  suppressedFindings?: SuppressedFinding[];
+  rulePacks?: RulePackSummary[];
+  readinessBreakdown?: {
+    score: number;
+    factors: ReadinessFactor[];
+  };
+  complexityBreakdown?: {
+    score: number;
+    risk: 'Low' | 'Medium' | 'High';
+    // The risk in the language of the analysis; missing in analyses stored before it existed
+    riskLabel?: string;
+    drivers: string[];
+    metrics: ComplexityMetric[];
+  };
 }
 
 interface AnalysisResultsProps {
@@ -65,13 +122,97 @@ interface AnalysisResultsProps {
   loading: boolean;
   onRefresh?: () => void;
   onApplySuggestion?: (suggestion: any) => void;
+  onFindingSelect?: (finding: Finding) => void;
 }
 
-const AnalysisResults = ({ result, loading, onRefresh, onApplySuggestion }: AnalysisResultsProps) => {
+const AnalysisResults = ({ result, loading, onRefresh, onApplySuggestion, onFindingSelect }: AnalysisResultsProps) => {
   const [selectedFinding, setSelectedFinding] = useState<Finding | null>(null);
+  const [suppressedFindings, setSuppressedFindings] = useState<SuppressedFinding[]>([]);
+  const [restoredFindings, setRestoredFindings] = useState<Finding[]>([]);
+  const [suppressingId, setSuppressingId] = useState<string | null>(null);
+  const [justification, setJustification] = useState('');
+  const [showSuppressed, setShowSuppressed] = useState(false);
   const { exportAnalysisToPDF, exportAnalysisToExcel } = useExport();
   const { toast } = useToast();
 
+  useEffect(() => {
+    setSuppressedFindings(result?.suppressedFindings || []);
+    setRestoredFindings([]);
+  }, [result]);
+
+  // Suppressions made in this view apply immediately; the next analysis reads them from the table
+  const activeFindings = result
+    ? [...result.findings, ...restoredFindings].filter(f => !suppressedFindings.some(s => s.id === f.id))
+    : [];
+
+  const handleSuppressFinding = async (finding: Finding) => {
+    const fileId = result?.fileInfo?.fileId || result?.fileId;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!fileId || !user || !justification.trim()) return;
+
+    const { data, error } = await supabase
+      .from('analysis_finding_suppressions')
+      .upsert({
+        file_id: fileId,
+        rule_id: finding.ruleId,
+        element_id: finding.elementId || 'process',
+        justification: justification.trim(),
+        user_id: user.id
+      }, { onConflict: 'file_id,rule_id,element_id' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error suppressing finding:', error);
+      toast({
+        title: "Error",
+        description: "Failed to suppress finding.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSuppressedFindings(prev => [...prev, {
+      ...finding,
+      suppression: {
+        id: data.id,
+        ruleId: data.rule_id,
+        elementId: data.element_id,
+        justification: data.justification
+      }
+    }]);
+    setRestoredFindings(prev => prev.filter(f => f.id !== finding.id));
+    setSuppressingId(null);
+    setJustification('');
+    toast({
+      title: "Finding Suppressed",
+      description: `"${finding.ruleName}" will no longer be reported for this element.`,
+    });
+  };
+
+  const handleRestoreFinding = async (finding: SuppressedFinding) => {
+    const { error } = await supabase
+      .from('analysis_finding_suppressions')
+      .delete()
+      .eq('id', finding.suppression.id);
+
+    if (error) {
+      console.error('Error restoring finding:', error);
+      toast({
+        title: "Error",
+        description: "Failed to restore finding.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSuppressedFindings(prev => prev.filter(f => f.id !== finding.id));
+    if (!result?.findings.some(f => f.id === finding.id)) {
+      const { suppression, ...restored } = finding;
+      setRestoredFindings(prev => [...prev, restored]);
+    }
+  };
+
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
       case 'Error':
@@ -98,6 +239,17 @@ const AnalysisResults = ({ result, loading, onRefresh, onApplySuggestion }: Anal
     }
   };
 
+  const getComplexityVariant = (level: string): "default" | "secondary" | "destructive" | "outline" => {
+    switch (level) {
+      case 'High':
+        return 'destructive';
+      case 'Medium':
+        return 'secondary';
+      default:
+        return 'outline';
+    }
+  };
+
   const handleExportPDF = async () => {
     if (!result) return;
     try {
@@ -109,10 +261,10 @@ const AnalysisResults = ({ result, loading, onRefresh, onApplySuggestion }: Anal
           userTasks: result.summary.totalUserTasks,
           integrations: result.summary.totalServiceTasks,
           complexity: result.summary.riskLevel,
-          issueCount: result.findings.length,
+          issueCount: activeFindings.length,
         },
         processIntelligence: result.processIntelligence,
-        findings: result.findings.map(f => ({
+        findings: activeFindings.map(f => ({
           id: f.id,
           ruleName: f.ruleName,
           severity: f.severity.toLowerCase() as 'error' | 'warning' | 'info',
@@ -147,10 +299,10 @@ const AnalysisResults = ({ result, loading, onRefresh, onApplySuggestion }: Anal
           userTasks: result.summary.totalUserTasks,
           integrations: result.summary.totalServiceTasks,
           complexity: result.summary.riskLevel,
-          issueCount: result.findings.length,
+          issueCount: activeFindings.length,
         },
         processIntelligence: result.processIntelligence,
-        findings: result.findings.map(f => ({
+        findings: activeFindings.map(f => ({
           id: f.id,
           ruleName: f.ruleName,
           severity: f.severity.toLowerCase() as 'error' | 'warning' | 'info',
@@ -190,12 +342,17 @@ const AnalysisResults = ({ result, loading, onRefresh, onApplySuggestion }: Anal
       
       // Create numbered elements sheet
       const elementsData = [
-        ['Step Number', 'Step Detail', 'Swim Lane', 'Element Type', 'Element ID'],
+        ['Step #', 'Step Detail', 'Swim Lane', 'Element Type', 'Branch / Condition', 'Notes', 'Element ID'],
         ...exportData.numberedElements.map((element: any) => [
-          element.stepNumber,
-          element.stepDetail,
+          element.stepLabel || element.stepNumber,
+          `${'  '.repeat(element.depth || 0)}${element.stepDetail}`,
           element.swimLane || 'Unassigned',
           element.elementType,
+          element.branchLabel || '',
+          [
+            element.loopBackTo ? `Loops back to step ${element.loopBackTo}` : '',
+            element.unreachable ? 'Not reachable from a start event' : ''
+          ].filter(Boolean).join('; '),
           element.elementId
         ])
       ];
@@ -204,10 +361,12 @@ const AnalysisResults = ({ result, loading, onRefresh, onApplySuggestion }: Anal
       
       // Auto-size columns
       const colWidths = [
-        { width: 12 }, // Step Number
+        { width: 12 }, // Step #
         { width: 40 }, // Step Detail
         { width: 20 }, // Swim Lane
         { width: 15 }, // Element Type
+        { width: 25 }, // Branch / Condition
+        { width: 30 }, // Notes
         { width: 20 }  // Element ID
       ];
       elementsSheet['!cols'] = colWidths;
@@ -290,9 +449,9 @@ const AnalysisResults = ({ result, loading, onRefresh, onApplySuggestion }: Anal
     );
   }
 
-  const errorCount = result.findings.filter(f => f.severity === 'Error').length;
-  const warningCount = result.findings.filter(f => f.severity === 'Warning').length;
-  const infoCount = result.findings.filter(f => f.severity === 'Info').length;
+  const errorCount = activeFindings.filter(f => f.severity === 'Error').length;
+  const warningCount = activeFindings.filter(f => f.severity === 'Warning').length;
+  const infoCount = activeFindings.filter(f => f.severity === 'Info').length;
 
   return (
     <Card>
@@ -319,6 +478,9 @@ const AnalysisResults = ({ result, loading, onRefresh, onApplySuggestion }: Anal
                 Export Process Map
               </Button>
             )}
+            {result.rulePacks && result.rulePacks.length > 0 && (
+              <RulePackSettings packs={result.rulePacks} onRerun={onRefresh} />
+            )}
             {onRefresh && (
               <Button variant="outline" size="sm" onClick={onRefresh}>
                 <RefreshCw className="h-4 w-4 mr-2" />
@@ -329,6 +491,18 @@ const AnalysisResults = ({ result, loading, onRefresh, onApplySuggestion }: Anal
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
+        {result.aiBudget && (
+          <Alert variant={result.aiBudget.status === 'exceeded' ? 'destructive' : 'default'}>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>
+              {result.aiBudget.status === 'exceeded'
+                ? 'Monthly AI limit reached: insights below are rule-based'
+                : 'Approaching your monthly AI limit'}
+            </AlertTitle>
+            <AlertDescription>{result.aiBudget.message}</AlertDescription>
+          </Alert>
+        )}
+
         {/* Enhanced Summary */}
         <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
           <div className="text-center p-4 bg-muted/50 rounded-lg">
@@ -342,7 +516,9 @@ const AnalysisResults = ({ result, loading, onRefresh, onApplySuggestion }: Anal
             </div>
           )}
           <div className="text-center p-4 bg-purple-50 dark:bg-purple-950/20 rounded-lg">
-            <div className="text-2xl font-bold text-purple-600">{result.summary.processComplexity}</div>
+            <div className="text-2xl font-bold text-purple-600">
+              {result.complexityBreakdown?.score ?? result.summary.processComplexity}
+            </div>
             <div className="text-sm text-muted-foreground">Complexity</div>
           </div>
           <div className="text-center p-4 bg-red-50 dark:bg-red-950/20 rounded-lg">
@@ -359,6 +535,97 @@ const AnalysisResults = ({ result, loading, onRefresh, onApplySuggestion }: Anal
           </div>
         </div>
 
+        {/* Implementation Readiness */}
+        {result.readinessBreakdown && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold">Implementation Readiness</h3>
+              <Badge variant="outline">{result.readinessBreakdown.score}/10</Badge>
+            </div>
+            <div className="border rounded-lg divide-y">
+              {result.readinessBreakdown.factors.map((factor) => (
+                <div key={factor.id} className="grid grid-cols-12 gap-2 items-center p-3 text-sm">
+                  <div className="col-span-7">
+                    <div className="font-medium">{factor.name}</div>
+                    <div className="text-xs text-muted-foreground">{factor.detail}</div>
+                  </div>
+                  <div className="col-span-3">
+                    {factor.applicable && (
+                      <div className="h-2 bg-muted rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-green-500"
+                          style={{ width: `${factor.ratio * 100}%` }}
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <div className="col-span-2 text-right font-mono text-xs">
+                    {factor.applicable ? `${factor.contribution} / ${factor.maxContribution}` : 'n/a'}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Complexity Breakdown */}
+        {result.complexityBreakdown && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold">Complexity Breakdown</h3>
+              <Badge variant={getComplexityVariant(result.complexityBreakdown.risk)}>
+                {result.complexityBreakdown.riskLabel ?? `${result.complexityBreakdown.risk} risk`} • {result.complexityBreakdown.score}/10
+              </Badge>
+            </div>
+            {result.complexityBreakdown.drivers.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Driven by{' '}
+                {result.complexityBreakdown.metrics
+                  .filter(m => result.complexityBreakdown!.drivers.includes(m.id))
+                  .map(m => `${m.name} (${m.value})`)
+                  .join(', ')}
+              </p>
+            )}
+            <div className="border rounded-lg divide-y">
+              {result.complexityBreakdown.metrics.map((metric) => (
+                <div
+                  key={metric.id}
+                  className={`grid grid-cols-12 gap-2 items-center p-3 text-sm ${
+                    result.complexityBreakdown!.drivers.includes(metric.id) ? 'bg-muted/50' : ''
+                  }`}
+                >
+                  <div className="col-span-5">
+                    <div className="font-medium">{metric.name}</div>
+                    <div className="text-xs text-muted-foreground">{metric.explanation}</div>
+                  </div>
+                  <div className="col-span-2 text-right font-mono">{metric.value}</div>
+                  <div className="col-span-2 text-xs text-muted-foreground text-right">
+                    {metric.medium} / {metric.high}
+                  </div>
+                  <div className="col-span-1 text-right">
+                    <Badge variant={getComplexityVariant(metric.level)}>{metric.level}</Badge>
+                  </div>
+                  <div className="col-span-2">
+                    <div className="h-2 bg-muted rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-purple-500"
+                        style={{ width: `${metric.score * 10}%` }}
+                      />
+                    </div>
+                    <div className="text-xs text-muted-foreground text-right mt-1">
+                      +{metric.contribution} pts
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Thresholds are shown as medium / high. Risk is High when any metric reaches its high threshold,
+              Medium when two or more metrics reach their medium threshold.
+            </p>
+          </div>
+        )}
+
         {/* AI Insights Panel */}
         {result.processIntelligence && (
           <div className="bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-950/20 dark:to-purple-950/20 p-6 rounded-lg border">
@@ -449,14 +716,14 @@ const AnalysisResults = ({ result, loading, onRefresh, onApplySuggestion }: Anal
         {/* Findings */}
         <div className="space-y-4">
           <h3 className="text-lg font-semibold">Findings</h3>
-          {result.findings.length === 0 ? (
+          {activeFindings.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               <CheckCircle2 className="h-12 w-12 mx-auto mb-4 text-green-500" />
               <p>No issues found in your process!</p>
             </div>
           ) : (
             <div className="space-y-3">
-              {result.findings.map((finding) => (
+              {activeFindings.map((finding) => (
                 <div
                   key={finding.id}
                   className="p-4 border rounded-lg cursor-pointer hover:bg-muted/50 transition-colors"
@@ -482,8 +749,59 @@ const AnalysisResults = ({ result, loading, onRefresh, onApplySuggestion }: Anal
                         </p>
                       )}
                       {selectedFinding?.id === finding.id && (
-                        <div className="mt-3 pt-3 border-t">
+                        <div className="mt-3 pt-3 border-t space-y-3">
                           <p className="text-sm">{finding.description}</p>
+                          <div className="flex gap-2">
+                            {onFindingSelect && finding.elementId && finding.elementId !== 'process' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onFindingSelect(finding);
+                                }}
+                              >
+                                <Crosshair className="h-4 w-4 mr-2" />
+                                Show in Diagram
+                              </Button>
+                            )}
+                            {finding.ruleId && suppressingId !== finding.id && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setSuppressingId(finding.id);
+                                  setJustification('');
+                                }}
+                              >
+                                <EyeOff className="h-4 w-4 mr-2" />
+                                Suppress
+                              </Button>
+                            )}
+                          </div>
+                          {suppressingId === finding.id && (
+                            <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+                              <Textarea
+                                placeholder="Why is this finding acceptable for this process?"
+                                value={justification}
+                                onChange={(e) => setJustification(e.target.value)}
+                                rows={2}
+                              />
+                              <div className="flex gap-2">
+                                <Button
+                                  size="sm"
+                                  disabled={!justification.trim()}
+                                  onClick={() => handleSuppressFinding(finding)}
+                                >
+                                  Suppress Finding
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => setSuppressingId(null)}>
+                                  Cancel
+                                </Button>
+                              </div>
+                            </div>
+                          )}
                         </div>
                       )}
                     </div>
@@ -492,6 +810,35 @@ const AnalysisResults = ({ result, loading, onRefresh, onApplySuggestion }: Anal
               ))}
             </div>
           )}
+
+          {suppressedFindings.length > 0 && (
+            <div className="space-y-3">
+              <Button variant="ghost" size="sm" onClick={() => setShowSuppressed(!showSuppressed)}>
+                <EyeOff className="h-4 w-4 mr-2" />
+                {showSuppressed ? 'Hide' : 'Show'} {suppressedFindings.length} suppressed finding(s)
+              </Button>
+              {showSuppressed && suppressedFindings.map((finding) => (
+                <div key={finding.id} className="p-4 border border-dashed rounded-lg opacity-75">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-2 mb-1">
+                        <Badge variant="outline">{finding.severity}</Badge>
+                        <span className="font-medium">{finding.ruleName}</span>
+                      </div>
+                      <p className="text-sm text-muted-foreground">{finding.message}</p>
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Justification: {finding.suppression.justification}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleRestoreFinding(finding)}>
+                      <Undo2 className="h-4 w-4 mr-2" />
+                      Restore
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -10,6 +10,7 @@ import * as XLSX from 'xlsx';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import BizagiIntegration from './BizagiIntegration';
 import { ProcessElementBrowser } from './ProcessElementBrowser';
+import { SUGGESTION_RESULT_EVENT, type SuggestionResultDetail } from '@/lib/chatEditProposals';
 
 interface BpmnViewerProps {
   fileId: string;
@@ -20,19 +21,26 @@ interface BpmnViewerProps {
   suggestions?: AIEditingSuggestion[];
   onSuggestionApplied?: (suggestion: AIEditingSuggestion) => void;
   analysisResult?: any;
+  focusElement?: { elementId: string; relatedElementIds?: string[] } | null;
+  // Applied once the diagram is loaded (e.g. an edit accepted in the chat)
+  pendingSuggestion?: AIEditingSuggestion | null;
+  onPendingSuggestionHandled?: () => void;
 }
 
 interface AIEditingSuggestion {
   id: string;
-  type: 'add-task' | 'add-gateway' | 'change-gateway' | 'optimize-flow' | 'add-role';
+  type:
+    | 'add-task' | 'add-gateway' | 'change-gateway' | 'optimize-flow' | 'add-role'
+    | 'insert-task-after' | 'rename-element' | 'move-to-lane';
   elementId?: string;
   description: string;
   details: any;
 }
 
-const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions = [], onSuggestionApplied, analysisResult: externalAnalysisResult }: BpmnViewerProps) => {
+const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions = [], onSuggestionApplied, analysisResult: externalAnalysisResult, focusElement, pendingSuggestion, onPendingSuggestionHandled }: BpmnViewerProps) => {
   const viewerRef = useRef<HTMLDivElement>(null);
   const bpmnModelerRef = useRef<any>(null);
+  const focusElementRef = useRef(focusElement);
   const [loading, setLoading] = useState(true);
   const [hasChanges, setHasChanges] = useState(false);
   const [currentBpmnXml, setCurrentBpmnXml] = useState<string>('');
@@ -50,6 +58,35 @@ const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions
     }
   }, [externalAnalysisResult]);
 
+  // Select and scroll to the element a finding points at, once the diagram is loaded
+  const focusDiagramElement = (target: BpmnViewerProps['focusElement']) => {
+    if (!bpmnModelerRef.current || !target?.elementId) return;
+
+    const elementRegistry = bpmnModelerRef.current.get('elementRegistry');
+    const canvas = bpmnModelerRef.current.get('canvas');
+    const element = elementRegistry.get(target.elementId);
+    // Process-level findings point at the root; there is nothing to scroll to
+    if (!element || element === canvas.getRootElement()) return;
+
+    const related = (target.relatedElementIds || [])
+      .map(id => elementRegistry.get(id))
+      .filter(Boolean);
+
+    canvas.scrollToElement(element, { top: 100, bottom: 100, left: 100, right: 100 });
+    bpmnModelerRef.current.get('selection').select([element, ...related]);
+  };
+
+  useEffect(() => {
+    focusElementRef.current = focusElement;
+    focusDiagramElement(focusElement);
+  }, [focusElement]);
+
+  useEffect(() => {
+    if (loading || !pendingSuggestion) return;
+    onPendingSuggestionHandled?.();
+    applySuggestion(pendingSuggestion);
+  }, [pendingSuggestion, loading]);
+
   const getCurrentBpmnXml = async (): Promise<string> => {
     if (!bpmnModelerRef.current) return '';
     try {
@@ -99,7 +136,7 @@ const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions
         if (targetElement) {
           overlays.add(element.elementId, {
             position: { top: -10, left: -10 },
-            html: `<div style="background: #3b82f6; color: white; border-radius: 50%; width: 24px; height: 24px; display: flex; align-items: center; justify-content: center; font-size: 12px; font-weight: bold; box-shadow: 0 2px 4px rgba(0,0,0,0.2);">${element.stepNumber}</div>`
+            html: `<div style="background: ${element.unreachable ? '#ef4444' : '#3b82f6'}; color: white; border-radius: 12px; min-width: 24px; height: 24px; padding: 0 6px; display: flex; align-items: center; justify-content: center; font-size: 12px; font-weight: bold; white-space: nowrap; box-shadow: 0 2px 4px rgba(0,0,0,0.2);">${element.stepLabel || element.stepNumber}</div>`
           });
         }
       });
@@ -122,12 +159,17 @@ const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions
       
       // Create numbered elements sheet
       const elementsData = [
-        ['Step Number', 'Step Detail', 'Swim Lane', 'Element Type', 'Element ID'],
+        ['Step #', 'Step Detail', 'Swim Lane', 'Element Type', 'Branch / Condition', 'Notes', 'Element ID'],
         ...analysisResult.exportData.numberedElements.map((element: any) => [
-          element.stepNumber,
-          element.stepDetail,
+          element.stepLabel || element.stepNumber,
+          `${'  '.repeat(element.depth || 0)}${element.stepDetail}`,
           element.swimLane || 'Unassigned',
           element.elementType,
+          element.branchLabel || '',
+          [
+            element.loopBackTo ? `Loops back to step ${element.loopBackTo}` : '',
+            element.unreachable ? 'Not reachable from a start event' : ''
+          ].filter(Boolean).join('; '),
           element.elementId
         ])
       ];
@@ -136,10 +178,12 @@ const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions
       
       // Auto-size columns
       const colWidths = [
-        { width: 12 }, // Step Number
+        { width: 12 }, // Step #
         { width: 40 }, // Step Detail
         { width: 20 }, // Swim Lane
         { width: 15 }, // Element Type
+        { width: 25 }, // Branch / Condition
+        { width: 30 }, // Notes
         { width: 20 }  // Element ID
       ];
       elementsSheet['!cols'] = colWidths;
@@ -235,6 +279,7 @@ const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions
       // Fit diagram to viewport
       const canvas = bpmnModelerRef.current.get('canvas');
       canvas.zoom('fit-viewport');
+      focusDiagramElement(focusElementRef.current);
       
       setHasChanges(false);
       
@@ -382,6 +427,13 @@ const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions
   };
 
   const applySuggestion = async (suggestion: AIEditingSuggestion) => {
+    // Tell other components (the chat's proposal cards) how the application ended
+    const reportResult = (result: Omit<SuggestionResultDetail, 'suggestionId'>) => {
+      window.dispatchEvent(new CustomEvent<SuggestionResultDetail>(SUGGESTION_RESULT_EVENT, {
+        detail: { suggestionId: suggestion.id, ...result }
+      }));
+    };
+
     // Prevent duplicate applications
     if (appliedSuggestions.has(suggestion.id)) {
       console.log('⚠️ Suggestion already applied:', suggestion.id);
@@ -390,6 +442,7 @@ const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions
         description: "This suggestion has already been applied.",
         variant: "destructive",
       });
+      reportResult({ success: false, error: 'This suggestion has already been applied.' });
       return;
     }
 
@@ -402,6 +455,7 @@ const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions
         description: `Please wait ${remainingSeconds} seconds before applying another suggestion.`,
         variant: "destructive",
       });
+      reportResult({ success: false, error: `Please wait ${remainingSeconds} seconds before applying another suggestion.` });
       return;
     }
 
@@ -412,6 +466,7 @@ const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions
         description: "Please wait for the current operation to complete.",
         variant: "destructive",
       });
+      reportResult({ success: false, error: 'Another suggestion is being applied.' });
       return;
     }
 
@@ -422,6 +477,7 @@ const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions
         description: "BPMN editor is not ready. Please wait for the diagram to load.",
         variant: "destructive",
       });
+      reportResult({ success: false, error: 'The BPMN editor is not ready.' });
       return;
     }
 
@@ -622,6 +678,77 @@ const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions
             }
             break;
 
+          case 'insert-task-after': {
+            if (!targetElement) {
+              throw new Error(`Target element ${suggestion.elementId} not found in diagram`);
+            }
+            console.log('🔨 Inserting task after', targetElement.id);
+
+            const insertTaskType = suggestion.details?.taskType || 'bpmn:Task';
+            const insertTaskName = suggestion.details?.name || 'New Task';
+            // The flow that left the target now leaves the new task
+            const followingFlows = (targetElement.outgoing || []).filter(
+              (connection: { type: string }) => connection.type === 'bpmn:SequenceFlow'
+            );
+            if (followingFlows.length > 1) {
+              throw new Error(`Element ${suggestion.elementId} has more than one outgoing flow`);
+            }
+
+            const insertedTask = modeling.appendShape(
+              targetElement,
+              { type: insertTaskType },
+              {
+                x: targetElement.x + targetElement.width + 100,
+                y: targetElement.y + targetElement.height / 2
+              }
+            );
+            modeling.updateLabel(insertedTask, insertTaskName);
+            followingFlows.forEach(connection => {
+              modeling.reconnectStart(connection, insertedTask, {
+                x: insertedTask.x + insertedTask.width,
+                y: insertedTask.y + insertedTask.height / 2
+              });
+            });
+
+            operationSuccess = true;
+            createdElementId = insertedTask.id;
+            operationDetails = `Task "${insertTaskName}" inserted after ${targetElement.businessObject.name || targetElement.id}`;
+            console.log('✅ Task inserted successfully:', insertedTask.id);
+            break;
+          }
+
+          case 'rename-element': {
+            if (!targetElement) {
+              throw new Error(`Target element ${suggestion.elementId} not found in diagram`);
+            }
+            const previousName = targetElement.businessObject.name || targetElement.id;
+            modeling.updateLabel(targetElement, suggestion.details?.name);
+            operationSuccess = true;
+            operationDetails = `"${previousName}" renamed to "${suggestion.details?.name}"`;
+            console.log('✅ Element renamed:', targetElement.id);
+            break;
+          }
+
+          case 'move-to-lane': {
+            if (!targetElement) {
+              throw new Error(`Target element ${suggestion.elementId} not found in diagram`);
+            }
+            const lane = elementRegistry.get(suggestion.details?.laneId);
+            if (!lane || lane.type !== 'bpmn:Lane') {
+              throw new Error(`Lane ${suggestion.details?.laneId} not found in diagram`);
+            }
+
+            // Moving the shape vertically into the lane also updates the lane membership
+            modeling.moveElements([targetElement], {
+              x: 0,
+              y: (lane.y + lane.height / 2) - (targetElement.y + targetElement.height / 2)
+            });
+            operationSuccess = true;
+            operationDetails = `${targetElement.businessObject.name || targetElement.id} moved to lane "${lane.businessObject.name || lane.id}"`;
+            console.log('✅ Element moved to lane:', lane.id);
+            break;
+          }
+
           case 'optimize-flow':
             console.log('🔨 Optimizing process flow');
             operationDetails = 'Flow optimization applied';
@@ -673,6 +800,7 @@ const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions
               description: `The suggestion type "${suggestion.type}" is not yet implemented.`,
               variant: "destructive",
             });
+            reportResult({ success: false, error: `Unsupported suggestion type "${suggestion.type}".` });
             return;
         }
       } catch (bpmnError: any) {
@@ -710,6 +838,7 @@ const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions
 
       // Trigger suggestion applied callback to remove from list
       onSuggestionApplied?.(suggestion);
+      reportResult({ success: true, version: saveResult.version });
       
       console.log('🎉 AI suggestion application completed successfully');
       
@@ -728,6 +857,7 @@ const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions
         description: error.message || "An unexpected error occurred while applying the suggestion.",
         variant: "destructive",
       });
+      reportResult({ success: false, error: error.message || 'Failed to apply the suggestion.' });
     } finally {
       // Always reset operation in progress state
       setIsOperationInProgress(false);
@@ -969,7 +1099,7 @@ const BpmnViewer = ({ fileId, fileName, filePath, onAnalyze, onSave, suggestions
                       </Button>
                     </TooltipTrigger>
                     <TooltipContent>
-                      {showNumbers ? 'Hide' : 'Show'} AI-generated element numbering (Process flow order: Start → Tasks → Gateways → End)
+                      {showNumbers ? 'Hide' : 'Show'} step numbering (follows sequence flows from the start event; branches as 4.1, 4.2)
                     </TooltipContent>
                   </Tooltip>
                   
@@ -0,0 +1,36 @@
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface ChatBranchSwitcherProps {
+  index: number;
+  count: number;
+  disabled?: boolean;
+  onSelect: (index: number) => void;
+}
+
+// Pages through the versions of a chat message (regenerated answers, edited questions)
+export const ChatBranchSwitcher = ({ index, count, disabled = false, onSelect }: ChatBranchSwitcherProps) => (
+  <div className="inline-flex items-center gap-0.5 align-middle">
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-5 w-5 p-0"
+      onClick={() => onSelect(index - 1)}
+      disabled={disabled || index === 0}
+      title="Previous version"
+    >
+      <ChevronLeft className="h-3 w-3" />
+    </Button>
+    <span className="text-[10px] tabular-nums">{index + 1}/{count}</span>
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-5 w-5 p-0"
+      onClick={() => onSelect(index + 1)}
+      disabled={disabled || index === count - 1}
+      title="Next version"
+    >
+      <ChevronRight className="h-3 w-3" />
+    </Button>
+  </div>
+);
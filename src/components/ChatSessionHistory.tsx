@@ -0,0 +1,378 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { Archive, ArchiveRestore, Check, Loader2, Pencil, Search, Trash2, X } from 'lucide-react';
+
+export interface ChatSession {
+  id: string;
+  title: string | null;
+  session_summary: string | null;
+  status: string;
+  last_activity_at: string;
+  prompt_profile_id?: string | null;
+  // Last message of the branch the chat shows
+  active_message_id?: string | null;
+}
+
+interface MessageSearchResult {
+  id: string;
+  content: string;
+  created_at: string;
+  session: {
+    id: string;
+    title: string | null;
+    bpmn_file_id: string | null;
+    prompt_profile_id: string | null;
+    bpmn_files: { file_name: string } | null;
+  };
+}
+
+interface ChatSessionHistoryProps {
+  bpmnFileId?: string;
+  activeSessionId: string | null;
+  disabled?: boolean;
+  // messageId opens the branch containing that message instead of the active one
+  onResume: (session: ChatSession, messageId?: string) => void;
+  onSessionRemoved: (sessionId: string) => void;
+}
+
+const SNIPPET_RADIUS = 60;
+
+// Text around the first match, so search results show why they matched
+const snippetAround = (content: string, query: string) => {
+  const index = content.toLowerCase().indexOf(query.toLowerCase());
+  if (index === -1) return content.slice(0, SNIPPET_RADIUS * 2);
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(content.length, index + query.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '...' : ''}${content.slice(start, end)}${end < content.length ? '...' : ''}`;
+};
+
+export const ChatSessionHistory = ({
+  bpmnFileId,
+  activeSessionId,
+  disabled = false,
+  onResume,
+  onSessionRemoved
+}: ChatSessionHistoryProps) => {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<MessageSearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSessions();
+  }, [bpmnFileId, showArchived, activeSessionId]);
+
+  const loadSessions = async () => {
+    if (!bpmnFileId) {
+      setSessions([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('ai_chat_sessions')
+        .select('id, title, session_summary, status, last_activity_at, prompt_profile_id, active_message_id')
+        .eq('bpmn_file_id', bpmnFileId)
+        .eq('status', showArchived ? 'archived' : 'active')
+        .order('last_activity_at', { ascending: false });
+
+      if (error) throw error;
+      setSessions(data || []);
+    } catch (error) {
+      console.error('Error loading chat sessions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load chat history",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Searches all of the user's messages (RLS limits the rows to their own sessions)
+  const searchMessages = async () => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+
+    setSearching(true);
+    try {
+      const pattern = `%${query.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+      const { data, error } = await supabase
+        .from('ai_chat_messages')
+        .select('id, content, created_at, session:ai_chat_sessions!inner(id, title, bpmn_file_id, prompt_profile_id, bpmn_files(file_name))')
+        .in('role', ['user', 'assistant'])
+        .ilike('content', pattern)
+        .order('created_at', { ascending: false })
+        .limit(30);
+
+      if (error) throw error;
+      setSearchResults((data || []) as unknown as MessageSearchResult[]);
+    } catch (error) {
+      console.error('Error searching chat messages:', error);
+      toast({
+        title: "Search failed",
+        description: "Could not search your past messages",
+        variant: "destructive",
+      });
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const startRename = (session: ChatSession) => {
+    setRenamingId(session.id);
+    setRenameValue(session.title || '');
+  };
+
+  const saveRename = async (sessionId: string) => {
+    const title = renameValue.trim();
+    if (!title) return;
+
+    const { error } = await supabase
+      .from('ai_chat_sessions')
+      .update({ title })
+      .eq('id', sessionId);
+
+    if (error) {
+      console.error('Error renaming chat session:', error);
+      toast({
+        title: "Error",
+        description: "Failed to rename the chat",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSessions(sessions.map(session => session.id === sessionId ? { ...session, title } : session));
+    setRenamingId(null);
+  };
+
+  const toggleArchived = async (session: ChatSession) => {
+    const status = session.status === 'archived' ? 'active' : 'archived';
+    const { error } = await supabase
+      .from('ai_chat_sessions')
+      .update({ status })
+      .eq('id', session.id);
+
+    if (error) {
+      console.error('Error updating chat session status:', error);
+      toast({
+        title: "Error",
+        description: `Failed to ${status === 'archived' ? 'archive' : 'restore'} the chat`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The session moves to the other list
+    setSessions(sessions.filter(item => item.id !== session.id));
+    toast({
+      title: status === 'archived' ? "Chat archived" : "Chat restored",
+      description: session.title || 'Untitled chat',
+    });
+  };
+
+  const deleteSession = async (session: ChatSession) => {
+    if (!confirm('Delete this chat and all of its messages?')) return;
+
+    const { error } = await supabase
+      .from('ai_chat_sessions')
+      .delete()
+      .eq('id', session.id);
+
+    if (error) {
+      console.error('Error deleting chat session:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the chat",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSessions(sessions.filter(item => item.id !== session.id));
+    setSearchResults(searchResults?.filter(result => result.session.id !== session.id) || null);
+    onSessionRemoved(session.id);
+  };
+
+  const resumeFromSearch = (result: MessageSearchResult) => {
+    onResume({
+      id: result.session.id,
+      title: result.session.title,
+      session_summary: null,
+      status: 'active',
+      last_activity_at: result.created_at,
+      prompt_profile_id: result.session.prompt_profile_id,
+    }, result.id);
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="p-3 space-y-2 border-b">
+        <div className="flex gap-1">
+          <Input
+            value={searchQuery}
+            onChange={(e) => {
+              setSearchQuery(e.target.value);
+              if (!e.target.value.trim()) setSearchResults(null);
+            }}
+            onKeyDown={(e) => e.key === 'Enter' && searchMessages()}
+            placeholder="Search past messages"
+            className="h-8 text-xs"
+          />
+          <Button size="sm" variant="outline" className="h-8 px-2" onClick={searchMessages} disabled={searching}>
+            {searching ? <Loader2 className="h-3 w-3 animate-spin" /> : <Search className="h-3 w-3" />}
+          </Button>
+        </div>
+        {!searchResults && (
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant={showArchived ? 'ghost' : 'secondary'}
+              className="h-6 px-2 text-xs"
+              onClick={() => setShowArchived(false)}
+            >
+              Active
+            </Button>
+            <Button
+              size="sm"
+              variant={showArchived ? 'secondary' : 'ghost'}
+              className="h-6 px-2 text-xs"
+              onClick={() => setShowArchived(true)}
+            >
+              Archived
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {searchResults ? (
+          searchResults.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-6">No messages match "{searchQuery.trim()}"</p>
+          ) : (
+            searchResults.map((result) => {
+              const otherFile = result.session.bpmn_file_id !== bpmnFileId;
+              return (
+                <button
+                  key={result.id}
+                  className="w-full text-left rounded-md p-2 text-xs hover:bg-muted disabled:opacity-60 disabled:hover:bg-transparent"
+                  onClick={() => resumeFromSearch(result)}
+                  disabled={disabled || otherFile}
+                  title={otherFile ? 'Open that process to resume this chat' : undefined}
+                >
+                  <div className="font-medium truncate">{result.session.title || 'Untitled chat'}</div>
+                  <div className="text-muted-foreground line-clamp-3 break-words">
+                    {snippetAround(result.content, searchQuery.trim())}
+                  </div>
+                  <div className="text-[10px] text-muted-foreground mt-1">
+                    {otherFile && `${result.session.bpmn_files?.file_name || 'Another process'} · `}
+                    {formatDistanceToNow(new Date(result.created_at), { addSuffix: true })}
+                  </div>
+                </button>
+              );
+            })
+          )
+        ) : loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-6">
+            {showArchived ? 'No archived chats' : 'No previous chats for this process'}
+          </p>
+        ) : (
+          sessions.map((session) => (
+            <div
+              key={session.id}
+              className={`group rounded-md p-2 text-xs ${
+                session.id === activeSessionId ? 'bg-muted' : 'hover:bg-muted/60'
+              }`}
+            >
+              {renamingId === session.id ? (
+                <div className="flex gap-1">
+                  <Input
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveRename(session.id);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="h-7 text-xs"
+                    autoFocus
+                  />
+                  <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => saveRename(session.id)}>
+                    <Check className="h-3 w-3" />
+                  </Button>
+                  <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => setRenamingId(null)}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <button
+                    className="w-full text-left disabled:opacity-60"
+                    onClick={() => onResume(session)}
+                    disabled={disabled}
+                  >
+                    <div className="flex items-center gap-1">
+                      <span className="font-medium truncate flex-1">{session.title || 'Untitled chat'}</span>
+                      {session.id === activeSessionId && (
+                        <Badge variant="outline" className="text-[10px] px-1 py-0">Open</Badge>
+                      )}
+                    </div>
+                    {session.session_summary && (
+                      <div className="text-muted-foreground line-clamp-2 break-words">{session.session_summary}</div>
+                    )}
+                    <div className="text-[10px] text-muted-foreground mt-1">
+                      {formatDistanceToNow(new Date(session.last_activity_at), { addSuffix: true })}
+                    </div>
+                  </button>
+                  <div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button size="sm" variant="ghost" className="h-6 w-6 p-0" title="Rename" onClick={() => startRename(session)}>
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 w-6 p-0"
+                      title={session.status === 'archived' ? 'Restore' : 'Archive'}
+                      onClick={() => toggleArchived(session)}
+                    >
+                      {session.status === 'archived' ? <ArchiveRestore className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 w-6 p-0 text-destructive"
+                      title="Delete"
+                      onClick={() => deleteSession(session)}
+                      disabled={disabled && session.id === activeSessionId}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ArrowRightLeft, Check, GitBranch, Loader2, PencilLine, SquarePlus, X } from 'lucide-react';
+import type { EditProposal } from '@/lib/chatEditProposals';
+
+interface EditProposalCardProps {
+  proposal: EditProposal;
+  applying: boolean;
+  disabled?: boolean;
+  onApply?: () => void;
+  onReject: () => void;
+}
+
+const PROPOSAL_ICONS = {
+  'insert-task-after': SquarePlus,
+  'rename-element': PencilLine,
+  'move-to-lane': ArrowRightLeft,
+  'change-gateway': GitBranch,
+};
+
+// A diagram edit proposed in the chat, with apply/reject actions while it is pending
+export const EditProposalCard = ({ proposal, applying, disabled = false, onApply, onReject }: EditProposalCardProps) => {
+  const Icon = PROPOSAL_ICONS[proposal.type] || PencilLine;
+
+  return (
+    <div className="rounded-md border bg-background p-2 text-xs space-y-2">
+      <div className="flex items-start gap-2">
+        <Icon className="h-4 w-4 mt-0.5 flex-shrink-0 text-primary" />
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="font-medium break-words">{proposal.description}</div>
+          {proposal.reason && (
+            <div className="text-muted-foreground break-words">{proposal.reason}</div>
+          )}
+          <div className="font-mono text-[10px] text-muted-foreground">{proposal.elementId}</div>
+        </div>
+        {proposal.status !== 'pending' && (
+          <Badge variant={proposal.status === 'applied' ? 'default' : 'secondary'} className="text-[10px]">
+            {proposal.status === 'applied' ? 'Applied' : 'Rejected'}
+          </Badge>
+        )}
+      </div>
+
+      {proposal.status === 'pending' && (
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={onReject} disabled={applying || disabled}>
+            <X className="h-3 w-3 mr-1" />
+            Reject
+          </Button>
+          {onApply && (
+            <Button size="sm" className="h-6 px-2 text-xs" onClick={onApply} disabled={applying || disabled}>
+              {applying ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Check className="h-3 w-3 mr-1" />}
+              Apply
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
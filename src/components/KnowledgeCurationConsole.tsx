@@ -0,0 +1,488 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { format } from 'date-fns';
+import { BookOpenCheck, Check, Clock, Merge, Pencil, RefreshCw, X } from 'lucide-react';
+
+type KnowledgeEntry = Pick<
+  Tables<'process_knowledge_base'>,
+  | 'id'
+  | 'knowledge_type'
+  | 'extracted_insights'
+  | 'confidence_score'
+  | 'effectiveness_score'
+  | 'usage_count'
+  | 'source_session_id'
+  | 'source_session_ids'
+  | 'review_status'
+  | 'review_notes'
+  | 'reviewed_at'
+  | 'expires_at'
+  | 'created_at'
+>;
+
+type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'merged';
+
+interface Insights {
+  title?: string;
+  description?: string;
+  practice_description?: string;
+  context?: unknown;
+  conversation_summary?: string;
+}
+
+interface EditForm {
+  knowledgeType: string;
+  title: string;
+  description: string;
+  context: string;
+  confidence: string;
+  expiresOn: string;
+  notes: string;
+}
+
+const KNOWLEDGE_TYPES = ['optimization', 'risk_assessment', 'best_practice', 'implementation', 'pattern'];
+const STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected', 'expired', 'merged'];
+
+const insightsOf = (entry: KnowledgeEntry) =>
+  (entry.extracted_insights && typeof entry.extracted_insights === 'object' ? entry.extracted_insights : {}) as Insights;
+
+// Patterns stored by ai-chat's inline extraction have no title, only a practice description
+const titleOf = (entry: KnowledgeEntry) => {
+  const insights = insightsOf(entry);
+  return insights.title || insights.practice_description?.slice(0, 80) || 'Untitled pattern';
+};
+
+const contextText = (context: unknown) =>
+  typeof context === 'string' ? context : context ? JSON.stringify(context) : '';
+
+const formatType = (type: string) => type.replace(/_/g, ' ');
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+
+const isPastExpiry = (entry: KnowledgeEntry) => !!entry.expires_at && new Date(entry.expires_at) <= new Date();
+
+// Admin review queue for extracted knowledge. Chat answers only draw on approved entries,
+// so new patterns stay out of prompts until a reviewer approves (or edits) them here.
+export function KnowledgeCurationConsole() {
+  const [entries, setEntries] = useState<KnowledgeEntry[]>([]);
+  const [status, setStatus] = useState<ReviewStatus>('pending');
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [editing, setEditing] = useState<KnowledgeEntry | null>(null);
+  const [form, setForm] = useState<EditForm | null>(null);
+  const [merging, setMerging] = useState(false);
+  const [keepId, setKeepId] = useState<string | null>(null);
+  const [mergeNotes, setMergeNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadEntries();
+  }, [status]);
+
+  const loadEntries = async () => {
+    setLoading(true);
+    setSelectedIds([]);
+    try {
+      const { data, error } = await supabase
+        .from('process_knowledge_base')
+        .select('id, knowledge_type, extracted_insights, confidence_score, effectiveness_score, usage_count, source_session_id, source_session_ids, review_status, review_notes, reviewed_at, expires_at, created_at')
+        .eq('review_status', status)
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      console.error('Error loading knowledge entries:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load knowledge entries",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const curate = async (body: Record<string, unknown>, success: string) => {
+    const { data, error } = await supabase.functions.invoke('knowledge-curation', { body });
+    if (error || data?.error) {
+      console.error('Knowledge curation failed:', error || data.error);
+      toast({
+        title: "Curation failed",
+        description: data?.error || error?.message || 'The knowledge entry was not updated',
+        variant: "destructive",
+      });
+      return false;
+    }
+    toast({ title: success });
+    await loadEntries();
+    return true;
+  };
+
+  const setReviewStatus = async (entry: KnowledgeEntry, action: 'approve' | 'reject' | 'expire') => {
+    setBusyId(entry.id);
+    const labels = { approve: 'Pattern approved', reject: 'Pattern rejected', expire: 'Pattern expired' };
+    await curate({ action, entryId: entry.id }, labels[action]);
+    setBusyId(null);
+  };
+
+  const openEditor = (entry: KnowledgeEntry) => {
+    const insights = insightsOf(entry);
+    setEditing(entry);
+    setForm({
+      knowledgeType: entry.knowledge_type,
+      title: titleOf(entry),
+      description: insights.description || insights.practice_description || '',
+      context: contextText(insights.context),
+      confidence: String(entry.confidence_score ?? 0.5),
+      expiresOn: entry.expires_at ? entry.expires_at.slice(0, 10) : '',
+      notes: entry.review_notes || '',
+    });
+  };
+
+  const saveEdit = async () => {
+    if (!editing || !form) return;
+
+    const confidence = Number(form.confidence);
+    if (!form.title.trim() || !form.description.trim() || !Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+      toast({
+        title: "Invalid pattern",
+        description: "Title and description are required and confidence must be between 0 and 1",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const saved = await curate({
+      action: 'edit',
+      entryId: editing.id,
+      notes: form.notes.trim() || undefined,
+      changes: {
+        knowledgeType: form.knowledgeType,
+        title: form.title.trim(),
+        description: form.description.trim(),
+        context: form.context.trim(),
+        confidence,
+        expiresAt: form.expiresOn ? new Date(`${form.expiresOn}T23:59:59`).toISOString() : null,
+      },
+    }, 'Pattern updated');
+    setSaving(false);
+    if (saved) setEditing(null);
+  };
+
+  const openMerge = () => {
+    // Keep the most trusted entry by default
+    const selected = entries.filter(entry => selectedIds.includes(entry.id));
+    const best = [...selected].sort((a, b) =>
+      (b.effectiveness_score ?? 0) - (a.effectiveness_score ?? 0) || (b.confidence_score ?? 0) - (a.confidence_score ?? 0)
+    )[0];
+    setKeepId(best?.id ?? null);
+    setMergeNotes('');
+    setMerging(true);
+  };
+
+  const saveMerge = async () => {
+    if (!keepId) return;
+    setSaving(true);
+    const merged = await curate({
+      action: 'merge',
+      entryId: keepId,
+      duplicateIds: selectedIds.filter(id => id !== keepId),
+      notes: mergeNotes.trim() || undefined,
+    }, `Merged ${selectedIds.length - 1} duplicate${selectedIds.length > 2 ? 's' : ''}`);
+    setSaving(false);
+    if (merged) setMerging(false);
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter(selected => selected !== id));
+  };
+
+  const canSelect = status !== 'merged';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <BookOpenCheck className="h-5 w-5" />
+            Knowledge Curation
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={status} onValueChange={(value) => setStatus(value as ReviewStatus)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATUSES.map(option => (
+                  <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={loadEntries} variant="outline" size="sm" disabled={loading}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </div>
+        <CardDescription>
+          Patterns extracted from chat sessions. Only approved patterns are used in AI chat answers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {selectedIds.length > 1 && (
+          <div className="flex items-center justify-between rounded-md border p-2 text-sm">
+            <span>{selectedIds.length} patterns selected</span>
+            <Button size="sm" variant="outline" onClick={openMerge}>
+              <Merge className="h-4 w-4 mr-2" />
+              Merge Duplicates
+            </Button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+            <p className="text-muted-foreground">Loading knowledge entries...</p>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No {status} patterns</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {canSelect && <TableHead className="w-8" />}
+                <TableHead>Pattern</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Confidence</TableHead>
+                <TableHead>Source Session</TableHead>
+                <TableHead>Usage</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const insights = insightsOf(entry);
+                const busy = busyId === entry.id;
+                return (
+                  <TableRow key={entry.id}>
+                    {canSelect && (
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.includes(entry.id)}
+                          onCheckedChange={(checked) => toggleSelected(entry.id, checked === true)}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell className="max-w-md">
+                      <div className="font-medium">{titleOf(entry)}</div>
+                      {insights.description && (
+                        <div className="text-xs text-muted-foreground line-clamp-3">{insights.description}</div>
+                      )}
+                      {entry.expires_at && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {isPastExpiry(entry) ? 'Expired' : 'Expires'} {format(new Date(entry.expires_at), 'MMM d, yyyy')}
+                        </div>
+                      )}
+                      {entry.review_notes && (
+                        <div className="text-xs italic text-muted-foreground mt-1">{entry.review_notes}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="capitalize">{formatType(entry.knowledge_type)}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{formatPercent(entry.confidence_score)}</TableCell>
+                    <TableCell className="max-w-xs">
+                      {entry.source_session_id ? (
+                        <>
+                          <div className="font-mono text-xs">
+                            {entry.source_session_id.slice(0, 8)}
+                            {entry.source_session_ids.length > 1 && (
+                              <span className="font-sans text-muted-foreground"> +{entry.source_session_ids.length - 1} more</span>
+                            )}
+                          </div>
+                          {insights.conversation_summary && (
+                            <div className="text-xs text-muted-foreground line-clamp-2">{insights.conversation_summary}</div>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Unknown</span>
+                      )}
+                      <div className="text-xs text-muted-foreground">{format(new Date(entry.created_at), 'MMM d, yyyy')}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {entry.usage_count ?? 0} answers · {formatPercent(entry.effectiveness_score)} helpful
+                    </TableCell>
+                    <TableCell>
+                      {entry.review_status !== 'merged' && (
+                        <div className="flex items-center gap-1">
+                          {(entry.review_status !== 'approved' || isPastExpiry(entry)) && (
+                            <Button size="sm" variant="outline" title="Approve" disabled={busy} onClick={() => setReviewStatus(entry, 'approve')}>
+                              <Check className="h-3 w-3" />
+                            </Button>
+                          )}
+                          <Button size="sm" variant="outline" title="Edit" disabled={busy} onClick={() => openEditor(entry)}>
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                          {entry.review_status === 'approved' && (
+                            <Button size="sm" variant="outline" title="Expire" disabled={busy} onClick={() => setReviewStatus(entry, 'expire')}>
+                              <Clock className="h-3 w-3" />
+                            </Button>
+                          )}
+                          {entry.review_status !== 'rejected' && (
+                            <Button size="sm" variant="outline" title="Reject" disabled={busy} onClick={() => setReviewStatus(entry, 'reject')}>
+                              <X className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Edit Pattern</DialogTitle>
+              <DialogDescription>
+                Edits keep the current review status. The pattern is re-embedded so chat retrieval matches the new text.
+              </DialogDescription>
+            </DialogHeader>
+            {form && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label>Type</Label>
+                    <Select value={form.knowledgeType} onValueChange={(value) => setForm({ ...form, knowledgeType: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {KNOWLEDGE_TYPES.map(type => (
+                          <SelectItem key={type} value={type} className="capitalize">{formatType(type)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="knowledge-confidence">Confidence (0-1)</Label>
+                    <Input
+                      id="knowledge-confidence"
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={form.confidence}
+                      onChange={(e) => setForm({ ...form, confidence: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="knowledge-expires">Expires on</Label>
+                    <Input
+                      id="knowledge-expires"
+                      type="date"
+                      value={form.expiresOn}
+                      onChange={(e) => setForm({ ...form, expiresOn: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="knowledge-title">Title</Label>
+                  <Input
+                    id="knowledge-title"
+                    value={form.title}
+                    onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="knowledge-description">Description</Label>
+                  <Textarea
+                    id="knowledge-description"
+                    rows={5}
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="knowledge-context">When it applies</Label>
+                  <Textarea
+                    id="knowledge-context"
+                    rows={2}
+                    value={form.context}
+                    onChange={(e) => setForm({ ...form, context: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="knowledge-notes">Review notes</Label>
+                  <Textarea
+                    id="knowledge-notes"
+                    rows={2}
+                    value={form.notes}
+                    onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+              <Button onClick={saveEdit} disabled={saving}>Save</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={merging} onOpenChange={setMerging}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Merge Duplicates</DialogTitle>
+              <DialogDescription>
+                Choose the pattern to keep. The others are marked as merged into it, and their usage and feedback count toward it.
+              </DialogDescription>
+            </DialogHeader>
+            <RadioGroup value={keepId ?? undefined} onValueChange={setKeepId} className="space-y-2">
+              {entries.filter(entry => selectedIds.includes(entry.id)).map(entry => (
+                <div key={entry.id} className="flex items-start gap-2 rounded-md border p-2">
+                  <RadioGroupItem value={entry.id} id={`keep-${entry.id}`} className="mt-1" />
+                  <Label htmlFor={`keep-${entry.id}`} className="font-normal space-y-1">
+                    <div className="font-medium">{titleOf(entry)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatType(entry.knowledge_type)} · {formatPercent(entry.confidence_score)} confidence · {entry.usage_count ?? 0} answers
+                    </div>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+            <div className="space-y-2">
+              <Label htmlFor="merge-notes">Review notes</Label>
+              <Textarea id="merge-notes" rows={2} value={mergeNotes} onChange={(e) => setMergeNotes(e.target.value)} />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setMerging(false)}>Cancel</Button>
+              <Button onClick={saveMerge} disabled={saving || !keepId}>Merge</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,57 @@
+import { Button } from '@/components/ui/button';
+import { CheckCheck, ThumbsDown, ThumbsUp } from 'lucide-react';
+
+export interface MessageFeedback {
+  rating: -1 | 1 | null;
+  applied: boolean;
+}
+
+interface MessageFeedbackBarProps {
+  feedback?: MessageFeedback;
+  disabled?: boolean;
+  onChange: (feedback: MessageFeedback) => void;
+}
+
+// Rates an assistant answer; the rating feeds the score of the knowledge entries it used
+export const MessageFeedbackBar = ({ feedback, disabled = false, onChange }: MessageFeedbackBarProps) => {
+  const current: MessageFeedback = feedback || { rating: null, applied: false };
+
+  const toggleRating = (rating: -1 | 1) =>
+    onChange({ ...current, rating: current.rating === rating ? null : rating });
+
+  return (
+    <div className="inline-flex items-center gap-0.5">
+      <Button
+        variant="ghost"
+        size="sm"
+        className={`h-5 w-5 p-0 ${current.rating === 1 ? 'text-primary' : ''}`}
+        onClick={() => toggleRating(1)}
+        disabled={disabled}
+        title="Helpful"
+      >
+        <ThumbsUp className={`h-3 w-3 ${current.rating === 1 ? 'fill-current' : ''}`} />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className={`h-5 w-5 p-0 ${current.rating === -1 ? 'text-destructive' : ''}`}
+        onClick={() => toggleRating(-1)}
+        disabled={disabled}
+        title="Not helpful"
+      >
+        <ThumbsDown className={`h-3 w-3 ${current.rating === -1 ? 'fill-current' : ''}`} />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className={`h-5 px-1 text-[10px] ${current.applied ? 'text-primary' : ''}`}
+        onClick={() => onChange({ ...current, applied: !current.applied })}
+        disabled={disabled}
+        title={current.applied ? 'Marked as applied' : 'Mark this advice as applied'}
+      >
+        <CheckCheck className="h-3 w-3 mr-0.5" />
+        Applied
+      </Button>
+    </div>
+  );
+};
@@ -21,7 +21,10 @@ import {
   RefreshCw, 
   Info,
   Hash,
-  Wand2
+  Wand2,
+  CornerDownRight,
+  Repeat,
+  AlertTriangle
 } from "lucide-react";
 
 interface ProcessElement {
@@ -30,6 +33,11 @@ interface ProcessElement {
   swimLane: string;
   elementType: string;
   elementId: string;
+  stepLabel?: string;
+  depth?: number;
+  branchLabel?: string | null;
+  loopBackTo?: string | null;
+  unreachable?: boolean;
 }
 
 interface SwimLane {
@@ -110,7 +118,6 @@ export function ProcessElementBrowser({
         analysis_result_id: analysisResult.fileInfo.fileId,
         element_id: elementId,
         original_step_number: element.stepNumber,
-        custom_step_number: updates.stepNumber,
         original_swim_lane: element.swimLane,
         custom_swim_lane: updates.swimLane,
         custom_description: updates.description,
@@ -134,7 +141,6 @@ export function ProcessElementBrowser({
         el.elementId === elementId 
           ? { 
               ...el, 
-              stepNumber: updates.stepNumber || el.stepNumber,
               swimLane: updates.swimLane || el.swimLane,
               stepDetail: updates.description || el.stepDetail
             }
@@ -162,11 +168,18 @@ export function ProcessElementBrowser({
     switch (elementType) {
       case 'startEvent': return <Play className="h-4 w-4 text-green-600" />;
       case 'endEvent': return <StopCircle className="h-4 w-4 text-red-600" />;
-      case 'userTask': return <Users className="h-4 w-4 text-blue-600" />;
-      case 'serviceTask': return <Settings className="h-4 w-4 text-purple-600" />;
+      case 'userTask':
+      case 'manualTask': return <Users className="h-4 w-4 text-blue-600" />;
+      case 'serviceTask':
+      case 'scriptTask':
+      case 'businessRuleTask':
+      case 'sendTask':
+      case 'receiveTask': return <Settings className="h-4 w-4 text-purple-600" />;
       case 'exclusiveGateway':
       case 'parallelGateway':
-      case 'inclusiveGateway': return <GitBranch className="h-4 w-4 text-orange-600" />;
+      case 'inclusiveGateway':
+      case 'eventBasedGateway':
+      case 'complexGateway': return <GitBranch className="h-4 w-4 text-orange-600" />;
       default: return <List className="h-4 w-4 text-gray-600" />;
     }
   };
@@ -175,21 +188,30 @@ export function ProcessElementBrowser({
     switch (elementType) {
       case 'startEvent': return 'Start Event';
       case 'endEvent': return 'End Event';
+      case 'intermediateCatchEvent': return 'Intermediate Catch Event';
+      case 'intermediateThrowEvent': return 'Intermediate Throw Event';
+      case 'boundaryEvent': return 'Boundary Event';
+      case 'task': return 'Task';
       case 'userTask': return 'User Task';
+      case 'manualTask': return 'Manual Task';
       case 'serviceTask': return 'Service Task';
+      case 'scriptTask': return 'Script Task';
+      case 'businessRuleTask': return 'Business Rule Task';
+      case 'sendTask': return 'Send Task';
+      case 'receiveTask': return 'Receive Task';
+      case 'subProcess': return 'Sub-Process';
+      case 'callActivity': return 'Call Activity';
       case 'exclusiveGateway': return 'Exclusive Gateway';
       case 'parallelGateway': return 'Parallel Gateway';
       case 'inclusiveGateway': return 'Inclusive Gateway';
+      case 'eventBasedGateway': return 'Event-Based Gateway';
+      case 'complexGateway': return 'Complex Gateway';
       default: return elementType;
     }
   };
 
-  const groupedElements = elements.reduce((groups, element) => {
-    const type = element.elementType;
-    if (!groups[type]) groups[type] = [];
-    groups[type].push(element);
-    return groups;
-  }, {} as Record<string, ProcessElement[]>);
+  const orderedElements = [...elements].sort((a, b) => a.stepNumber - b.stepNumber);
+  const stepLabelOf = (element?: ProcessElement) => element?.stepLabel || element?.stepNumber;
 
   const resetToDefaults = () => {
     // Reset to original analysis data
@@ -216,36 +238,17 @@ export function ProcessElementBrowser({
         </Button>
       </div>
       
-      <div className="grid grid-cols-2 gap-4">
-        <div>
-          <Label htmlFor={`step-${element.elementId}`}>Step Number</Label>
-          <Input
-            id={`step-${element.elementId}`}
-            type="number"
-            defaultValue={element.stepNumber}
-            onChange={(e) => {
-              const newNumber = parseInt(e.target.value);
-              if (newNumber > 0) {
-                saveElementCustomization(element.elementId, {
-                  stepNumber: newNumber
-                });
-              }
-            }}
-          />
-        </div>
-        
-        <div>
-          <Label htmlFor={`lane-${element.elementId}`}>Swim Lane</Label>
-          <Input
-            id={`lane-${element.elementId}`}
-            defaultValue={element.swimLane}
-            onChange={(e) => {
-              saveElementCustomization(element.elementId, {
-                swimLane: e.target.value
-              });
-            }}
-          />
-        </div>
+      <div>
+        <Label htmlFor={`lane-${element.elementId}`}>Swim Lane</Label>
+        <Input
+          id={`lane-${element.elementId}`}
+          defaultValue={element.swimLane}
+          onChange={(e) => {
+            saveElementCustomization(element.elementId, {
+              swimLane: e.target.value
+            });
+          }}
+        />
       </div>
       
       <div>
@@ -305,52 +308,66 @@ export function ProcessElementBrowser({
             </div>
             
             <ScrollArea className="h-[500px]">
-              <div className="space-y-6">
-                {Object.entries(groupedElements).map(([type, typeElements]) => (
-                  <Card key={type}>
-                    <CardHeader className="pb-3">
-                      <CardTitle className="flex items-center gap-2 text-base">
-                        {getElementIcon(type)}
-                        {getElementTypeLabel(type)}
-                        <Badge variant="outline">{typeElements.length}</Badge>
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent className="space-y-3">
-                      {typeElements.map((element) => (
-                        <div key={element.elementId} className="space-y-2">
-                          <div className="flex items-center justify-between p-3 border rounded-lg">
-                            <div className="flex items-center gap-3">
-                              <Badge className="min-w-[40px] justify-center">
-                                #{element.stepNumber}
+              <div className="space-y-2">
+                {orderedElements.map((element) => (
+                  <div
+                    key={element.elementId}
+                    className="space-y-2"
+                    style={{ marginLeft: `${(element.depth || 0) * 24}px` }}
+                  >
+                    <div className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="flex items-center gap-3">
+                        <Badge className="min-w-[40px] justify-center">
+                          {stepLabelOf(element)}
+                        </Badge>
+                        {getElementIcon(element.elementType)}
+                        <div>
+                          <p className="font-medium">{element.stepDetail}</p>
+                          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                            <span>{getElementTypeLabel(element.elementType)}</span>
+                            <Separator orientation="vertical" className="h-3" />
+                            <span>Swim Lane: {element.swimLane}</span>
+                            <Separator orientation="vertical" className="h-3" />
+                            <span>ID: {element.elementId}</span>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-2 mt-1">
+                            {element.branchLabel && (
+                              <Badge variant="outline" className="gap-1 text-xs">
+                                <CornerDownRight className="h-3 w-3" />
+                                {element.branchLabel}
+                              </Badge>
+                            )}
+                            {element.loopBackTo && (
+                              <Badge variant="outline" className="gap-1 text-xs">
+                                <Repeat className="h-3 w-3" />
+                                Loops back to {element.loopBackTo}
+                              </Badge>
+                            )}
+                            {element.unreachable && (
+                              <Badge variant="destructive" className="gap-1 text-xs">
+                                <AlertTriangle className="h-3 w-3" />
+                                Unreachable
                               </Badge>
-                              <div>
-                                <p className="font-medium">{element.stepDetail}</p>
-                                <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                                  <span>Swim Lane: {element.swimLane}</span>
-                                  <Separator orientation="vertical" className="h-3" />
-                                  <span>ID: {element.elementId}</span>
-                                </div>
-                              </div>
-                            </div>
-                            
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => setEditingElement(
-                                editingElement === element.elementId ? null : element.elementId
-                              )}
-                            >
-                              <Wand2 className="h-4 w-4" />
-                            </Button>
+                            )}
                           </div>
-                          
-                          {editingElement === element.elementId && (
-                            <ElementEditForm element={element} />
-                          )}
                         </div>
-                      ))}
-                    </CardContent>
-                  </Card>
+                      </div>
+                      
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditingElement(
+                          editingElement === element.elementId ? null : element.elementId
+                        )}
+                      >
+                        <Wand2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    
+                    {editingElement === element.elementId && (
+                      <ElementEditForm element={element} />
+                    )}
+                  </div>
                 ))}
               </div>
             </ScrollArea>
@@ -387,7 +404,7 @@ export function ProcessElementBrowser({
                               const element = elements.find(e => e.elementId === elementId);
                               return (
                                 <Badge key={elementId} variant="outline" className="text-xs">
-                                  #{element?.stepNumber}: {element?.stepDetail || elementId}
+                                  #{stepLabelOf(element)}: {element?.stepDetail || elementId}
                                 </Badge>
                               );
                             })}
@@ -423,24 +440,24 @@ export function ProcessElementBrowser({
                   <CardContent className="space-y-4">
                     <div className="space-y-3">
                       <div className="flex items-center gap-3">
-                        <Badge className="bg-green-100 text-green-800">1</Badge>
-                        <span>Start Events (Process Entry Points)</span>
+                        <Badge className="bg-green-100 text-green-800">1, 2, 3</Badge>
+                        <span>Steps follow the sequence flows from the start event, in the order a reader walks the diagram</span>
                       </div>
                       <div className="flex items-center gap-3">
-                        <Badge className="bg-blue-100 text-blue-800">2-N</Badge>
-                        <span>User Tasks (Manual Activities)</span>
+                        <Badge className="bg-orange-100 text-orange-800">4.1, 4.2</Badge>
+                        <span>Each outgoing path of a split gateway becomes a branch under the gateway's step</span>
                       </div>
                       <div className="flex items-center gap-3">
-                        <Badge className="bg-purple-100 text-purple-800">N+1</Badge>
-                        <span>Service Tasks (Automated Activities)</span>
+                        <Badge className="bg-blue-100 text-blue-800">4.1.1, 4.1.2</Badge>
+                        <span>Branches with several steps, and the contents of sub-processes, are numbered one level deeper</span>
                       </div>
                       <div className="flex items-center gap-3">
-                        <Badge className="bg-orange-100 text-orange-800">N+2</Badge>
-                        <span>Gateways (Decision Points)</span>
+                        <Badge className="bg-purple-100 text-purple-800">5</Badge>
+                        <span>Once the branches merge again, numbering continues on the parent level</span>
                       </div>
                       <div className="flex items-center gap-3">
-                        <Badge className="bg-red-100 text-red-800">Final</Badge>
-                        <span>End Events (Process Completion)</span>
+                        <Badge className="bg-red-100 text-red-800">↺</Badge>
+                        <span>Flows that return to an earlier step are shown as loops instead of being numbered twice</span>
                       </div>
                     </div>
                     
@@ -462,8 +479,8 @@ export function ProcessElementBrowser({
               <Alert>
                 <Info className="h-4 w-4" />
                 <AlertDescription>
-                  The AI analyzes your BPMN process flow and assigns sequential numbers based on logical process execution order. 
-                  You can customize these numbers in the Elements tab to match your organization's preferences.
+                  Elements that cannot be reached from a start event are numbered last and flagged as unreachable.
+                  Step numbers follow the sequence flows, so they change when the diagram changes.
                 </AlertDescription>
               </Alert>
             </div>
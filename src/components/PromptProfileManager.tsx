@@ -0,0 +1,425 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { HR_SYSTEMS, hrSystemLabel, type PromptProfile } from '@/lib/promptProfiles';
+import { History, Pencil, Plus, RefreshCw, Sparkles, Star } from 'lucide-react';
+
+type ProfileVersion = Tables<'ai_prompt_profile_versions'>;
+
+interface ProfileForm {
+  name: string;
+  description: string;
+  domainScope: string;
+  responseFormat: string;
+  targetHrSystem: string;
+  guardrails: string;
+  strictScope: boolean;
+}
+
+const ANY_SYSTEM = 'any';
+
+const EMPTY_FORM: ProfileForm = {
+  name: '',
+  description: '',
+  domainScope: '',
+  responseFormat: '',
+  targetHrSystem: ANY_SYSTEM,
+  guardrails: '',
+  strictScope: false,
+};
+
+// Admin view of the assistant profiles the chat prompt is built from. Saving a change to
+// the prompt creates a new version; chat messages record the version they were answered with.
+export function PromptProfileManager() {
+  const [profiles, setProfiles] = useState<PromptProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<PromptProfile | 'new' | null>(null);
+  const [form, setForm] = useState<ProfileForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [historyOf, setHistoryOf] = useState<PromptProfile | null>(null);
+  const [versions, setVersions] = useState<ProfileVersion[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const loadProfiles = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('ai_prompt_profiles')
+        .select('*')
+        .order('is_default', { ascending: false })
+        .order('name');
+      if (error) throw error;
+      setProfiles(data || []);
+    } catch (error) {
+      console.error('Error loading prompt profiles:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the assistant profiles",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openEditor = (profile: PromptProfile | 'new') => {
+    setEditing(profile);
+    setForm(profile === 'new' ? EMPTY_FORM : {
+      name: profile.name,
+      description: profile.description ?? '',
+      domainScope: profile.domain_scope,
+      responseFormat: profile.response_format,
+      targetHrSystem: profile.target_hr_system ?? ANY_SYSTEM,
+      guardrails: profile.guardrails,
+      strictScope: profile.strict_scope,
+    });
+  };
+
+  const saveProfile = async () => {
+    if (!editing) return;
+    if (!form.name.trim() || !form.domainScope.trim() || !form.responseFormat.trim()) {
+      toast({
+        title: "Missing fields",
+        description: "Name, domain scope and response format are required.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        domain_scope: form.domainScope.trim(),
+        response_format: form.responseFormat.trim(),
+        target_hr_system: form.targetHrSystem === ANY_SYSTEM ? null : form.targetHrSystem,
+        guardrails: form.guardrails.trim(),
+        strict_scope: form.strictScope,
+      };
+
+      if (editing === 'new') {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase.from('ai_prompt_profiles').insert({ ...values, created_by: user?.id ?? null });
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('ai_prompt_profiles').update(values).eq('id', editing.id);
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Profile saved",
+        description: `Saved the assistant profile "${values.name}".`,
+      });
+      setEditing(null);
+      await loadProfiles();
+    } catch (error) {
+      console.error('Error saving prompt profile:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the assistant profile",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setActive = async (profile: PromptProfile, active: boolean) => {
+    const { error } = await supabase.from('ai_prompt_profiles').update({ is_active: active }).eq('id', profile.id);
+    if (error) {
+      console.error('Error updating prompt profile:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the assistant profile",
+        variant: "destructive",
+      });
+      return;
+    }
+    await loadProfiles();
+  };
+
+  // Only one profile can be the default, so the current one is cleared first
+  const makeDefault = async (profile: PromptProfile) => {
+    try {
+      const { error: clearError } = await supabase
+        .from('ai_prompt_profiles')
+        .update({ is_default: false })
+        .eq('is_default', true);
+      if (clearError) throw clearError;
+
+      const { error } = await supabase
+        .from('ai_prompt_profiles')
+        .update({ is_default: true, is_active: true })
+        .eq('id', profile.id);
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error changing the default prompt profile:', error);
+      toast({
+        title: "Error",
+        description: "Failed to change the default profile",
+        variant: "destructive",
+      });
+    }
+    await loadProfiles();
+  };
+
+  const openHistory = async (profile: PromptProfile) => {
+    setHistoryOf(profile);
+    setVersions([]);
+    const { data, error } = await supabase
+      .from('ai_prompt_profile_versions')
+      .select('*')
+      .eq('profile_id', profile.id)
+      .order('version', { ascending: false });
+    if (error) {
+      console.error('Error loading prompt profile versions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the version history",
+        variant: "destructive",
+      });
+      return;
+    }
+    setVersions(data || []);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            Assistant Profiles
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button onClick={() => openEditor('new')} size="sm">
+              <Plus className="h-4 w-4 mr-2" />
+              New Profile
+            </Button>
+            <Button onClick={loadProfiles} variant="outline" size="sm" disabled={loading}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </div>
+        <CardDescription>
+          The chat prompt is built from a profile. Chats use their own profile, else the file's, else the default.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Profile</TableHead>
+              <TableHead>Target System</TableHead>
+              <TableHead>Version</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {profiles.length === 0 && !loading && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No assistant profiles yet
+                </TableCell>
+              </TableRow>
+            )}
+            {profiles.map(profile => (
+              <TableRow key={profile.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{profile.name}</span>
+                    {profile.is_default && <Badge>Default</Badge>}
+                    {profile.strict_scope && <Badge variant="outline">Strict scope</Badge>}
+                  </div>
+                  {profile.description && (
+                    <div className="text-xs text-muted-foreground">{profile.description}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">{hrSystemLabel(profile.target_hr_system)}</TableCell>
+                <TableCell className="text-sm">v{profile.version}</TableCell>
+                <TableCell>
+                  <Switch
+                    checked={profile.is_active}
+                    onCheckedChange={(checked) => setActive(profile, checked)}
+                    disabled={profile.is_default}
+                    title={profile.is_default ? 'The default profile stays active' : undefined}
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Button size="sm" variant="outline" onClick={() => openEditor(profile)} title="Edit">
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => openHistory(profile)} title="Version history">
+                      <History className="h-3 w-3" />
+                    </Button>
+                    {!profile.is_default && (
+                      <Button size="sm" variant="outline" onClick={() => makeDefault(profile)} title="Make default">
+                        <Star className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>{editing === 'new' ? 'New Assistant Profile' : `Edit ${form.name}`}</DialogTitle>
+              <DialogDescription>
+                Changes to the prompt are saved as a new version and apply to the next chat message.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="profile-name">Name</Label>
+                  <Input
+                    id="profile-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Target HR system</Label>
+                  <Select
+                    value={form.targetHrSystem}
+                    onValueChange={(value) => setForm({ ...form, targetHrSystem: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_SYSTEM}>Any HR system</SelectItem>
+                      {HR_SYSTEMS.map(system => (
+                        <SelectItem key={system.value} value={system.value}>{system.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-description">Description</Label>
+                <Input
+                  id="profile-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="Which teams or processes this profile is for"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-scope">Domain scope</Label>
+                <Textarea
+                  id="profile-scope"
+                  value={form.domainScope}
+                  onChange={(e) => setForm({ ...form, domainScope: e.target.value })}
+                  placeholder="The topics and processes the assistant covers"
+                  rows={5}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-format">Response format</Label>
+                <Textarea
+                  id="profile-format"
+                  value={form.responseFormat}
+                  onChange={(e) => setForm({ ...form, responseFormat: e.target.value })}
+                  placeholder="Sections or style every answer follows"
+                  rows={5}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-guardrails">Guardrails</Label>
+                <Textarea
+                  id="profile-guardrails"
+                  value={form.guardrails}
+                  onChange={(e) => setForm({ ...form, guardrails: e.target.value })}
+                  placeholder="What the assistant must decline and how"
+                  rows={4}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="profile-strict"
+                  checked={form.strictScope}
+                  onCheckedChange={(checked) => setForm({ ...form, strictScope: checked })}
+                />
+                <Label htmlFor="profile-strict">Replace answers that are not about HR processes</Label>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+              <Button onClick={saveProfile} disabled={saving}>Save Profile</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!historyOf} onOpenChange={(open) => !open && setHistoryOf(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Version History: {historyOf?.name}</DialogTitle>
+              <DialogDescription>
+                Each version is the prompt as it was saved. Chat messages link to the version they used.
+              </DialogDescription>
+            </DialogHeader>
+            <ScrollArea className="max-h-[60vh] pr-3">
+              <div className="space-y-3">
+                {versions.map(version => (
+                  <details key={version.id} className="border rounded-md p-3">
+                    <summary className="cursor-pointer text-sm">
+                      <span className="font-medium">v{version.version}</span>
+                      <span className="text-muted-foreground">
+                        {' '}· {new Date(version.created_at).toLocaleString()} · {hrSystemLabel(version.target_hr_system)}
+                        {version.strict_scope ? ' · strict scope' : ''}
+                      </span>
+                    </summary>
+                    <div className="mt-3 space-y-2 text-xs">
+                      <div>
+                        <div className="font-medium">Domain scope</div>
+                        <pre className="whitespace-pre-wrap text-muted-foreground">{version.domain_scope}</pre>
+                      </div>
+                      <div>
+                        <div className="font-medium">Response format</div>
+                        <pre className="whitespace-pre-wrap text-muted-foreground">{version.response_format}</pre>
+                      </div>
+                      {version.guardrails && (
+                        <div>
+                          <div className="font-medium">Guardrails</div>
+                          <pre className="whitespace-pre-wrap text-muted-foreground">{version.guardrails}</pre>
+                        </div>
+                      )}
+                    </div>
+                  </details>
+                ))}
+                {versions.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-4">No versions recorded</p>
+                )}
+              </div>
+            </ScrollArea>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
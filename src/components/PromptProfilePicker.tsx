@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Pin } from 'lucide-react';
+import { hrSystemLabel, type PromptProfile } from '@/lib/promptProfiles';
+
+interface PromptProfilePickerProps {
+  bpmnFileId?: string;
+  // The session's profile; null uses the file's profile or the default one
+  value: string | null;
+  disabled?: boolean;
+  onChange: (profileId: string | null) => void;
+}
+
+const AUTOMATIC = 'automatic';
+
+// Picks the assistant profile of the chat session and can make it the file's profile
+export const PromptProfilePicker = ({ bpmnFileId, value, disabled = false, onChange }: PromptProfilePickerProps) => {
+  const [profiles, setProfiles] = useState<PromptProfile[]>([]);
+  const [fileProfileId, setFileProfileId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadProfiles();
+  }, [bpmnFileId]);
+
+  const loadProfiles = async () => {
+    const { data, error } = await supabase
+      .from('ai_prompt_profiles')
+      .select('*')
+      .eq('is_active', true)
+      .order('name');
+
+    if (error) {
+      console.error('Error loading prompt profiles:', error);
+      return;
+    }
+    setProfiles(data || []);
+
+    if (bpmnFileId) {
+      const { data: file, error: fileError } = await supabase
+        .from('bpmn_files')
+        .select('prompt_profile_id')
+        .eq('id', bpmnFileId)
+        .maybeSingle();
+      if (fileError) console.error('Error loading the file prompt profile:', fileError);
+      setFileProfileId(file?.prompt_profile_id ?? null);
+    }
+  };
+
+  const profileById = (id: string | null) => profiles.find(profile => profile.id === id);
+  const automaticProfile = profileById(fileProfileId) || profiles.find(profile => profile.is_default);
+  const selected = profileById(value);
+
+  const saveForFile = async () => {
+    if (!bpmnFileId || !value) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('bpmn_files')
+        .update({ prompt_profile_id: value })
+        .eq('id', bpmnFileId);
+      if (error) throw error;
+
+      setFileProfileId(value);
+      onChange(null);
+      toast({
+        title: "Profile saved",
+        description: `New chats about this file use "${selected?.name}".`,
+      });
+    } catch (error) {
+      console.error('Error saving the file prompt profile:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the profile for this file",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (profiles.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-1 min-w-0">
+      <Select
+        value={selected ? selected.id : AUTOMATIC}
+        onValueChange={(next) => onChange(next === AUTOMATIC ? null : next)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-7 text-xs min-w-0" title="Assistant profile">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTOMATIC}>
+            {fileProfileId ? 'File profile' : 'Default'}{automaticProfile ? `: ${automaticProfile.name}` : ''}
+          </SelectItem>
+          {profiles.map(profile => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name} ({hrSystemLabel(profile.target_hr_system)})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {bpmnFileId && selected && selected.id !== fileProfileId && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0 flex-shrink-0"
+          onClick={saveForFile}
+          disabled={disabled || saving}
+          title="Use this profile for all chats about this file"
+        >
+          <Pin className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { ListChecks, RefreshCw } from 'lucide-react';
+
+export interface RulePackSummary {
+  id: string;
+  name: string;
+  description: string;
+  enabled: boolean;
+  rules: Array<{
+    id: string;
+    name: string;
+    severity: 'Error' | 'Warning' | 'Info';
+    category: string;
+    description: string;
+  }>;
+}
+
+interface RulePackSettingsProps {
+  packs: RulePackSummary[];
+  onRerun?: () => void;
+}
+
+export function RulePackSettings({ packs, onRerun }: RulePackSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const [enabled, setEnabled] = useState<Record<string, boolean>>({});
+  const [changed, setChanged] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setEnabled(Object.fromEntries(packs.map(pack => [pack.id, pack.enabled])));
+    setChanged(false);
+  }, [packs]);
+
+  const togglePack = async (packId: string, value: boolean) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setEnabled(prev => ({ ...prev, [packId]: value }));
+
+    const { error } = await supabase
+      .from('analysis_rule_pack_settings')
+      .upsert({ user_id: user.id, pack_id: packId, enabled: value }, { onConflict: 'user_id,pack_id' });
+
+    if (error) {
+      console.error('Error saving rule pack setting:', error);
+      setEnabled(prev => ({ ...prev, [packId]: !value }));
+      toast({
+        title: "Error",
+        description: "Failed to save rule pack setting.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setChanged(true);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ListChecks className="h-4 w-4 mr-2" />
+          Rule Packs
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Analysis Rule Packs</DialogTitle>
+          <DialogDescription>
+            Choose which groups of checks run when your processes are analyzed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-4">
+          <div className="space-y-4">
+            {packs.map((pack) => (
+              <div key={pack.id} className="p-4 border rounded-lg space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{pack.name}</span>
+                      <Badge variant="outline">{pack.rules.length} rules</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{pack.description}</p>
+                  </div>
+                  <Switch
+                    checked={enabled[pack.id] ?? pack.enabled}
+                    onCheckedChange={(value) => togglePack(pack.id, value)}
+                  />
+                </div>
+                <ul className="text-xs text-muted-foreground space-y-1">
+                  {pack.rules.map((rule) => (
+                    <li key={rule.id}>
+                      <span className="font-medium text-foreground">{rule.name}</span> ({rule.severity}) – {rule.description}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        {changed && onRerun && (
+          <div className="flex items-center justify-between pt-2 border-t">
+            <p className="text-sm text-muted-foreground">Changes apply to the next analysis.</p>
+            <Button
+              size="sm"
+              onClick={() => {
+                setOpen(false);
+                onRerun();
+              }}
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Re-analyze Now
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
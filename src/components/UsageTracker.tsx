@@ -5,6 +5,7 @@ import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { BarChart3, TrendingUp, DollarSign, MessageSquare, Brain } from 'lucide-react';
+import { budgetScopeLabel, type BudgetStatus } from '@/lib/aiBudget';
 
 interface UsageStats {
   totalTokens: number;
@@ -17,6 +18,7 @@ interface UsageStats {
 
 const UsageTracker = () => {
   const [stats, setStats] = useState<UsageStats | null>(null);
+  const [budgetStatus, setBudgetStatus] = useState<BudgetStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [showDetails, setShowDetails] = useState(false);
 
@@ -59,13 +61,22 @@ const UsageTracker = () => {
 
       if (sessionError) throw sessionError;
 
+      // Month-to-date usage against the budgets that apply to this user
+      const { data: budgetData, error: budgetError } = await supabase
+        .rpc('ai_budget_status', { p_user_id: user.id });
+
+      if (budgetError) {
+        console.error('Error loading budget status:', budgetError);
+      }
+      setBudgetStatus((budgetData as unknown as BudgetStatus) || null);
+
       // Calculate stats
       const totalTokens = allTimeUsage?.reduce((sum, log) => sum + log.total_tokens, 0) || 0;
-      const totalCost = allTimeUsage?.reduce((sum, log) => sum + log.cost_usd, 0) || 0;
+      const totalCost = allTimeUsage?.reduce((sum, log) => sum + (Number(log.cost_usd) || 0), 0) || 0;
       const chatSessions = sessionCount || 0;
       const analysisRuns = allTimeUsage?.filter(log => log.operation_type === 'analysis').length || 0;
       const currentMonthTokens = monthlyUsage?.reduce((sum, log) => sum + log.total_tokens, 0) || 0;
-      const currentMonthCost = monthlyUsage?.reduce((sum, log) => sum + log.cost_usd, 0) || 0;
+      const currentMonthCost = monthlyUsage?.reduce((sum, log) => sum + (Number(log.cost_usd) || 0), 0) || 0;
 
       setStats({
         totalTokens,
@@ -188,20 +199,38 @@ const UsageTracker = () => {
               </div>
             </div>
 
-            {/* Cost Progress (assuming $10 monthly budget) */}
-            <div className="space-y-2">
-              <div className="flex items-center justify-between text-sm">
-                <span>Monthly Budget</span>
-                <span>{formatCost(Math.min(stats.currentMonthCost, 10))} / {formatCost(10)}</span>
-              </div>
-              <Progress 
-                value={Math.min((stats.currentMonthCost / 10) * 100, 100)} 
-                className="h-2"
-              />
-              {stats.currentMonthCost > 10 && (
-                <div className="text-xs text-amber-600">
-                  ⚠️ Monthly budget exceeded
-                </div>
+            {/* Monthly budgets */}
+            <div className="space-y-3">
+              {budgetStatus && budgetStatus.budgets.length > 0 ? (
+                budgetStatus.budgets.map((budget) => (
+                  <div key={budget.budget_id} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span>{budgetScopeLabel(budget)}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {[
+                          budget.usd_limit !== null ? `${formatCost(budget.usd_used)} / ${formatCost(budget.usd_limit)}` : null,
+                          budget.token_limit !== null ? `${formatTokens(budget.tokens_used)} / ${formatTokens(budget.token_limit)} tokens` : null,
+                        ].filter(Boolean).join(' · ') || 'Unlimited'}
+                      </span>
+                    </div>
+                    <Progress 
+                      value={Math.min(budget.usage_ratio * 100, 100)} 
+                      className="h-2"
+                    />
+                    {budget.status === 'exceeded' && (
+                      <div className="text-xs text-red-600">
+                        ⛔ Limit reached. AI requests are blocked until next month.
+                      </div>
+                    )}
+                    {budget.status === 'warning' && (
+                      <div className="text-xs text-amber-600">
+                        ⚠️ {budget.usage_ratio >= 1 ? 'Over budget' : `${Math.round(budget.usage_ratio * 100)}% of the monthly budget used`}
+                      </div>
+                    )}
+                  </div>
+                ))
+              ) : (
+                <div className="text-xs text-muted-foreground">No monthly budget set</div>
               )}
             </div>
 
@@ -1,15 +1,39 @@
 import { useAuth } from '@/hooks/useAuth';
+import { useLocale } from '@/hooks/useLocale';
+import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
-import { FileText, LogOut, User } from 'lucide-react';
+import { FileText, Languages, LogOut, User } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { LOCALES, resolveLocale } from '@/lib/locale';
 
 const Header = () => {
   const { user, signOut } = useAuth();
+  const { locale, setLocale } = useLocale();
+  const { toast } = useToast();
+
+  const changeLocale = async (value: string) => {
+    try {
+      await setLocale(resolveLocale(value));
+    } catch (error) {
+      console.error('Error saving the language:', error);
+      toast({
+        title: "Error",
+        description: "Failed to change the language",
+        variant: "destructive",
+      });
+    }
+  };
 
   return (
     <header className="border-b border-border/50 bg-card/80 backdrop-blur-md supports-[backdrop-filter]:bg-card/60 shadow-sm">
@@ -29,6 +53,22 @@ const Header = () => {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger title="Language of analysis results, chat answers and exports">
+                    <Languages className="mr-2 h-4 w-4" />
+                    Language
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    <DropdownMenuRadioGroup value={locale} onValueChange={changeLocale}>
+                      {LOCALES.map(option => (
+                        <DropdownMenuRadioItem key={option.value} value={option.value}>
+                          {option.label}
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={signOut}>
                   <LogOut className="mr-2 h-4 w-4" />
                   Sign out
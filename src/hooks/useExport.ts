@@ -2,6 +2,11 @@ import { useCallback } from 'react';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import * as XLSX from 'xlsx';
+import { useLocale } from '@/hooks/useLocale';
+import { exportTranslator, formatDateTime } from '@/lib/locale';
+import { selectPdfFont } from '@/lib/pdfFonts';
+import { transcriptToJson, transcriptToMarkdown, type ChatTranscript } from '@/lib/chatTranscript';
+import { markdownToDocx } from '@/lib/docxDocument';
 
 interface AnalysisResult {
   fileName: string;
@@ -34,52 +39,75 @@ interface ChatMessage {
   created_at: string;
 }
 
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Labels and dates follow the user's language; the analysis and chat text is already in it
 export const useExport = () => {
+  const { locale } = useLocale();
+
   const exportAnalysisToPDF = useCallback(async (result: AnalysisResult) => {
     try {
+      const t = exportTranslator(locale);
       const pdf = new jsPDF();
+      await selectPdfFont(pdf, [
+        t('BPMN Process Analysis Report'),
+        result.fileName,
+        ...(result.processIntelligence?.insights || []),
+        ...(result.processIntelligence?.recommendations || []),
+        result.processIntelligence?.riskAssessment || '',
+        ...result.findings.flatMap(finding => [finding.ruleName, finding.message, finding.elementName || '']),
+      ]);
       const pageWidth = pdf.internal.pageSize.getWidth();
       const margin = 20;
       let yPosition = margin;
 
       // Title
       pdf.setFontSize(20);
-      pdf.text('BPMN Process Analysis Report', margin, yPosition);
+      pdf.text(t('BPMN Process Analysis Report'), margin, yPosition);
       yPosition += 15;
 
       // File info
       pdf.setFontSize(12);
-      pdf.text(`File: ${result.fileName}`, margin, yPosition);
+      pdf.text(`${t('File')}: ${result.fileName}`, margin, yPosition);
       yPosition += 7;
-      pdf.text(`Generated: ${new Date(result.timestamp).toLocaleString()}`, margin, yPosition);
+      pdf.text(`${t('Generated')}: ${formatDateTime(result.timestamp, locale)}`, margin, yPosition);
       yPosition += 15;
 
       // Summary
       if (result.summary) {
         pdf.setFontSize(14);
-        pdf.text('Summary', margin, yPosition);
+        pdf.text(t('Summary'), margin, yPosition);
         yPosition += 10;
         
         pdf.setFontSize(10);
-        pdf.text(`User Tasks: ${result.summary.userTasks}`, margin, yPosition);
+        pdf.text(`${t('User Tasks')}: ${result.summary.userTasks}`, margin, yPosition);
         yPosition += 6;
-        pdf.text(`Integrations: ${result.summary.integrations}`, margin, yPosition);
+        pdf.text(`${t('Integrations')}: ${result.summary.integrations}`, margin, yPosition);
         yPosition += 6;
-        pdf.text(`Complexity: ${result.summary.complexity}`, margin, yPosition);
+        pdf.text(`${t('Complexity')}: ${result.summary.complexity}`, margin, yPosition);
         yPosition += 6;
-        pdf.text(`Issues Found: ${result.summary.issueCount}`, margin, yPosition);
+        pdf.text(`${t('Issues Found')}: ${result.summary.issueCount}`, margin, yPosition);
         yPosition += 15;
       }
 
       // AI Insights
       if (result.processIntelligence) {
         pdf.setFontSize(14);
-        pdf.text('AI Process Intelligence', margin, yPosition);
+        pdf.text(t('AI Process Intelligence'), margin, yPosition);
         yPosition += 10;
 
         if (result.processIntelligence.insights && result.processIntelligence.insights.length > 0) {
           pdf.setFontSize(12);
-          pdf.text('Insights:', margin, yPosition);
+          pdf.text(`${t('Insights')}:`, margin, yPosition);
           yPosition += 8;
           
           pdf.setFontSize(10);
@@ -93,7 +121,7 @@ export const useExport = () => {
 
         if (result.processIntelligence.recommendations && result.processIntelligence.recommendations.length > 0) {
           pdf.setFontSize(12);
-          pdf.text('Recommendations:', margin, yPosition);
+          pdf.text(`${t('Recommendations')}:`, margin, yPosition);
           yPosition += 8;
           
           pdf.setFontSize(10);
@@ -107,7 +135,7 @@ export const useExport = () => {
 
         if (result.processIntelligence.riskAssessment) {
           pdf.setFontSize(12);
-          pdf.text('Risk Assessment:', margin, yPosition);
+          pdf.text(`${t('Risk Assessment')}:`, margin, yPosition);
           yPosition += 8;
           
           pdf.setFontSize(10);
@@ -120,7 +148,7 @@ export const useExport = () => {
       // Findings
       if (result.findings.length > 0) {
         pdf.setFontSize(14);
-        pdf.text('Detailed Findings', margin, yPosition);
+        pdf.text(t('Detailed Findings'), margin, yPosition);
         yPosition += 10;
 
         result.findings.forEach((finding, index) => {
@@ -131,7 +159,7 @@ export const useExport = () => {
           }
 
           pdf.setFontSize(12);
-          pdf.text(`${index + 1}. ${finding.ruleName} (${finding.severity.toUpperCase()})`, margin, yPosition);
+          pdf.text(`${index + 1}. ${finding.ruleName} (${t(finding.severity).toUpperCase()})`, margin, yPosition);
           yPosition += 8;
 
           pdf.setFontSize(10);
@@ -140,7 +168,7 @@ export const useExport = () => {
           yPosition += messageLines.length * 5;
 
           if (finding.elementName) {
-            pdf.text(`Element: ${finding.elementName}`, margin + 5, yPosition);
+            pdf.text(`${t('Element')}: ${finding.elementName}`, margin + 5, yPosition);
             yPosition += 5;
           }
 
@@ -153,34 +181,35 @@ export const useExport = () => {
       console.error('Error exporting to PDF:', error);
       throw error;
     }
-  }, []);
+  }, [locale]);
 
   const exportAnalysisToExcel = useCallback((result: AnalysisResult) => {
     try {
+      const t = exportTranslator(locale);
       const workbook = XLSX.utils.book_new();
 
       // Summary sheet
       const summaryData = [
-        ['File Name', result.fileName],
-        ['Generated', new Date(result.timestamp).toLocaleString()],
+        [t('File Name'), result.fileName],
+        [t('Generated'), formatDateTime(result.timestamp, locale)],
         [''],
-        ['Summary'],
-        ['User Tasks', result.summary?.userTasks || 0],
-        ['Integrations', result.summary?.integrations || 0],
-        ['Complexity', result.summary?.complexity || 'N/A'],
-        ['Issues Found', result.summary?.issueCount || 0],
+        [t('Summary')],
+        [t('User Tasks'), result.summary?.userTasks || 0],
+        [t('Integrations'), result.summary?.integrations || 0],
+        [t('Complexity'), result.summary?.complexity || t('N/A')],
+        [t('Issues Found'), result.summary?.issueCount || 0],
       ];
 
       const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
-      XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
+      XLSX.utils.book_append_sheet(workbook, summarySheet, t('Summary'));
 
       // Findings sheet
       if (result.findings.length > 0) {
         const findingsData = [
-          ['Rule Name', 'Severity', 'Message', 'Element Name', 'Element ID'],
+          [t('Rule Name'), t('Severity'), t('Message'), t('Element Name'), t('Element ID')],
           ...result.findings.map(finding => [
             finding.ruleName,
-            finding.severity,
+            t(finding.severity),
             finding.message,
             finding.elementName || '',
             finding.elementId || ''
@@ -188,20 +217,20 @@ export const useExport = () => {
         ];
 
         const findingsSheet = XLSX.utils.aoa_to_sheet(findingsData);
-        XLSX.utils.book_append_sheet(workbook, findingsSheet, 'Findings');
+        XLSX.utils.book_append_sheet(workbook, findingsSheet, t('Findings'));
       }
 
       // AI Insights sheet
       if (result.processIntelligence) {
         const insightsData = [
-          ['Type', 'Content'],
-          ...(result.processIntelligence.insights || []).map(insight => ['Insight', insight]),
-          ...(result.processIntelligence.recommendations || []).map(rec => ['Recommendation', rec]),
-          ['Risk Assessment', result.processIntelligence.riskAssessment || '']
+          [t('Type'), t('Content')],
+          ...(result.processIntelligence.insights || []).map(insight => [t('Insight'), insight]),
+          ...(result.processIntelligence.recommendations || []).map(rec => [t('Recommendation'), rec]),
+          [t('Risk Assessment'), result.processIntelligence.riskAssessment || '']
         ];
 
         const insightsSheet = XLSX.utils.aoa_to_sheet(insightsData);
-        XLSX.utils.book_append_sheet(workbook, insightsSheet, 'AI Insights');
+        XLSX.utils.book_append_sheet(workbook, insightsSheet, t('AI Insights'));
       }
 
       XLSX.writeFile(workbook, `${result.fileName}_analysis.xlsx`);
@@ -209,24 +238,26 @@ export const useExport = () => {
       console.error('Error exporting to Excel:', error);
       throw error;
     }
-  }, []);
+  }, [locale]);
 
   const exportChatToPDF = useCallback(async (messages: ChatMessage[], fileName: string) => {
     try {
+      const t = exportTranslator(locale);
       const pdf = new jsPDF();
+      await selectPdfFont(pdf, [t('BPMN Process Chat Conversation'), fileName, ...messages.map(message => message.content)]);
       const pageWidth = pdf.internal.pageSize.getWidth();
       const margin = 20;
       let yPosition = margin;
 
       // Title
       pdf.setFontSize(16);
-      pdf.text('BPMN Process Chat Conversation', margin, yPosition);
+      pdf.text(t('BPMN Process Chat Conversation'), margin, yPosition);
       yPosition += 10;
 
       pdf.setFontSize(10);
-      pdf.text(`File: ${fileName}`, margin, yPosition);
+      pdf.text(`${t('File')}: ${fileName}`, margin, yPosition);
       yPosition += 6;
-      pdf.text(`Exported: ${new Date().toLocaleString()}`, margin, yPosition);
+      pdf.text(`${t('Exported')}: ${formatDateTime(new Date(), locale)}`, margin, yPosition);
       yPosition += 15;
 
       // Messages
@@ -239,7 +270,7 @@ export const useExport = () => {
 
         // Role header
         pdf.setFontSize(12);
-        pdf.text(`${message.role === 'user' ? 'You' : 'AI Assistant'}:`, margin, yPosition);
+        pdf.text(`${t(message.role === 'user' ? 'You' : 'AI Assistant')}:`, margin, yPosition);
         yPosition += 8;
 
         // Message content
@@ -250,7 +281,7 @@ export const useExport = () => {
 
         // Timestamp
         pdf.setFontSize(8);
-        pdf.text(new Date(message.created_at).toLocaleString(), margin + 5, yPosition);
+        pdf.text(formatDateTime(message.created_at, locale), margin + 5, yPosition);
         yPosition += 10;
       });
 
@@ -259,11 +290,50 @@ export const useExport = () => {
       console.error('Error exporting chat to PDF:', error);
       throw error;
     }
+  }, [locale]);
+
+  const exportChatToMarkdown = useCallback((transcript: ChatTranscript) => {
+    try {
+      const markdown = transcriptToMarkdown(transcript, exportTranslator(locale), locale);
+      downloadBlob(
+        new Blob([markdown], { type: 'text/markdown;charset=utf-8' }),
+        `${transcript.bpmnFile.name}_chat_conversation.md`
+      );
+    } catch (error) {
+      console.error('Error exporting chat to Markdown:', error);
+      throw error;
+    }
+  }, [locale]);
+
+  const exportChatToDocx = useCallback((transcript: ChatTranscript) => {
+    try {
+      const markdown = transcriptToMarkdown(transcript, exportTranslator(locale), locale);
+      downloadBlob(markdownToDocx(markdown), `${transcript.bpmnFile.name}_chat_conversation.docx`);
+    } catch (error) {
+      console.error('Error exporting chat to Word:', error);
+      throw error;
+    }
+  }, [locale]);
+
+  // The transcript is data, not a document: it is not translated
+  const exportChatToJson = useCallback((transcript: ChatTranscript) => {
+    try {
+      downloadBlob(
+        new Blob([transcriptToJson(transcript)], { type: 'application/json' }),
+        `${transcript.bpmnFile.name}_chat_transcript.json`
+      );
+    } catch (error) {
+      console.error('Error exporting chat transcript:', error);
+      throw error;
+    }
   }, []);
 
   return {
     exportAnalysisToPDF,
     exportAnalysisToExcel,
     exportChatToPDF,
+    exportChatToMarkdown,
+    exportChatToDocx,
+    exportChatToJson,
   };
 };
\ No newline at end of file
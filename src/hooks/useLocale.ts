@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { resolveLocale, type Locale } from '@/lib/locale';
+
+const LOCALE_CHANGED_EVENT = 'locale-changed';
+
+// The signed-in user's output language (profiles.locale)
+export const useLocale = () => {
+  const { user } = useAuth();
+  const [locale, setLocaleState] = useState<Locale>('en');
+
+  useEffect(() => {
+    if (!user) {
+      setLocaleState('en');
+      return;
+    }
+
+    supabase
+      .from('profiles')
+      .select('locale')
+      .eq('id', user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading the user locale:', error);
+        setLocaleState(resolveLocale(data?.locale));
+      });
+
+    // Keep every component using the hook in step when the language is changed
+    const onLocaleChanged = (event: Event) => setLocaleState((event as CustomEvent<Locale>).detail);
+    window.addEventListener(LOCALE_CHANGED_EVENT, onLocaleChanged);
+    return () => window.removeEventListener(LOCALE_CHANGED_EVENT, onLocaleChanged);
+  }, [user]);
+
+  const setLocale = useCallback(async (next: Locale) => {
+    if (!user) return;
+    const { error } = await supabase
+      .from('profiles')
+      .upsert({ id: user.id, locale: next });
+    if (error) throw error;
+    window.dispatchEvent(new CustomEvent<Locale>(LOCALE_CHANGED_EVENT, { detail: next }));
+  }, [user]);
+
+  return { locale, setLocale };
+};
@@ -91,6 +91,8 @@ export type Database = {
           created_at: string
           id: string
           metadata: Json | null
+          parent_message_id: string | null
+          prompt_profile_version_id: string | null
           role: string
           session_id: string
           token_count: number | null
@@ -100,6 +102,8 @@ export type Database = {
           created_at?: string
           id?: string
           metadata?: Json | null
+          parent_message_id?: string | null
+          prompt_profile_version_id?: string | null
           role: string
           session_id: string
           token_count?: number | null
@@ -109,11 +113,27 @@ export type Database = {
           created_at?: string
           id?: string
           metadata?: Json | null
+          parent_message_id?: string | null
+          prompt_profile_version_id?: string | null
           role?: string
           session_id?: string
           token_count?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "ai_chat_messages_parent_message_id_fkey"
+            columns: ["parent_message_id"]
+            isOneToOne: false
+            referencedRelation: "ai_chat_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_chat_messages_prompt_profile_version_id_fkey"
+            columns: ["prompt_profile_version_id"]
+            isOneToOne: false
+            referencedRelation: "ai_prompt_profile_versions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "ai_chat_messages_session_id_fkey"
             columns: ["session_id"]
@@ -125,42 +145,61 @@ export type Database = {
       }
       ai_chat_sessions: {
         Row: {
+          active_message_id: string | null
           bpmn_file_id: string | null
           created_at: string
           id: string
           last_activity_at: string
+          prompt_profile_id: string | null
           session_context: Json | null
           session_summary: string | null
           started_at: string
           status: string
+          summarized_until: string | null
+          title: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          active_message_id?: string | null
           bpmn_file_id?: string | null
           created_at?: string
           id?: string
           last_activity_at?: string
+          prompt_profile_id?: string | null
           session_context?: Json | null
           session_summary?: string | null
           started_at?: string
           status?: string
+          summarized_until?: string | null
+          title?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          active_message_id?: string | null
           bpmn_file_id?: string | null
           created_at?: string
           id?: string
           last_activity_at?: string
+          prompt_profile_id?: string | null
           session_context?: Json | null
           session_summary?: string | null
           started_at?: string
           status?: string
+          summarized_until?: string | null
+          title?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "ai_chat_sessions_active_message_id_fkey"
+            columns: ["active_message_id"]
+            isOneToOne: false
+            referencedRelation: "ai_chat_messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "ai_chat_sessions_bpmn_file_id_fkey"
             columns: ["bpmn_file_id"]
@@ -168,6 +207,271 @@ export type Database = {
             referencedRelation: "bpmn_files"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ai_chat_sessions_prompt_profile_id_fkey"
+            columns: ["prompt_profile_id"]
+            isOneToOne: false
+            referencedRelation: "ai_prompt_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_message_feedback: {
+        Row: {
+          applied: boolean
+          created_at: string
+          id: string
+          message_id: string
+          rating: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          applied?: boolean
+          created_at?: string
+          id?: string
+          message_id: string
+          rating?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          applied?: boolean
+          created_at?: string
+          id?: string
+          message_id?: string
+          rating?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_message_feedback_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "ai_chat_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_message_knowledge: {
+        Row: {
+          created_at: string
+          knowledge_id: string
+          message_id: string
+        }
+        Insert: {
+          created_at?: string
+          knowledge_id: string
+          message_id: string
+        }
+        Update: {
+          created_at?: string
+          knowledge_id?: string
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_message_knowledge_knowledge_id_fkey"
+            columns: ["knowledge_id"]
+            isOneToOne: false
+            referencedRelation: "process_knowledge_base"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_message_knowledge_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "ai_chat_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_model_pricing: {
+        Row: {
+          completion_usd_per_million: number
+          created_at: string
+          effective_from: string
+          id: string
+          model: string
+          notes: string | null
+          prompt_usd_per_million: number
+          provider: string
+          updated_at: string
+        }
+        Insert: {
+          completion_usd_per_million: number
+          created_at?: string
+          effective_from?: string
+          id?: string
+          model: string
+          notes?: string | null
+          prompt_usd_per_million: number
+          provider: string
+          updated_at?: string
+        }
+        Update: {
+          completion_usd_per_million?: number
+          created_at?: string
+          effective_from?: string
+          id?: string
+          model?: string
+          notes?: string | null
+          prompt_usd_per_million?: number
+          provider?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ai_prompt_profile_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          domain_scope: string
+          guardrails: string
+          id: string
+          name: string
+          profile_id: string
+          response_format: string
+          strict_scope: boolean
+          target_hr_system: string | null
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          domain_scope: string
+          guardrails: string
+          id?: string
+          name: string
+          profile_id: string
+          response_format: string
+          strict_scope: boolean
+          target_hr_system?: string | null
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          domain_scope?: string
+          guardrails?: string
+          id?: string
+          name?: string
+          profile_id?: string
+          response_format?: string
+          strict_scope?: boolean
+          target_hr_system?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_prompt_profile_versions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "ai_prompt_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_prompt_profiles: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          domain_scope: string
+          guardrails: string
+          id: string
+          is_active: boolean
+          is_default: boolean
+          name: string
+          response_format: string
+          strict_scope: boolean
+          target_hr_system: string | null
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          domain_scope: string
+          guardrails?: string
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name: string
+          response_format: string
+          strict_scope?: boolean
+          target_hr_system?: string | null
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          domain_scope?: string
+          guardrails?: string
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name?: string
+          response_format?: string
+          strict_scope?: boolean
+          target_hr_system?: string | null
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      ai_usage_budgets: {
+        Row: {
+          created_at: string
+          hard_limit: boolean
+          id: string
+          monthly_token_limit: number | null
+          monthly_usd_limit: number | null
+          notes: string | null
+          organization_id: string | null
+          updated_at: string
+          updated_by: string | null
+          user_id: string | null
+          warning_threshold: number
+        }
+        Insert: {
+          created_at?: string
+          hard_limit?: boolean
+          id?: string
+          monthly_token_limit?: number | null
+          monthly_usd_limit?: number | null
+          notes?: string | null
+          organization_id?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string | null
+          warning_threshold?: number
+        }
+        Update: {
+          created_at?: string
+          hard_limit?: boolean
+          id?: string
+          monthly_token_limit?: number | null
+          monthly_usd_limit?: number | null
+          notes?: string | null
+          organization_id?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string | null
+          warning_threshold?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_budgets_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       ai_usage_logs: {
@@ -230,6 +534,74 @@ export type Database = {
           },
         ]
       }
+      analysis_finding_suppressions: {
+        Row: {
+          created_at: string
+          element_id: string
+          file_id: string
+          id: string
+          justification: string
+          rule_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          element_id?: string
+          file_id: string
+          id?: string
+          justification: string
+          rule_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          element_id?: string
+          file_id?: string
+          id?: string
+          justification?: string
+          rule_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_finding_suppressions_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "bpmn_files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analysis_rule_pack_settings: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          id: string
+          pack_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          pack_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          pack_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       artwork_upload: {
         Row: {
           ai_prompt: string | null
@@ -519,6 +891,7 @@ export type Database = {
           file_path: string
           file_size: number | null
           id: string
+          prompt_profile_id: string | null
           updated_at: string | null
           uploaded_at: string | null
           user_id: string
@@ -529,6 +902,7 @@ export type Database = {
           file_path: string
           file_size?: number | null
           id?: string
+          prompt_profile_id?: string | null
           updated_at?: string | null
           uploaded_at?: string | null
           user_id: string
@@ -539,11 +913,20 @@ export type Database = {
           file_path?: string
           file_size?: number | null
           id?: string
+          prompt_profile_id?: string | null
           updated_at?: string | null
           uploaded_at?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "bpmn_files_prompt_profile_id_fkey"
+            columns: ["prompt_profile_id"]
+            isOneToOne: false
+            referencedRelation: "ai_prompt_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       bpmn_swim_lane_customizations: {
         Row: {
@@ -7300,6 +7683,56 @@ export type Database = {
         }
         Relationships: []
       }
+      organization_members: {
+        Row: {
+          created_at: string
+          id: string
+          organization_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          organization_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          organization_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       packaging_projects: {
         Row: {
           add_on_features: Json | null
@@ -7486,10 +7919,20 @@ export type Database = {
           confidence_score: number | null
           created_at: string
           effectiveness_score: number | null
+          embedded_at: string | null
+          embedding: string | null
+          embedding_model: string | null
+          expires_at: string | null
           extracted_insights: Json
           id: string
           knowledge_type: string
+          merged_into_id: string | null
+          review_notes: string | null
+          review_status: string
+          reviewed_at: string | null
+          reviewed_by: string | null
           source_session_id: string | null
+          source_session_ids: string[]
           updated_at: string
           usage_count: number | null
         }
@@ -7498,10 +7941,20 @@ export type Database = {
           confidence_score?: number | null
           created_at?: string
           effectiveness_score?: number | null
+          embedded_at?: string | null
+          embedding?: string | null
+          embedding_model?: string | null
+          expires_at?: string | null
           extracted_insights: Json
           id?: string
           knowledge_type: string
+          merged_into_id?: string | null
+          review_notes?: string | null
+          review_status?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           source_session_id?: string | null
+          source_session_ids?: string[]
           updated_at?: string
           usage_count?: number | null
         }
@@ -7510,14 +7963,31 @@ export type Database = {
           confidence_score?: number | null
           created_at?: string
           effectiveness_score?: number | null
+          embedded_at?: string | null
+          embedding?: string | null
+          embedding_model?: string | null
+          expires_at?: string | null
           extracted_insights?: Json
           id?: string
           knowledge_type?: string
+          merged_into_id?: string | null
+          review_notes?: string | null
+          review_status?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           source_session_id?: string | null
+          source_session_ids?: string[]
           updated_at?: string
           usage_count?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "process_knowledge_base_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "process_knowledge_base"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "process_knowledge_base_source_session_id_fkey"
             columns: ["source_session_id"]
@@ -7531,16 +8001,19 @@ export type Database = {
         Row: {
           full_name: string | null
           id: string
+          locale: string
           updated_at: string | null
         }
         Insert: {
           full_name?: string | null
           id: string
+          locale?: string
           updated_at?: string | null
         }
         Update: {
           full_name?: string | null
           id?: string
+          locale?: string
           updated_at?: string | null
         }
         Relationships: []
@@ -8040,6 +8513,19 @@ export type Database = {
       }
     }
     Functions: {
+      ai_budget_status: {
+        Args: { p_user_id: string }
+        Returns: Json
+      }
+      ai_model_cost: {
+        Args: {
+          p_model: string
+          p_prompt_tokens: number
+          p_completion_tokens: number
+          p_at?: string
+        }
+        Returns: number
+      }
       capture_daily_stock_snapshot: {
         Args: Record<PropertyKey, never>
         Returns: Json
@@ -8656,6 +9142,13 @@ export type Database = {
         }
         Returns: Json
       }
+      find_duplicate_knowledge: {
+        Args: { p_embedding: string; p_min_similarity?: number }
+        Returns: {
+          id: string
+          similarity: number
+        }[]
+      }
       generate_item_code: {
         Args: {
           category_name: string
@@ -8725,6 +9218,37 @@ export type Database = {
         }
         Returns: undefined
       }
+      match_process_knowledge: {
+        Args: {
+          p_query_embedding: string
+          p_match_count?: number
+          p_min_confidence?: number
+        }
+        Returns: {
+          id: string
+          knowledge_type: string
+          extracted_insights: Json
+          confidence_score: number
+          effectiveness_score: number
+          similarity: number
+        }[]
+      }
+      record_knowledge_occurrence: {
+        Args: {
+          p_knowledge_id: string
+          p_session_id: string
+          p_confidence: number
+        }
+        Returns: boolean
+      }
+      recompute_ai_usage_costs: {
+        Args: { p_model?: string; p_since?: string }
+        Returns: number
+      }
+      score_knowledge_entries: {
+        Args: { p_knowledge_ids?: string[] }
+        Returns: number
+      }
       set_limit: {
         Args: { "": number }
         Returns: number
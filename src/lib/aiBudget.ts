@@ -0,0 +1,55 @@
+// Client side of the monthly AI budgets enforced by the edge functions
+// (supabase/functions/_shared/budget.ts)
+
+export const AI_BUDGET_EXCEEDED = 'AI_BUDGET_EXCEEDED';
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetUsage {
+  budget_id: string;
+  scope: 'default' | 'user' | 'organization';
+  organization_id: string | null;
+  organization_name: string | null;
+  tokens_used: number;
+  usd_used: number;
+  token_limit: number | null;
+  usd_limit: number | null;
+  usage_ratio: number;
+  warning_threshold: number;
+  hard_limit: boolean;
+  status: BudgetLevel;
+}
+
+export interface BudgetStatus {
+  status: BudgetLevel;
+  period_start: string;
+  budgets: BudgetUsage[];
+}
+
+export interface BudgetNotice {
+  status: BudgetLevel;
+  message: string;
+  budgets: BudgetUsage[];
+}
+
+export interface FunctionErrorBody {
+  error?: string;
+  code?: string;
+  budget?: BudgetNotice;
+}
+
+// supabase.functions.invoke only reports "non-2xx status"; the JSON body is on the response
+export async function readFunctionErrorBody(error: unknown): Promise<FunctionErrorBody | null> {
+  const response = (error as { context?: Response } | null)?.context;
+  if (!response || typeof response.json !== 'function') return null;
+  try {
+    return await response.clone().json();
+  } catch {
+    return null;
+  }
+}
+
+export const budgetScopeLabel = (budget: BudgetUsage) =>
+  budget.scope === 'organization'
+    ? `${budget.organization_name} (organization)`
+    : budget.scope === 'user' ? 'Your budget' : 'Default budget';
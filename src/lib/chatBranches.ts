@@ -0,0 +1,35 @@
+// Client side of branching chat sessions. Every message points at the message it follows
+// (ai_chat_messages.parent_message_id); regenerated answers and edited questions are
+// siblings under the same parent. The chat shows one path, ending at the active message.
+// Messages are kept in the order they were created, so the last sibling is the newest.
+
+export interface BranchNode {
+  id: string;
+  parentId: string | null;
+}
+
+// The messages from the start of the conversation to leafId
+export function branchPath<T extends BranchNode>(nodes: T[], leafId: string | null): T[] {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const path: T[] = [];
+  let node = leafId ? byId.get(leafId) : undefined;
+  while (node && !path.includes(node)) {
+    path.push(node);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+// The alternatives to a message, including itself, oldest first
+export const siblingsOf = <T extends BranchNode>(nodes: T[], node: T): T[] =>
+  nodes.filter(candidate => candidate.parentId === node.parentId);
+
+// The end of the newest conversation continuing from a message
+export function latestLeaf<T extends BranchNode>(nodes: T[], node: T): T {
+  let leaf = node;
+  for (;;) {
+    const children = nodes.filter(candidate => candidate.parentId === leaf.id);
+    if (children.length === 0) return leaf;
+    leaf = children[children.length - 1];
+  }
+}
@@ -0,0 +1,27 @@
+// Diagram edits proposed by the chat (supabase/functions/_shared/chat-edit-tools.ts).
+// A proposal has the shape of an editor suggestion, so BpmnViewer applies it like the
+// analysis suggestions and records the AI revision.
+
+export type EditProposalType = 'insert-task-after' | 'rename-element' | 'move-to-lane' | 'change-gateway';
+
+export type EditProposalStatus = 'pending' | 'applied' | 'rejected';
+
+export interface EditProposal {
+  id: string;
+  type: EditProposalType;
+  elementId: string;
+  description: string;
+  reason: string;
+  details: Record<string, string>;
+  status: EditProposalStatus;
+}
+
+// BpmnViewer reports the outcome of every applySuggestion call with this window event
+export const SUGGESTION_RESULT_EVENT = 'suggestionApplyResult';
+
+export interface SuggestionResultDetail {
+  suggestionId: string;
+  success: boolean;
+  error?: string;
+  version?: number;
+}
@@ -0,0 +1,75 @@
+// Client side of the ai-chat event stream (streamChatResponse in supabase/functions/ai-chat)
+import type { BudgetNotice } from '@/lib/aiBudget';
+import type { EditProposal } from '@/lib/chatEditProposals';
+
+export interface ChatStreamUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean;
+}
+
+export type ChatStreamEvent =
+  | { event: 'session'; data: { sessionId: string; questionMessageId: string; budgetWarning: BudgetNotice | null } }
+  | { event: 'delta'; data: { content: string } }
+  | {
+      event: 'done';
+      data: {
+        sessionId: string;
+        messageId: string | null;
+        response: string;
+        editProposals: EditProposal[];
+        usage: ChatStreamUsage;
+        cancelled: boolean;
+      };
+    }
+  | { event: 'error'; data: { error: string } };
+
+function parseEvent(raw: string): ChatStreamEvent | null {
+  let event: string | null = null;
+  const data: string[] = [];
+
+  for (const line of raw.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) continue;
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    if (field === 'data') data.push(value);
+  }
+
+  if (!event || data.length === 0) return null;
+  return { event, data: JSON.parse(data.join('\n')) } as ChatStreamEvent;
+}
+
+// Yields the events of a streamed chat response. Aborting the signal cancels the stream,
+// which makes the edge function stop the model call and store the partial answer.
+export async function* readChatStream(response: Response, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+  if (!response.body) {
+    throw new Error('The chat response has no body to stream');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  const cancel = () => reader.cancel().catch(() => {});
+  signal?.addEventListener('abort', cancel, { once: true });
+  let buffer = '';
+
+  try {
+    while (!signal?.aborted) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const event = parseEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        if (event) yield event;
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    cancel();
+  }
+}
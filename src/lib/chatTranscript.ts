@@ -0,0 +1,130 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { formatDateTime, type Locale } from '@/lib/locale';
+
+// Chat exports beyond PDF. A transcript is the branch shown in the chat plus what is stored
+// about it: token counts and metadata per message, the session and the BPMN file version the
+// conversation is about (the latest bpmn_versions row, or the uploaded file when there is none).
+// The Markdown and Word exports render the messages verbatim, so the headings, lists and code
+// blocks the assistant writes survive.
+
+export const TRANSCRIPT_FORMAT = 'hris-chat-transcript';
+
+export interface TranscriptMessage {
+  // null for messages that were never stored (failed requests)
+  id: string | null;
+  parentId: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  tokenCount: number | null;
+  promptProfileVersionId: string | null;
+  metadata: Json | null;
+}
+
+export interface ChatTranscript {
+  format: typeof TRANSCRIPT_FORMAT;
+  formatVersion: 1;
+  exportedAt: string;
+  session: { id: string; title: string | null } | null;
+  bpmnFile: {
+    id: string | null;
+    name: string;
+    // null when the diagram has not been edited since it was uploaded
+    versionNumber: number | null;
+    versionId: string | null;
+  };
+  messages: TranscriptMessage[];
+}
+
+export interface TranscriptSource {
+  sessionId: string | null;
+  bpmnFileId?: string;
+  fileName: string;
+  messages: { dbId?: string | null; role: 'user' | 'assistant'; content: string; timestamp: string }[];
+}
+
+export async function loadChatTranscript(source: TranscriptSource): Promise<ChatTranscript> {
+  const storedIds = source.messages.flatMap(message => message.dbId ? [message.dbId] : []);
+
+  const [storedMessages, session, version] = await Promise.all([
+    storedIds.length > 0
+      ? supabase
+          .from('ai_chat_messages')
+          .select('id, parent_message_id, token_count, metadata, prompt_profile_version_id')
+          .in('id', storedIds)
+      : null,
+    source.sessionId
+      ? supabase.from('ai_chat_sessions').select('id, title').eq('id', source.sessionId).maybeSingle()
+      : null,
+    source.bpmnFileId
+      ? supabase
+          .from('bpmn_versions')
+          .select('id, version_number')
+          .eq('bpmn_file_id', source.bpmnFileId)
+          .order('version_number', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+      : null,
+  ]);
+
+  for (const result of [storedMessages, session, version]) {
+    if (result?.error) throw result.error;
+  }
+
+  const storedById = new Map((storedMessages?.data || []).map(message => [message.id, message]));
+
+  return {
+    format: TRANSCRIPT_FORMAT,
+    formatVersion: 1,
+    exportedAt: new Date().toISOString(),
+    session: session?.data ?? (source.sessionId ? { id: source.sessionId, title: null } : null),
+    bpmnFile: {
+      id: source.bpmnFileId ?? null,
+      name: source.fileName,
+      versionNumber: version?.data?.version_number ?? null,
+      versionId: version?.data?.id ?? null,
+    },
+    messages: source.messages.map(message => {
+      const stored = message.dbId ? storedById.get(message.dbId) : undefined;
+      return {
+        id: stored?.id ?? null,
+        parentId: stored?.parent_message_id ?? null,
+        role: message.role,
+        content: message.content,
+        createdAt: message.timestamp,
+        tokenCount: stored?.token_count ?? null,
+        promptProfileVersionId: stored?.prompt_profile_version_id ?? null,
+        metadata: stored?.metadata ?? null,
+      };
+    }),
+  };
+}
+
+export const transcriptToJson = (transcript: ChatTranscript) => JSON.stringify(transcript, null, 2);
+
+// t translates the export labels (exportTranslator)
+export function transcriptToMarkdown(transcript: ChatTranscript, t: (text: string) => string, locale: Locale) {
+  const { bpmnFile, session } = transcript;
+  const version = bpmnFile.versionNumber === null
+    ? t('uploaded file')
+    : `${t('Version')} ${bpmnFile.versionNumber}`;
+
+  const header = [
+    `# ${t('BPMN Process Chat Conversation')}`,
+    '',
+    `- **${t('File')}:** ${bpmnFile.name} (${version})`,
+    ...(session?.title ? [`- **${t('Session')}:** ${session.title}`] : []),
+    `- **${t('Exported')}:** ${formatDateTime(transcript.exportedAt, locale)}`,
+    '',
+    '---',
+  ];
+
+  const messages = transcript.messages.map(message => [
+    `## ${t(message.role === 'user' ? 'You' : 'AI Assistant')} · ${formatDateTime(message.createdAt, locale)}`,
+    '',
+    message.content.trim(),
+  ].join('\n'));
+
+  return [header.join('\n'), ...messages].join('\n\n') + '\n';
+}
@@ -0,0 +1,255 @@
+import { strToU8, zipSync } from 'fflate';
+
+// Word documents (.docx) from Markdown, written as plain WordprocessingML. Covers what chat
+// answers use: headings, bullet and numbered lists (nested by indentation), fenced code blocks,
+// quotes, horizontal rules and bold, italic, code and link spans. Anything else is kept as text.
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+interface ListItem {
+  level: number;
+  ordered: boolean;
+  text: string;
+}
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'list'; items: ListItem[] }
+  | { type: 'code'; lines: string[] }
+  | { type: 'quote'; lines: string[] }
+  | { type: 'rule' };
+
+interface Run {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+•]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || LIST_ITEM.test(line) || QUOTE.test(line);
+
+function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) code.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', lines: code });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    // Before lists, so "- - -" and "* * *" are rules
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      // Nesting follows the distinct indentation widths seen so far
+      const indents: number[] = [];
+      const levelOf = (indent: number) => {
+        while (indents.length > 0 && indents[indents.length - 1] > indent) indents.pop();
+        if (indents.length === 0 || indents[indents.length - 1] < indent) indents.push(indent);
+        return Math.min(indents.length - 1, 8);
+      };
+
+      const items: ListItem[] = [];
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (item && !RULE.test(lines[i])) {
+          items.push({
+            level: levelOf(item[1].replace(/\t/g, '    ').length),
+            ordered: /\d/.test(item[2]),
+            text: item[3],
+          });
+        } else if (lines[i].trim() && /^\s/.test(lines[i]) && !startsBlock(lines[i])) {
+          // Continuation of the previous item
+          items[items.length - 1].text += ` ${lines[i].trim()}`;
+        } else if (lines[i].trim() || !LIST_ITEM.test(lines[i + 1] ?? '')) {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', items });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quote: string[] = [];
+      for (let match = QUOTE.exec(lines[i]); match; match = QUOTE.exec(lines[++i] ?? '')) quote.push(match[1]);
+      blocks.push({ type: 'quote', lines: quote });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({ type: 'paragraph', lines: paragraph });
+  }
+
+  return blocks;
+}
+
+const INLINE = /(\*\*|__)(.+?)\1|\*(?!\s)(.+?)\*|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+function parseInline(text: string): Run[] {
+  const runs: Run[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    if (match.index! > last) runs.push({ text: text.slice(last, match.index) });
+    if (match[2] !== undefined) runs.push({ text: match[2], bold: true });
+    else if (match[3] !== undefined) runs.push({ text: match[3], italic: true });
+    else if (match[4] !== undefined) runs.push({ text: match[4], code: true });
+    else runs.push({ text: `${match[5]} (${match[6]})` });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) runs.push({ text: text.slice(last) });
+  return runs;
+}
+
+const escapeXml = (text: string) =>
+  text
+    // Control characters are not allowed in XML
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const MONOSPACE = '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>';
+
+const runXml = ({ text, bold, italic, code }: Run) => {
+  const properties = `${bold ? '<w:b/>' : ''}${italic ? '<w:i/>' : ''}${code ? MONOSPACE : ''}`;
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const LINE_BREAK = '<w:r><w:br/></w:r>';
+
+const inlineXml = (lines: string[]) =>
+  lines.map(line => parseInline(line).map(runXml).join('')).join(LINE_BREAK);
+
+const paragraphXml = (properties: string, content: string) =>
+  `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+
+const style = (styleId: string) => `<w:pStyle w:val="${styleId}"/>`;
+
+const BULLET_NUM_ID = 1;
+const ORDERED_ABSTRACT_ID = 1;
+
+function documentXml(blocks: Block[]) {
+  // Every numbered list gets its own numbering instance, so it starts again at 1
+  const orderedNumIds: number[] = [];
+
+  const body = blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return paragraphXml(style(`Heading${Math.min(block.level, 4)}`), inlineXml([block.text]));
+      case 'paragraph':
+        return paragraphXml('', inlineXml(block.lines));
+      case 'quote':
+        return paragraphXml(style('Quote'), inlineXml(block.lines));
+      case 'code':
+        return block.lines
+          .map(line => paragraphXml(style('Code'), runXml({ text: line })))
+          .join('');
+      case 'rule':
+        return paragraphXml('<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>', '');
+      case 'list': {
+        const orderedNumId = BULLET_NUM_ID + orderedNumIds.length + 1;
+        if (block.items.some(item => item.ordered)) orderedNumIds.push(orderedNumId);
+        return block.items
+          .map(item => paragraphXml(
+            `${style('ListParagraph')}<w:numPr><w:ilvl w:val="${item.level}"/><w:numId w:val="${item.ordered ? orderedNumId : BULLET_NUM_ID}"/></w:numPr>`,
+            inlineXml([item.text])
+          ))
+          .join('');
+      }
+    }
+  }).join('');
+
+  const xml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  return { xml, orderedNumIds };
+}
+
+const LEVELS = Array.from({ length: 9 }, (_, level) => level);
+
+const levelXml = (level: number, format: string, text: string) =>
+  `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+
+const BULLETS = ['•', '◦', '▪'];
+const ORDERED_FORMATS = ['decimal', 'lowerLetter', 'lowerRoman'];
+
+function numberingXml(orderedNumIds: number[]) {
+  const bullets = LEVELS.map(level => levelXml(level, 'bullet', BULLETS[level % 3])).join('');
+  const ordered = LEVELS.map(level => levelXml(level, ORDERED_FORMATS[level % 3], `%${level + 1}.`)).join('');
+  const orderedNums = orderedNumIds
+    .map(numId => `<w:num w:numId="${numId}"><w:abstractNumId w:val="${ORDERED_ABSTRACT_ID}"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`)
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${bullets}</w:abstractNum><w:abstractNum w:abstractNumId="${ORDERED_ABSTRACT_ID}"><w:multiLevelType w:val="hybridMultilevel"/>${ordered}</w:abstractNum><w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>${orderedNums}</w:numbering>`;
+}
+
+const headingStyle = (level: number, size: number) =>
+  `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`;
+
+// Nirmala UI covers Devanagari (Hindi chats) where the default font does not
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Nirmala UI"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>${headingStyle(1, 32)}${headingStyle(2, 28)}${headingStyle(3, 24)}${headingStyle(4, 22)}<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="40"/><w:contextualSpacing/></w:pPr></w:style><w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr>${MONOSPACE}<w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr></w:style><w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="12" w:space="8" w:color="BFBFBF"/></w:pBdr><w:ind w:left="360"/></w:pPr><w:rPr><w:i/><w:color w:val="595959"/></w:rPr></w:style></w:styles>`;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/></Types>`;
+
+const PACKAGE_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+const DOCUMENT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/></Relationships>`;
+
+export function markdownToDocx(markdown: string): Blob {
+  const { xml, orderedNumIds } = documentXml(parseBlocks(markdown));
+
+  const archive = zipSync({
+    '[Content_Types].xml': strToU8(CONTENT_TYPES_XML),
+    '_rels/.rels': strToU8(PACKAGE_RELS_XML),
+    'word/document.xml': strToU8(xml),
+    'word/styles.xml': strToU8(STYLES_XML),
+    'word/numbering.xml': strToU8(numberingXml(orderedNumIds)),
+    'word/_rels/document.xml.rels': strToU8(DOCUMENT_RELS_XML),
+  });
+
+  return new Blob([archive], { type: DOCX_MIME_TYPE });
+}
@@ -0,0 +1,141 @@
+// Client side of the per-user output language (profiles.locale). analyze-bpmn and ai-chat
+// translate on the server (supabase/functions/_shared/i18n); the catalogs here cover the
+// labels of the PDF/Excel exports. As on the server, the English text is the key.
+
+export type Locale = 'en' | 'de' | 'hi' | 'es';
+
+export const LOCALES: { value: Locale; label: string; dateLocale?: string }[] = [
+  { value: 'en', label: 'English' }, // dates keep the browser format
+  { value: 'de', label: 'Deutsch', dateLocale: 'de-DE' },
+  { value: 'hi', label: 'हिन्दी', dateLocale: 'hi-IN' },
+  { value: 'es', label: 'Español', dateLocale: 'es-ES' },
+];
+
+export const resolveLocale = (value: unknown): Locale =>
+  LOCALES.some(locale => locale.value === value) ? value as Locale : 'en';
+
+const EXPORT_CATALOGS: Record<Exclude<Locale, 'en'>, Record<string, string>> = {
+  de: {
+    'BPMN Process Analysis Report': 'BPMN-Prozessanalyse',
+    'BPMN Process Chat Conversation': 'BPMN-Prozess-Chat',
+    'File': 'Datei',
+    'File Name': 'Dateiname',
+    'Generated': 'Erstellt',
+    'Exported': 'Exportiert',
+    'Summary': 'Zusammenfassung',
+    'User Tasks': 'Benutzeraufgaben',
+    'Integrations': 'Integrationen',
+    'Complexity': 'Komplexität',
+    'Issues Found': 'Gefundene Probleme',
+    'AI Process Intelligence': 'KI-Prozessanalyse',
+    'AI Insights': 'KI-Erkenntnisse',
+    'Insights': 'Erkenntnisse',
+    'Insight': 'Erkenntnis',
+    'Recommendations': 'Empfehlungen',
+    'Recommendation': 'Empfehlung',
+    'Risk Assessment': 'Risikobewertung',
+    'Detailed Findings': 'Befunde im Detail',
+    'Findings': 'Befunde',
+    'Element': 'Element',
+    'Rule Name': 'Regel',
+    'Severity': 'Schweregrad',
+    'Message': 'Meldung',
+    'Element Name': 'Elementname',
+    'Element ID': 'Element-ID',
+    'Type': 'Typ',
+    'Content': 'Inhalt',
+    'error': 'Fehler',
+    'warning': 'Warnung',
+    'info': 'Hinweis',
+    'You': 'Sie',
+    'AI Assistant': 'KI-Assistent',
+    'N/A': 'k. A.',
+    'Session': 'Sitzung',
+    'Version': 'Version',
+    'uploaded file': 'hochgeladene Datei',
+  },
+  hi: {
+    'BPMN Process Analysis Report': 'BPMN प्रक्रिया विश्लेषण रिपोर्ट',
+    'BPMN Process Chat Conversation': 'BPMN प्रक्रिया चैट वार्तालाप',
+    'File': 'फ़ाइल',
+    'File Name': 'फ़ाइल का नाम',
+    'Generated': 'बनाया गया',
+    'Exported': 'एक्सपोर्ट किया गया',
+    'Summary': 'सारांश',
+    'User Tasks': 'यूज़र टास्क',
+    'Integrations': 'इंटीग्रेशन',
+    'Complexity': 'जटिलता',
+    'Issues Found': 'मिली समस्याएँ',
+    'AI Process Intelligence': 'AI प्रक्रिया विश्लेषण',
+    'AI Insights': 'AI अंतर्दृष्टि',
+    'Insights': 'अंतर्दृष्टि',
+    'Insight': 'अंतर्दृष्टि',
+    'Recommendations': 'सुझाव',
+    'Recommendation': 'सुझाव',
+    'Risk Assessment': 'जोखिम आकलन',
+    'Detailed Findings': 'विस्तृत निष्कर्ष',
+    'Findings': 'निष्कर्ष',
+    'Element': 'तत्व',
+    'Rule Name': 'नियम',
+    'Severity': 'गंभीरता',
+    'Message': 'संदेश',
+    'Element Name': 'तत्व का नाम',
+    'Element ID': 'तत्व ID',
+    'Type': 'प्रकार',
+    'Content': 'सामग्री',
+    'error': 'त्रुटि',
+    'warning': 'चेतावनी',
+    'info': 'जानकारी',
+    'You': 'आप',
+    'AI Assistant': 'AI सहायक',
+    'N/A': 'लागू नहीं',
+    'Session': 'सत्र',
+    'Version': 'संस्करण',
+    'uploaded file': 'अपलोड की गई फ़ाइल',
+  },
+  es: {
+    'BPMN Process Analysis Report': 'Informe de análisis de procesos BPMN',
+    'BPMN Process Chat Conversation': 'Conversación sobre el proceso BPMN',
+    'File': 'Archivo',
+    'File Name': 'Nombre del archivo',
+    'Generated': 'Generado',
+    'Exported': 'Exportado',
+    'Summary': 'Resumen',
+    'User Tasks': 'Tareas de usuario',
+    'Integrations': 'Integraciones',
+    'Complexity': 'Complejidad',
+    'Issues Found': 'Problemas encontrados',
+    'AI Process Intelligence': 'Inteligencia de procesos con IA',
+    'AI Insights': 'Análisis de IA',
+    'Insights': 'Observaciones',
+    'Insight': 'Observación',
+    'Recommendations': 'Recomendaciones',
+    'Recommendation': 'Recomendación',
+    'Risk Assessment': 'Evaluación de riesgos',
+    'Detailed Findings': 'Hallazgos detallados',
+    'Findings': 'Hallazgos',
+    'Element': 'Elemento',
+    'Rule Name': 'Regla',
+    'Severity': 'Gravedad',
+    'Message': 'Mensaje',
+    'Element Name': 'Nombre del elemento',
+    'Element ID': 'ID del elemento',
+    'Type': 'Tipo',
+    'Content': 'Contenido',
+    'error': 'Error',
+    'warning': 'Advertencia',
+    'info': 'Información',
+    'You': 'Usted',
+    'AI Assistant': 'Asistente de IA',
+    'N/A': 'N/D',
+    'Session': 'Sesión',
+    'Version': 'Versión',
+    'uploaded file': 'archivo subido',
+  },
+};
+
+export const exportTranslator = (locale: Locale) => (text: string) =>
+  locale === 'en' ? text : EXPORT_CATALOGS[locale][text] ?? text;
+
+export const formatDateTime = (value: string | number | Date, locale: Locale) =>
+  new Date(value).toLocaleString(LOCALES.find(option => option.value === locale)?.dateLocale);
@@ -0,0 +1,51 @@
+import type jsPDF from 'jspdf';
+
+// jsPDF's built-in fonts only cover Latin-1, so exports with other scripts embed a Noto
+// font that does. The font files are fetched on first use and cached for the session.
+// Noto script fonts include Latin glyphs, so mixed text renders with one font.
+
+const PDF_FONTS = [
+  {
+    name: 'NotoSansDevanagari',
+    script: /[\u0900-\u097F]/,
+    url: 'https://cdn.jsdelivr.net/gh/notofonts/notofonts.github.io/fonts/NotoSansDevanagari/hinted/ttf/NotoSansDevanagari-Regular.ttf',
+  },
+];
+
+const fontCache = new Map<string, Promise<string>>();
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const loadFont = (name: string, url: string) => {
+  if (!fontCache.has(name)) {
+    const request = fetch(url).then(async (response) => {
+      if (!response.ok) throw new Error(`Font request failed with ${response.status}`);
+      return toBase64(await response.arrayBuffer());
+    });
+    request.catch(() => fontCache.delete(name)); // retry on the next export
+    fontCache.set(name, request);
+  }
+  return fontCache.get(name)!;
+};
+
+// Selects a font that can render the given text; keeps Helvetica when it cannot be loaded
+export const selectPdfFont = async (pdf: jsPDF, texts: string[]) => {
+  const font = PDF_FONTS.find(candidate => texts.some(text => candidate.script.test(text)));
+  if (!font) return;
+
+  try {
+    const data = await loadFont(font.name, font.url);
+    pdf.addFileToVFS(`${font.name}.ttf`, data);
+    pdf.addFont(`${font.name}.ttf`, font.name, 'normal');
+    pdf.setFont(font.name, 'normal');
+  } catch (error) {
+    console.warn(`Could not load the ${font.name} PDF font, non-Latin text may not render:`, error);
+  }
+};
@@ -0,0 +1,16 @@
+// Client side of the assistant profiles the chat prompt is built from
+// (supabase/functions/_shared/prompt-profiles.ts)
+
+import type { Tables } from '@/integrations/supabase/types';
+
+export type PromptProfile = Tables<'ai_prompt_profiles'>;
+
+export const HR_SYSTEMS = [
+  { value: 'successfactors', label: 'SAP SuccessFactors' },
+  { value: 'workday', label: 'Workday' },
+  { value: 'oracle_hcm', label: 'Oracle HCM Cloud' },
+  { value: 'bamboohr', label: 'BambooHR' },
+] as const;
+
+export const hrSystemLabel = (value: string | null) =>
+  HR_SYSTEMS.find(system => system.value === value)?.label || 'Any HR system';
@@ -15,6 +15,7 @@ import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2 } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import type { EditProposal } from '@/lib/chatEditProposals';
 
 interface FileData {
   id: string;
@@ -57,6 +58,7 @@ interface AnalysisResult {
     elementId: string | null;
     elementName: string | null;
     description: string;
+    relatedElementIds?: string[];
   }>;
 }
 
@@ -69,6 +71,8 @@ const Index = () => {
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
   const [activeTab, setActiveTab] = useState("upload");
+  const [focusedElement, setFocusedElement] = useState<{ elementId: string; relatedElementIds?: string[] } | null>(null);
+  const [pendingChatEdit, setPendingChatEdit] = useState<EditProposal | null>(null);
   const [bpmnViewerRef, setBpmnViewerRef] = useState<any>(null);
   const [isAdmin, setIsAdmin] = useState(false);
   
@@ -89,9 +93,12 @@ const Index = () => {
   // Check admin status
   useEffect(() => {
     const checkAdminStatus = async () => {
-      if (user?.email === 'info@dkenterprises.co.in') {
-        setIsAdmin(true);
+      const { data, error } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+      if (error) {
+        console.error('Error checking admin status:', error);
+        return;
       }
+      setIsAdmin(data === true);
     };
     if (user) checkAdminStatus();
   }, [user]);
@@ -205,6 +212,18 @@ const Index = () => {
     window.dispatchEvent(event);
   }, [uploadedFile, appliedSuggestions, globalSuggestionLock, toast]);
 
+  const handleFindingSelect = useCallback((finding: AnalysisResult['findings'][number]) => {
+    if (!finding.elementId) return;
+    setFocusedElement({ elementId: finding.elementId, relatedElementIds: finding.relatedElementIds });
+    setActiveTab("upload");
+  }, []);
+
+  // Chat edit proposals are applied in the editor, which must be on screen to do so
+  const handleApplyChatEdit = useCallback((proposal: EditProposal) => {
+    setPendingChatEdit(proposal);
+    setActiveTab("upload");
+  }, []);
+
   const handleSuggestionApplied = useCallback((appliedSuggestion: any) => {
     console.log('✅ Index - Suggestion applied, removing from results:', appliedSuggestion);
     
@@ -491,6 +510,9 @@ const Index = () => {
                     suggestions={analysisResult?.processIntelligence?.editingSuggestions || []}
                     onSuggestionApplied={handleSuggestionApplied}
                     analysisResult={analysisResult}
+                    focusElement={focusedElement}
+                    pendingSuggestion={pendingChatEdit}
+                    onPendingSuggestionHandled={() => setPendingChatEdit(null)}
                   />
                 )}
               </div>
@@ -503,6 +525,7 @@ const Index = () => {
                   loading={analyzing}
                   onRefresh={runAnalysis}
                   onApplySuggestion={handleApplySuggestion}
+                  onFindingSelect={handleFindingSelect}
                 />
               ) : (
                 <div className="text-center py-12">
@@ -542,6 +565,7 @@ const Index = () => {
               filePath: uploadedFile.filePath
             }}
             analysisResult={analysisResult}
+            onApplyEdit={handleApplyChatEdit}
           />
         )}
 
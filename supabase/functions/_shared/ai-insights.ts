@@ -0,0 +1,113 @@
+import { z } from 'https://esm.sh/zod@3.23.8';
+
+// Structured output contract for the AI process insights of analyze-bpmn.
+//
+// AI_INSIGHTS_JSON_SCHEMA is sent as the OpenAI `json_schema` response format (strict
+// mode, so every property is required and optional values are null). The zod schema
+// re-checks the reply, and additionally requires every suggestion to target an element
+// that exists in the analyzed diagram.
+
+export const SUGGESTION_TYPES = ['add-task', 'add-gateway', 'change-gateway', 'optimize-flow', 'add-role'] as const;
+export const GATEWAY_KINDS = ['exclusive', 'parallel', 'inclusive', 'event'] as const;
+export type GatewayKind = typeof GATEWAY_KINDS[number];
+
+// BPMN element type the editor creates for each gateway kind
+export const BPMN_GATEWAY_TYPES: Record<GatewayKind, string> = {
+  exclusive: 'bpmn:ExclusiveGateway',
+  parallel: 'bpmn:ParallelGateway',
+  inclusive: 'bpmn:InclusiveGateway',
+  event: 'bpmn:EventBasedGateway',
+};
+
+export const AI_INSIGHTS_JSON_SCHEMA = {
+  name: 'process_insights',
+  strict: true,
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['insights', 'recommendations', 'risks', 'editingSuggestions'],
+    properties: {
+      insights: { type: 'array', items: { type: 'string' } },
+      recommendations: { type: 'array', items: { type: 'string' } },
+      risks: { type: 'array', items: { type: 'string' } },
+      editingSuggestions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['type', 'elementId', 'description', 'details'],
+          properties: {
+            type: { type: 'string', enum: [...SUGGESTION_TYPES] },
+            elementId: { type: ['string', 'null'] },
+            description: { type: 'string' },
+            details: {
+              type: 'object',
+              additionalProperties: false,
+              required: ['implementation', 'name', 'gatewayType', 'roleName', 'position'],
+              properties: {
+                implementation: { type: 'string' },
+                name: { type: ['string', 'null'] },
+                gatewayType: { type: ['string', 'null'], enum: [...GATEWAY_KINDS, null] },
+                roleName: { type: ['string', 'null'] },
+                position: { type: ['string', 'null'], enum: ['before', 'after', null] },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const suggestionSchema = z.object({
+  type: z.enum(SUGGESTION_TYPES),
+  elementId: z.string().min(1).nullable(),
+  description: z.string().trim().min(1),
+  details: z.object({
+    implementation: z.string().trim().min(1),
+    name: z.string().nullable(),
+    gatewayType: z.enum(GATEWAY_KINDS).nullable(),
+    roleName: z.string().nullable(),
+    position: z.enum(['before', 'after']).nullable(),
+  }),
+});
+
+export type AIEditingSuggestion = z.infer<typeof suggestionSchema>;
+
+const insightsShape = {
+  insights: z.array(z.string().trim().min(1)).min(1),
+  recommendations: z.array(z.string().trim().min(1)).min(1),
+  risks: z.array(z.string().trim().min(1)),
+};
+
+// Shape only; used to salvage the valid suggestions once the retries are exhausted
+export const aiInsightsSchema = z.object({
+  ...insightsShape,
+  editingSuggestions: z.array(suggestionSchema),
+});
+
+export type AIInsights = z.infer<typeof aiInsightsSchema>;
+
+// Full contract: a suggestion may only reference an element of the diagram, or null
+export const aiInsightsSchemaFor = (elementIds: string[]) => {
+  const known = new Set(elementIds);
+  return z.object({
+    ...insightsShape,
+    editingSuggestions: z.array(
+      suggestionSchema.refine(
+        suggestion => suggestion.elementId === null || known.has(suggestion.elementId),
+        suggestion => ({
+          message: `Unknown elementId "${suggestion.elementId}". Use one of the listed element IDs or null.`,
+          path: ['elementId'],
+        })
+      )
+    ).min(1),
+  });
+};
+
+// One line per issue, short enough to send back to the model
+export const formatValidationIssues = (error: z.ZodError) =>
+  error.issues
+    .slice(0, 10)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('\n');
@@ -0,0 +1,399 @@
+import BpmnModdle from 'https://esm.sh/bpmn-moddle@9.0.2';
+
+// Typed BPMN object model built with bpmn-moddle. Shared by edge functions that
+// need to reason about a diagram instead of pattern-matching its XML.
+
+export type BpmnNodeCategory = 'task' | 'subProcess' | 'callActivity' | 'event' | 'gateway';
+
+export interface BpmnNode {
+  id: string;
+  name: string;
+  hasName: boolean;
+  type: string; // local BPMN type name, e.g. 'userTask', 'boundaryEvent'
+  category: BpmnNodeCategory;
+  processId: string | null;
+  parentId: string | null; // enclosing sub-process, if any
+  laneId: string | null;
+  laneName: string | null;
+  incoming: string[]; // sequence flow IDs
+  outgoing: string[]; // sequence flow IDs
+  documentation: string;
+  eventDefinitions: string[]; // e.g. ['errorEventDefinition']
+  attachedToRef: string | null;
+  cancelActivity: boolean | null;
+  triggeredByEvent: boolean; // event sub-process, started by its own start event
+  defaultFlowId: string | null;
+  implementation: string | null;
+  assignee: string | null;
+}
+
+export interface BpmnFlow {
+  id: string;
+  name: string;
+  type: 'sequenceFlow' | 'messageFlow';
+  sourceRef: string;
+  targetRef: string;
+  condition: string | null;
+  isDefault: boolean;
+}
+
+export interface BpmnLane {
+  id: string;
+  name: string;
+  processId: string | null;
+  parentLaneId: string | null;
+  flowNodeIds: string[];
+}
+
+export interface BpmnParticipant {
+  id: string;
+  name: string;
+  processRef: string | null;
+}
+
+export interface BpmnDataObject {
+  id: string;
+  name: string;
+  type: 'dataObject' | 'dataObjectReference' | 'dataStoreReference' | 'dataInput' | 'dataOutput';
+  processId: string | null;
+}
+
+export interface BpmnProcess {
+  id: string;
+  name: string;
+  isExecutable: boolean;
+}
+
+export interface BpmnProcessModel {
+  processes: BpmnProcess[];
+  participants: BpmnParticipant[];
+  lanes: BpmnLane[];
+  nodes: Map<string, BpmnNode>;
+  sequenceFlows: Map<string, BpmnFlow>;
+  messageFlows: BpmnFlow[];
+  dataObjects: BpmnDataObject[];
+  warnings: string[];
+}
+
+// Minimal view of a moddle element; bpmn-moddle ships no Deno typings.
+type ModdleElement = Record<string, unknown> & {
+  $type: string;
+  $instanceOf: (type: string) => boolean;
+};
+
+// Moddle properties are untyped; these read one with the shape it is expected to have
+const text = (value: unknown) => typeof value === 'string' ? value : '';
+const elements = (value: unknown): ModdleElement[] => Array.isArray(value) ? value : [];
+const reference = (value: unknown) =>
+  value && typeof value === 'object' ? value as ModdleElement : undefined;
+const idOf = (value: unknown) => text(reference(value)?.id);
+
+const DATA_TYPES: Record<string, BpmnDataObject['type']> = {
+  'bpmn:DataObject': 'dataObject',
+  'bpmn:DataObjectReference': 'dataObjectReference',
+  'bpmn:DataStoreReference': 'dataStoreReference',
+  'bpmn:DataInput': 'dataInput',
+  'bpmn:DataOutput': 'dataOutput',
+};
+
+const localType = (moddleType: string) => {
+  const local = moddleType.split(':').pop() || moddleType;
+  return local.charAt(0).toLowerCase() + local.slice(1);
+};
+
+const nodeCategory = (element: ModdleElement): BpmnNodeCategory | null => {
+  if (element.$instanceOf('bpmn:SubProcess')) return 'subProcess';
+  if (element.$instanceOf('bpmn:CallActivity')) return 'callActivity';
+  if (element.$instanceOf('bpmn:Activity')) return 'task';
+  if (element.$instanceOf('bpmn:Event')) return 'event';
+  if (element.$instanceOf('bpmn:Gateway')) return 'gateway';
+  return null;
+};
+
+const documentationText = (element: ModdleElement) =>
+  elements(element.documentation)
+    .map(doc => text(doc.text))
+    .filter(docText => docText.trim() !== '')
+    .join('\n');
+
+const conditionText = (flow: ModdleElement) =>
+  text(reference(flow.conditionExpression)?.body).trim() || null;
+
+// Vendor-specific assignment attributes (Camunda, Zeebe, Bizagi exports) live in $attrs
+// or as a BPMN resource role. Either counts as an explicit assignee.
+const assigneeOf = (element: ModdleElement): string | null => {
+  const attrs = reference(element.$attrs) || {};
+  for (const [key, value] of Object.entries(attrs)) {
+    if (/(assignee|candidateGroups|candidateUsers|performer)$/i.test(key) && value) {
+      return String(value);
+    }
+  }
+  const role = elements(element.resources)[0];
+  if (role) {
+    const resource = reference(role.resourceRef);
+    return text(role.name) || text(resource?.name) || text(resource?.id) || 'resource';
+  }
+  return null;
+};
+
+const implementationOf = (element: ModdleElement): string | null => {
+  const attrs = reference(element.$attrs) || {};
+  for (const [key, value] of Object.entries(attrs)) {
+    if (/(class|expression|delegateExpression|type|topic)$/i.test(key) && value) {
+      return `${key}=${value}`;
+    }
+  }
+  const implementation = text(element.implementation);
+  if (implementation && implementation !== '##WebService') {
+    return implementation;
+  }
+  if (element.operationRef) return `operation=${idOf(element.operationRef)}`;
+  if (element.script) return 'inline-script';
+  const extensions = elements(reference(element.extensionElements)?.values);
+  if (extensions.some(ext => /taskDefinition|connector|field/i.test(ext.$type))) {
+    return 'extension';
+  }
+  return null;
+};
+
+// Parse BPMN 2.0 XML into the typed process model
+export async function parseBpmnModel(bpmnXml: string): Promise<BpmnProcessModel> {
+  const moddle = new BpmnModdle();
+  const { rootElement, warnings } = await moddle.fromXML(bpmnXml, 'bpmn:Definitions');
+
+  const model: BpmnProcessModel = {
+    processes: [],
+    participants: [],
+    lanes: [],
+    nodes: new Map(),
+    sequenceFlows: new Map(),
+    messageFlows: [],
+    dataObjects: [],
+    warnings: (warnings || []).map((warning: { message: string }) => warning.message),
+  };
+
+  const rootElements = elements(rootElement.rootElements);
+
+  const visitLaneSet = (laneSet: ModdleElement | undefined, processId: string | null, parentLaneId: string | null) => {
+    for (const lane of elements(laneSet?.lanes)) {
+      const laneId = text(lane.id);
+      model.lanes.push({
+        id: laneId,
+        name: text(lane.name) || laneId,
+        processId,
+        parentLaneId,
+        flowNodeIds: elements(lane.flowNodeRef).map(ref => text(ref.id)),
+      });
+      visitLaneSet(reference(lane.childLaneSet), processId, laneId);
+    }
+  };
+
+  const visitFlowElements = (container: ModdleElement, processId: string | null, parentId: string | null) => {
+    for (const element of elements(container.flowElements)) {
+      const id = text(element.id);
+      const name = text(element.name);
+
+      if (element.$instanceOf('bpmn:SequenceFlow')) {
+        model.sequenceFlows.set(id, {
+          id,
+          name,
+          type: 'sequenceFlow',
+          sourceRef: idOf(element.sourceRef),
+          targetRef: idOf(element.targetRef),
+          condition: conditionText(element),
+          isDefault: false,
+        });
+        continue;
+      }
+
+      if (DATA_TYPES[element.$type]) {
+        model.dataObjects.push({
+          id,
+          name: name || id,
+          type: DATA_TYPES[element.$type],
+          processId,
+        });
+        continue;
+      }
+
+      const category = nodeCategory(element);
+      if (!category) continue;
+
+      model.nodes.set(id, {
+        id,
+        name: name || id,
+        hasName: !!name.trim(),
+        type: localType(element.$type),
+        category,
+        processId,
+        parentId,
+        laneId: null,
+        laneName: null,
+        incoming: elements(element.incoming).map(flow => text(flow.id)),
+        outgoing: elements(element.outgoing).map(flow => text(flow.id)),
+        documentation: documentationText(element),
+        eventDefinitions: elements(element.eventDefinitions).map(def => localType(def.$type)),
+        attachedToRef: idOf(element.attachedToRef) || null,
+        cancelActivity: element.$instanceOf('bpmn:BoundaryEvent') ? element.cancelActivity !== false : null,
+        triggeredByEvent: !!element.triggeredByEvent,
+        defaultFlowId: idOf(element.default) || null,
+        implementation: implementationOf(element),
+        assignee: assigneeOf(element),
+      });
+
+      if (category === 'subProcess') {
+        visitLaneSet(elements(element.laneSets)[0], processId, null);
+        visitFlowElements(element, processId, id);
+      }
+    }
+  };
+
+  for (const element of rootElements) {
+    const id = text(element.id);
+    if (element.$instanceOf('bpmn:Process')) {
+      model.processes.push({
+        id,
+        name: text(element.name) || id,
+        isExecutable: !!element.isExecutable,
+      });
+      for (const laneSet of elements(element.laneSets)) {
+        visitLaneSet(laneSet, id, null);
+      }
+      visitFlowElements(element, id, null);
+    } else if (element.$instanceOf('bpmn:Collaboration')) {
+      for (const participant of elements(element.participants)) {
+        const participantId = text(participant.id);
+        model.participants.push({
+          id: participantId,
+          name: text(participant.name) || participantId,
+          processRef: idOf(participant.processRef) || null,
+        });
+      }
+      for (const flow of elements(element.messageFlows)) {
+        model.messageFlows.push({
+          id: text(flow.id),
+          name: text(flow.name),
+          type: 'messageFlow',
+          sourceRef: idOf(flow.sourceRef),
+          targetRef: idOf(flow.targetRef),
+          condition: null,
+          isDefault: false,
+        });
+      }
+    }
+  }
+
+  // Many exporters omit <incoming>/<outgoing>; derive them from the flows themselves
+  for (const flow of model.sequenceFlows.values()) {
+    const source = model.nodes.get(flow.sourceRef);
+    const target = model.nodes.get(flow.targetRef);
+    if (source && !source.outgoing.includes(flow.id)) source.outgoing.push(flow.id);
+    if (target && !target.incoming.includes(flow.id)) target.incoming.push(flow.id);
+  }
+
+  // Mark default flows and resolve flow node → lane. Nested lanes win over their parents.
+  for (const node of model.nodes.values()) {
+    if (node.defaultFlowId && model.sequenceFlows.has(node.defaultFlowId)) {
+      model.sequenceFlows.get(node.defaultFlowId)!.isDefault = true;
+    }
+  }
+  for (const lane of model.lanes) {
+    for (const nodeId of lane.flowNodeIds) {
+      const node = model.nodes.get(nodeId);
+      if (!node) continue;
+      const current = node.laneId ? model.lanes.find(l => l.id === node.laneId) : null;
+      if (!current || lane.parentLaneId === current.id) {
+        node.laneId = lane.id;
+        node.laneName = lane.name;
+      }
+    }
+  }
+
+  // Sub-process children without an explicit lane inherit the lane of their sub-process
+  for (const node of model.nodes.values()) {
+    let parent = node.parentId ? model.nodes.get(node.parentId) : undefined;
+    while (!node.laneId && parent) {
+      node.laneId = parent.laneId;
+      node.laneName = parent.laneName;
+      parent = parent.parentId ? model.nodes.get(parent.parentId) : undefined;
+    }
+  }
+
+  return model;
+}
+
+export const nodesOfType = (model: BpmnProcessModel, ...types: string[]) =>
+  [...model.nodes.values()].filter(node => types.includes(node.type));
+
+export const nodesOfCategory = (model: BpmnProcessModel, category: BpmnNodeCategory) =>
+  [...model.nodes.values()].filter(node => node.category === category);
+
+// Boundary events attached to an activity
+export const boundaryEventsOf = (model: BpmnProcessModel, activityId: string) =>
+  [...model.nodes.values()].filter(node => node.attachedToRef === activityId);
+
+// Successor node IDs following outgoing sequence flows. Boundary events count as
+// successors of their host activity so exception paths stay part of the graph.
+export const successors = (model: BpmnProcessModel, nodeId: string) => [
+  ...(model.nodes.get(nodeId)?.outgoing || [])
+    .map(flowId => model.sequenceFlows.get(flowId)?.targetRef)
+    .filter((id): id is string => !!id && model.nodes.has(id)),
+  ...boundaryEventsOf(model, nodeId).map(node => node.id),
+];
+
+// Predecessor node IDs following incoming sequence flows (and boundary attachment)
+export const predecessors = (model: BpmnProcessModel, nodeId: string) => {
+  const node = model.nodes.get(nodeId);
+  const ids = (node?.incoming || [])
+    .map(flowId => model.sequenceFlows.get(flowId)?.sourceRef)
+    .filter((id): id is string => !!id && model.nodes.has(id));
+  if (node?.attachedToRef && model.nodes.has(node.attachedToRef)) ids.push(node.attachedToRef);
+  return ids;
+};
+
+// Where tokens enter a scope (top level when parentId is null): its start events, or
+// nodes without incoming flow when there are none. Event sub-processes are always entries.
+export const entryNodes = (model: BpmnProcessModel, parentId: string | null) => {
+  const scope = [...model.nodes.values()].filter(node => node.parentId === parentId && !node.attachedToRef);
+  const starts = scope.filter(node => node.type === 'startEvent');
+  const entries = starts.length > 0
+    ? starts
+    : scope.filter(node => node.incoming.length === 0 && !node.triggeredByEvent);
+  return [...entries, ...scope.filter(node => node.triggeredByEvent)];
+};
+
+// Sequence flow edges ('source->target') that close a cycle, found by a depth-first
+// walk from every entry point, including those of sub-processes
+export function findBackEdges(model: BpmnProcessModel) {
+  const backEdges = new Set<string>();
+  const state = new Map<string, 'open' | 'done'>();
+
+  const visit = (nodeId: string) => {
+    state.set(nodeId, 'open');
+    for (const nextId of successors(model, nodeId)) {
+      if (state.get(nextId) === 'open') backEdges.add(`${nodeId}->${nextId}`);
+      else if (!state.has(nextId)) visit(nextId);
+    }
+    state.set(nodeId, 'done');
+  };
+
+  const scopes = [null, ...nodesOfCategory(model, 'subProcess').map(node => node.id)];
+  for (const scopeId of scopes) {
+    entryNodes(model, scopeId).forEach(node => { if (!state.has(node.id)) visit(node.id); });
+  }
+  return backEdges;
+}
+
+// Every node with a sequence flow path to the given node (excluding the node itself)
+export function upstreamNodes(model: BpmnProcessModel, nodeId: string) {
+  const seen = new Set<string>();
+  const queue = predecessors(model, nodeId);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    queue.push(...predecessors(model, id));
+  }
+  seen.delete(nodeId);
+  return [...seen].map(id => model.nodes.get(id)!);
+}
@@ -0,0 +1,97 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+
+// Monthly AI budgets (see public.ai_budget_status). Call checkAiBudget before every model
+// call: it throws AiBudgetExceededError when a hard limit is reached and otherwise
+// returns the status, whose warning the function passes on to the client.
+
+export const AI_BUDGET_EXCEEDED = 'AI_BUDGET_EXCEEDED';
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetUsage {
+  budget_id: string;
+  scope: 'default' | 'user' | 'organization';
+  organization_id: string | null;
+  organization_name: string | null;
+  tokens_used: number;
+  usd_used: number;
+  token_limit: number | null;
+  usd_limit: number | null;
+  usage_ratio: number;
+  warning_threshold: number;
+  hard_limit: boolean;
+  status: BudgetLevel;
+}
+
+export interface BudgetStatus {
+  status: BudgetLevel;
+  period_start: string;
+  budgets: BudgetUsage[];
+}
+
+// What the client gets with a response (warning) or an error (exceeded)
+export interface BudgetNotice {
+  status: BudgetLevel;
+  message: string;
+  budgets: BudgetUsage[];
+}
+
+export class AiBudgetExceededError extends Error {
+  readonly code = AI_BUDGET_EXCEEDED;
+
+  constructor(readonly notice: BudgetNotice) {
+    super(notice.message);
+    this.name = 'AiBudgetExceededError';
+  }
+}
+
+const budgetLabel = (budget: BudgetUsage) =>
+  budget.scope === 'organization' ? `${budget.organization_name} organization budget` : 'your monthly AI budget';
+
+const usageLabel = (budget: BudgetUsage) => [
+  budget.token_limit !== null ? `${budget.tokens_used.toLocaleString('en-US')} of ${budget.token_limit.toLocaleString('en-US')} tokens` : null,
+  budget.usd_limit !== null ? `$${budget.usd_used.toFixed(2)} of $${Number(budget.usd_limit).toFixed(2)}` : null,
+].filter(Boolean).join(', ');
+
+export function describeBudgetStatus(status: BudgetStatus): BudgetNotice | null {
+  if (status.status === 'ok') return null;
+
+  const relevant = status.budgets.filter(budget => budget.status === status.status);
+  const details = relevant.map(budget => `${budgetLabel(budget)} (${usageLabel(budget)})`).join('; ');
+  const message = status.status === 'exceeded'
+    ? `AI usage limit reached for ${details}. Ask an administrator to raise the limit or wait until next month.`
+    : `You are close to ${details}.`;
+
+  return { status: status.status, message, budgets: relevant };
+}
+
+// Fails open: if the status cannot be read the call goes ahead and the error is logged
+export async function checkAiBudget(supabase: SupabaseClient, userId: string): Promise<BudgetNotice | null> {
+  const { data, error } = await supabase.rpc('ai_budget_status', { p_user_id: userId });
+
+  if (error || !data) {
+    console.error('Failed to check AI budget:', error);
+    return null;
+  }
+
+  const notice = describeBudgetStatus(data as BudgetStatus);
+  if (notice?.status === 'exceeded') {
+    console.warn('🚫 AI budget exceeded for user:', userId);
+    throw new AiBudgetExceededError(notice);
+  }
+  if (notice) {
+    console.log('⚠️ AI budget warning for user:', userId);
+  }
+  return notice;
+}
+
+// 429 response body the client recognizes by its code
+export const budgetExceededResponse = (error: AiBudgetExceededError, headers: Record<string, string>) =>
+  new Response(JSON.stringify({
+    error: error.message,
+    code: error.code,
+    budget: error.notice
+  }), {
+    status: 429,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  });
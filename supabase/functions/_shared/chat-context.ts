@@ -0,0 +1,172 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { completeChat, estimateTokens, type LlmMessage, type LlmResponse } from './llm/index.ts';
+import { PiiRedactor } from './pii-redaction.ts';
+
+// Bounds the conversation history sent with each chat request. Once the messages not yet
+// covered by the session summary exceed the token budget, everything but the most recent
+// turns is folded into ai_chat_sessions.session_summary (summarized_until marks the last
+// message it covers). The model then receives the summary plus the recent turns.
+//
+// Sessions can branch (regenerated answers, edited questions): the history is the path
+// from the first message to the one the new message follows, and a summary only counts
+// while the message it ends at is on that path.
+//
+//   CHAT_HISTORY_TOKEN_BUDGET   history tokens before summarizing (default 6000)
+//   CHAT_RECENT_TURNS           user/assistant turns always sent verbatim (default 4)
+
+const numberSetting = (name: string, fallback: number) => {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export interface ChatSessionState {
+  id: string;
+  session_summary: string | null;
+  summarized_until: string | null;
+}
+
+export interface ChatHistoryMessage {
+  id: string;
+  parent_message_id: string | null;
+  role: string;
+  content: string;
+  token_count: number | null;
+  created_at: string;
+}
+
+// Logged with the chat usage, so the trimmed context is visible per request
+export interface ChatContextTrim {
+  history_messages: number;
+  sent_messages: number;
+  summarized_messages: number;
+  dropped_messages: number;
+  trimmed_tokens: number;
+  summary_tokens: number;
+  summary_updated: boolean;
+}
+
+export interface ChatHistory {
+  messages: LlmMessage[];
+  trim: ChatContextTrim;
+  // The summarization call, for usage logging
+  summaryCompletion: LlmResponse | null;
+}
+
+// The messages from the start of the session to leafId, following parent_message_id
+export function conversationPath<T extends { id: string; parent_message_id: string | null }>(
+  messages: T[],
+  leafId: string | null
+): T[] {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const path: T[] = [];
+  let message = leafId ? byId.get(leafId) : undefined;
+  while (message && !path.includes(message)) {
+    path.push(message);
+    message = message.parent_message_id ? byId.get(message.parent_message_id) : undefined;
+  }
+  return path.reverse();
+}
+
+const messageTokens = (message: ChatHistoryMessage) => message.token_count || estimateTokens(message.content);
+
+const sumTokens = (messages: ChatHistoryMessage[]) =>
+  messages.reduce((sum, message) => sum + messageTokens(message), 0);
+
+const toLlmMessage = (message: ChatHistoryMessage): LlmMessage => ({
+  role: message.role as LlmMessage['role'],
+  content: message.content,
+});
+
+// The summary is stored with the original values; the model only sees placeholders
+async function summarize(previousSummary: string | null, messages: ChatHistoryMessage[], redactor: PiiRedactor) {
+  const transcript = redactor.redact(
+    messages.map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`).join('\n\n'),
+    'summary_input'
+  );
+  const redactedSummary = previousSummary && redactor.redact(previousSummary, 'summary_input');
+
+  const completion = await completeChat('chat_summary', {
+    messages: [
+      {
+        role: 'system',
+        content: `You summarize a conversation between an HR professional and an HRIS process assistant
+about a BPMN process, so the assistant can continue it without the full transcript.
+Keep facts about the process, the user's goals, decisions, recommendations already given,
+diagram changes proposed or applied, and open questions. Write at most 250 words of plain text.`
+      },
+      {
+        role: 'user',
+        content: `${redactedSummary ? `Summary so far:\n${redactedSummary}\n\n` : ''}Conversation to add:\n${transcript}`
+      }
+    ]
+  });
+  return { ...completion, content: redactor.restore(completion.content) };
+}
+
+// History for the next request (the messages of one branch, oldest first), summarizing
+// older messages first when it is over budget
+export async function buildChatHistory(
+  supabase: SupabaseClient,
+  session: ChatSessionState,
+  history: ChatHistoryMessage[],
+  redactor = new PiiRedactor()
+): Promise<ChatHistory> {
+  const tokenBudget = numberSetting('CHAT_HISTORY_TOKEN_BUDGET', 6000);
+  const recentMessages = numberSetting('CHAT_RECENT_TURNS', 4) * 2;
+
+  // A summary written on another branch is replaced by one of this branch
+  const summaryEnd = session.summarized_until ? new Date(session.summarized_until).getTime() : null;
+  const summarizedUntil = history.some(message => new Date(message.created_at).getTime() === summaryEnd)
+    ? summaryEnd
+    : null;
+  const unsummarized = summarizedUntil === null
+    ? history
+    : history.filter(message => new Date(message.created_at).getTime() > summarizedUntil);
+
+  let summary = summarizedUntil === null ? null : session.session_summary;
+  let kept = unsummarized;
+  let dropped = 0;
+  let summaryCompletion: LlmResponse | null = null;
+
+  const historyTokens = sumTokens(unsummarized) + (summary ? estimateTokens(summary) : 0);
+  if (historyTokens > tokenBudget && unsummarized.length > recentMessages) {
+    const older = unsummarized.slice(0, unsummarized.length - recentMessages);
+    kept = unsummarized.slice(-recentMessages);
+
+    try {
+      summaryCompletion = await summarize(summary, older, redactor);
+      if (!summaryCompletion.content.trim()) throw new Error('The summary is empty');
+
+      summary = summaryCompletion.content.trim();
+      const { error } = await supabase
+        .from('ai_chat_sessions')
+        .update({ session_summary: summary, summarized_until: older[older.length - 1].created_at })
+        .eq('id', session.id);
+      if (error) console.error('Error saving chat summary:', error);
+      console.log(`🧾 Summarized ${older.length} chat messages for session ${session.id}`);
+    } catch (error) {
+      // The older messages are left out of this request and summarized next time
+      console.error('Error summarizing chat history:', error);
+      dropped = older.length;
+    }
+  }
+
+  const sent = kept.map(toLlmMessage);
+  const messages: LlmMessage[] = summary
+    ? [{ role: 'system', content: `Summary of the earlier conversation:\n${summary}` }, ...sent]
+    : sent;
+
+  return {
+    messages,
+    summaryCompletion,
+    trim: {
+      history_messages: history.length,
+      sent_messages: kept.length,
+      summarized_messages: history.length - kept.length - dropped,
+      dropped_messages: dropped,
+      trimmed_tokens: sumTokens(history) - sumTokens(kept),
+      summary_tokens: summary ? estimateTokens(summary) : 0,
+      summary_updated: !!summaryCompletion && dropped === 0,
+    },
+  };
+}
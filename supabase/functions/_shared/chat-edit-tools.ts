@@ -0,0 +1,202 @@
+import { z } from 'https://esm.sh/zod@3.23.8';
+import { BPMN_GATEWAY_TYPES, GATEWAY_KINDS, formatValidationIssues } from './ai-insights.ts';
+import type { BpmnNode, BpmnProcessModel } from './bpmn-model.ts';
+import type { LlmTool, LlmToolCall } from './llm/index.ts';
+
+// Diagram edits the chat can propose. The model calls these tools; every call is checked
+// against the current diagram and becomes an EditProposal bound to real element IDs. The
+// client shows each proposal as a card and applies it through the editor
+// (BpmnViewer.applySuggestion), so nothing is changed on the server.
+
+export const TASK_KINDS = ['task', 'userTask', 'serviceTask', 'manualTask'] as const;
+
+export type EditProposalType = 'insert-task-after' | 'rename-element' | 'move-to-lane' | 'change-gateway';
+
+export type EditProposalStatus = 'pending' | 'applied' | 'rejected';
+
+// Same shape as the editor's AIEditingSuggestion, plus the model's reason and a status
+export interface EditProposal {
+  id: string;
+  type: EditProposalType;
+  elementId: string;
+  description: string;
+  reason: string;
+  details: Record<string, string>;
+  status: EditProposalStatus;
+}
+
+export interface RejectedToolCall {
+  tool: string;
+  error: string;
+}
+
+const reason = { type: 'string', description: 'One sentence on why this edit improves the HR process' };
+
+export const CHAT_EDIT_TOOLS: LlmTool[] = [
+  {
+    name: 'insert_task_after',
+    description: 'Propose a new task placed directly after an existing element of the diagram. The element must have at most one outgoing sequence flow.',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['afterElementId', 'name', 'taskType', 'reason'],
+      properties: {
+        afterElementId: { type: 'string', description: 'ID of the element the new task follows' },
+        name: { type: 'string', description: 'Name of the new task' },
+        taskType: { type: 'string', enum: [...TASK_KINDS] },
+        reason,
+      },
+    },
+  },
+  {
+    name: 'rename_element',
+    description: 'Propose a clearer name for an element, lane or pool of the diagram.',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['elementId', 'newName', 'reason'],
+      properties: {
+        elementId: { type: 'string' },
+        newName: { type: 'string' },
+        reason,
+      },
+    },
+  },
+  {
+    name: 'move_element_to_lane',
+    description: 'Propose moving an element into another existing lane (a different role performs it).',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['elementId', 'laneId', 'reason'],
+      properties: {
+        elementId: { type: 'string' },
+        laneId: { type: 'string', description: 'ID of the target lane' },
+        reason,
+      },
+    },
+  },
+  {
+    name: 'convert_gateway',
+    description: 'Propose changing the type of an existing gateway.',
+    parameters: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['elementId', 'gatewayType', 'reason'],
+      properties: {
+        elementId: { type: 'string' },
+        gatewayType: { type: 'string', enum: [...GATEWAY_KINDS] },
+        reason,
+      },
+    },
+  },
+];
+
+const text = z.string().trim().min(1);
+
+const toolArguments = {
+  insert_task_after: z.object({ afterElementId: text, name: text, taskType: z.enum(TASK_KINDS), reason: text }),
+  rename_element: z.object({ elementId: text, newName: text, reason: text }),
+  move_element_to_lane: z.object({ elementId: text, laneId: text, reason: text }),
+  convert_gateway: z.object({ elementId: text, gatewayType: z.enum(GATEWAY_KINDS), reason: text }),
+};
+
+const label = (node: { id: string; name: string }) => `"${node.name || node.id}"`;
+
+const gatewayKindOf = (node: BpmnNode) =>
+  GATEWAY_KINDS.find(kind => BPMN_GATEWAY_TYPES[kind] === `bpmn:${node.type.charAt(0).toUpperCase()}${node.type.slice(1)}`);
+
+function requireNode(model: BpmnProcessModel, elementId: string) {
+  const node = model.nodes.get(elementId);
+  if (!node) throw new Error(`Unknown element "${elementId}"`);
+  return node;
+}
+
+function toProposal(model: BpmnProcessModel, call: LlmToolCall): Omit<EditProposal, 'id' | 'status'> {
+  let rawArguments: unknown;
+  try {
+    rawArguments = JSON.parse(call.arguments);
+  } catch {
+    throw new Error('Arguments are not valid JSON');
+  }
+
+  switch (call.name) {
+    case 'insert_task_after': {
+      const args = toolArguments.insert_task_after.parse(rawArguments);
+      const after = requireNode(model, args.afterElementId);
+      if (after.type === 'endEvent') throw new Error('Nothing can follow an end event');
+      // The new task takes over the outgoing flow, which is ambiguous when the element branches
+      if (after.outgoing.length > 1) throw new Error(`${label(after)} has more than one outgoing flow`);
+      const taskType = `bpmn:${args.taskType.charAt(0).toUpperCase()}${args.taskType.slice(1)}`;
+      return {
+        type: 'insert-task-after',
+        elementId: after.id,
+        description: `Insert task "${args.name}" after ${label(after)}`,
+        reason: args.reason,
+        details: { name: args.name, taskType },
+      };
+    }
+    case 'rename_element': {
+      const args = toolArguments.rename_element.parse(rawArguments);
+      const element = model.nodes.get(args.elementId) ||
+        model.lanes.find(lane => lane.id === args.elementId) ||
+        model.participants.find(participant => participant.id === args.elementId);
+      if (!element) throw new Error(`Unknown element "${args.elementId}"`);
+      return {
+        type: 'rename-element',
+        elementId: element.id,
+        description: `Rename ${label(element)} to "${args.newName}"`,
+        reason: args.reason,
+        details: { name: args.newName, previousName: element.name },
+      };
+    }
+    case 'move_element_to_lane': {
+      const args = toolArguments.move_element_to_lane.parse(rawArguments);
+      const node = requireNode(model, args.elementId);
+      const lane = model.lanes.find(candidate => candidate.id === args.laneId);
+      if (!lane) throw new Error(`Unknown lane "${args.laneId}"`);
+      if (node.laneId === lane.id) throw new Error(`${label(node)} is already in lane ${label(lane)}`);
+      return {
+        type: 'move-to-lane',
+        elementId: node.id,
+        description: `Move ${label(node)} to lane ${label(lane)}`,
+        reason: args.reason,
+        details: { laneId: lane.id, laneName: lane.name },
+      };
+    }
+    case 'convert_gateway': {
+      const args = toolArguments.convert_gateway.parse(rawArguments);
+      const node = requireNode(model, args.elementId);
+      if (node.category !== 'gateway') throw new Error(`${label(node)} is not a gateway`);
+      if (gatewayKindOf(node) === args.gatewayType) throw new Error(`${label(node)} is already a ${args.gatewayType} gateway`);
+      return {
+        type: 'change-gateway',
+        elementId: node.id,
+        description: `Convert ${label(node)} to a ${args.gatewayType} gateway`,
+        reason: args.reason,
+        details: { gatewayType: BPMN_GATEWAY_TYPES[args.gatewayType] },
+      };
+    }
+    default:
+      throw new Error('Unknown tool');
+  }
+}
+
+// Tool calls that do not fit the diagram are dropped and reported back for the logs
+export function editProposalsFromToolCalls(toolCalls: LlmToolCall[], model: BpmnProcessModel) {
+  const proposals: EditProposal[] = [];
+  const rejected: RejectedToolCall[] = [];
+
+  for (const call of toolCalls) {
+    try {
+      proposals.push({ id: call.id || crypto.randomUUID(), status: 'pending', ...toProposal(model, call) });
+    } catch (error) {
+      rejected.push({
+        tool: call.name,
+        error: error instanceof z.ZodError ? formatValidationIssues(error) : (error as Error).message,
+      });
+    }
+  }
+
+  return { proposals, rejected };
+}
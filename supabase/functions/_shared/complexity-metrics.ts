@@ -0,0 +1,182 @@
+import { type BpmnProcessModel, nodesOfCategory } from './bpmn-model.ts';
+import { orderProcessSteps } from './process-order.ts';
+
+// Standard process model complexity metrics (Cardoso 2005; Mendling 2008).
+//
+// Each metric is rated against two thresholds. Below `medium` it is Low, from `medium`
+// it is Medium, from `high` it is High. The thresholds follow the error-probability
+// studies behind the Seven Process Modeling Guidelines (7PMG):
+//
+//   Metric                         Medium   High
+//   NOA   activities                 15      30   7PMG: split models above ~30-50 nodes
+//   CFC   control-flow complexity    10      20
+//   CNC   arcs per node             1.2     1.5
+//   Depth nesting depth               2       4
+//   Gateway mismatch                  3       6   unmatched split/join fan-out
+//   Gateway heterogeneity           0.5     0.8   0 = one gateway type, 1 = evenly mixed
+//   Cyclomatic number                 5      10   McCabe
+//   Token split degree                3       6
+//
+// The 0-10 score is the weighted mean of per-metric scores (4 at `medium`, 7 at `high`,
+// 10 at twice `high`). Risk is High when any metric is High or the score exceeds 7,
+// Medium when two or more metrics are Medium or the score exceeds 4, and Low otherwise.
+
+export type ComplexityLevel = 'Low' | 'Medium' | 'High';
+
+export interface ComplexityMetric {
+  id: string;
+  name: string;
+  value: number;
+  medium: number;
+  high: number;
+  level: ComplexityLevel;
+  score: number; // 0-10
+  weight: number;
+  contribution: number; // share of the overall score, in score points
+  explanation: string;
+}
+
+export interface ComplexityReport {
+  score: number;
+  risk: ComplexityLevel;
+  drivers: string[]; // IDs of the metrics that explain the risk level, highest score first
+  metrics: ComplexityMetric[];
+}
+
+const GATEWAY_FAMILIES: Record<string, 'xor' | 'and' | 'or'> = {
+  exclusiveGateway: 'xor',
+  eventBasedGateway: 'xor',
+  parallelGateway: 'and',
+  inclusiveGateway: 'or',
+  complexGateway: 'or',
+};
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const levelOf = (value: number, medium: number, high: number): ComplexityLevel =>
+  value >= high ? 'High' : value >= medium ? 'Medium' : 'Low';
+
+// Piecewise linear: 0 → 0, medium → 4, high → 7, 2 × high → 10
+const scoreOf = (value: number, medium: number, high: number) => {
+  if (value <= 0) return 0;
+  if (value < medium) return (value / medium) * 4;
+  if (value < high) return 4 + ((value - medium) / (high - medium)) * 3;
+  return Math.min(10, 7 + ((value - high) / high) * 3);
+};
+
+// Connected components of the sequence flow graph (one per process or sub-process body)
+function countComponents(model: BpmnProcessModel) {
+  const parent = new Map([...model.nodes.keys()].map(id => [id, id]));
+  const find = (id: string): string => {
+    const root = parent.get(id)!;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+  for (const flow of model.sequenceFlows.values()) {
+    if (parent.has(flow.sourceRef) && parent.has(flow.targetRef)) {
+      parent.set(find(flow.sourceRef), find(flow.targetRef));
+    }
+  }
+  return new Set([...model.nodes.keys()].map(find)).size;
+}
+
+export function computeComplexityMetrics(model: BpmnProcessModel): ComplexityReport {
+  const nodeCount = model.nodes.size;
+  const arcCount = model.sequenceFlows.size;
+  const gateways = nodesOfCategory(model, 'gateway');
+  const splits = gateways.filter(node => node.outgoing.length > 1);
+  const joins = gateways.filter(node => node.incoming.length > 1);
+
+  const noa = nodesOfCategory(model, 'task').length
+    + nodesOfCategory(model, 'subProcess').length
+    + nodesOfCategory(model, 'callActivity').length;
+
+  // Cardoso: XOR split adds its fan-out, OR split 2^n - 1 possible states, AND split 1
+  const cfc = splits.reduce((sum, split) => {
+    const family = GATEWAY_FAMILIES[split.type];
+    if (family === 'xor') return sum + split.outgoing.length;
+    if (family === 'or') return sum + 2 ** split.outgoing.length - 1;
+    return sum + 1;
+  }, 0);
+
+  const cnc = nodeCount > 0 ? arcCount / nodeCount : 0;
+
+  const depth = orderProcessSteps(model).reduce((max, step) => Math.max(max, step.depth), 0);
+
+  // Mendling: per gateway family, |sum of split fan-outs - sum of join fan-ins|
+  const mismatch = (['xor', 'and', 'or'] as const).reduce((sum, family) => {
+    const outgoing = splits.filter(node => GATEWAY_FAMILIES[node.type] === family)
+      .reduce((total, node) => total + node.outgoing.length, 0);
+    const incoming = joins.filter(node => GATEWAY_FAMILIES[node.type] === family)
+      .reduce((total, node) => total + node.incoming.length, 0);
+    return sum + Math.abs(outgoing - incoming);
+  }, 0);
+
+  // Entropy of the gateway family mix, log base 3 so that an even mix scores 1
+  const heterogeneity = gateways.length === 0 ? 0 : (['xor', 'and', 'or'] as const)
+    .map(family => gateways.filter(node => GATEWAY_FAMILIES[node.type] === family).length / gateways.length)
+    .filter(share => share > 0)
+    .reduce((sum, share) => sum - share * (Math.log(share) / Math.log(3)), 0);
+
+  const cyclomatic = Math.max(0, arcCount - nodeCount + countComponents(model));
+
+  // Extra concurrent tokens a single instance can create
+  const tokenSplit = splits
+    .filter(node => GATEWAY_FAMILIES[node.type] === 'and' || GATEWAY_FAMILIES[node.type] === 'or')
+    .reduce((sum, node) => sum + node.outgoing.length - 1, 0);
+
+  const definitions: Array<Omit<ComplexityMetric, 'level' | 'score' | 'contribution'>> = [
+    { id: 'noa', name: 'Number of activities (NOA)', value: noa, medium: 15, high: 30, weight: 2,
+      explanation: 'Tasks, sub-processes and call activities. Large models are harder to read and validate.' },
+    { id: 'cfc', name: 'Control-flow complexity (CFC)', value: cfc, medium: 10, high: 20, weight: 2,
+      explanation: 'Cardoso: number of states introduced by split gateways (XOR: fan-out, OR: 2^n - 1, AND: 1).' },
+    { id: 'cnc', name: 'Coefficient of network connectivity (CNC)', value: round(cnc), medium: 1.2, high: 1.5, weight: 1,
+      explanation: 'Sequence flows per flow node. Above 1 the model is more than a simple chain.' },
+    { id: 'depth', name: 'Maximum nesting depth', value: depth, medium: 2, high: 4, weight: 1,
+      explanation: 'Deepest nesting of branches and sub-processes along the step numbering.' },
+    { id: 'gatewayMismatch', name: 'Gateway mismatch', value: mismatch, medium: 3, high: 6, weight: 1,
+      explanation: 'Split fan-out not balanced by matching join fan-in of the same gateway type.' },
+    { id: 'gatewayHeterogeneity', name: 'Gateway heterogeneity', value: round(heterogeneity), medium: 0.5, high: 0.8, weight: 1,
+      explanation: 'How mixed the XOR/AND/OR gateway types are (0 = one type only, 1 = evenly mixed).' },
+    { id: 'cyclomatic', name: 'Cyclomatic number', value: cyclomatic, medium: 5, high: 10, weight: 1,
+      explanation: 'McCabe: independent paths through the model (arcs - nodes + components).' },
+    { id: 'tokenSplit', name: 'Token split degree', value: tokenSplit, medium: 3, high: 6, weight: 1,
+      explanation: 'Additional concurrent paths created by AND/OR splits.' },
+  ];
+
+  const totalWeight = definitions.reduce((sum, metric) => sum + metric.weight, 0);
+  const metrics: ComplexityMetric[] = definitions.map(metric => {
+    const score = scoreOf(metric.value, metric.medium, metric.high);
+    return {
+      ...metric,
+      level: levelOf(metric.value, metric.medium, metric.high),
+      score: round(score, 1),
+      contribution: round((score * metric.weight) / totalWeight),
+    };
+  });
+
+  const score = round(metrics.reduce((sum, metric) => sum + metric.contribution, 0), 1);
+  const highCount = metrics.filter(metric => metric.level === 'High').length;
+  const mediumCount = metrics.filter(metric => metric.level === 'Medium').length;
+  const risk: ComplexityLevel = highCount > 0 || score > 7
+    ? 'High'
+    : mediumCount >= 2 || score > 4 ? 'Medium' : 'Low';
+
+  // Metrics at the highest rating explain the risk; fall back to the largest contributors
+  const worstLevel = highCount > 0 ? 'High' : mediumCount > 0 ? 'Medium' : null;
+  const drivers = (worstLevel
+    ? metrics.filter(metric => metric.level === worstLevel)
+    : [...metrics].sort((a, b) => b.contribution - a.contribution).slice(0, 1)
+  )
+    .sort((a, b) => b.score - a.score)
+    .map(metric => metric.id);
+
+  return {
+    score,
+    risk,
+    drivers,
+    metrics,
+  };
+}
@@ -0,0 +1,46 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+
+// The diagram as the user last saved it: the newest bpmn_versions row (manual edits and
+// applied AI revisions) or, before any edit, the uploaded file in storage.
+
+export interface CurrentDiagram {
+  xml: string;
+  fileName: string;
+  versionNumber: number | null; // null = the uploaded file
+}
+
+export async function loadCurrentDiagram(supabase: SupabaseClient, bpmnFileId: string): Promise<CurrentDiagram | null> {
+  const { data: file, error: fileError } = await supabase
+    .from('bpmn_files')
+    .select('file_name, file_path')
+    .eq('id', bpmnFileId)
+    .single();
+
+  if (fileError || !file) {
+    console.error('Error loading BPMN file:', fileError);
+    return null;
+  }
+
+  const { data: version } = await supabase
+    .from('bpmn_versions')
+    .select('version_number, bpmn_xml')
+    .eq('bpmn_file_id', bpmnFileId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (version?.bpmn_xml) {
+    return { xml: version.bpmn_xml, fileName: file.file_name, versionNumber: version.version_number };
+  }
+
+  const { data: blob, error: downloadError } = await supabase.storage
+    .from('bpmn-files')
+    .download(file.file_path);
+
+  if (downloadError || !blob) {
+    console.error('Error downloading BPMN file:', downloadError);
+    return null;
+  }
+
+  return { xml: await blob.text(), fileName: file.file_name, versionNumber: null };
+}
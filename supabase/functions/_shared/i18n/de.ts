@@ -0,0 +1,204 @@
+import { HRIS_REDIRECT_MESSAGE } from '../prompt-profiles.ts';
+
+// German catalog; keys are the English source texts
+
+export const de: Record<string, string> = {
+  // Rule packs
+  'BPMN modeling style': 'BPMN-Modellierungsstil',
+  'Structural soundness and readability of the diagram.': 'Strukturelle Korrektheit und Lesbarkeit des Diagramms.',
+  'HR compliance': 'HR-Compliance',
+  'Clear ownership of HR steps and the controls auditors look for.': 'Klare Zuständigkeit für HR-Schritte und die Kontrollen, auf die Prüfer achten.',
+  'Automation readiness': 'Automatisierungsreife',
+  'Gaps that block deploying the process to a workflow engine.': 'Lücken, die die Bereitstellung des Prozesses auf einer Workflow-Engine verhindern.',
+
+  // Rules
+  'Infinite Loop': 'Endlosschleife',
+  'Once a token enters this loop it can never leave it. Add a gateway with an exit path towards an end event.':
+    'Ein Token, das in diese Schleife gelangt, kann sie nie wieder verlassen. Fügen Sie ein Gateway mit einem Ausgang zu einem Endereignis hinzu.',
+  'Unreachable Element': 'Unerreichbares Element',
+  'No sequence flow path leads from a start event to this element, so it will never be executed. Connect it to the flow or remove it.':
+    'Kein Sequenzfluss führt von einem Startereignis zu diesem Element, daher wird es nie ausgeführt. Verbinden Sie es mit dem Ablauf oder entfernen Sie es.',
+  'No Path to End': 'Kein Weg zum Ende',
+  'Tokens arriving here can never complete the process. Connect the element to the rest of the flow or end the path with an end event.':
+    'Tokens, die hier ankommen, können den Prozess nie abschließen. Verbinden Sie das Element mit dem übrigen Ablauf oder beenden Sie den Pfad mit einem Endereignis.',
+  'Lack of Synchronization': 'Fehlende Synchronisation',
+  'An exclusive merge passes on every token it receives, so everything after it runs once per parallel branch. Use a parallel gateway to join the branches.':
+    'Eine exklusive Zusammenführung gibt jedes ankommende Token weiter, sodass alles danach einmal pro parallelem Zweig läuft. Führen Sie die Zweige mit einem parallelen Gateway zusammen.',
+  'Deadlock': 'Deadlock',
+  'Only one branch of an exclusive split is taken, but a parallel join waits for all of its incoming flows. The process will stop here. Use an exclusive gateway to merge the branches.':
+    'Von einer exklusiven Verzweigung wird nur ein Zweig genommen, aber eine parallele Zusammenführung wartet auf alle eingehenden Flüsse. Der Prozess bleibt hier stehen. Führen Sie die Zweige mit einem exklusiven Gateway zusammen.',
+  'Unlabeled Condition': 'Unbeschriftete Bedingung',
+  'Readers and process engines cannot tell when each path is taken. Name every outgoing flow or give it a condition expression.':
+    'Leser und Prozess-Engines können nicht erkennen, wann welcher Pfad genommen wird. Benennen Sie jeden ausgehenden Fluss oder geben Sie ihm einen Bedingungsausdruck.',
+  'Missing Default Flow': 'Fehlender Standardfluss',
+  'If none of the outgoing conditions is true at runtime the process gets stuck. Mark one outgoing flow as the default path.':
+    'Wenn zur Laufzeit keine der ausgehenden Bedingungen zutrifft, bleibt der Prozess hängen. Markieren Sie einen ausgehenden Fluss als Standardpfad.',
+  'Unnamed Activity': 'Unbenannte Aktivität',
+  'Activities without a name show up as raw IDs in step lists and exports. Name each activity with a verb and an object, e.g. "Approve leave request".':
+    'Aktivitäten ohne Namen erscheinen in Schrittlisten und Exporten als rohe IDs. Benennen Sie jede Aktivität mit Verb und Objekt, z. B. „Urlaubsantrag genehmigen“.',
+  'Process Complexity': 'Prozesskomplexität',
+  'Consider breaking down into smaller sub-processes': 'Erwägen Sie eine Aufteilung in kleinere Teilprozesse',
+  'Role Definition': 'Rollendefinition',
+  'Add swimlanes to clearly define responsibilities': 'Fügen Sie Swimlanes hinzu, um Zuständigkeiten klar festzulegen',
+  'Segregation of Duties': 'Funktionstrennung',
+  "The same role both requests and approves a compensation or hiring change, so nobody independent checks it. Move the approval to a different lane (e.g. the manager's manager or HR).":
+    'Dieselbe Rolle beantragt und genehmigt eine Vergütungs- oder Einstellungsänderung, sodass niemand Unabhängiges sie prüft. Verschieben Sie die Genehmigung in eine andere Lane (z. B. zur nächsthöheren Führungskraft oder zu HR).',
+  'Missing Approval Gate': 'Fehlende Genehmigungsstufe',
+  'Payroll, salary and termination changes should only run after an explicit approval decision. Add an approval task and a gateway that routes rejected requests away from this step.':
+    'Änderungen an Lohnabrechnung, Gehalt und Kündigungen sollten nur nach einer ausdrücklichen Genehmigung erfolgen. Fügen Sie eine Genehmigungsaufgabe und ein Gateway hinzu, das abgelehnte Anträge an diesem Schritt vorbeileitet.',
+  'Offboarding Controls': 'Offboarding-Kontrollen',
+  "Offboarding must end system access and decide how long the leaver's records are kept. Add explicit access-revocation and data-retention steps.":
+    'Beim Offboarding müssen Systemzugänge beendet und die Aufbewahrungsdauer der Daten des Ausscheidenden festgelegt werden. Fügen Sie ausdrückliche Schritte für Zugangsentzug und Datenaufbewahrung hinzu.',
+  'Privacy Notice': 'Datenschutzhinweis',
+  'Collecting or processing personal data needs a lawful basis. Add a step that records consent or gives the employee/candidate a privacy notice before the data is used.':
+    'Das Erheben oder Verarbeiten personenbezogener Daten braucht eine Rechtsgrundlage. Fügen Sie einen Schritt hinzu, der die Einwilligung erfasst oder dem Mitarbeiter bzw. Bewerber vor der Nutzung der Daten einen Datenschutzhinweis gibt.',
+  'Automation Opportunity': 'Automatisierungspotenzial',
+  'Consider automating repetitive tasks': 'Erwägen Sie, wiederkehrende Aufgaben zu automatisieren',
+  'Missing Implementation': 'Fehlende Implementierung',
+  'A workflow engine cannot execute this task. Configure the connector, class, expression or external topic that performs it.':
+    'Eine Workflow-Engine kann diese Aufgabe nicht ausführen. Konfigurieren Sie den Connector, die Klasse, den Ausdruck oder das externe Topic, das sie ausführt.',
+  'Missing Assignee': 'Fehlende Zuweisung',
+  'The task is only assigned through its lane. Set an assignee or candidate group so the engine can route the work item.':
+    'Die Aufgabe ist nur über ihre Lane zugeordnet. Legen Sie einen Bearbeiter oder eine Kandidatengruppe fest, damit die Engine die Aufgabe zuweisen kann.',
+
+  // Finding messages
+  'Loop through {path} has no exit': 'Schleife über {path} hat keinen Ausgang',
+  '"{name}" cannot be reached from a start event': '„{name}“ ist von keinem Startereignis aus erreichbar',
+  '"{name}" has no outgoing sequence flow': '„{name}“ hat keinen ausgehenden Sequenzfluss',
+  'No path leads from "{name}" to an end event': 'Von „{name}“ führt kein Weg zu einem Endereignis',
+  'Parallel branches from "{split}" merge at "{join}" without synchronization':
+    'Parallele Zweige von „{split}“ werden bei „{join}“ ohne Synchronisation zusammengeführt',
+  'Exclusive branches from "{split}" are joined by parallel gateway "{join}"':
+    'Exklusive Zweige von „{split}“ werden vom parallelen Gateway „{join}“ zusammengeführt',
+  '{count} outgoing flow(s) of "{name}" have no label or condition: {targets}':
+    '{count} ausgehende(r) Fluss/Flüsse von „{name}“ ohne Beschriftung oder Bedingung: {targets}',
+  'Decision gateway "{name}" has no default flow': 'Entscheidungs-Gateway „{name}“ hat keinen Standardfluss',
+  '{type} "{id}" has no name': '{type} „{id}“ hat keinen Namen',
+  'Process': 'Prozess',
+  'High process complexity detected: {drivers}': 'Hohe Prozesskomplexität erkannt: {drivers}',
+  'Process is heavily manual': 'Der Prozess ist stark manuell',
+  '"{name}" has no implementation configured': 'Für „{name}“ ist keine Implementierung konfiguriert',
+  '"{name}" has no assignee or candidate group': '„{name}“ hat weder Bearbeiter noch Kandidatengruppe',
+  'lane "{name}" ({id})': 'Lane „{name}“ ({id})',
+  'no lane': 'keine Lane',
+  'none': 'keine',
+  'the process name "{name}"': 'den Prozessnamen „{name}“',
+  '{message}. Triggered by {triggers}; lanes: {lanes}': '{message}. Ausgelöst durch {triggers}; Lanes: {lanes}',
+  'No roles or lanes defined': 'Keine Rollen oder Lanes definiert',
+  '{lane} both requests ({requests}) and approves ({approval})': '{lane} beantragt ({requests}) und genehmigt ({approval}) zugleich',
+  '{element} in {lane} has no approval gateway upstream': '{element} in {lane} hat kein vorgelagertes Genehmigungs-Gateway',
+  'Offboarding process has no access revocation or data retention step':
+    'Der Offboarding-Prozess hat keinen Schritt für Zugangsentzug oder Datenaufbewahrung',
+  'Offboarding process has no access revocation step': 'Der Offboarding-Prozess hat keinen Schritt für Zugangsentzug',
+  'Offboarding process has no data retention step': 'Der Offboarding-Prozess hat keinen Schritt für Datenaufbewahrung',
+  'Process handles personal data without a consent or privacy-notice step':
+    'Der Prozess verarbeitet personenbezogene Daten ohne Einwilligungs- oder Datenschutzhinweis-Schritt',
+  '; data objects: {objects}': '; Datenobjekte: {objects}',
+
+  // Fallback insights and suggestions
+  'Standard implementation risks apply': 'Es gelten die üblichen Implementierungsrisiken',
+  'Add validation task after {name}': 'Prüfaufgabe nach {name} hinzufügen',
+  'current task': 'der aktuellen Aufgabe',
+  'Insert quality validation step in the workflow': 'Einen Qualitätsprüfungsschritt in den Ablauf einfügen',
+  'Quality Validation': 'Qualitätsprüfung',
+  'Add initial data validation task': 'Anfängliche Datenprüfung hinzufügen',
+  'Add a task to validate inputs at process start': 'Eine Aufgabe zur Prüfung der Eingaben zu Prozessbeginn hinzufügen',
+  'Input Validation': 'Eingabeprüfung',
+  'Add decision gateway for conditional routing': 'Entscheidungs-Gateway für bedingte Weiterleitung hinzufügen',
+  'Insert decision point for process branching': 'Einen Entscheidungspunkt für Prozessverzweigungen einfügen',
+  'Approval Decision': 'Genehmigungsentscheidung',
+  'Streamline process flow connections': 'Verbindungen im Prozessablauf straffen',
+  'Optimize sequence flows for better efficiency': 'Sequenzflüsse für mehr Effizienz optimieren',
+  'Add approver role for process oversight': 'Genehmigerrolle zur Prozessaufsicht hinzufügen',
+  'Create dedicated lane for approval workflow': 'Eine eigene Lane für den Genehmigungsablauf anlegen',
+  'Process Approver': 'Prozessgenehmiger',
+  'Add reviewer role to support {name}': 'Prüferrolle zur Unterstützung von {name} hinzufügen',
+  'current role': 'der aktuellen Rolle',
+  'Add complementary role for quality assurance': 'Eine ergänzende Rolle für die Qualitätssicherung hinzufügen',
+  'Quality Reviewer': 'Qualitätsprüfer',
+  'Optimize {name} for parallel processing': '{name} für parallele Verarbeitung optimieren',
+  'gateway': 'das Gateway',
+  'Convert to parallel gateway for concurrent execution': 'In ein paralleles Gateway für gleichzeitige Ausführung umwandeln',
+  'Add parallel gateway for concurrent processing': 'Paralleles Gateway für gleichzeitige Verarbeitung hinzufügen',
+  'Enable multiple process paths to execute simultaneously': 'Mehrere Prozesspfade gleichzeitig ausführen lassen',
+  'Parallel Split': 'Parallele Verzweigung',
+  'Process contains {count} user tasks requiring manual intervention':
+    'Der Prozess enthält {count} Benutzeraufgaben, die manuelles Eingreifen erfordern',
+  '{score}/10 complexity score indicates {risk} optimization potential':
+    'Ein Komplexitätswert von {score}/10 deutet auf {risk} Optimierungspotenzial hin',
+  'high': 'hohes',
+  'medium': 'mittleres',
+  'low': 'geringes',
+  '{count} roles identified with balanced distribution': '{count} Rollen mit ausgewogener Verteilung erkannt',
+  '{count} roles identified with needs review distribution': '{count} Rollen erkannt; die Verteilung sollte überprüft werden',
+  'Consider adding validation steps for data quality': 'Erwägen Sie Prüfschritte für die Datenqualität',
+  'Implement parallel processing where possible': 'Setzen Sie wo möglich parallele Verarbeitung ein',
+  'Add decision gateways for conditional logic': 'Fügen Sie Entscheidungs-Gateways für bedingte Logik hinzu',
+  'Manual process steps may cause delays': 'Manuelle Prozessschritte können Verzögerungen verursachen',
+  'Limited role separation may impact compliance': 'Eingeschränkte Rollentrennung kann die Compliance beeinträchtigen',
+
+  // Stakeholder documentation
+  'Business process with {count} manual tasks and {score}/10 complexity':
+    'Geschäftsprozess mit {count} manuellen Aufgaben und Komplexität {score}/10',
+  'Balanced': 'Ausgewogen',
+  'Needs Review': 'Prüfung erforderlich',
+  'BPMN 2.0 compliant process with {count} total elements': 'BPMN-2.0-konformer Prozess mit insgesamt {count} Elementen',
+  '{name} role training required': 'Schulung für die Rolle {name} erforderlich',
+  '2-4 weeks implementation based on complexity': '2–4 Wochen Umsetzung je nach Komplexität',
+
+  // Readiness and complexity
+  'Task ownership': 'Aufgabenzuständigkeit',
+  '{ready} of {total} human tasks have an assignee or lane': '{ready} von {total} manuellen Aufgaben haben eine zuständige Person oder Lane',
+  'Service implementation': 'Service-Implementierung',
+  '{ready} of {total} automated tasks specify an implementation': '{ready} von {total} automatisierten Aufgaben geben eine Implementierung an',
+  'Documented gateway conditions': 'Dokumentierte Gateway-Bedingungen',
+  '{ready} of {total} decision paths have a condition, label or default': '{ready} von {total} Entscheidungspfaden haben eine Bedingung, Beschriftung oder einen Standardpfad',
+  'Error and boundary event coverage': 'Abdeckung durch Fehler- und Randereignisse',
+  '{ready} of {total} automated tasks and sub-processes have a boundary event': '{ready} von {total} automatisierten Aufgaben und Teilprozessen haben ein Randereignis',
+  'Naming quality': 'Benennungsqualität',
+  '{ready} of {total} activities and gateways have descriptive names': '{ready} von {total} Aktivitäten und Gateways haben aussagekräftige Namen',
+  'Not applicable: no matching elements': 'Nicht anwendbar: keine passenden Elemente',
+  '{risk} risk': '{risk} Risiko',
+  'Number of activities (NOA)': 'Anzahl der Aktivitäten (NOA)',
+  'Tasks, sub-processes and call activities. Large models are harder to read and validate.': 'Aufgaben, Teilprozesse und Aufrufaktivitäten. Große Modelle sind schwerer zu lesen und zu prüfen.',
+  'Control-flow complexity (CFC)': 'Kontrollflusskomplexität (CFC)',
+  'Cardoso: number of states introduced by split gateways (XOR: fan-out, OR: 2^n - 1, AND: 1).': 'Cardoso: Anzahl der Zustände, die verzweigende Gateways erzeugen (XOR: Ausgänge, OR: 2^n - 1, AND: 1).',
+  'Coefficient of network connectivity (CNC)': 'Vernetzungskoeffizient (CNC)',
+  'Sequence flows per flow node. Above 1 the model is more than a simple chain.': 'Sequenzflüsse pro Flussknoten. Über 1 ist das Modell mehr als eine einfache Kette.',
+  'Maximum nesting depth': 'Maximale Verschachtelungstiefe',
+  'Deepest nesting of branches and sub-processes along the step numbering.': 'Tiefste Verschachtelung von Zweigen und Teilprozessen entlang der Schrittnummerierung.',
+  'Gateway mismatch': 'Gateway-Ungleichgewicht',
+  'Split fan-out not balanced by matching join fan-in of the same gateway type.': 'Verzweigungen, die nicht durch passende Zusammenführungen desselben Gateway-Typs ausgeglichen werden.',
+  'Gateway heterogeneity': 'Gateway-Heterogenität',
+  'How mixed the XOR/AND/OR gateway types are (0 = one type only, 1 = evenly mixed).': 'Wie gemischt die Gateway-Typen XOR/AND/OR sind (0 = nur ein Typ, 1 = gleichmäßig gemischt).',
+  'Cyclomatic number': 'Zyklomatische Zahl',
+  'McCabe: independent paths through the model (arcs - nodes + components).': 'McCabe: unabhängige Pfade durch das Modell (Kanten - Knoten + Komponenten).',
+  'Token split degree': 'Grad der Token-Aufteilung',
+  'Additional concurrent paths created by AND/OR splits.': 'Zusätzliche parallele Pfade, die durch AND/OR-Verzweigungen entstehen.',
+
+  // Chat
+  'I propose the following changes to the diagram:': 'Ich schlage folgende Änderungen am Diagramm vor:',
+  'hr, employee, recruitment, payroll, performance, compliance, onboarding, workflow, process':
+    'personal, mitarbeiter, rekrutierung, gehalt, lohn, leistung, compliance, onboarding, workflow, prozess',
+  'stock, market, investment, financial analysis': 'aktie, börse, investition, finanzanalyse',
+  [HRIS_REDIRECT_MESSAGE]: `🎯 **HRIS-Prozessanalyse**
+
+Ihre Frage betrifft die Prozessoptimierung. Als Ihr HRIS-Experte konzentriere ich mich auf die HR-Aspekte:
+
+**🔍 Prozessanalyse**: Auf Grundlage Ihrer BPMN-Prozessanalyse kann ich Mitarbeiterabläufe, Genehmigungsketten und Compliance-Verfahren optimieren.
+
+**⚡ Wichtige HRIS-Optimierungsbereiche**:
+- Automatisiertes Mitarbeiter-Onboarding
+- Abläufe für Leistungsbeurteilungen
+- Urlaubsgenehmigungen
+- Prüfschritte in der Lohnabrechnung
+- Compliance-Audit-Trails
+
+**🚀 Nächste Schritte**:
+1. Überprüfen Sie Ihre aktuellen HR-Prozessabläufe
+2. Identifizieren Sie manuelle Engpässe bei Genehmigungen
+3. Führen Sie automatische Benachrichtigungen ein
+4. Stellen Sie durchgängig DSGVO-Konformität sicher
+
+Soll ich einen bestimmten HR-Prozess analysieren oder Abläufe im Mitarbeitermanagement optimieren?`,
+};
@@ -0,0 +1,204 @@
+import { HRIS_REDIRECT_MESSAGE } from '../prompt-profiles.ts';
+
+// Spanish catalog; keys are the English source texts
+
+export const es: Record<string, string> = {
+  // Rule packs
+  'BPMN modeling style': 'Estilo de modelado BPMN',
+  'Structural soundness and readability of the diagram.': 'Solidez estructural y legibilidad del diagrama.',
+  'HR compliance': 'Cumplimiento de RR. HH.',
+  'Clear ownership of HR steps and the controls auditors look for.': 'Responsables claros de los pasos de RR. HH. y los controles que revisan los auditores.',
+  'Automation readiness': 'Preparación para la automatización',
+  'Gaps that block deploying the process to a workflow engine.': 'Carencias que impiden desplegar el proceso en un motor de workflow.',
+
+  // Rules
+  'Infinite Loop': 'Bucle infinito',
+  'Once a token enters this loop it can never leave it. Add a gateway with an exit path towards an end event.':
+    'Un token que entra en este bucle nunca puede salir. Añada una compuerta con una salida hacia un evento de fin.',
+  'Unreachable Element': 'Elemento inalcanzable',
+  'No sequence flow path leads from a start event to this element, so it will never be executed. Connect it to the flow or remove it.':
+    'Ningún flujo de secuencia lleva de un evento de inicio a este elemento, por lo que nunca se ejecutará. Conéctelo al flujo o elimínelo.',
+  'No Path to End': 'Sin camino al fin',
+  'Tokens arriving here can never complete the process. Connect the element to the rest of the flow or end the path with an end event.':
+    'Los tokens que llegan aquí nunca pueden completar el proceso. Conecte el elemento con el resto del flujo o termine el camino con un evento de fin.',
+  'Lack of Synchronization': 'Falta de sincronización',
+  'An exclusive merge passes on every token it receives, so everything after it runs once per parallel branch. Use a parallel gateway to join the branches.':
+    'Una unión exclusiva deja pasar cada token que recibe, así que todo lo posterior se ejecuta una vez por rama paralela. Use una compuerta paralela para unir las ramas.',
+  'Deadlock': 'Bloqueo',
+  'Only one branch of an exclusive split is taken, but a parallel join waits for all of its incoming flows. The process will stop here. Use an exclusive gateway to merge the branches.':
+    'De una bifurcación exclusiva solo se toma una rama, pero una unión paralela espera a todos sus flujos de entrada. El proceso se detendrá aquí. Use una compuerta exclusiva para unir las ramas.',
+  'Unlabeled Condition': 'Condición sin etiqueta',
+  'Readers and process engines cannot tell when each path is taken. Name every outgoing flow or give it a condition expression.':
+    'Ni los lectores ni los motores de procesos saben cuándo se toma cada camino. Ponga nombre a cada flujo de salida o asígnele una expresión de condición.',
+  'Missing Default Flow': 'Falta el flujo por defecto',
+  'If none of the outgoing conditions is true at runtime the process gets stuck. Mark one outgoing flow as the default path.':
+    'Si en ejecución ninguna condición de salida se cumple, el proceso se queda bloqueado. Marque un flujo de salida como camino por defecto.',
+  'Unnamed Activity': 'Actividad sin nombre',
+  'Activities without a name show up as raw IDs in step lists and exports. Name each activity with a verb and an object, e.g. "Approve leave request".':
+    'Las actividades sin nombre aparecen como IDs en las listas de pasos y las exportaciones. Nombre cada actividad con un verbo y un objeto, p. ej. «Aprobar solicitud de vacaciones».',
+  'Process Complexity': 'Complejidad del proceso',
+  'Consider breaking down into smaller sub-processes': 'Considere dividirlo en subprocesos más pequeños',
+  'Role Definition': 'Definición de roles',
+  'Add swimlanes to clearly define responsibilities': 'Añada carriles para definir claramente las responsabilidades',
+  'Segregation of Duties': 'Segregación de funciones',
+  "The same role both requests and approves a compensation or hiring change, so nobody independent checks it. Move the approval to a different lane (e.g. the manager's manager or HR).":
+    'El mismo rol solicita y aprueba un cambio de retribución o de contratación, así que nadie independiente lo revisa. Mueva la aprobación a otro carril (p. ej. el superior del responsable o RR. HH.).',
+  'Missing Approval Gate': 'Falta el paso de aprobación',
+  'Payroll, salary and termination changes should only run after an explicit approval decision. Add an approval task and a gateway that routes rejected requests away from this step.':
+    'Los cambios de nómina, salario y despidos solo deben ejecutarse tras una decisión de aprobación explícita. Añada una tarea de aprobación y una compuerta que desvíe las solicitudes rechazadas de este paso.',
+  'Offboarding Controls': 'Controles de baja',
+  "Offboarding must end system access and decide how long the leaver's records are kept. Add explicit access-revocation and data-retention steps.":
+    'La baja debe cerrar el acceso a los sistemas y decidir cuánto tiempo se conservan los datos de quien se va. Añada pasos explícitos de revocación de accesos y de conservación de datos.',
+  'Privacy Notice': 'Aviso de privacidad',
+  'Collecting or processing personal data needs a lawful basis. Add a step that records consent or gives the employee/candidate a privacy notice before the data is used.':
+    'Recopilar o tratar datos personales requiere una base legal. Añada un paso que registre el consentimiento o entregue al empleado/candidato un aviso de privacidad antes de usar los datos.',
+  'Automation Opportunity': 'Oportunidad de automatización',
+  'Consider automating repetitive tasks': 'Considere automatizar las tareas repetitivas',
+  'Missing Implementation': 'Falta la implementación',
+  'A workflow engine cannot execute this task. Configure the connector, class, expression or external topic that performs it.':
+    'Un motor de workflow no puede ejecutar esta tarea. Configure el conector, la clase, la expresión o el tema externo que la realiza.',
+  'Missing Assignee': 'Falta el responsable',
+  'The task is only assigned through its lane. Set an assignee or candidate group so the engine can route the work item.':
+    'La tarea solo está asignada a través de su carril. Indique un responsable o un grupo candidato para que el motor pueda asignar el trabajo.',
+
+  // Finding messages
+  'Loop through {path} has no exit': 'El bucle por {path} no tiene salida',
+  '"{name}" cannot be reached from a start event': 'No se puede llegar a «{name}» desde un evento de inicio',
+  '"{name}" has no outgoing sequence flow': '«{name}» no tiene flujo de secuencia de salida',
+  'No path leads from "{name}" to an end event': 'Ningún camino lleva de «{name}» a un evento de fin',
+  'Parallel branches from "{split}" merge at "{join}" without synchronization':
+    'Las ramas paralelas de «{split}» se unen en «{join}» sin sincronización',
+  'Exclusive branches from "{split}" are joined by parallel gateway "{join}"':
+    'Las ramas exclusivas de «{split}» se unen en la compuerta paralela «{join}»',
+  '{count} outgoing flow(s) of "{name}" have no label or condition: {targets}':
+    '{count} flujo(s) de salida de «{name}» sin etiqueta ni condición: {targets}',
+  'Decision gateway "{name}" has no default flow': 'La compuerta de decisión «{name}» no tiene flujo por defecto',
+  '{type} "{id}" has no name': '{type} «{id}» no tiene nombre',
+  'Process': 'Proceso',
+  'High process complexity detected: {drivers}': 'Se detectó una complejidad alta del proceso: {drivers}',
+  'Process is heavily manual': 'El proceso es muy manual',
+  '"{name}" has no implementation configured': '«{name}» no tiene implementación configurada',
+  '"{name}" has no assignee or candidate group': '«{name}» no tiene responsable ni grupo candidato',
+  'lane "{name}" ({id})': 'carril «{name}» ({id})',
+  'no lane': 'sin carril',
+  'none': 'ninguno',
+  'the process name "{name}"': 'el nombre del proceso «{name}»',
+  '{message}. Triggered by {triggers}; lanes: {lanes}': '{message}. Detectado por {triggers}; carriles: {lanes}',
+  'No roles or lanes defined': 'No hay roles ni carriles definidos',
+  '{lane} both requests ({requests}) and approves ({approval})': '{lane} solicita ({requests}) y también aprueba ({approval})',
+  '{element} in {lane} has no approval gateway upstream': '{element} en {lane} no tiene una compuerta de aprobación previa',
+  'Offboarding process has no access revocation or data retention step':
+    'El proceso de baja no tiene paso de revocación de accesos ni de conservación de datos',
+  'Offboarding process has no access revocation step': 'El proceso de baja no tiene paso de revocación de accesos',
+  'Offboarding process has no data retention step': 'El proceso de baja no tiene paso de conservación de datos',
+  'Process handles personal data without a consent or privacy-notice step':
+    'El proceso trata datos personales sin un paso de consentimiento o aviso de privacidad',
+  '; data objects: {objects}': '; objetos de datos: {objects}',
+
+  // Fallback insights and suggestions
+  'Standard implementation risks apply': 'Se aplican los riesgos habituales de implementación',
+  'Add validation task after {name}': 'Añadir una tarea de validación después de {name}',
+  'current task': 'la tarea actual',
+  'Insert quality validation step in the workflow': 'Insertar un paso de validación de calidad en el flujo',
+  'Quality Validation': 'Validación de calidad',
+  'Add initial data validation task': 'Añadir una tarea inicial de validación de datos',
+  'Add a task to validate inputs at process start': 'Añadir una tarea que valide las entradas al inicio del proceso',
+  'Input Validation': 'Validación de entradas',
+  'Add decision gateway for conditional routing': 'Añadir una compuerta de decisión para el enrutamiento condicional',
+  'Insert decision point for process branching': 'Insertar un punto de decisión para ramificar el proceso',
+  'Approval Decision': 'Decisión de aprobación',
+  'Streamline process flow connections': 'Simplificar las conexiones del flujo del proceso',
+  'Optimize sequence flows for better efficiency': 'Optimizar los flujos de secuencia para ganar eficiencia',
+  'Add approver role for process oversight': 'Añadir un rol aprobador para supervisar el proceso',
+  'Create dedicated lane for approval workflow': 'Crear un carril dedicado al flujo de aprobación',
+  'Process Approver': 'Aprobador del proceso',
+  'Add reviewer role to support {name}': 'Añadir un rol revisor que apoye a {name}',
+  'current role': 'el rol actual',
+  'Add complementary role for quality assurance': 'Añadir un rol complementario de aseguramiento de calidad',
+  'Quality Reviewer': 'Revisor de calidad',
+  'Optimize {name} for parallel processing': 'Optimizar {name} para el procesamiento en paralelo',
+  'gateway': 'la compuerta',
+  'Convert to parallel gateway for concurrent execution': 'Convertir en compuerta paralela para la ejecución simultánea',
+  'Add parallel gateway for concurrent processing': 'Añadir una compuerta paralela para el procesamiento simultáneo',
+  'Enable multiple process paths to execute simultaneously': 'Permitir que varios caminos del proceso se ejecuten a la vez',
+  'Parallel Split': 'División paralela',
+  'Process contains {count} user tasks requiring manual intervention':
+    'El proceso contiene {count} tareas de usuario que requieren intervención manual',
+  '{score}/10 complexity score indicates {risk} optimization potential':
+    'Una complejidad de {score}/10 indica un potencial de optimización {risk}',
+  'high': 'alto',
+  'medium': 'medio',
+  'low': 'bajo',
+  '{count} roles identified with balanced distribution': 'Se identificaron {count} roles con una distribución equilibrada',
+  '{count} roles identified with needs review distribution': 'Se identificaron {count} roles; conviene revisar su distribución',
+  'Consider adding validation steps for data quality': 'Considere añadir pasos de validación para la calidad de los datos',
+  'Implement parallel processing where possible': 'Use procesamiento en paralelo donde sea posible',
+  'Add decision gateways for conditional logic': 'Añada compuertas de decisión para la lógica condicional',
+  'Manual process steps may cause delays': 'Los pasos manuales pueden causar retrasos',
+  'Limited role separation may impact compliance': 'Una separación de roles limitada puede afectar al cumplimiento',
+
+  // Stakeholder documentation
+  'Business process with {count} manual tasks and {score}/10 complexity':
+    'Proceso de negocio con {count} tareas manuales y complejidad {score}/10',
+  'Balanced': 'Equilibrada',
+  'Needs Review': 'Requiere revisión',
+  'BPMN 2.0 compliant process with {count} total elements': 'Proceso conforme a BPMN 2.0 con {count} elementos en total',
+  '{name} role training required': 'Se requiere formación para el rol {name}',
+  '2-4 weeks implementation based on complexity': 'Implementación de 2 a 4 semanas según la complejidad',
+
+  // Readiness and complexity
+  'Task ownership': 'Responsables de las tareas',
+  '{ready} of {total} human tasks have an assignee or lane': '{ready} de {total} tareas manuales tienen un responsable o carril',
+  'Service implementation': 'Implementación de servicios',
+  '{ready} of {total} automated tasks specify an implementation': '{ready} de {total} tareas automatizadas especifican una implementación',
+  'Documented gateway conditions': 'Condiciones documentadas en las compuertas',
+  '{ready} of {total} decision paths have a condition, label or default': '{ready} de {total} caminos de decisión tienen una condición, etiqueta o valor predeterminado',
+  'Error and boundary event coverage': 'Cobertura con eventos de error y de borde',
+  '{ready} of {total} automated tasks and sub-processes have a boundary event': '{ready} de {total} tareas automatizadas y subprocesos tienen un evento de borde',
+  'Naming quality': 'Calidad de los nombres',
+  '{ready} of {total} activities and gateways have descriptive names': '{ready} de {total} actividades y compuertas tienen nombres descriptivos',
+  'Not applicable: no matching elements': 'No aplica: no hay elementos correspondientes',
+  '{risk} risk': 'Riesgo {risk}',
+  'Number of activities (NOA)': 'Número de actividades (NOA)',
+  'Tasks, sub-processes and call activities. Large models are harder to read and validate.': 'Tareas, subprocesos y actividades de llamada. Los modelos grandes son más difíciles de leer y validar.',
+  'Control-flow complexity (CFC)': 'Complejidad del flujo de control (CFC)',
+  'Cardoso: number of states introduced by split gateways (XOR: fan-out, OR: 2^n - 1, AND: 1).': 'Cardoso: número de estados que introducen las compuertas divergentes (XOR: salidas, OR: 2^n - 1, AND: 1).',
+  'Coefficient of network connectivity (CNC)': 'Coeficiente de conectividad de la red (CNC)',
+  'Sequence flows per flow node. Above 1 the model is more than a simple chain.': 'Flujos de secuencia por nodo. Por encima de 1 el modelo es más que una cadena simple.',
+  'Maximum nesting depth': 'Profundidad máxima de anidamiento',
+  'Deepest nesting of branches and sub-processes along the step numbering.': 'Anidamiento más profundo de ramas y subprocesos según la numeración de pasos.',
+  'Gateway mismatch': 'Desajuste de compuertas',
+  'Split fan-out not balanced by matching join fan-in of the same gateway type.': 'Divergencias no compensadas por convergencias del mismo tipo de compuerta.',
+  'Gateway heterogeneity': 'Heterogeneidad de compuertas',
+  'How mixed the XOR/AND/OR gateway types are (0 = one type only, 1 = evenly mixed).': 'Grado de mezcla de los tipos de compuerta XOR/AND/OR (0 = un solo tipo, 1 = mezcla uniforme).',
+  'Cyclomatic number': 'Número ciclomático',
+  'McCabe: independent paths through the model (arcs - nodes + components).': 'McCabe: caminos independientes en el modelo (arcos - nodos + componentes).',
+  'Token split degree': 'Grado de división de tokens',
+  'Additional concurrent paths created by AND/OR splits.': 'Caminos concurrentes adicionales creados por divergencias AND/OR.',
+
+  // Chat
+  'I propose the following changes to the diagram:': 'Propongo los siguientes cambios en el diagrama:',
+  'hr, employee, recruitment, payroll, performance, compliance, onboarding, workflow, process':
+    'rrhh, empleado, contratación, reclutamiento, nómina, desempeño, cumplimiento, incorporación, flujo de trabajo, proceso',
+  'stock, market, investment, financial analysis': 'bolsa de valores, mercado bursátil, inversión, análisis financiero',
+  [HRIS_REDIRECT_MESSAGE]: `🎯 **Análisis de procesos HRIS**
+
+Veo que pregunta por la optimización de procesos. Como su experto en HRIS, me centraré en los aspectos de RR. HH.:
+
+**🔍 Análisis del proceso**: A partir del análisis de su proceso BPMN, puedo ayudarle a optimizar los flujos de empleados, las cadenas de aprobación y los procedimientos de cumplimiento.
+
+**⚡ Áreas clave de optimización HRIS**:
+- Automatización de la incorporación de empleados
+- Flujos de evaluación del desempeño
+- Procesos de aprobación de ausencias
+- Pasos de verificación de nómina
+- Pistas de auditoría de cumplimiento
+
+**🚀 Próximos pasos**:
+1. Revise sus flujos actuales de RR. HH.
+2. Identifique los cuellos de botella en las aprobaciones manuales
+3. Implemente notificaciones automáticas
+4. Garantice el cumplimiento del RGPD en todo el proceso
+
+¿Quiere que analice algún flujo de RR. HH. concreto o que le ayude a optimizar los procedimientos de gestión de empleados?`,
+};
@@ -0,0 +1,205 @@
+import { HRIS_REDIRECT_MESSAGE } from '../prompt-profiles.ts';
+
+// Hindi catalog; keys are the English source texts. BPMN terms (gateway, lane, token)
+// stay in transliteration as HR teams use them.
+
+export const hi: Record<string, string> = {
+  // Rule packs
+  'BPMN modeling style': 'BPMN मॉडलिंग शैली',
+  'Structural soundness and readability of the diagram.': 'डायग्राम की संरचनात्मक शुद्धता और पठनीयता।',
+  'HR compliance': 'HR अनुपालन',
+  'Clear ownership of HR steps and the controls auditors look for.': 'HR चरणों की स्पष्ट ज़िम्मेदारी और वे नियंत्रण जिन्हें ऑडिटर देखते हैं।',
+  'Automation readiness': 'ऑटोमेशन तत्परता',
+  'Gaps that block deploying the process to a workflow engine.': 'वे कमियाँ जो प्रक्रिया को वर्कफ़्लो इंजन पर लागू करने से रोकती हैं।',
+
+  // Rules
+  'Infinite Loop': 'अनंत लूप',
+  'Once a token enters this loop it can never leave it. Add a gateway with an exit path towards an end event.':
+    'इस लूप में आया टोकन कभी बाहर नहीं निकल सकता। किसी एंड इवेंट की ओर निकास पथ वाला गेटवे जोड़ें।',
+  'Unreachable Element': 'अप्राप्य तत्व',
+  'No sequence flow path leads from a start event to this element, so it will never be executed. Connect it to the flow or remove it.':
+    'किसी स्टार्ट इवेंट से इस तत्व तक कोई सीक्वेंस फ़्लो नहीं पहुँचता, इसलिए यह कभी निष्पादित नहीं होगा। इसे फ़्लो से जोड़ें या हटा दें।',
+  'No Path to End': 'अंत तक कोई पथ नहीं',
+  'Tokens arriving here can never complete the process. Connect the element to the rest of the flow or end the path with an end event.':
+    'यहाँ पहुँचे टोकन प्रक्रिया कभी पूरी नहीं कर सकते। तत्व को बाकी फ़्लो से जोड़ें या पथ को एंड इवेंट से समाप्त करें।',
+  'Lack of Synchronization': 'सिंक्रनाइज़ेशन का अभाव',
+  'An exclusive merge passes on every token it receives, so everything after it runs once per parallel branch. Use a parallel gateway to join the branches.':
+    'एक्सक्लूसिव मर्ज हर आने वाले टोकन को आगे भेज देता है, इसलिए उसके बाद का सब कुछ हर पैरेलल शाखा के लिए एक बार चलता है। शाखाओं को जोड़ने के लिए पैरेलल गेटवे का उपयोग करें।',
+  'Deadlock': 'डेडलॉक',
+  'Only one branch of an exclusive split is taken, but a parallel join waits for all of its incoming flows. The process will stop here. Use an exclusive gateway to merge the branches.':
+    'एक्सक्लूसिव स्प्लिट की केवल एक शाखा ली जाती है, पर पैरेलल जॉइन अपने सभी आने वाले फ़्लो की प्रतीक्षा करता है। प्रक्रिया यहीं रुक जाएगी। शाखाओं को मिलाने के लिए एक्सक्लूसिव गेटवे का उपयोग करें।',
+  'Unlabeled Condition': 'बिना लेबल की शर्त',
+  'Readers and process engines cannot tell when each path is taken. Name every outgoing flow or give it a condition expression.':
+    'पाठक और प्रोसेस इंजन यह नहीं जान सकते कि कौन-सा पथ कब लिया जाता है। हर बाहर जाने वाले फ़्लो को नाम या शर्त अभिव्यक्ति दें।',
+  'Missing Default Flow': 'डिफ़ॉल्ट फ़्लो अनुपस्थित',
+  'If none of the outgoing conditions is true at runtime the process gets stuck. Mark one outgoing flow as the default path.':
+    'यदि रनटाइम पर कोई भी बाहर जाने वाली शर्त सही नहीं है तो प्रक्रिया अटक जाती है। एक बाहर जाने वाले फ़्लो को डिफ़ॉल्ट पथ के रूप में चिह्नित करें।',
+  'Unnamed Activity': 'बिना नाम की गतिविधि',
+  'Activities without a name show up as raw IDs in step lists and exports. Name each activity with a verb and an object, e.g. "Approve leave request".':
+    'बिना नाम की गतिविधियाँ चरण सूचियों और एक्सपोर्ट में केवल ID के रूप में दिखती हैं। हर गतिविधि को क्रिया और वस्तु से नाम दें, जैसे "छुट्टी अनुरोध स्वीकृत करें"।',
+  'Process Complexity': 'प्रक्रिया जटिलता',
+  'Consider breaking down into smaller sub-processes': 'छोटी उप-प्रक्रियाओं में विभाजित करने पर विचार करें',
+  'Role Definition': 'भूमिका परिभाषा',
+  'Add swimlanes to clearly define responsibilities': 'ज़िम्मेदारियाँ स्पष्ट करने के लिए स्विमलेन जोड़ें',
+  'Segregation of Duties': 'कर्तव्यों का पृथक्करण',
+  "The same role both requests and approves a compensation or hiring change, so nobody independent checks it. Move the approval to a different lane (e.g. the manager's manager or HR).":
+    'एक ही भूमिका वेतन या भर्ती परिवर्तन का अनुरोध भी करती है और उसे स्वीकृत भी करती है, इसलिए कोई स्वतंत्र जाँच नहीं होती। स्वीकृति को किसी दूसरी लेन में ले जाएँ (जैसे मैनेजर के मैनेजर या HR)।',
+  'Missing Approval Gate': 'स्वीकृति चरण अनुपस्थित',
+  'Payroll, salary and termination changes should only run after an explicit approval decision. Add an approval task and a gateway that routes rejected requests away from this step.':
+    'पेरोल, वेतन और सेवा-समाप्ति परिवर्तन केवल स्पष्ट स्वीकृति निर्णय के बाद होने चाहिए। एक स्वीकृति टास्क और ऐसा गेटवे जोड़ें जो अस्वीकृत अनुरोधों को इस चरण से दूर भेजे।',
+  'Offboarding Controls': 'ऑफ़बोर्डिंग नियंत्रण',
+  "Offboarding must end system access and decide how long the leaver's records are kept. Add explicit access-revocation and data-retention steps.":
+    'ऑफ़बोर्डिंग में सिस्टम एक्सेस समाप्त करना और यह तय करना ज़रूरी है कि जाने वाले कर्मचारी के रिकॉर्ड कब तक रखे जाएँ। एक्सेस निरस्तीकरण और डेटा प्रतिधारण के स्पष्ट चरण जोड़ें।',
+  'Privacy Notice': 'गोपनीयता सूचना',
+  'Collecting or processing personal data needs a lawful basis. Add a step that records consent or gives the employee/candidate a privacy notice before the data is used.':
+    'व्यक्तिगत डेटा एकत्र या संसाधित करने के लिए कानूनी आधार चाहिए। डेटा उपयोग से पहले सहमति दर्ज करने या कर्मचारी/उम्मीदवार को गोपनीयता सूचना देने का चरण जोड़ें।',
+  'Automation Opportunity': 'ऑटोमेशन अवसर',
+  'Consider automating repetitive tasks': 'दोहराए जाने वाले कार्यों को स्वचालित करने पर विचार करें',
+  'Missing Implementation': 'इम्प्लीमेंटेशन अनुपस्थित',
+  'A workflow engine cannot execute this task. Configure the connector, class, expression or external topic that performs it.':
+    'वर्कफ़्लो इंजन इस टास्क को निष्पादित नहीं कर सकता। इसे करने वाला कनेक्टर, क्लास, एक्सप्रेशन या एक्सटर्नल टॉपिक कॉन्फ़िगर करें।',
+  'Missing Assignee': 'असाइनी अनुपस्थित',
+  'The task is only assigned through its lane. Set an assignee or candidate group so the engine can route the work item.':
+    'यह टास्क केवल अपनी लेन के माध्यम से सौंपा गया है। असाइनी या कैंडिडेट ग्रुप सेट करें ताकि इंजन कार्य को सही व्यक्ति तक भेज सके।',
+
+  // Finding messages
+  'Loop through {path} has no exit': '{path} से होकर जाने वाले लूप का कोई निकास नहीं है',
+  '"{name}" cannot be reached from a start event': '"{name}" तक किसी स्टार्ट इवेंट से नहीं पहुँचा जा सकता',
+  '"{name}" has no outgoing sequence flow': '"{name}" का कोई बाहर जाने वाला सीक्वेंस फ़्लो नहीं है',
+  'No path leads from "{name}" to an end event': '"{name}" से किसी एंड इवेंट तक कोई पथ नहीं है',
+  'Parallel branches from "{split}" merge at "{join}" without synchronization':
+    '"{split}" की पैरेलल शाखाएँ "{join}" पर बिना सिंक्रनाइज़ेशन के मिलती हैं',
+  'Exclusive branches from "{split}" are joined by parallel gateway "{join}"':
+    '"{split}" की एक्सक्लूसिव शाखाएँ पैरेलल गेटवे "{join}" द्वारा जोड़ी गई हैं',
+  '{count} outgoing flow(s) of "{name}" have no label or condition: {targets}':
+    '"{name}" के {count} बाहर जाने वाले फ़्लो पर कोई लेबल या शर्त नहीं है: {targets}',
+  'Decision gateway "{name}" has no default flow': 'निर्णय गेटवे "{name}" का कोई डिफ़ॉल्ट फ़्लो नहीं है',
+  '{type} "{id}" has no name': '{type} "{id}" का कोई नाम नहीं है',
+  'Process': 'प्रक्रिया',
+  'High process complexity detected: {drivers}': 'उच्च प्रक्रिया जटिलता पाई गई: {drivers}',
+  'Process is heavily manual': 'प्रक्रिया अत्यधिक मैन्युअल है',
+  '"{name}" has no implementation configured': '"{name}" के लिए कोई इम्प्लीमेंटेशन कॉन्फ़िगर नहीं है',
+  '"{name}" has no assignee or candidate group': '"{name}" का कोई असाइनी या कैंडिडेट ग्रुप नहीं है',
+  'lane "{name}" ({id})': 'लेन "{name}" ({id})',
+  'no lane': 'कोई लेन नहीं',
+  'none': 'कोई नहीं',
+  'the process name "{name}"': 'प्रक्रिया का नाम "{name}"',
+  '{message}. Triggered by {triggers}; lanes: {lanes}': '{message}। कारण: {triggers}; लेन: {lanes}',
+  'No roles or lanes defined': 'कोई भूमिका या लेन परिभाषित नहीं है',
+  '{lane} both requests ({requests}) and approves ({approval})': '{lane} अनुरोध ({requests}) भी करती है और स्वीकृति ({approval}) भी देती है',
+  '{element} in {lane} has no approval gateway upstream': '{lane} में {element} से पहले कोई स्वीकृति गेटवे नहीं है',
+  'Offboarding process has no access revocation or data retention step':
+    'ऑफ़बोर्डिंग प्रक्रिया में एक्सेस निरस्तीकरण या डेटा प्रतिधारण का कोई चरण नहीं है',
+  'Offboarding process has no access revocation step': 'ऑफ़बोर्डिंग प्रक्रिया में एक्सेस निरस्तीकरण का कोई चरण नहीं है',
+  'Offboarding process has no data retention step': 'ऑफ़बोर्डिंग प्रक्रिया में डेटा प्रतिधारण का कोई चरण नहीं है',
+  'Process handles personal data without a consent or privacy-notice step':
+    'प्रक्रिया सहमति या गोपनीयता-सूचना चरण के बिना व्यक्तिगत डेटा संसाधित करती है',
+  '; data objects: {objects}': '; डेटा ऑब्जेक्ट: {objects}',
+
+  // Fallback insights and suggestions
+  'Standard implementation risks apply': 'सामान्य कार्यान्वयन जोखिम लागू होते हैं',
+  'Add validation task after {name}': '{name} के बाद सत्यापन टास्क जोड़ें',
+  'current task': 'वर्तमान टास्क',
+  'Insert quality validation step in the workflow': 'वर्कफ़्लो में गुणवत्ता सत्यापन चरण जोड़ें',
+  'Quality Validation': 'गुणवत्ता सत्यापन',
+  'Add initial data validation task': 'प्रारंभिक डेटा सत्यापन टास्क जोड़ें',
+  'Add a task to validate inputs at process start': 'प्रक्रिया की शुरुआत में इनपुट सत्यापित करने का टास्क जोड़ें',
+  'Input Validation': 'इनपुट सत्यापन',
+  'Add decision gateway for conditional routing': 'सशर्त रूटिंग के लिए निर्णय गेटवे जोड़ें',
+  'Insert decision point for process branching': 'प्रक्रिया शाखाओं के लिए निर्णय बिंदु जोड़ें',
+  'Approval Decision': 'स्वीकृति निर्णय',
+  'Streamline process flow connections': 'प्रक्रिया फ़्लो कनेक्शन सुव्यवस्थित करें',
+  'Optimize sequence flows for better efficiency': 'बेहतर दक्षता के लिए सीक्वेंस फ़्लो अनुकूलित करें',
+  'Add approver role for process oversight': 'प्रक्रिया निगरानी के लिए अनुमोदक भूमिका जोड़ें',
+  'Create dedicated lane for approval workflow': 'स्वीकृति वर्कफ़्लो के लिए अलग लेन बनाएँ',
+  'Process Approver': 'प्रक्रिया अनुमोदक',
+  'Add reviewer role to support {name}': '{name} की सहायता के लिए समीक्षक भूमिका जोड़ें',
+  'current role': 'वर्तमान भूमिका',
+  'Add complementary role for quality assurance': 'गुणवत्ता आश्वासन के लिए पूरक भूमिका जोड़ें',
+  'Quality Reviewer': 'गुणवत्ता समीक्षक',
+  'Optimize {name} for parallel processing': '{name} को समानांतर प्रोसेसिंग के लिए अनुकूलित करें',
+  'gateway': 'गेटवे',
+  'Convert to parallel gateway for concurrent execution': 'एक साथ निष्पादन के लिए पैरेलल गेटवे में बदलें',
+  'Add parallel gateway for concurrent processing': 'एक साथ प्रोसेसिंग के लिए पैरेलल गेटवे जोड़ें',
+  'Enable multiple process paths to execute simultaneously': 'कई प्रक्रिया पथों को एक साथ चलने दें',
+  'Parallel Split': 'पैरेलल स्प्लिट',
+  'Process contains {count} user tasks requiring manual intervention':
+    'प्रक्रिया में {count} यूज़र टास्क हैं जिनमें मैन्युअल हस्तक्षेप चाहिए',
+  '{score}/10 complexity score indicates {risk} optimization potential':
+    '{score}/10 जटिलता स्कोर {risk} अनुकूलन क्षमता दर्शाता है',
+  'high': 'उच्च',
+  'medium': 'मध्यम',
+  'low': 'कम',
+  '{count} roles identified with balanced distribution': '{count} भूमिकाएँ पाई गईं, वितरण संतुलित है',
+  '{count} roles identified with needs review distribution': '{count} भूमिकाएँ पाई गईं, वितरण की समीक्षा आवश्यक है',
+  'Consider adding validation steps for data quality': 'डेटा गुणवत्ता के लिए सत्यापन चरण जोड़ने पर विचार करें',
+  'Implement parallel processing where possible': 'जहाँ संभव हो समानांतर प्रोसेसिंग लागू करें',
+  'Add decision gateways for conditional logic': 'सशर्त तर्क के लिए निर्णय गेटवे जोड़ें',
+  'Manual process steps may cause delays': 'मैन्युअल प्रक्रिया चरणों से देरी हो सकती है',
+  'Limited role separation may impact compliance': 'सीमित भूमिका पृथक्करण अनुपालन को प्रभावित कर सकता है',
+
+  // Stakeholder documentation
+  'Business process with {count} manual tasks and {score}/10 complexity':
+    '{count} मैन्युअल टास्क और {score}/10 जटिलता वाली व्यावसायिक प्रक्रिया',
+  'Balanced': 'संतुलित',
+  'Needs Review': 'समीक्षा आवश्यक',
+  'BPMN 2.0 compliant process with {count} total elements': 'कुल {count} तत्वों वाली BPMN 2.0 अनुरूप प्रक्रिया',
+  '{name} role training required': '{name} भूमिका के लिए प्रशिक्षण आवश्यक',
+  '2-4 weeks implementation based on complexity': 'जटिलता के आधार पर 2-4 सप्ताह में कार्यान्वयन',
+
+  // Readiness and complexity
+  'Task ownership': 'टास्क स्वामित्व',
+  '{ready} of {total} human tasks have an assignee or lane': '{total} में से {ready} मानवीय टास्क का कोई असाइनी या लेन है',
+  'Service implementation': 'सर्विस इम्प्लीमेंटेशन',
+  '{ready} of {total} automated tasks specify an implementation': '{total} में से {ready} स्वचालित टास्क में इम्प्लीमेंटेशन दिया गया है',
+  'Documented gateway conditions': 'दस्तावेज़ीकृत गेटवे शर्तें',
+  '{ready} of {total} decision paths have a condition, label or default': '{total} में से {ready} निर्णय पथों में शर्त, लेबल या डिफ़ॉल्ट है',
+  'Error and boundary event coverage': 'त्रुटि और बाउंड्री इवेंट कवरेज',
+  '{ready} of {total} automated tasks and sub-processes have a boundary event': '{total} में से {ready} स्वचालित टास्क और सब-प्रोसेस में बाउंड्री इवेंट है',
+  'Naming quality': 'नामकरण की गुणवत्ता',
+  '{ready} of {total} activities and gateways have descriptive names': '{total} में से {ready} गतिविधियों और गेटवे के नाम वर्णनात्मक हैं',
+  'Not applicable: no matching elements': 'लागू नहीं: कोई मेल खाने वाले तत्व नहीं',
+  '{risk} risk': '{risk} जोखिम',
+  'Number of activities (NOA)': 'गतिविधियों की संख्या (NOA)',
+  'Tasks, sub-processes and call activities. Large models are harder to read and validate.': 'टास्क, सब-प्रोसेस और कॉल गतिविधियाँ। बड़े मॉडल पढ़ने और जाँचने में कठिन होते हैं।',
+  'Control-flow complexity (CFC)': 'कंट्रोल-फ़्लो जटिलता (CFC)',
+  'Cardoso: number of states introduced by split gateways (XOR: fan-out, OR: 2^n - 1, AND: 1).': 'Cardoso: स्प्लिट गेटवे से बनने वाली अवस्थाओं की संख्या (XOR: आउटगोइंग, OR: 2^n - 1, AND: 1)।',
+  'Coefficient of network connectivity (CNC)': 'नेटवर्क कनेक्टिविटी गुणांक (CNC)',
+  'Sequence flows per flow node. Above 1 the model is more than a simple chain.': 'प्रति फ़्लो नोड सीक्वेंस फ़्लो। 1 से ऊपर होने पर मॉडल एक साधारण श्रृंखला से अधिक है।',
+  'Maximum nesting depth': 'अधिकतम नेस्टिंग गहराई',
+  'Deepest nesting of branches and sub-processes along the step numbering.': 'चरण क्रमांकन के अनुसार शाखाओं और सब-प्रोसेस की सबसे गहरी नेस्टिंग।',
+  'Gateway mismatch': 'गेटवे असंतुलन',
+  'Split fan-out not balanced by matching join fan-in of the same gateway type.': 'स्प्लिट जिनका संतुलन उसी प्रकार के गेटवे के जॉइन से नहीं होता।',
+  'Gateway heterogeneity': 'गेटवे विविधता',
+  'How mixed the XOR/AND/OR gateway types are (0 = one type only, 1 = evenly mixed).': 'XOR/AND/OR गेटवे प्रकार कितने मिश्रित हैं (0 = केवल एक प्रकार, 1 = समान रूप से मिश्रित)।',
+  'Cyclomatic number': 'साइक्लोमैटिक संख्या',
+  'McCabe: independent paths through the model (arcs - nodes + components).': 'McCabe: मॉडल से होकर स्वतंत्र पथ (आर्क - नोड + घटक)।',
+  'Token split degree': 'टोकन विभाजन की मात्रा',
+  'Additional concurrent paths created by AND/OR splits.': 'AND/OR स्प्लिट से बनने वाले अतिरिक्त समानांतर पथ।',
+
+  // Chat
+  'I propose the following changes to the diagram:': 'मैं डायग्राम में निम्नलिखित बदलावों का प्रस्ताव करता हूँ:',
+  'hr, employee, recruitment, payroll, performance, compliance, onboarding, workflow, process':
+    'एचआर, कर्मचारी, भर्ती, वेतन, पेरोल, प्रदर्शन, अनुपालन, ऑनबोर्डिंग, वर्कफ़्लो, प्रक्रिया',
+  'stock, market, investment, financial analysis': 'शेयर बाज़ार, निवेश, वित्तीय विश्लेषण',
+  [HRIS_REDIRECT_MESSAGE]: `🎯 **HRIS प्रक्रिया विश्लेषण**
+
+आपका प्रश्न प्रक्रिया अनुकूलन से जुड़ा है। आपके HRIS विशेषज्ञ के रूप में मैं HR पहलुओं पर ध्यान केंद्रित करूँगा:
+
+**🔍 प्रक्रिया विश्लेषण**: आपके BPMN प्रक्रिया विश्लेषण के आधार पर मैं कर्मचारी वर्कफ़्लो, स्वीकृति श्रृंखलाओं और अनुपालन प्रक्रियाओं को बेहतर बनाने में मदद कर सकता हूँ।
+
+**⚡ प्रमुख HRIS अनुकूलन क्षेत्र**:
+- कर्मचारी ऑनबोर्डिंग का स्वचालन
+- प्रदर्शन समीक्षा वर्कफ़्लो
+- छुट्टी स्वीकृति प्रक्रियाएँ
+- पेरोल सत्यापन चरण
+- अनुपालन ऑडिट ट्रेल
+
+**🚀 अगले कदम**:
+1. अपने वर्तमान HR प्रक्रिया फ़्लो की समीक्षा करें
+2. मैन्युअल स्वीकृति की रुकावटें पहचानें
+3. स्वचालित सूचनाएँ लागू करें
+4. हर चरण में GDPR अनुपालन सुनिश्चित करें
+
+क्या आप चाहेंगे कि मैं किसी विशेष HR प्रक्रिया का विश्लेषण करूँ या कर्मचारी प्रबंधन प्रक्रियाओं को बेहतर बनाने में मदद करूँ?`,
+};
@@ -0,0 +1,59 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { de } from './de.ts';
+import { es } from './es.ts';
+import { hi } from './hi.ts';
+
+// Message catalogs for the text the functions generate without a model: rule findings,
+// rule pack descriptions, fallback insights and canned chat answers. The English text is
+// the key (as with gettext), so rules stay readable; a missing translation falls back to
+// English. Placeholders are written {name} and filled from the params.
+//
+// Model calls are told to answer in the user's language instead (languageInstruction).
+
+export type Locale = 'en' | 'de' | 'hi' | 'es';
+
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'de', 'hi', 'es'];
+
+const LANGUAGE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  de: 'German',
+  hi: 'Hindi',
+  es: 'Spanish',
+};
+
+const CATALOGS: Record<Locale, Record<string, string>> = { en: {}, de, hi, es };
+
+export type TranslationParams = Record<string, string | number>;
+export type Translate = (text: string, params?: TranslationParams) => string;
+
+const fill = (template: string, params?: TranslationParams) =>
+  params
+    ? template.replace(/\{(\w+)\}/g, (placeholder, name: string) => name in params ? String(params[name]) : placeholder)
+    : template;
+
+export function translator(locale: Locale): Translate {
+  const catalog = CATALOGS[locale];
+  return (text, params) => fill(catalog[text] ?? text, params);
+}
+
+export const resolveLocale = (value: unknown): Locale =>
+  SUPPORTED_LOCALES.includes(value as Locale) ? value as Locale : 'en';
+
+// The locale set in the user's profile; English for anonymous calls
+export async function loadUserLocale(supabase: SupabaseClient, userId: string | null): Promise<Locale> {
+  if (!userId) return 'en';
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('locale')
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) console.error('Error loading the user locale:', error);
+  return resolveLocale(data?.locale);
+}
+
+// Appended to system prompts; identifiers stay untranslated so tool calls and JSON still match
+export function languageInstruction(locale: Locale): string {
+  if (locale === 'en') return '';
+  const language = LANGUAGE_NAMES[locale];
+  return `Write all of your answer in ${language}, whatever language the context is in. Keep element IDs, finding IDs, JSON keys, enum values and product names unchanged.`;
+}
@@ -0,0 +1,125 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { embedTexts, type LlmEmbeddingResponse } from './llm/index.ts';
+import { knowledgeEmbeddingText, toVector } from './knowledge-retrieval.ts';
+
+// Stores extracted patterns without piling up near-duplicates. Each pattern is embedded and
+// compared with the knowledge base (public.find_duplicate_knowledge); a match records the
+// session on the existing entry (public.record_knowledge_occurrence) instead of inserting.
+// Without embeddings, only a pattern with the same title counts as a duplicate.
+//
+//   KNOWLEDGE_DEDUP_SIMILARITY   cosine similarity that counts as a duplicate (default 0.9)
+
+export interface ExtractedPattern {
+  knowledgeType: string;
+  insights: Record<string, unknown>;
+  confidence: number;
+}
+
+export interface StoredPatterns {
+  inserted: number;
+  merged: number;
+  // Patterns matching an entry this session was already recorded on (re-extraction)
+  alreadyRecorded: number;
+  failed: number;
+  // The pattern embedding call, for usage logging
+  embedding: LlmEmbeddingResponse | null;
+}
+
+const similarityThreshold = () => {
+  const value = Number(Deno.env.get('KNOWLEDGE_DEDUP_SIMILARITY'));
+  return Number.isFinite(value) && value > 0 && value <= 1 ? value : 0.9;
+};
+
+async function findDuplicateBySimilarity(supabase: SupabaseClient, embedding: number[]): Promise<string | null> {
+  const { data, error } = await supabase.rpc('find_duplicate_knowledge', {
+    p_embedding: toVector(embedding),
+    p_min_similarity: similarityThreshold(),
+  });
+  if (error) throw error;
+  return data?.[0]?.id ?? null;
+}
+
+async function findDuplicateByTitle(supabase: SupabaseClient, insights: Record<string, unknown>): Promise<string | null> {
+  const title = typeof insights.title === 'string' ? insights.title.trim() : '';
+  if (!title) return null;
+
+  const { data, error } = await supabase
+    .from('process_knowledge_base')
+    .select('id')
+    .neq('review_status', 'merged')
+    .ilike('extracted_insights->>title', title.replace(/[\\%_]/g, match => `\\${match}`))
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.id ?? null;
+}
+
+export async function storeKnowledgePatterns(
+  supabase: SupabaseClient,
+  patterns: ExtractedPattern[],
+  source: { sessionId: string; bpmnContext: unknown }
+): Promise<StoredPatterns> {
+  const result: StoredPatterns = { inserted: 0, merged: 0, alreadyRecorded: 0, failed: 0, embedding: null };
+  if (patterns.length === 0) return result;
+
+  try {
+    result.embedding = await embedTexts(
+      patterns.map(pattern => knowledgeEmbeddingText(pattern.knowledgeType, pattern.insights))
+    );
+  } catch (error) {
+    console.error('Failed to embed extracted patterns, deduplicating by title only:', error);
+  }
+  const embeddingModel = result.embedding?.model ?? null;
+  const embeddedAt = new Date().toISOString();
+
+  // One at a time, so a pattern can match one inserted earlier in the same batch
+  for (const [index, pattern] of patterns.entries()) {
+    const embedding = result.embedding?.embeddings[index];
+    try {
+      let duplicateId: string | null = null;
+      try {
+        duplicateId = embedding
+          ? await findDuplicateBySimilarity(supabase, embedding)
+          : await findDuplicateByTitle(supabase, pattern.insights);
+      } catch (error) {
+        console.error('Duplicate lookup failed, storing the pattern as new:', error);
+      }
+
+      if (duplicateId) {
+        const { data: recorded, error } = await supabase.rpc('record_knowledge_occurrence', {
+          p_knowledge_id: duplicateId,
+          p_session_id: source.sessionId,
+          p_confidence: pattern.confidence,
+        });
+        if (error) throw error;
+        if (recorded) result.merged++;
+        else result.alreadyRecorded++;
+        continue;
+      }
+
+      const { error } = await supabase
+        .from('process_knowledge_base')
+        .insert({
+          knowledge_type: pattern.knowledgeType,
+          bpmn_context: source.bpmnContext,
+          extracted_insights: pattern.insights,
+          confidence_score: pattern.confidence,
+          source_session_id: source.sessionId,
+          source_session_ids: [source.sessionId],
+          ...(embedding ? {
+            embedding: toVector(embedding),
+            embedding_model: embeddingModel,
+            embedded_at: embeddedAt,
+          } : {}),
+        });
+      if (error) throw error;
+      result.inserted++;
+    } catch (error) {
+      console.error('Failed to store knowledge pattern:', error);
+      result.failed++;
+    }
+  }
+
+  console.log(`🧩 Stored patterns: ${result.inserted} new, ${result.merged} merged into existing entries`);
+  return result;
+}
@@ -0,0 +1,138 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { embedTexts, usageLogFields, type LlmEmbeddingResponse } from './llm/index.ts';
+import { usageCostUsd } from './pricing.ts';
+
+// Similarity search over process_knowledge_base. Every entry gets an embedding of its
+// type, title, description and context; ai-chat embeds the question plus the diagram
+// context and asks public.match_process_knowledge for the closest entries. Only entries a
+// reviewer approved (and that have not expired) are returned.
+
+export interface KnowledgeEntry {
+  id: string;
+  knowledge_type: string;
+  extracted_insights: Record<string, unknown>;
+  confidence_score: number | null;
+  effectiveness_score: number | null;
+  similarity: number | null; // null when the entry came from the unranked fallback
+}
+
+interface KnowledgeRow {
+  id: string;
+  knowledge_type: string;
+  extracted_insights: unknown;
+}
+
+const MIN_CONFIDENCE = 0.7;
+const BACKFILL_BATCH_SIZE = 100;
+
+// pgvector reads vectors in their text form
+export const toVector = (embedding: number[]) => `[${embedding.join(',')}]`;
+
+export function knowledgeEmbeddingText(knowledgeType: string, insights: unknown): string {
+  const fields = (insights && typeof insights === 'object' ? insights : {}) as Record<string, unknown>;
+  return [knowledgeType.replace(/_/g, ' '), fields.title, fields.description, fields.context]
+    .filter(value => typeof value === 'string' && value.trim())
+    .join('\n');
+}
+
+// Embeds entries without an embedding: new extractions and rows stored before embeddings
+export async function embedMissingKnowledge(supabase: SupabaseClient): Promise<LlmEmbeddingResponse | null> {
+  const { data: rows, error } = await supabase
+    .from('process_knowledge_base')
+    .select('id, knowledge_type, extracted_insights')
+    .is('embedding', null)
+    .order('created_at', { ascending: false })
+    .limit(BACKFILL_BATCH_SIZE);
+
+  if (error) {
+    console.error('Error loading knowledge entries to embed:', error);
+    return null;
+  }
+  if (!rows || rows.length === 0) return null;
+
+  const response = await embedTexts(
+    (rows as KnowledgeRow[]).map(row => knowledgeEmbeddingText(row.knowledge_type, row.extracted_insights))
+  );
+  const embeddedAt = new Date().toISOString();
+
+  const updates = await Promise.all(rows.map((row, index) =>
+    supabase
+      .from('process_knowledge_base')
+      .update({
+        embedding: toVector(response.embeddings[index]),
+        embedding_model: response.model,
+        embedded_at: embeddedAt
+      })
+      .eq('id', row.id)
+  ));
+  const failed = updates.filter(update => update.error);
+  if (failed.length > 0) {
+    console.error(`Failed to store ${failed.length} knowledge embeddings:`, failed[0].error);
+  }
+
+  console.log(`🧭 Embedded ${rows.length - failed.length} knowledge entries`);
+  return response;
+}
+
+// The entries most similar to the query. Without embeddings (provider not configured or
+// not yet backfilled) it falls back to the most effective entries, as before.
+export async function findRelevantKnowledge(
+  supabase: SupabaseClient,
+  queryText: string,
+  count = 5
+): Promise<{ entries: KnowledgeEntry[]; embedding: LlmEmbeddingResponse | null }> {
+  let embedding: LlmEmbeddingResponse | null = null;
+
+  try {
+    embedding = await embedTexts([queryText]);
+    const { data, error } = await supabase.rpc('match_process_knowledge', {
+      p_query_embedding: toVector(embedding.embeddings[0]),
+      p_match_count: count,
+      p_min_confidence: MIN_CONFIDENCE,
+    });
+    if (error) throw error;
+    if (data && data.length > 0) {
+      return { entries: data as KnowledgeEntry[], embedding };
+    }
+  } catch (error) {
+    console.error('Knowledge similarity search failed, using top entries:', error);
+  }
+
+  const { data, error } = await supabase
+    .from('process_knowledge_base')
+    .select('id, knowledge_type, extracted_insights, confidence_score, effectiveness_score')
+    .eq('review_status', 'approved')
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .gte('confidence_score', MIN_CONFIDENCE)
+    .order('effectiveness_score', { ascending: false })
+    .limit(count);
+
+  if (error) {
+    console.error('Error loading knowledge entries:', error);
+    return { entries: [], embedding };
+  }
+  return { entries: (data || []).map(row => ({ ...row, similarity: null })) as KnowledgeEntry[], embedding };
+}
+
+export async function logEmbeddingUsage(
+  supabase: SupabaseClient,
+  response: LlmEmbeddingResponse,
+  log: { userId: string; sessionId?: string | null; bpmnFileId?: string | null; purpose: string; texts: number }
+) {
+  await supabase
+    .from('ai_usage_logs')
+    .insert({
+      user_id: log.userId,
+      operation_type: 'embedding',
+      ...usageLogFields(response),
+      cost_usd: await usageCostUsd(supabase, response),
+      session_id: log.sessionId ?? null,
+      bpmn_file_id: log.bpmnFileId ?? null,
+      metadata: {
+        purpose: log.purpose,
+        texts: log.texts,
+        provider: response.provider,
+        estimated_usage: response.usage.estimated
+      }
+    });
+}
@@ -0,0 +1,171 @@
+import {
+  cancelledResponse,
+  readErrorBody,
+  type LlmMessage,
+  type LlmOperationConfig,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmToolCall,
+  type LlmUsage,
+} from './provider.ts';
+import { readServerSentEvents } from './sse.ts';
+
+// Anthropic Messages API. System messages move to the `system` parameter, consecutive
+// messages of the same role are merged (the API expects alternating turns), and since
+// there is no JSON schema response format the schema is added to the system prompt.
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+function toAnthropicMessages(messages: LlmMessage[]) {
+  const turns: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+  for (const message of messages.filter(m => m.role !== 'system')) {
+    const previous = turns[turns.length - 1];
+    if (previous && previous.role === message.role) {
+      previous.content += `\n\n${message.content}`;
+    } else {
+      turns.push({ role: message.role as 'user' | 'assistant', content: message.content });
+    }
+  }
+  if (turns[0]?.role !== 'user') {
+    turns.unshift({ role: 'user', content: '(conversation start)' });
+  }
+  return turns;
+}
+
+async function send(request: LlmRequest, config: LlmOperationConfig, stream: boolean, signal?: AbortSignal) {
+  const apiKey = Deno.env.get('ANTHROPIC_API_KEY');
+  if (!apiKey) {
+    throw new Error('Anthropic is not configured');
+  }
+
+  const system = [
+    ...request.messages.filter(m => m.role === 'system').map(m => m.content),
+    ...(request.jsonSchema
+      ? [`Respond with a single JSON object and nothing else. It must match this JSON schema:\n${JSON.stringify(request.jsonSchema.schema)}`]
+      : []),
+  ].join('\n\n');
+
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: config.model,
+      system: system || undefined,
+      messages: toAnthropicMessages(request.messages),
+      temperature: config.temperature,
+      max_tokens: config.maxTokens,
+      ...(request.tools?.length && {
+        tools: request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters,
+        })),
+      }),
+      ...(stream && { stream: true }),
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    console.error('Anthropic API error:', await readErrorBody(response));
+    throw new Error(`Anthropic API error: ${response.status}`);
+  }
+  return response;
+}
+
+const toUsage = (promptTokens: number, completionTokens: number): LlmUsage => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens,
+  estimated: false,
+});
+
+export const anthropicProvider: LlmProvider = {
+  name: 'anthropic',
+  isConfigured: () => !!Deno.env.get('ANTHROPIC_API_KEY'),
+  complete: async (request, config) => {
+    const data = await (await send(request, config, false)).json();
+    if (!Array.isArray(data.content)) {
+      console.error('❌ Invalid Anthropic response structure:', data);
+      throw new Error('Invalid response structure from Anthropic');
+    }
+
+    return {
+      provider: 'anthropic',
+      model: data.model || config.model,
+      content: data.content
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join(''),
+      finishReason: data.stop_reason ?? null,
+      usage: toUsage(data.usage?.input_tokens || 0, data.usage?.output_tokens || 0),
+      toolCalls: data.content
+        .filter((block: { type: string }) => block.type === 'tool_use')
+        .map((block: { id: string; name: string; input: unknown }) => ({
+          id: block.id,
+          name: block.name,
+          arguments: JSON.stringify(block.input ?? {}),
+        })),
+    };
+  },
+  // Event types: message_start (model, input tokens), content_block_start (tool_use
+  // blocks), content_block_delta (text or tool input JSON), message_delta (stop reason,
+  // output tokens), error
+  stream: async (request, config, onDelta, signal) => {
+    let content = '';
+    let model = config.model;
+    let finishReason: string | null = null;
+    let promptTokens = 0;
+    let completionTokens = 0;
+    const toolCalls = new Map<number, LlmToolCall>();
+
+    try {
+      const response = await send(request, config, true, signal);
+      for await (const event of readServerSentEvents(response.body!)) {
+        const data = JSON.parse(event.data);
+        switch (data.type) {
+          case 'message_start':
+            model = data.message?.model || model;
+            promptTokens = data.message?.usage?.input_tokens || 0;
+            break;
+          case 'content_block_start':
+            if (data.content_block?.type === 'tool_use') {
+              toolCalls.set(data.index, { id: data.content_block.id, name: data.content_block.name, arguments: '' });
+            }
+            break;
+          case 'content_block_delta':
+            if (data.delta?.type === 'text_delta' && data.delta.text) {
+              content += data.delta.text;
+              onDelta(data.delta.text);
+            }
+            if (data.delta?.type === 'input_json_delta' && toolCalls.has(data.index)) {
+              toolCalls.get(data.index)!.arguments += data.delta.partial_json || '';
+            }
+            break;
+          case 'message_delta':
+            finishReason = data.delta?.stop_reason ?? finishReason;
+            completionTokens = data.usage?.output_tokens ?? completionTokens;
+            break;
+          case 'error':
+            throw new Error(`Anthropic stream error: ${data.error?.message || 'unknown error'}`);
+        }
+      }
+    } catch (error) {
+      if (!signal?.aborted) throw error;
+      return cancelledResponse('anthropic', model, request.messages, content);
+    }
+
+    return {
+      provider: 'anthropic',
+      model,
+      content,
+      finishReason,
+      usage: toUsage(promptTokens, completionTokens),
+      toolCalls: [...toolCalls.values()].map(call => ({ ...call, arguments: call.arguments || '{}' })),
+    };
+  },
+};
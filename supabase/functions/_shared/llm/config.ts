@@ -0,0 +1,62 @@
+import type { LlmOperation, LlmOperationConfig, LlmProviderName } from './provider.ts';
+
+// Model settings per operation type, read from environment variables. The most specific
+// setting wins:
+//
+//   LLM_CHAT_PROVIDER / LLM_CHAT_SUMMARY_PROVIDER / LLM_ANALYSIS_PROVIDER /
+//   LLM_KNOWLEDGE_EXTRACTION_PROVIDER / LLM_EMBEDDING_PROVIDER
+//   LLM_PROVIDER                                  (all operations, default: openai)
+//
+//   LLM_<OPERATION>_MODEL, LLM_<OPERATION>_TEMPERATURE, LLM_<OPERATION>_MAX_TOKENS
+//   LLM_MODEL                                     (all operations)
+//
+// Without a model setting the operation default is used for OpenAI and the provider
+// default otherwise. For Azure OpenAI the model is the deployment name. Embeddings only
+// read LLM_EMBEDDING_MODEL, since the shared settings name chat models.
+
+const PROVIDERS: LlmProviderName[] = ['openai', 'azure-openai', 'anthropic', 'openai-compatible', 'offline'];
+
+const OPERATION_DEFAULTS: Record<LlmOperation, Omit<LlmOperationConfig, 'provider'>> = {
+  chat: { model: 'gpt-4o-mini', temperature: 0.7, maxTokens: 1500 },
+  chat_summary: { model: 'gpt-4o-mini', temperature: 0.3, maxTokens: 600 },
+  analysis: { model: 'gpt-4o-mini', temperature: 0.7, maxTokens: 2000 },
+  knowledge_extraction: { model: 'gpt-4o-mini', temperature: 0.3, maxTokens: 2000 },
+  embedding: { model: 'text-embedding-3-small', temperature: 0, maxTokens: 0 },
+};
+
+const PROVIDER_DEFAULT_MODELS: Record<LlmProviderName, () => string | undefined> = {
+  'openai': () => undefined,
+  'azure-openai': () => Deno.env.get('AZURE_OPENAI_DEPLOYMENT'),
+  'anthropic': () => 'claude-3-5-haiku-latest',
+  'openai-compatible': () => 'llama3.1',
+  'offline': () => 'offline-stub',
+};
+
+const setting = (operation: LlmOperation, name: string) =>
+  Deno.env.get(`LLM_${operation.toUpperCase()}_${name}`) || Deno.env.get(`LLM_${name}`);
+
+const numberSetting = (operation: LlmOperation, name: string, fallback: number) => {
+  const raw = setting(operation, name);
+  const value = Number(raw);
+  return raw && Number.isFinite(value) ? value : fallback;
+};
+
+export function getOperationConfig(operation: LlmOperation): LlmOperationConfig {
+  const defaults = OPERATION_DEFAULTS[operation];
+  const configured = setting(operation, 'PROVIDER') as LlmProviderName | undefined;
+  if (configured && !PROVIDERS.includes(configured)) {
+    console.warn(`⚠️ Unknown LLM provider "${configured}" for ${operation}, using openai`);
+  }
+  const provider = configured && PROVIDERS.includes(configured) ? configured : 'openai';
+
+  const model = operation === 'embedding'
+    ? Deno.env.get('LLM_EMBEDDING_MODEL') || (provider === 'offline' ? 'offline-embedding' : defaults.model)
+    : setting(operation, 'MODEL') || PROVIDER_DEFAULT_MODELS[provider]() || defaults.model;
+
+  return {
+    provider,
+    model,
+    temperature: numberSetting(operation, 'TEMPERATURE', defaults.temperature),
+    maxTokens: numberSetting(operation, 'MAX_TOKENS', defaults.maxTokens),
+  };
+}
@@ -0,0 +1,59 @@
+import type {
+  LlmDeltaHandler,
+  LlmEmbeddingResponse,
+  LlmOperation,
+  LlmProvider,
+  LlmProviderName,
+  LlmRequest,
+  LlmResponse,
+} from './provider.ts';
+import { getOperationConfig } from './config.ts';
+import { azureOpenAIProvider, openAICompatibleProvider, openAIProvider } from './openai-compatible.ts';
+import { anthropicProvider } from './anthropic.ts';
+import { offlineProvider } from './offline.ts';
+
+export * from './provider.ts';
+export { getOperationConfig } from './config.ts';
+export { formatServerSentEvent, readServerSentEvents } from './sse.ts';
+
+export const LLM_PROVIDERS: Record<LlmProviderName, LlmProvider> = {
+  'openai': openAIProvider,
+  'azure-openai': azureOpenAIProvider,
+  'anthropic': anthropicProvider,
+  'openai-compatible': openAICompatibleProvider,
+  'offline': offlineProvider,
+};
+
+// Whether the provider configured for this operation has its credentials
+export const isLlmConfigured = (operation: LlmOperation) =>
+  LLM_PROVIDERS[getOperationConfig(operation).provider].isConfigured();
+
+// Run a completion with the provider and model settings configured for the operation
+export async function completeChat(operation: LlmOperation, request: LlmRequest): Promise<LlmResponse> {
+  const config = getOperationConfig(operation);
+  console.log(`🤖 ${operation} completion via ${config.provider} (${config.model})`);
+  return LLM_PROVIDERS[config.provider].complete(request, config);
+}
+
+// Streaming variant of completeChat; see LlmProvider.stream for cancellation
+export async function streamChat(
+  operation: LlmOperation,
+  request: LlmRequest,
+  onDelta: LlmDeltaHandler,
+  signal?: AbortSignal
+): Promise<LlmResponse> {
+  const config = getOperationConfig(operation);
+  console.log(`🤖 ${operation} streaming completion via ${config.provider} (${config.model})`);
+  return LLM_PROVIDERS[config.provider].stream(request, config, onDelta, signal);
+}
+
+// Embeddings for similarity search, from the provider configured for 'embedding'
+export async function embedTexts(texts: string[]): Promise<LlmEmbeddingResponse> {
+  const config = getOperationConfig('embedding');
+  const provider = LLM_PROVIDERS[config.provider];
+  if (!provider.embed) {
+    throw new Error(`${config.provider} has no embeddings API, set LLM_EMBEDDING_PROVIDER`);
+  }
+  console.log(`🧭 Embedding ${texts.length} texts via ${config.provider} (${config.model})`);
+  return provider.embed(texts, config);
+}
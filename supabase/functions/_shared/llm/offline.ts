@@ -0,0 +1,108 @@
+import {
+  EMBEDDING_DIMENSIONS,
+  cancelledResponse,
+  estimateTokens,
+  estimateUsage,
+  type LlmOperationConfig,
+  type LlmProvider,
+  type LlmRequest,
+} from './provider.ts';
+
+// Deterministic stand-in for local development and tests: no network, same input gives
+// the same output. Structured requests get the smallest value that satisfies the schema
+// (one item per array, first enum value, null where allowed). Tools are never called.
+// Embeddings hash the words of a text into buckets, so texts sharing words are similar.
+
+type JsonSchema = {
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+};
+
+function sampleFromSchema(schema: JsonSchema, key: string): unknown {
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.includes('null')) return null;
+
+  switch (types[0]) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([name, property]) => [name, sampleFromSchema(property, name)])
+      );
+    case 'array':
+      return schema.items ? [sampleFromSchema(schema.items, key)] : [];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return `Offline ${key}`;
+  }
+}
+
+function offlineContent(request: LlmRequest, config: LlmOperationConfig) {
+  const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+  return request.jsonSchema
+    ? JSON.stringify(sampleFromSchema(request.jsonSchema.schema as JsonSchema, request.jsonSchema.name))
+    : `Offline response (${config.model}) to: ${lastUserMessage.slice(0, 200)}`;
+}
+
+function offlineEmbedding(text: string) {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.codePointAt(0)!) >>> 0;
+    vector[hash % EMBEDDING_DIMENSIONS] += 1;
+  }
+  const length = Math.hypot(...vector) || 1;
+  return vector.map(value => value / length);
+}
+
+export const offlineProvider: LlmProvider = {
+  name: 'offline',
+  isConfigured: () => true,
+  complete: async (request, config) => {
+    const content = offlineContent(request, config);
+    return {
+      provider: 'offline',
+      model: config.model,
+      content,
+      finishReason: 'stop',
+      usage: estimateUsage(request.messages, content),
+      toolCalls: [],
+    };
+  },
+  // Streams the same answer word by word
+  stream: async (request, config, onDelta, signal) => {
+    let content = '';
+    for (const word of offlineContent(request, config).match(/\S+\s*/g) || []) {
+      if (signal?.aborted) {
+        return cancelledResponse('offline', config.model, request.messages, content);
+      }
+      content += word;
+      onDelta(word);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    return {
+      provider: 'offline',
+      model: config.model,
+      content,
+      finishReason: 'stop',
+      usage: estimateUsage(request.messages, content),
+      toolCalls: [],
+    };
+  },
+  embed: async (texts, config) => {
+    const promptTokens = texts.reduce((sum, text) => sum + estimateTokens(text), 0);
+    return {
+      provider: 'offline',
+      model: config.model,
+      embeddings: texts.map(offlineEmbedding),
+      usage: { promptTokens, completionTokens: 0, totalTokens: promptTokens, estimated: true },
+    };
+  },
+};
@@ -0,0 +1,234 @@
+import {
+  EMBEDDING_DIMENSIONS,
+  cancelledResponse,
+  estimateTokens,
+  estimateUsage,
+  readErrorBody,
+  type LlmOperationConfig,
+  type LlmProvider,
+  type LlmProviderName,
+  type LlmRequest,
+  type LlmToolCall,
+  type LlmUsage,
+} from './provider.ts';
+import { readServerSentEvents } from './sse.ts';
+
+// Adapters for APIs that speak the OpenAI chat completions and embeddings protocol: OpenAI
+// itself, Azure OpenAI (model = deployment name) and self-hosted servers such as Ollama or vLLM.
+
+type ApiPath = 'chat/completions' | 'embeddings';
+
+interface Endpoint {
+  url: string;
+  headers: Record<string, string>;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface OpenAIToolCall {
+  id: string;
+  function: { name: string; arguments?: string };
+}
+
+const toUsage = (usage: OpenAIUsage): LlmUsage => ({
+  promptTokens: usage.prompt_tokens || 0,
+  completionTokens: usage.completion_tokens || 0,
+  totalTokens: usage.total_tokens || 0,
+  estimated: false,
+});
+
+// streamUsage: the API accepts stream_options.include_usage (Azure's default API version
+// does not, so streamed Azure usage is estimated)
+function openAIChatProvider(
+  name: LlmProviderName,
+  label: string,
+  isConfigured: () => boolean,
+  endpointFor: (config: LlmOperationConfig, path: ApiPath) => Endpoint,
+  streamUsage = true
+): LlmProvider {
+  const send = async (request: LlmRequest, config: LlmOperationConfig, stream: boolean, signal?: AbortSignal) => {
+    if (!isConfigured()) {
+      throw new Error(`${label} is not configured`);
+    }
+
+    const { url, headers } = endpointFor(config, 'chat/completions');
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        messages: request.messages,
+        temperature: config.temperature,
+        max_tokens: config.maxTokens,
+        ...(request.jsonSchema && {
+          response_format: { type: 'json_schema', json_schema: request.jsonSchema }
+        }),
+        ...(request.tools?.length && {
+          tools: request.tools.map(tool => ({ type: 'function', function: tool })),
+          tool_choice: 'auto'
+        }),
+        ...(stream && { stream: true }),
+        ...(stream && streamUsage && { stream_options: { include_usage: true } }),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      console.error(`${label} API error:`, await readErrorBody(response));
+      throw new Error(`${label} API error: ${response.status}`);
+    }
+    return response;
+  };
+
+  return {
+    name,
+    isConfigured,
+    complete: async (request, config) => {
+      const data = await (await send(request, config, false)).json();
+      const choice = data.choices?.[0];
+      if (!choice?.message) {
+        console.error(`❌ Invalid ${label} response structure:`, data);
+        throw new Error(`Invalid response structure from ${label}`);
+      }
+
+      const content: string = choice.message.content || '';
+      return {
+        provider: name,
+        model: data.model || config.model,
+        content,
+        finishReason: choice.finish_reason ?? null,
+        usage: data.usage ? toUsage(data.usage) : estimateUsage(request.messages, content),
+        toolCalls: (choice.message.tool_calls || []).map((call: OpenAIToolCall) => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments || '{}',
+        })),
+      };
+    },
+    stream: async (request, config, onDelta, signal) => {
+      let content = '';
+      let model = config.model;
+      let finishReason: string | null = null;
+      let usage: LlmUsage | null = null;
+      // Tool call fragments arrive keyed by index: id and name first, then argument text
+      const toolCalls: LlmToolCall[] = [];
+
+      try {
+        const response = await send(request, config, true, signal);
+        for await (const event of readServerSentEvents(response.body!)) {
+          if (event.data === '[DONE]') break;
+
+          const chunk = JSON.parse(event.data);
+          if (chunk.model) model = chunk.model;
+          if (chunk.usage) usage = toUsage(chunk.usage);
+
+          const choice = chunk.choices?.[0];
+          const delta: string | undefined = choice?.delta?.content;
+          if (delta) {
+            content += delta;
+            onDelta(delta);
+          }
+          for (const part of choice?.delta?.tool_calls || []) {
+            const call = toolCalls[part.index] ??= { id: '', name: '', arguments: '' };
+            call.id = part.id || call.id;
+            call.name = part.function?.name || call.name;
+            call.arguments += part.function?.arguments || '';
+          }
+          if (choice?.finish_reason) finishReason = choice.finish_reason;
+        }
+      } catch (error) {
+        if (!signal?.aborted) throw error;
+        return cancelledResponse(name, model, request.messages, content);
+      }
+
+      return {
+        provider: name,
+        model,
+        content,
+        finishReason,
+        usage: usage ?? estimateUsage(request.messages, content),
+        toolCalls: toolCalls.filter(Boolean),
+      };
+    },
+    embed: async (texts, config) => {
+      if (!isConfigured()) {
+        throw new Error(`${label} is not configured`);
+      }
+
+      const { url, headers } = endpointFor(config, 'embeddings');
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: config.model,
+          input: texts,
+          // text-embedding-3 models can be shortened to the stored size
+          ...(config.model.startsWith('text-embedding-3') && { dimensions: EMBEDDING_DIMENSIONS }),
+        }),
+      });
+
+      if (!response.ok) {
+        console.error(`${label} embeddings API error:`, await readErrorBody(response));
+        throw new Error(`${label} embeddings API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const embeddings: number[][] = [...(data.data || [])]
+        .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+        .map((item: { embedding: number[] }) => item.embedding);
+      if (embeddings.length !== texts.length || embeddings.some(vector => vector.length !== EMBEDDING_DIMENSIONS)) {
+        throw new Error(`${label} model ${config.model} did not return ${EMBEDDING_DIMENSIONS}-dimension embeddings`);
+      }
+
+      const promptTokens = data.usage?.prompt_tokens ?? texts.reduce((sum, text) => sum + estimateTokens(text), 0);
+      return {
+        provider: name,
+        model: data.model || config.model,
+        embeddings,
+        usage: { promptTokens, completionTokens: 0, totalTokens: promptTokens, estimated: !data.usage },
+      };
+    },
+  };
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+export const openAIProvider = openAIChatProvider(
+  'openai',
+  'OpenAI',
+  () => !!Deno.env.get('OPENAI_API_KEY'),
+  (_config, path) => ({
+    url: `${trimSlash(Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1')}/${path}`,
+    headers: { 'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}` },
+  })
+);
+
+export const azureOpenAIProvider = openAIChatProvider(
+  'azure-openai',
+  'Azure OpenAI',
+  () => !!(Deno.env.get('AZURE_OPENAI_API_KEY') && Deno.env.get('AZURE_OPENAI_ENDPOINT')),
+  (config, path) => ({
+    url: `${trimSlash(Deno.env.get('AZURE_OPENAI_ENDPOINT')!)}/openai/deployments/${encodeURIComponent(config.model)}` +
+      `/${path}?api-version=${Deno.env.get('AZURE_OPENAI_API_VERSION') || '2024-08-01-preview'}`,
+    headers: { 'api-key': Deno.env.get('AZURE_OPENAI_API_KEY')! },
+  }),
+  false
+);
+
+// Defaults to a local Ollama server; the API key is optional
+export const openAICompatibleProvider = openAIChatProvider(
+  'openai-compatible',
+  'OpenAI-compatible endpoint',
+  () => true,
+  (_config, path) => {
+    const apiKey = Deno.env.get('OPENAI_COMPATIBLE_API_KEY');
+    return {
+      url: `${trimSlash(Deno.env.get('OPENAI_COMPATIBLE_BASE_URL') || 'http://localhost:11434/v1')}/${path}`,
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+    };
+  }
+);
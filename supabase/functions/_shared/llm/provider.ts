@@ -0,0 +1,139 @@
+// Provider-neutral chat completion contract. Edge functions build an LlmRequest, the
+// configured adapter translates it to its vendor API and reports usage in LlmUsage.
+
+export type LlmOperation = 'chat' | 'chat_summary' | 'analysis' | 'knowledge_extraction' | 'embedding';
+
+export type LlmProviderName = 'openai' | 'azure-openai' | 'anthropic' | 'openai-compatible' | 'offline';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Structured output: a JSON schema in OpenAI's `json_schema` response format shape
+export interface LlmJsonSchema {
+  name: string;
+  strict?: boolean;
+  schema: Record<string, unknown>;
+}
+
+export interface LlmOperationConfig {
+  provider: LlmProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+// A function the model may call; parameters is a JSON schema for the arguments
+export interface LlmTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON text as produced by the model, not yet validated
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  jsonSchema?: LlmJsonSchema;
+  tools?: LlmTool[];
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean; // the provider reported no usage, counts are estimated from text length
+}
+
+export interface LlmResponse {
+  provider: LlmProviderName;
+  model: string;
+  content: string;
+  finishReason: string | null;
+  usage: LlmUsage;
+  toolCalls: LlmToolCall[];
+}
+
+// Size of the vectors stored in process_knowledge_base.embedding
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface LlmEmbeddingResponse {
+  provider: LlmProviderName;
+  model: string;
+  embeddings: number[][]; // one vector per input text, in input order
+  usage: LlmUsage;
+}
+
+// Receives each text fragment of a streamed answer as it arrives
+export type LlmDeltaHandler = (delta: string) => void;
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  isConfigured: () => boolean;
+  complete: (request: LlmRequest, config: LlmOperationConfig) => Promise<LlmResponse>;
+  // Same result as complete, delivered incrementally. When the signal aborts, the answer so
+  // far is returned with finishReason 'cancelled' and estimated usage.
+  stream: (
+    request: LlmRequest,
+    config: LlmOperationConfig,
+    onDelta: LlmDeltaHandler,
+    signal?: AbortSignal
+  ) => Promise<LlmResponse>;
+  // Text embeddings of EMBEDDING_DIMENSIONS; absent when the vendor has no embeddings API
+  embed?: (texts: string[], config: LlmOperationConfig) => Promise<LlmEmbeddingResponse>;
+}
+
+// Same rough estimate the chat uses for stored messages
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export function estimateUsage(messages: LlmMessage[], content: string): LlmUsage {
+  const promptTokens = messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+  const completionTokens = estimateTokens(content);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+}
+
+export const addUsage = (a: LlmUsage, b: LlmUsage): LlmUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  completionTokens: a.completionTokens + b.completionTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+  estimated: a.estimated || b.estimated,
+});
+
+export const CANCELLED_FINISH_REASON = 'cancelled';
+
+export const cancelledResponse = (
+  provider: LlmProviderName,
+  model: string,
+  messages: LlmMessage[],
+  content: string
+): LlmResponse => ({
+  provider,
+  model,
+  content,
+  finishReason: CANCELLED_FINISH_REASON,
+  usage: estimateUsage(messages, content),
+  toolCalls: [],
+});
+
+// Columns of an ai_usage_logs row that describe the model call; cost_usd comes from the
+// pricing catalog (see ../pricing.ts)
+export const usageLogFields = (response: Pick<LlmResponse, 'provider' | 'model' | 'usage'>) => ({
+  model_used: response.model,
+  prompt_tokens: response.usage.promptTokens,
+  completion_tokens: response.usage.completionTokens,
+  total_tokens: response.usage.totalTokens,
+});
+
+// Reads an error body for the logs without failing on unreadable responses
+export async function readErrorBody(response: Response) {
+  try {
+    return await response.text();
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,53 @@
+// Server-sent events parser for the streaming provider APIs (and the chat stream itself)
+
+export interface ServerSentEvent {
+  event: string | null;
+  data: string;
+}
+
+function parseEvent(raw: string): ServerSentEvent | null {
+  let event: string | null = null;
+  const data: string[] = [];
+
+  for (const line of raw.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) continue;
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    if (field === 'data') data.push(value);
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const event = parseEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        if (event) yield event;
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+
+    const last = parseEvent(buffer);
+    if (last) yield last;
+  } finally {
+    // Also closes the connection when the consumer stops early
+    reader.cancel().catch(() => {});
+  }
+}
+
+// Encodes one event for a text/event-stream response
+export const formatServerSentEvent = (event: string, data: unknown) =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
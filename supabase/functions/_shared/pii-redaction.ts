@@ -0,0 +1,250 @@
+import type { LlmMessage, LlmToolCall } from './llm/index.ts';
+
+// Keeps personal data out of model calls. Text is redacted before it is sent: every
+// detected value becomes a placeholder such as [EMAIL_1], the same value always getting
+// the same placeholder within one redactor, so a model call sees a consistent picture.
+// Placeholders in the answer are restored to the original values before the answer is
+// stored or shown. The report lists what was redacted (kinds, counts and placeholders,
+// never the values) and is stored with the ai_usage_logs metadata.
+//
+// Detection is pattern based: emails, phone numbers, national and employee IDs, IBANs,
+// salary figures, and person names after a title ("Ms Jane Doe") or an explicit cue such as
+// "named John Smith" or "reports to Jane Doe". Role nouns ("employee", "candidate") are not
+// cues, as diagrams use them in task names ("Candidate Screening"). Names without a cue are
+// not detected.
+//
+//   PII_REDACTION   set to "off" to send text unredacted (e.g. a self-hosted model)
+
+export type PiiKind = 'email' | 'phone' | 'national_id' | 'employee_id' | 'iban' | 'salary' | 'person_name';
+
+export interface RedactionReport {
+  enabled: boolean;
+  redacted_values: number;
+  redacted_occurrences: number;
+  by_kind: Partial<Record<PiiKind, number>>;
+  by_source: Record<string, number>;
+  placeholders: { placeholder: string; kind: PiiKind; sources: string[] }[];
+  restored_occurrences: number;
+}
+
+interface Detector {
+  kind: PiiKind;
+  pattern: RegExp;
+  // Rejects matches that only look like PII
+  accept?: (match: string) => boolean;
+}
+
+const PLACEHOLDER_PREFIX: Record<PiiKind, string> = {
+  email: 'EMAIL',
+  phone: 'PHONE',
+  national_id: 'NATIONAL_ID',
+  employee_id: 'EMPLOYEE_ID',
+  iban: 'IBAN',
+  salary: 'SALARY',
+  person_name: 'NAME',
+};
+
+const PLACEHOLDER_PATTERN = /\[(EMAIL|PHONE|NATIONAL_ID|EMPLOYEE_ID|IBAN|SALARY|NAME)_(\d+)\]/g;
+const MAX_PLACEHOLDER_LENGTH = 24;
+
+// Capitalized words that follow name cues in process diagrams without being names; a match
+// containing any of them is an element name ("a task called Employee Resignation")
+const NOT_NAMES = new Set([
+  'Approval', 'Approve', 'Approved', 'Request', 'Review', 'Onboarding', 'Offboarding', 'Manager', 'Management',
+  'Record', 'Records', 'Data', 'Details', 'Profile', 'Information', 'Form', 'Forms', 'Task', 'Tasks', 'Process',
+  'Portal', 'Service', 'Services', 'Self', 'Master', 'Status', 'Experience', 'Line', 'Hiring', 'Department',
+  'Team', 'Head', 'Finance', 'Payroll', 'Legal', 'People', 'System', 'Leave', 'Benefits', 'Training',
+  'Performance', 'Documents', 'Document', 'Contract', 'Contracts', 'Account', 'Accounts', 'Access', 'Exit',
+  'Relations', 'Support', 'Number', 'Name', 'Names', 'Id', 'The', 'A', 'An', 'All', 'Each', 'Every', 'New',
+  'Employee', 'Employees', 'Candidate', 'Candidates', 'Applicant', 'Applicants', 'Hire', 'Worker', 'Contact',
+  'Screening', 'Resignation', 'Tracking', 'Handbook', 'Acknowledgement', 'Acknowledgment', 'Interview',
+  'Check', 'Verification', 'Assessment', 'Notification', 'Submission', 'Evaluation', 'Termination', 'Policy',
+]);
+
+const NAME = String.raw`[A-Z][a-z'’-]+(?:\s+[A-Z][a-z'’-]+){0,2}`;
+const NAME_CUES = [
+  'named', 'called', 'name is', 'name:', 'assigned to', 'approved by', 'reports to', 'managed by', 'signed by',
+];
+// Cues match in any case at the start of a sentence or mid-sentence; the name itself must be capitalized
+const cuePattern = NAME_CUES
+  .map(cue => `[${cue[0].toUpperCase()}${cue[0]}]${cue.slice(1).replace(/\s/g, String.raw`\s+`)}`)
+  .join('|');
+
+const countDigits = (text: string) => text.replace(/\D/g, '').length;
+
+const DETECTORS: Detector[] = [
+  { kind: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  { kind: 'iban', pattern: /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){3,7}(?:\s?[A-Z0-9]{1,3})?\b/g },
+  {
+    kind: 'national_id',
+    pattern: new RegExp([
+      String.raw`\b\d{3}-\d{2}-\d{4}\b`, // US SSN
+      String.raw`\b\d{4}[ -]\d{4}[ -]\d{4}\b`, // Aadhaar
+      String.raw`\b[A-Z]{5}\d{4}[A-Z]\b`, // Indian PAN
+      String.raw`\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]\b`, // UK NINO
+      String.raw`\b\d{8}-?[A-HJ-NP-TV-Z]\b`, // Spanish DNI
+    ].join('|'), 'g'),
+  },
+  {
+    kind: 'employee_id',
+    pattern: /(?<=\b(?:employee|emp|staff|personnel)\s?(?:id|no\.?|number|#)\s*[:#]?\s*)[A-Z0-9][A-Z0-9-]{3,}\b/gi,
+    accept: match => /\d/.test(match),
+  },
+  {
+    kind: 'phone',
+    pattern: /(?<![\w+])\+?\d[\d\s().-]{7,}\d(?!\w)/g,
+    accept: match => countDigits(match) >= 9 && countDigits(match) <= 15,
+  },
+  {
+    kind: 'salary',
+    pattern: new RegExp([
+      String.raw`(?:[$€£₹]|\b(?:USD|EUR|GBP|INR|Rs\.?))\s?\d(?:[\d,.]*\d)?(?:\s?(?:k|K|m|M|lakhs?|crores?)\b)?`,
+      String.raw`\b\d(?:[\d,.]*\d)?\s?(?:USD|EUR|GBP|INR)\b`,
+      String.raw`(?<=\b(?:salary|salaries|pay|compensation|wage|wages|bonus|CTC|income)\b[^\d\n]{0,25})\d[\d,.]{2,}\d(?:\s?(?:k|K)\b)?`,
+    ].join('|'), 'g'),
+    accept: match => countDigits(match) >= 3,
+  },
+  {
+    kind: 'person_name',
+    pattern: new RegExp(String.raw`(?<=\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\.?\s+|\b(?:${cuePattern})\s+)${NAME}`, 'g'),
+    accept: match => !match.split(/\s+/).some(word => NOT_NAMES.has(word)),
+  },
+];
+
+export const piiRedactionEnabled = () => Deno.env.get('PII_REDACTION')?.toLowerCase() !== 'off';
+
+export class PiiRedactor {
+  private readonly placeholders = new Map<string, { placeholder: string; kind: PiiKind; sources: Set<string> }>();
+  private readonly originals = new Map<string, string>();
+  private readonly counters: Partial<Record<PiiKind, number>> = {};
+  private readonly occurrencesBySource: Record<string, number> = {};
+  private restoredOccurrences = 0;
+
+  constructor(readonly enabled = piiRedactionEnabled()) {}
+
+  // source names where the text came from (user_message, history, diagram, ...) for the report
+  redact(text: string, source: string): string {
+    if (!this.enabled || !text) return text;
+
+    const redacted = DETECTORS.reduce((current, detector) =>
+      current.replace(detector.pattern, (match: string) => {
+        if (detector.accept && !detector.accept(match)) return match;
+        return this.replacement(match, detector.kind, source);
+      }), text);
+
+    // A name detected once (after a cue) is also redacted where it appears without one
+    const names = [...this.placeholders.entries()]
+      .filter(([, entry]) => entry.kind === 'person_name')
+      .map(([value]) => value)
+      .sort((a, b) => b.length - a.length);
+    if (names.length === 0) return redacted;
+
+    const knownNames = new RegExp(`\\b(?:${names.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})\\b`, 'g');
+    return redacted.replace(knownNames, (match: string) => this.replacement(match, 'person_name', source));
+  }
+
+  redactMessages(messages: LlmMessage[], sourceOf: (message: LlmMessage, index: number) => string): LlmMessage[] {
+    return messages.map((message, index) => ({ ...message, content: this.redact(message.content, sourceOf(message, index)) }));
+  }
+
+  // Redacts every string inside a JSON value, keeping its structure
+  redactValue<T>(value: T, source: string): T {
+    if (typeof value === 'string') return this.redact(value, source) as T;
+    if (Array.isArray(value)) return value.map(item => this.redactValue(item, source)) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redactValue(item, source)])
+      ) as T;
+    }
+    return value;
+  }
+
+  restore(text: string): string {
+    if (!this.enabled || !text) return text;
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder) => {
+      const original = this.originals.get(placeholder);
+      if (original === undefined) return placeholder;
+      this.restoredOccurrences++;
+      return original;
+    });
+  }
+
+  // Restores every string in a parsed JSON value
+  restoreValue<T>(value: T): T {
+    if (typeof value === 'string') return this.restore(value) as T;
+    if (Array.isArray(value)) return value.map(item => this.restoreValue(item)) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, this.restoreValue(item)])
+      ) as T;
+    }
+    return value;
+  }
+
+  // Tool call arguments are JSON text, so values are restored after parsing
+  restoreToolCalls(toolCalls: LlmToolCall[]): LlmToolCall[] {
+    return toolCalls.map(toolCall => {
+      try {
+        return { ...toolCall, arguments: JSON.stringify(this.restoreValue(JSON.parse(toolCall.arguments))) };
+      } catch {
+        return toolCall;
+      }
+    });
+  }
+
+  // Restores streamed text, holding back a placeholder split across chunks until it is complete
+  createStreamRestorer() {
+    let pending = '';
+    return {
+      push: (chunk: string) => {
+        pending += chunk;
+        const open = pending.lastIndexOf('[');
+        const held = open !== -1 && !pending.includes(']', open) && pending.length - open < MAX_PLACEHOLDER_LENGTH
+          ? pending.slice(open)
+          : '';
+        const ready = pending.slice(0, pending.length - held.length);
+        pending = held;
+        return this.restore(ready);
+      },
+      flush: () => {
+        const rest = pending;
+        pending = '';
+        return this.restore(rest);
+      },
+    };
+  }
+
+  report(): RedactionReport {
+    const entries = [...this.placeholders.values()];
+    const byKind: Partial<Record<PiiKind, number>> = {};
+    for (const entry of entries) byKind[entry.kind] = (byKind[entry.kind] || 0) + 1;
+
+    return {
+      enabled: this.enabled,
+      redacted_values: entries.length,
+      redacted_occurrences: Object.values(this.occurrencesBySource).reduce((sum, count) => sum + count, 0),
+      by_kind: byKind,
+      by_source: { ...this.occurrencesBySource },
+      placeholders: entries.map(entry => ({ placeholder: entry.placeholder, kind: entry.kind, sources: [...entry.sources] })),
+      restored_occurrences: this.restoredOccurrences,
+    };
+  }
+
+  private replacement(value: string, kind: PiiKind, source: string): string {
+    this.occurrencesBySource[source] = (this.occurrencesBySource[source] || 0) + 1;
+    return this.placeholderFor(value, kind, source);
+  }
+
+  private placeholderFor(value: string, kind: PiiKind, source: string): string {
+    let entry = this.placeholders.get(value);
+    if (!entry) {
+      const count = (this.counters[kind] || 0) + 1;
+      this.counters[kind] = count;
+      entry = { placeholder: `[${PLACEHOLDER_PREFIX[kind]}_${count}]`, kind, sources: new Set() };
+      this.placeholders.set(value, entry);
+      this.originals.set(entry.placeholder, value);
+    }
+    entry.sources.add(source);
+    return entry.placeholder;
+  }
+}
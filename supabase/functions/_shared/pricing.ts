@@ -0,0 +1,29 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import type { LlmResponse } from './llm/index.ts';
+
+// Cost of a model call from the ai_model_pricing catalog. The price lookup lives in the
+// database (public.ai_model_cost) so that recompute_ai_usage_costs re-prices logged usage
+// with exactly the same rules.
+
+export async function usageCostUsd(
+  supabase: SupabaseClient,
+  response: Pick<LlmResponse, 'model' | 'usage'>,
+  at: Date = new Date()
+): Promise<number | null> {
+  const { data, error } = await supabase.rpc('ai_model_cost', {
+    p_model: response.model,
+    p_prompt_tokens: response.usage.promptTokens,
+    p_completion_tokens: response.usage.completionTokens,
+    p_at: at.toISOString(),
+  });
+
+  if (error) {
+    console.error('Failed to price model usage:', error);
+    return null;
+  }
+  if (data === null) {
+    console.warn(`⚠️ No price for model ${response.model}, logging usage without cost`);
+    return null;
+  }
+  return Number(data);
+}
@@ -0,0 +1,101 @@
+import type { BpmnFlow, BpmnNode, BpmnProcessModel } from './bpmn-model.ts';
+import { orderProcessSteps } from './process-order.ts';
+import { PROCESS_ELEMENT_ID, type AnalysisFinding } from './rules/index.ts';
+
+// Compact text description of a diagram for the chat prompt: steps in reading order,
+// lanes, gateway branches with their conditions and the stored analysis findings. Every
+// line carries element IDs, so answers (and edit tool calls) can refer to real elements.
+
+const MAX_STEPS = 150;
+const MAX_FINDINGS = 30;
+
+const SEVERITY_ORDER: Record<string, number> = { Error: 0, Warning: 1, Info: 2 };
+
+const label = (node: { id: string; name: string }) => `"${node.name || node.id}"`;
+
+function describeSteps(model: BpmnProcessModel): string[] {
+  const steps = orderProcessSteps(model);
+  const lines = steps.slice(0, MAX_STEPS).map(step => {
+    const details = [
+      step.node.laneName && `lane "${step.node.laneName}"`,
+      step.branchLabel && `when "${step.branchLabel}"`,
+      step.loopBackTo && `loops back to step ${step.loopBackTo}`,
+      step.unreachable && 'not reachable from a start event',
+    ].filter(Boolean);
+    const indent = '  '.repeat(step.depth);
+    return `${indent}${step.label}. ${step.node.id} (${step.node.type}) ${label(step.node)}${
+      details.length > 0 ? ` [${details.join('; ')}]` : ''
+    }`;
+  });
+  if (steps.length > MAX_STEPS) {
+    lines.push(`... ${steps.length - MAX_STEPS} more steps not listed`);
+  }
+  return lines;
+}
+
+function describeLanes(model: BpmnProcessModel): string[] {
+  return model.lanes.map(lane => {
+    const members = lane.flowNodeIds
+      .map(id => model.nodes.get(id))
+      .filter((node): node is BpmnNode => !!node && node.category !== 'event');
+    return `- ${lane.id} ${label(lane)}: ${members.map(node => node.id).join(', ') || 'no activities'}`;
+  });
+}
+
+function describeGateways(model: BpmnProcessModel): string[] {
+  return [...model.nodes.values()]
+    .filter(node => node.category === 'gateway' && node.outgoing.length > 1)
+    .map(gateway => {
+      const branches = gateway.outgoing
+        .map(flowId => model.sequenceFlows.get(flowId))
+        .filter((flow): flow is BpmnFlow => !!flow)
+        .map(flow => {
+          const target = model.nodes.get(flow.targetRef);
+          const condition = flow.name || flow.condition || (flow.isDefault ? 'default'
+            : gateway.type === 'parallelGateway' ? 'in parallel' : 'no condition');
+          return `"${condition}"${flow.isDefault && condition !== 'default' ? ' (default)' : ''} → ${
+            target ? `${target.id} ${label(target)}` : flow.targetRef
+          }`;
+        });
+      return `- ${gateway.id} (${gateway.type}) ${label(gateway)}: ${branches.join('; ')}`;
+    });
+}
+
+function describeFindings(model: BpmnProcessModel, findings: AnalysisFinding[]): string[] {
+  const sorted = [...findings].sort(
+    (a, b) => (SEVERITY_ORDER[a.severity] ?? 3) - (SEVERITY_ORDER[b.severity] ?? 3)
+  );
+  const lines = sorted.slice(0, MAX_FINDINGS).map(finding => {
+    // The analysis may predate the latest edits
+    const stale = finding.elementId !== PROCESS_ELEMENT_ID && !model.nodes.has(finding.elementId) &&
+      !model.lanes.some(lane => lane.id === finding.elementId);
+    return `- ${finding.id} [${finding.severity}] ${finding.message} (element ${finding.elementId}${
+      finding.elementName ? ` "${finding.elementName}"` : ''
+    }${stale ? ', no longer in the diagram' : ''})`;
+  });
+  if (findings.length > MAX_FINDINGS) {
+    lines.push(`... ${findings.length - MAX_FINDINGS} more findings not listed`);
+  }
+  return lines;
+}
+
+export function describeProcessForChat(model: BpmnProcessModel, findings: AnalysisFinding[] | null): string {
+  const sections = [
+    `Process steps in reading order (step. ID (type) name [lane; branch condition]):\n${describeSteps(model).join('\n')}`,
+  ];
+
+  const lanes = describeLanes(model);
+  if (lanes.length > 0) sections.push(`Lanes (ID name: activities):\n${lanes.join('\n')}`);
+
+  const gateways = describeGateways(model);
+  if (gateways.length > 0) sections.push(`Gateway branches (condition → next element):\n${gateways.join('\n')}`);
+
+  if (findings) {
+    const findingLines = describeFindings(model, findings);
+    sections.push(findingLines.length > 0
+      ? `Analysis findings (ID [severity] message):\n${findingLines.join('\n')}`
+      : 'Analysis findings: none');
+  }
+
+  return sections.join('\n\n');
+}
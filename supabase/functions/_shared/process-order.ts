@@ -0,0 +1,201 @@
+import { type BpmnNode, type BpmnProcessModel, entryNodes, findBackEdges, successors } from './bpmn-model.ts';
+
+// Orders flow nodes by walking sequence flows from the start events, the way a reader
+// would follow the diagram. Branches after a split get hierarchical labels (4.1, 4.2,
+// or 4.1.1, 4.1.2 when a branch has several steps) and continue at the parent level
+// once they merge again.
+
+export interface OrderedStep {
+  order: number; // 1-based position in reading order
+  label: string; // hierarchical step label, e.g. '4.2.1'
+  depth: number; // 0 for the main path, +1 per enclosing branch or sub-process
+  node: BpmnNode;
+  branchLabel: string | null; // flow name/condition when the step opens a branch
+  loopBackTo: string | null; // label of an earlier step this one loops back to
+  unreachable: boolean;
+}
+
+const flowBetween = (model: BpmnProcessModel, sourceId: string, targetId: string) =>
+  [...model.sequenceFlows.values()].find(flow => flow.sourceRef === sourceId && flow.targetRef === targetId);
+
+const describeBranch = (model: BpmnProcessModel, sourceId: string, target: BpmnNode) => {
+  if (target.attachedToRef === sourceId) return `On ${target.name}`;
+  const flow = flowBetween(model, sourceId, target.id);
+  if (!flow) return null;
+  if (flow.name) return flow.name;
+  if (flow.condition) return flow.condition;
+  return flow.isDefault ? 'Default' : null;
+};
+
+export function orderProcessSteps(model: BpmnProcessModel): OrderedStep[] {
+  const steps: OrderedStep[] = [];
+  const labels = new Map<string, string>();
+  const arrivals = new Map<string, number>();
+  const branchPrefixes: string[] = [];
+  const loopTargets = new Map<OrderedStep, string[]>();
+
+  const backEdges = findBackEdges(model);
+
+  const forwardIncoming = (nodeId: string) =>
+    (model.nodes.get(nodeId)?.incoming || [])
+      .map(flowId => model.sequenceFlows.get(flowId)?.sourceRef)
+      .filter(sourceId => sourceId && model.nodes.has(sourceId) && !backEdges.has(`${sourceId}->${nodeId}`))
+      .length;
+
+  const isMerge = (nodeId: string) => forwardIncoming(nodeId) > 1;
+
+  const record = (node: BpmnNode, label: string, depth: number, branchLabel: string | null, unreachable = false) => {
+    labels.set(node.id, label);
+    steps.push({ order: steps.length + 1, label, depth, node, branchLabel, loopBackTo: null, unreachable });
+  };
+
+  // Walk one sequence. Returns merge nodes reached but not yet owned by this sequence.
+  const walkSequence = (
+    startId: string,
+    prefix: string,
+    firstIndex: number,
+    depth: number,
+    branchLabel: string | null
+  ): { nextIndex: number; pendingMerges: string[] } => {
+    let currentId: string | null = startId;
+    let index = firstIndex;
+    let pendingBranchLabel = branchLabel;
+    const pendingMerges: string[] = [];
+
+    while (currentId) {
+      const node = model.nodes.get(currentId);
+      if (!node || labels.has(currentId)) break;
+
+      const label = prefix ? `${prefix}.${index}` : `${index}`;
+      record(node, label, depth, pendingBranchLabel);
+      pendingBranchLabel = null;
+      index += 1;
+
+      // Sub-process contents, exception paths and branches share one numbering under this
+      // step, so 2.1 is never both a child of the sub-process and the start of a branch
+      let childIndex = 1;
+      if (node.category === 'subProcess') {
+        for (const entry of entryNodes(model, node.id)) {
+          const result = walkSequence(entry.id, label, childIndex, depth + 1, null);
+          childIndex = result.nextIndex;
+        }
+      }
+
+      // Targets already numbered without a back edge (a merge walked earlier) are not loops
+      const next = successors(model, node.id);
+      const loops = next.filter(id => backEdges.has(`${node.id}->${id}`));
+      if (loops.length > 0) loopTargets.set(steps[steps.length - 1], loops);
+      const unvisited = next.filter(id => !loops.includes(id) && !labels.has(id));
+
+      // Exception paths hang off their activity; the normal flow stays on this level
+      const boundaryIds = unvisited.filter(id => model.nodes.get(id)?.attachedToRef === node.id);
+      for (const boundaryId of boundaryIds) {
+        const branchPrefix = `${label}.${childIndex++}`;
+        branchPrefixes.push(branchPrefix);
+        const branch = walkSequence(boundaryId, branchPrefix, 1, depth + 1, describeBranch(model, node.id, model.nodes.get(boundaryId)!));
+        pendingMerges.push(...branch.pendingMerges);
+      }
+      const forward = unvisited.filter(id => !boundaryIds.includes(id));
+
+      if (forward.length === 0) {
+        currentId = null;
+        break;
+      }
+
+      if (forward.length === 1) {
+        const nextId = forward[0];
+        if (isMerge(nextId)) {
+          arrivals.set(nextId, (arrivals.get(nextId) || 0) + 1);
+          pendingMerges.push(nextId);
+          currentId = null;
+        } else {
+          currentId = nextId;
+        }
+        continue;
+      }
+
+      // Split: number each branch under this step, then continue with the merges it owns
+      const reachedMerges: string[] = [];
+      forward.forEach(nextId => {
+        const target = model.nodes.get(nextId)!;
+        const description = describeBranch(model, node.id, target);
+        if (isMerge(nextId)) {
+          arrivals.set(nextId, (arrivals.get(nextId) || 0) + 1);
+          reachedMerges.push(nextId);
+          return;
+        }
+        const branchPrefix = `${label}.${childIndex++}`;
+        branchPrefixes.push(branchPrefix);
+        const branch = walkSequence(nextId, branchPrefix, 1, depth + 1, description);
+        reachedMerges.push(...branch.pendingMerges);
+      });
+
+      const uniqueMerges = [...new Set(reachedMerges)].filter(id => !labels.has(id));
+      const owned = uniqueMerges.filter(id => (arrivals.get(id) || 0) >= forwardIncoming(id));
+      pendingMerges.push(...uniqueMerges.filter(id => !owned.includes(id)));
+
+      // Several independent merges continue one after another at this level
+      for (const mergeId of owned.slice(0, -1)) {
+        const result = walkSequence(mergeId, prefix, index, depth, null);
+        index = result.nextIndex;
+        pendingMerges.push(...result.pendingMerges);
+      }
+      currentId = owned.length > 0 ? owned[owned.length - 1] : null;
+    }
+
+    return { nextIndex: index, pendingMerges };
+  };
+
+  let topIndex = 1;
+  const leftoverMerges: string[] = [];
+  for (const entry of entryNodes(model, null)) {
+    const result = walkSequence(entry.id, '', topIndex, 0, null);
+    topIndex = result.nextIndex;
+    leftoverMerges.push(...result.pendingMerges);
+  }
+
+  // Merges whose other inputs were never reached (e.g. from unreachable branches)
+  for (const mergeId of leftoverMerges) {
+    if (labels.has(mergeId)) continue;
+    const result = walkSequence(mergeId, '', topIndex, 0, null);
+    topIndex = result.nextIndex;
+  }
+
+  // Anything not reachable from an entry point still gets a number, flagged for review.
+  // Top-level nodes go first so orphaned sub-process contents can nest under them.
+  const orphans = [...model.nodes.values()].sort((a, b) => Number(!!a.parentId) - Number(!!b.parentId));
+  for (const node of orphans) {
+    if (labels.has(node.id)) continue;
+    const parentLabel = node.parentId ? labels.get(node.parentId) : '';
+    if (parentLabel === undefined) continue;
+    const siblings = steps.filter(step => step.node.parentId === node.parentId && !step.label.slice(parentLabel.length + 1).includes('.'));
+    const firstIndex = node.parentId ? siblings.length + 1 : topIndex;
+    const before = steps.length;
+    const result = walkSequence(node.id, parentLabel || '', firstIndex, parentLabel ? parentLabel.split('.').length : 0, null);
+    if (!node.parentId) topIndex = result.nextIndex;
+    steps.slice(before).forEach(step => { step.unreachable = true; });
+  }
+
+  // A branch holding a single step takes the branch number itself (4.1.1 → 4.1).
+  // Deepest branches first so renames never invalidate a prefix still to be checked.
+  branchPrefixes.sort((a, b) => b.split('.').length - a.split('.').length);
+  for (const prefix of branchPrefixes) {
+    const direct = steps.filter(step =>
+      step.label.startsWith(`${prefix}.`) && !step.label.slice(prefix.length + 1).includes('.')
+    );
+    if (direct.length !== 1) continue;
+    const collapsed = direct[0].label;
+    for (const step of steps) {
+      if (step.label === collapsed || step.label.startsWith(`${collapsed}.`)) {
+        step.label = prefix + step.label.slice(collapsed.length);
+      }
+    }
+  }
+
+  const finalLabels = new Map(steps.map(step => [step.node.id, step.label]));
+  for (const [step, targetIds] of loopTargets) {
+    step.loopBackTo = targetIds.map(id => finalLabels.get(id)).filter(Boolean).join(', ') || null;
+  }
+
+  return steps;
+}
@@ -0,0 +1,163 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+
+// Assistant profiles (public.ai_prompt_profiles) the chat system prompt is built from. The
+// profile of a turn is the session's, else the BPMN file's, else the default profile.
+// Inactive profiles are skipped. Every prompt change is a new row in
+// ai_prompt_profile_versions, and messages record the version they were answered with.
+
+export const HR_SYSTEM_LABELS: Record<string, string> = {
+  successfactors: 'SAP SuccessFactors',
+  workday: 'Workday',
+  oracle_hcm: 'Oracle HCM Cloud',
+  bamboohr: 'BambooHR',
+};
+
+export interface PromptProfile {
+  id: string | null; // null for the built-in fallback
+  name: string;
+  domain_scope: string;
+  response_format: string;
+  target_hr_system: string | null;
+  guardrails: string;
+  strict_scope: boolean;
+  version: number;
+  versionId: string | null;
+  source: 'session' | 'file' | 'default' | 'builtin';
+}
+
+const PROFILE_COLUMNS = 'id, name, domain_scope, response_format, target_hr_system, guardrails, strict_scope, version, is_active';
+
+// Used when no profile is stored (e.g. before the migration seeded the default)
+const BUILTIN_PROFILE: PromptProfile = {
+  id: null,
+  name: 'HRIS Process Expert',
+  domain_scope: 'HR processes: employee lifecycle, payroll, benefits, recruitment, performance management, HR compliance and HR systems.',
+  response_format: `**🔍 Process Analysis**: [Analyze the specific HR process]
+**⚡ Optimization Opportunities**: [Identify specific bottlenecks or improvements]
+**⚠️ Compliance Considerations**: [HR compliance and risk factors]
+**🚀 Implementation Steps**: [Practical next steps for HR teams]
+**💼 Business Impact**: [ROI and efficiency gains for HR operations]`,
+  target_hr_system: null,
+  guardrails: '- ONLY discuss HR processes; decline questions about stocks, financial markets or investments',
+  strict_scope: true,
+  version: 0,
+  versionId: null,
+  source: 'builtin',
+};
+
+async function loadActiveProfile(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase
+    .from('ai_prompt_profiles')
+    .select(PROFILE_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+  if (error) console.error('Error loading prompt profile:', error);
+  return data?.is_active ? data : null;
+}
+
+export async function resolvePromptProfile(
+  supabase: SupabaseClient,
+  choice: { sessionProfileId?: string | null; bpmnFileId?: string | null; userId: string }
+): Promise<PromptProfile> {
+  let profile = null;
+  let source: PromptProfile['source'] = 'session';
+
+  if (choice.sessionProfileId) {
+    profile = await loadActiveProfile(supabase, choice.sessionProfileId);
+  }
+
+  if (!profile && choice.bpmnFileId) {
+    source = 'file';
+    const { data: file } = await supabase
+      .from('bpmn_files')
+      .select('prompt_profile_id')
+      .eq('id', choice.bpmnFileId)
+      .eq('user_id', choice.userId)
+      .maybeSingle();
+    if (file?.prompt_profile_id) {
+      profile = await loadActiveProfile(supabase, file.prompt_profile_id);
+    }
+  }
+
+  if (!profile) {
+    source = 'default';
+    const { data, error } = await supabase
+      .from('ai_prompt_profiles')
+      .select(PROFILE_COLUMNS)
+      .eq('is_default', true)
+      .eq('is_active', true)
+      .maybeSingle();
+    if (error) console.error('Error loading the default prompt profile:', error);
+    profile = data;
+  }
+
+  if (!profile) return BUILTIN_PROFILE;
+
+  const { data: version, error: versionError } = await supabase
+    .from('ai_prompt_profile_versions')
+    .select('id')
+    .eq('profile_id', profile.id)
+    .eq('version', profile.version)
+    .maybeSingle();
+  if (versionError) console.error('Error loading the prompt profile version:', versionError);
+
+  return {
+    id: profile.id,
+    name: profile.name,
+    domain_scope: profile.domain_scope,
+    response_format: profile.response_format,
+    target_hr_system: profile.target_hr_system,
+    guardrails: profile.guardrails,
+    strict_scope: profile.strict_scope,
+    version: profile.version,
+    versionId: version?.id ?? null,
+    source,
+  };
+}
+
+// context is the diagram and knowledge base text appended after the instructions
+export function buildSystemPrompt(profile: PromptProfile, context: string): string {
+  const system = profile.target_hr_system && (HR_SYSTEM_LABELS[profile.target_hr_system] || profile.target_hr_system);
+  const sections = [
+    `🎯 **ROLE**: You are the "${profile.name}" assistant, an expert analyzing BPMN processes within this scope:
+${profile.domain_scope}`,
+    system && `🏢 **TARGET HR SYSTEM**: The organization runs ${system}. Relate configuration, integration and best-practice advice to ${system}.`,
+    profile.guardrails.trim() && `🚫 **GUARDRAILS**:
+${profile.guardrails.trim()}`,
+    `🎯 **RESPONSE FORMAT**:
+${profile.response_format}`,
+  ].filter(Boolean);
+
+  return `${sections.join('\n\n')}\n${context}`;
+}
+
+// Replaces answers that leave the scope of a strict-scope profile (translated per locale)
+export const HRIS_REDIRECT_MESSAGE = `🎯 **HRIS Process Analysis**
+
+I notice you're asking about process optimization. As your HRIS expert, let me focus on the HR aspects:
+
+**🔍 Process Analysis**: Based on your BPMN process analysis, I can help optimize employee workflows, approval chains, and compliance procedures.
+
+**⚡ Key HRIS Optimization Areas**:
+- Employee onboarding automation
+- Performance review workflows
+- Leave approval processes
+- Payroll verification steps
+- Compliance audit trails
+
+**🚀 Next Steps**:
+1. Review your current HR process flows
+2. Identify manual approval bottlenecks
+3. Implement automated notifications
+4. Ensure GDPR compliance throughout
+
+Would you like me to analyze any specific HR process workflow or help optimize employee management procedures?`;
+
+// For the usage log and message metadata
+export const promptProfileLog = (profile: PromptProfile) => ({
+  id: profile.id,
+  name: profile.name,
+  version: profile.version,
+  version_id: profile.versionId,
+  source: profile.source,
+});
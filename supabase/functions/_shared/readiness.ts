@@ -0,0 +1,124 @@
+import { type BpmnFlow, type BpmnProcessModel, boundaryEventsOf, nodesOfType } from './bpmn-model.ts';
+import type { Translate } from './i18n/index.ts';
+
+// Deterministic implementation readiness (0-10) computed from the parsed diagram.
+//
+// Each factor measures the share of relevant elements that are ready for a workflow
+// engine and carries a weight. Factors without any relevant elements (e.g. no service
+// tasks) are not applicable and their weight is spread over the others, so the score is
+// always out of 10. A factor's contribution is weight share × ratio × 10. Names and
+// details are in the user's language (t); ids stay stable.
+
+export interface ReadinessFactor {
+  id: string;
+  name: string;
+  weight: number;
+  applicable: boolean;
+  ready: number; // elements that satisfy the factor
+  total: number; // elements the factor applies to
+  ratio: number; // ready / total, 0-1
+  contribution: number; // points out of 10
+  maxContribution: number; // points available to this factor
+  detail: string;
+}
+
+export interface ReadinessReport {
+  score: number;
+  factors: ReadinessFactor[];
+}
+
+const HUMAN_TASKS = ['userTask', 'manualTask', 'task'];
+const AUTOMATED_TASKS = ['serviceTask', 'sendTask', 'businessRuleTask', 'scriptTask'];
+const DECISION_GATEWAYS = ['exclusiveGateway', 'inclusiveGateway'];
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// At least two words ("Approve request") and not just the element ID
+const isDescriptiveName = (name: string, id: string) =>
+  name.trim() !== id && name.trim().split(/\s+/).length >= 2;
+
+export function computeImplementationReadiness(model: BpmnProcessModel, t: Translate): ReadinessReport {
+  const humanTasks = nodesOfType(model, ...HUMAN_TASKS);
+  const automatedTasks = nodesOfType(model, ...AUTOMATED_TASKS);
+  const decisionFlows = nodesOfType(model, ...DECISION_GATEWAYS)
+    .filter(gateway => gateway.outgoing.length > 1)
+    .flatMap(gateway => gateway.outgoing.map(flowId => model.sequenceFlows.get(flowId)))
+    .filter((flow): flow is BpmnFlow => flow !== undefined);
+  const riskyActivities = [...automatedTasks, ...nodesOfType(model, 'callActivity', 'subProcess')];
+  const namedElements = [...model.nodes.values()].filter(node => node.category !== 'event');
+
+  const count = <T>(items: T[], isReady: (item: T) => boolean) => ({
+    ready: items.filter(isReady).length,
+    total: items.length,
+  });
+
+  const measures = [
+    {
+      id: 'task-ownership',
+      name: t('Task ownership'),
+      weight: 2.5,
+      ...count(humanTasks, node => !!(node.assignee || node.laneId)),
+      describe: (ready: number, total: number) => t('{ready} of {total} human tasks have an assignee or lane', { ready, total }),
+    },
+    {
+      id: 'service-implementation',
+      name: t('Service implementation'),
+      weight: 2,
+      ...count(automatedTasks, node => !!node.implementation),
+      describe: (ready: number, total: number) => t('{ready} of {total} automated tasks specify an implementation', { ready, total }),
+    },
+    {
+      id: 'gateway-conditions',
+      name: t('Documented gateway conditions'),
+      weight: 2,
+      ...count(decisionFlows, flow => !!(flow.condition || flow.isDefault || flow.name.trim())),
+      describe: (ready: number, total: number) => t('{ready} of {total} decision paths have a condition, label or default', { ready, total }),
+    },
+    {
+      id: 'exception-handling',
+      name: t('Error and boundary event coverage'),
+      weight: 1.5,
+      ...count(riskyActivities, node => boundaryEventsOf(model, node.id).length > 0),
+      describe: (ready: number, total: number) =>
+        t('{ready} of {total} automated tasks and sub-processes have a boundary event', { ready, total }),
+    },
+    {
+      id: 'naming-quality',
+      name: t('Naming quality'),
+      weight: 2,
+      ...count(namedElements, node =>
+        node.category === 'gateway' ? node.hasName : node.hasName && isDescriptiveName(node.name, node.id)
+      ),
+      describe: (ready: number, total: number) =>
+        t('{ready} of {total} activities and gateways have descriptive names', { ready, total }),
+    },
+  ];
+
+  const applicableWeight = measures
+    .filter(measure => measure.total > 0)
+    .reduce((sum, measure) => sum + measure.weight, 0);
+
+  const factors: ReadinessFactor[] = measures.map(({ describe, ...measure }) => {
+    const { ready, total } = measure;
+    const applicable = total > 0;
+    const maxContribution = applicable && applicableWeight > 0 ? (measure.weight / applicableWeight) * 10 : 0;
+    const ratio = applicable ? ready / total : 0;
+    return {
+      id: measure.id,
+      name: measure.name,
+      weight: measure.weight,
+      applicable,
+      ready,
+      total,
+      ratio: round(ratio, 2),
+      contribution: round(maxContribution * ratio, 2),
+      maxContribution: round(maxContribution, 2),
+      detail: applicable ? describe(ready, total) : t('Not applicable: no matching elements'),
+    };
+  });
+
+  return {
+    score: round(factors.reduce((sum, factor) => sum + factor.contribution, 0)),
+    factors,
+  };
+}
@@ -0,0 +1,52 @@
+import { nodesOfType } from '../bpmn-model.ts';
+import { PROCESS_ELEMENT_ID, type RulePack } from './engine.ts';
+
+// How much of the process could run on an HRIS workflow engine as modeled
+
+export const automationReadinessPack: RulePack = {
+  id: 'automation-readiness',
+  name: 'Automation readiness',
+  description: 'Gaps that block deploying the process to a workflow engine.',
+  enabledByDefault: true,
+  rules: [
+    {
+      id: 'automation-opportunity',
+      name: 'Automation Opportunity',
+      severity: 'Info',
+      category: 'automation',
+      description: 'Consider automating repetitive tasks',
+      check: ({ model, t }) =>
+        nodesOfType(model, 'userTask').length > nodesOfType(model, 'serviceTask').length * 2
+          ? [{ elementId: PROCESS_ELEMENT_ID, elementName: t('Process'), message: t('Process is heavily manual') }]
+          : [],
+    },
+    {
+      id: 'service-task-without-implementation',
+      name: 'Missing Implementation',
+      severity: 'Warning',
+      category: 'automation',
+      description: 'A workflow engine cannot execute this task. Configure the connector, class, expression or external topic that performs it.',
+      check: ({ model, t }) => nodesOfType(model, 'serviceTask', 'sendTask', 'businessRuleTask', 'scriptTask')
+        .filter(node => !node.implementation)
+        .map(node => ({
+          elementId: node.id,
+          elementName: node.name,
+          message: t('"{name}" has no implementation configured', { name: node.name }),
+        })),
+    },
+    {
+      id: 'user-task-without-assignee',
+      name: 'Missing Assignee',
+      severity: 'Info',
+      category: 'automation',
+      description: 'The task is only assigned through its lane. Set an assignee or candidate group so the engine can route the work item.',
+      check: ({ model, t }) => nodesOfType(model, 'userTask')
+        .filter(node => !node.assignee)
+        .map(node => ({
+          elementId: node.id,
+          elementName: node.name,
+          message: t('"{name}" has no assignee or candidate group', { name: node.name }),
+        })),
+    },
+  ],
+};
@@ -0,0 +1,142 @@
+import type { BpmnProcessModel } from '../bpmn-model.ts';
+import type { ComplexityReport } from '../complexity-metrics.ts';
+import type { Translate } from '../i18n/index.ts';
+
+// Declarative rule registry for BPMN analysis. Rules are grouped into packs that users
+// can switch on and off; individual findings can be suppressed per file with a reason.
+// Names, descriptions and messages are written in English and translated with the
+// catalogs in ../i18n (the English text is the catalog key).
+
+export type FindingSeverity = 'Error' | 'Warning' | 'Info';
+
+export type RuleCategory = 'structure' | 'style' | 'complexity' | 'compliance' | 'automation';
+
+export interface RuleContext {
+  model: BpmnProcessModel;
+  complexity: ComplexityReport;
+  t: Translate; // formats a finding message in the user's language
+}
+
+// What a rule's check reports; the engine adds the rule's metadata
+export interface RuleIssue {
+  elementId: string; // flow node ID, or 'process' for process-level issues
+  elementName: string;
+  message: string;
+  description?: string; // overrides the rule description when more specific
+  relatedElementIds?: string[];
+}
+
+export interface AnalysisRule {
+  id: string;
+  name: string;
+  severity: FindingSeverity;
+  category: RuleCategory;
+  description: string;
+  check: (context: RuleContext) => RuleIssue[];
+}
+
+export interface RulePack {
+  id: string;
+  name: string;
+  description: string;
+  enabledByDefault: boolean;
+  rules: AnalysisRule[];
+}
+
+export interface AnalysisFinding {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  packId: string;
+  category: RuleCategory;
+  severity: FindingSeverity;
+  message: string;
+  description: string;
+  elementId: string;
+  elementName: string;
+  relatedElementIds: string[];
+}
+
+export interface FindingSuppression {
+  id: string;
+  ruleId: string;
+  elementId: string;
+  justification: string;
+}
+
+export interface SuppressedFinding extends AnalysisFinding {
+  suppression: FindingSuppression;
+}
+
+export interface RuleSettings {
+  packOverrides: Record<string, boolean>; // pack ID → enabled, when the user changed the default
+  suppressions: FindingSuppression[];
+}
+
+export const PROCESS_ELEMENT_ID = 'process';
+
+export const isPackEnabled = (pack: RulePack, settings: RuleSettings) =>
+  settings.packOverrides[pack.id] ?? pack.enabledByDefault;
+
+// Run every rule of the enabled packs and split the results into active and suppressed findings
+export function runRulePacks(packs: RulePack[], context: RuleContext, settings: RuleSettings) {
+  const findings: AnalysisFinding[] = [];
+  const suppressedFindings: SuppressedFinding[] = [];
+  const usedIds = new Set<string>();
+
+  for (const pack of packs.filter(pack => isPackEnabled(pack, settings))) {
+    for (const rule of pack.rules) {
+      let issues: RuleIssue[];
+      try {
+        issues = rule.check(context);
+      } catch (error) {
+        console.error(`Rule ${rule.id} failed:`, error);
+        continue;
+      }
+
+      for (const issue of issues) {
+        let id = `${rule.id}_${issue.elementId}`;
+        for (let n = 2; usedIds.has(id); n += 1) id = `${rule.id}_${issue.elementId}_${n}`;
+        usedIds.add(id);
+
+        const finding: AnalysisFinding = {
+          id,
+          ruleId: rule.id,
+          ruleName: context.t(rule.name),
+          packId: pack.id,
+          category: rule.category,
+          severity: rule.severity,
+          message: issue.message,
+          description: context.t(issue.description || rule.description),
+          elementId: issue.elementId,
+          elementName: issue.elementName,
+          relatedElementIds: issue.relatedElementIds || [],
+        };
+
+        const suppression = settings.suppressions.find(s =>
+          s.ruleId === rule.id && s.elementId === issue.elementId
+        );
+        if (suppression) suppressedFindings.push({ ...finding, suppression });
+        else findings.push(finding);
+      }
+    }
+  }
+
+  return { findings, suppressedFindings };
+}
+
+// Pack catalogue as returned to the client, so settings UIs don't need their own copy
+export const describeRulePacks = (packs: RulePack[], settings: RuleSettings, t: Translate = text => text) =>
+  packs.map(pack => ({
+    id: pack.id,
+    name: t(pack.name),
+    description: t(pack.description),
+    enabled: isPackEnabled(pack, settings),
+    rules: pack.rules.map(rule => ({
+      id: rule.id,
+      name: t(rule.name),
+      severity: rule.severity,
+      category: rule.category,
+      description: t(rule.description),
+    })),
+  }));
@@ -0,0 +1,197 @@
+import { type BpmnNode, type BpmnProcessModel, predecessors, upstreamNodes } from '../bpmn-model.ts';
+import type { Translate } from '../i18n/index.ts';
+import { PROCESS_ELEMENT_ID, type RuleIssue, type RulePack } from './engine.ts';
+
+// Responsibilities and controls expected in HR processes. Steps are recognized by
+// keywords in element names (and documentation), so findings cite the matched lanes and
+// element IDs for the reviewer to confirm.
+
+const COMPENSATION_OR_HIRING = /salary|compensation|pay ?rise|raise|increment|bonus|incentive|hir(e|ing)|offer|requisition|recruit|headcount|new position/i;
+const REQUEST_STEP = /request|submit|initiat|propos|nominat|raise|create|draft/i;
+const APPROVAL_STEP = /approv|authori[sz]|sign[- ]?off|review|endorse|sanction/i;
+const APPROVAL_OUTCOME = /approv|reject|authori[sz]|sign[- ]?off|accept|declin|grant|deny/i;
+const SENSITIVE_PAY_TASK = /payroll|salary|compensation|terminat|dismiss|severance|final settlement|full and final/i;
+const HUMAN_TASK_TYPES = ['userTask', 'manualTask', 'task'];
+
+const OFFBOARDING = /offboard|terminat|resign|separation|leaver|exit (process|interview|formalit)|relieving/i;
+const ACCESS_REVOCATION = /revok|deactivat|disabl|deprovision|remove (system |it )?access|access removal|(collect|return).*(laptop|badge|asset)|block account/i;
+const DATA_RETENTION = /retention|retain|archiv|purg|delet.*(data|record)|anonymi[sz]|records? management/i;
+
+const PERSONAL_DATA = /personal (data|information|details)|\bpii\b|date of birth|home address|passport|national id|aadhaa?r|\bpan\b|social security|\bssn\b|bank (details|account)|medical|health|background (check|verification)|employee (data|record|profile)|candidate (data|profile)|resume|\bcv\b|biometric/i;
+const CONSENT_STEP = /consent|privacy (notice|policy|statement)|data protection (notice|declaration)|gdpr|dpdp|acknowledg.*privacy/i;
+
+const ACTIVITY_CATEGORIES = ['task', 'subProcess', 'callActivity'];
+
+const nodeText = (node: BpmnNode) => `${node.hasName ? node.name : ''} ${node.documentation}`;
+const elementRef = (node: BpmnNode) => `"${node.name}" (${node.id})`;
+const laneRef = (node: BpmnNode, t: Translate) =>
+  node.laneId ? t('lane "{name}" ({id})', { name: node.laneName || '', id: node.laneId }) : t('no lane');
+
+const activitiesOf = (model: BpmnProcessModel, processId: string) =>
+  [...model.nodes.values()].filter(node => node.processId === processId && ACTIVITY_CATEGORIES.includes(node.category));
+
+const lanesOf = (model: BpmnProcessModel, processId: string, t: Translate) => {
+  const lanes = model.lanes.filter(lane => lane.processId === processId);
+  return lanes.length > 0 ? lanes.map(lane => `"${lane.name}" (${lane.id})`).join(', ') : t('none');
+};
+
+// An approval decision: a gateway whose name or outgoing flows read like an approval
+// outcome, or any gateway directly after an approval task
+const isApprovalGateway = (model: BpmnProcessModel, node: BpmnNode) => {
+  if (node.category !== 'gateway') return false;
+  if (APPROVAL_OUTCOME.test(node.name) || APPROVAL_STEP.test(node.name)) return true;
+  const flowLabels = node.outgoing.map(flowId => model.sequenceFlows.get(flowId)?.name || '');
+  if (flowLabels.some(label => APPROVAL_OUTCOME.test(label))) return true;
+  return predecessors(model, node.id)
+    .map(id => model.nodes.get(id)!)
+    .some(previous => previous.category === 'task' && APPROVAL_STEP.test(previous.name));
+};
+
+// A process-level control is missing: report it against the process and cite its lanes
+// and the steps that made the rule apply
+const missingControl = (
+  model: BpmnProcessModel,
+  processId: string,
+  triggers: BpmnNode[],
+  message: string,
+  t: Translate
+): RuleIssue => {
+  const process = model.processes.find(p => p.id === processId);
+  const triggeredBy = triggers.length > 0
+    ? triggers.slice(0, 3).map(elementRef).join(', ')
+    : t('the process name "{name}"', { name: process?.name || '' });
+  return {
+    elementId: processId || PROCESS_ELEMENT_ID,
+    elementName: process?.name || t('Process'),
+    message: t('{message}. Triggered by {triggers}; lanes: {lanes}', {
+      message,
+      triggers: triggeredBy,
+      lanes: lanesOf(model, processId, t),
+    }),
+    relatedElementIds: triggers.map(node => node.id),
+  };
+};
+
+export const hrCompliancePack: RulePack = {
+  id: 'hr-compliance',
+  name: 'HR compliance',
+  description: 'Clear ownership of HR steps and the controls auditors look for.',
+  enabledByDefault: true,
+  rules: [
+    {
+      id: 'lane-definition',
+      name: 'Role Definition',
+      severity: 'Error',
+      category: 'compliance',
+      description: 'Add swimlanes to clearly define responsibilities',
+      check: ({ model, t }) => model.lanes.length === 0
+        ? [{ elementId: PROCESS_ELEMENT_ID, elementName: t('Process'), message: t('No roles or lanes defined') }]
+        : [],
+    },
+    {
+      id: 'segregation-of-duties',
+      name: 'Segregation of Duties',
+      severity: 'Error',
+      category: 'compliance',
+      description: 'The same role both requests and approves a compensation or hiring change, so nobody independent checks it. Move the approval to a different lane (e.g. the manager\'s manager or HR).',
+      check: ({ model, t }) => [...model.nodes.values()]
+        .filter(node => node.category === 'task' && node.laneId && APPROVAL_STEP.test(node.name))
+        .flatMap(approval => {
+          const requests = upstreamNodes(model, approval.id).filter(node =>
+            node.category === 'task' &&
+            node.laneId === approval.laneId &&
+            REQUEST_STEP.test(node.name) &&
+            !APPROVAL_STEP.test(node.name) &&
+            (COMPENSATION_OR_HIRING.test(node.name) || COMPENSATION_OR_HIRING.test(approval.name))
+          );
+          if (requests.length === 0) return [];
+          return [{
+            elementId: approval.id,
+            elementName: approval.name,
+            message: t('{lane} both requests ({requests}) and approves ({approval})', {
+              lane: laneRef(approval, t),
+              requests: requests.map(elementRef).join(', '),
+              approval: elementRef(approval),
+            }),
+            relatedElementIds: [...requests.map(node => node.id), approval.laneId!],
+          }];
+        }),
+    },
+    {
+      id: 'sensitive-task-approval',
+      name: 'Missing Approval Gate',
+      severity: 'Error',
+      category: 'compliance',
+      description: 'Payroll, salary and termination changes should only run after an explicit approval decision. Add an approval task and a gateway that routes rejected requests away from this step.',
+      check: ({ model, t }) => [...model.nodes.values()]
+        .filter(node =>
+          HUMAN_TASK_TYPES.includes(node.type) &&
+          SENSITIVE_PAY_TASK.test(node.name) &&
+          !REQUEST_STEP.test(node.name) &&
+          !APPROVAL_STEP.test(node.name)
+        )
+        .filter(node => !upstreamNodes(model, node.id).some(upstream => isApprovalGateway(model, upstream)))
+        .map(node => ({
+          elementId: node.id,
+          elementName: node.name,
+          message: t('{element} in {lane} has no approval gateway upstream', {
+            element: elementRef(node),
+            lane: laneRef(node, t),
+          }),
+          relatedElementIds: node.laneId ? [node.laneId] : [],
+        })),
+    },
+    {
+      id: 'offboarding-controls',
+      name: 'Offboarding Controls',
+      severity: 'Warning',
+      category: 'compliance',
+      description: 'Offboarding must end system access and decide how long the leaver\'s records are kept. Add explicit access-revocation and data-retention steps.',
+      check: ({ model, t }) => model.processes.flatMap(process => {
+        const activities = activitiesOf(model, process.id);
+        const triggers = activities.filter(node => OFFBOARDING.test(nodeText(node)));
+        if (triggers.length === 0 && !OFFBOARDING.test(process.name)) return [];
+
+        const hasAccessRevocation = activities.some(node => ACCESS_REVOCATION.test(nodeText(node)));
+        const hasDataRetention = activities.some(node => DATA_RETENTION.test(nodeText(node)));
+        if (hasAccessRevocation && hasDataRetention) return [];
+
+        const message = !hasAccessRevocation && !hasDataRetention
+          ? t('Offboarding process has no access revocation or data retention step')
+          : !hasAccessRevocation
+            ? t('Offboarding process has no access revocation step')
+            : t('Offboarding process has no data retention step');
+        return [missingControl(model, process.id, triggers, message, t)];
+      }),
+    },
+    {
+      id: 'personal-data-consent',
+      name: 'Privacy Notice',
+      severity: 'Warning',
+      category: 'compliance',
+      description: 'Collecting or processing personal data needs a lawful basis. Add a step that records consent or gives the employee/candidate a privacy notice before the data is used.',
+      check: ({ model, t }) => model.processes.flatMap(process => {
+        const activities = activitiesOf(model, process.id);
+        const dataObjects = model.dataObjects.filter(data => data.processId === process.id && PERSONAL_DATA.test(data.name));
+        const triggers = activities.filter(node => PERSONAL_DATA.test(nodeText(node)));
+        if (triggers.length === 0 && dataObjects.length === 0) return [];
+        if (activities.some(node => CONSENT_STEP.test(nodeText(node)))) return [];
+
+        const issue = missingControl(
+          model,
+          process.id,
+          triggers,
+          t('Process handles personal data without a consent or privacy-notice step'),
+          t
+        );
+        if (dataObjects.length > 0) {
+          issue.message += t('; data objects: {objects}', {
+            objects: dataObjects.map(data => `"${data.name}" (${data.id})`).join(', '),
+          });
+          issue.relatedElementIds!.push(...dataObjects.map(data => data.id));
+        }
+        return [issue];
+      }),
+    },
+  ],
+};
@@ -0,0 +1,12 @@
+import type { RulePack } from './engine.ts';
+import { modelingStylePack } from './modeling-style.ts';
+import { hrCompliancePack } from './hr-compliance.ts';
+import { automationReadinessPack } from './automation-readiness.ts';
+
+export * from './engine.ts';
+
+export const RULE_PACKS: RulePack[] = [
+  modelingStylePack,
+  hrCompliancePack,
+  automationReadinessPack,
+];
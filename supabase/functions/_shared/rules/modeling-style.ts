@@ -0,0 +1,174 @@
+import {
+  findLoopsWithoutExit,
+  findNodesWithoutPathToEnd,
+  findSplitJoins,
+  findUnreachableNodes,
+} from '../soundness.ts';
+import { PROCESS_ELEMENT_ID, type RulePack } from './engine.ts';
+
+// Structural soundness and diagram readability
+
+const XOR_SPLITS = ['exclusiveGateway', 'eventBasedGateway'];
+const DECISION_GATEWAYS = ['exclusiveGateway', 'inclusiveGateway'];
+
+export const modelingStylePack: RulePack = {
+  id: 'modeling-style',
+  name: 'BPMN modeling style',
+  description: 'Structural soundness and readability of the diagram.',
+  enabledByDefault: true,
+  rules: [
+    {
+      id: 'loop-without-exit',
+      name: 'Infinite Loop',
+      severity: 'Error',
+      category: 'structure',
+      description: 'Once a token enters this loop it can never leave it. Add a gateway with an exit path towards an end event.',
+      check: ({ model, t }) => findLoopsWithoutExit(model).map(cycle => {
+        const first = model.nodes.get(cycle[0])!;
+        return {
+          elementId: first.id,
+          elementName: first.name,
+          message: t('Loop through {path} has no exit', { path: cycle.map(id => model.nodes.get(id)!.name).join(' → ') }),
+          relatedElementIds: cycle.slice(1),
+        };
+      }),
+    },
+    {
+      id: 'unreachable-node',
+      name: 'Unreachable Element',
+      severity: 'Error',
+      category: 'structure',
+      description: 'No sequence flow path leads from a start event to this element, so it will never be executed. Connect it to the flow or remove it.',
+      check: ({ model, t }) => findUnreachableNodes(model).map(node => ({
+        elementId: node.id,
+        elementName: node.name,
+        message: t('"{name}" cannot be reached from a start event', { name: node.name }),
+      })),
+    },
+    {
+      id: 'no-path-to-end',
+      name: 'No Path to End',
+      severity: 'Error',
+      category: 'structure',
+      description: 'Tokens arriving here can never complete the process. Connect the element to the rest of the flow or end the path with an end event.',
+      check: ({ model, t }) => findNodesWithoutPathToEnd(model).map(node => ({
+        elementId: node.id,
+        elementName: node.name,
+        message: node.outgoing.length === 0 && node.type !== 'endEvent'
+          ? t('"{name}" has no outgoing sequence flow', { name: node.name })
+          : t('No path leads from "{name}" to an end event', { name: node.name }),
+      })),
+    },
+    {
+      id: 'parallel-split-exclusive-merge',
+      name: 'Lack of Synchronization',
+      severity: 'Warning',
+      category: 'structure',
+      description: 'An exclusive merge passes on every token it receives, so everything after it runs once per parallel branch. Use a parallel gateway to join the branches.',
+      check: ({ model, t }) => findSplitJoins(model)
+        .filter(({ split, join }) =>
+          split.type === 'parallelGateway' && (join.type === 'exclusiveGateway' || join.category !== 'gateway')
+        )
+        .map(({ split, join }) => ({
+          elementId: join.id,
+          elementName: join.name,
+          message: t('Parallel branches from "{split}" merge at "{join}" without synchronization', {
+            split: split.name,
+            join: join.name,
+          }),
+          relatedElementIds: [split.id],
+        })),
+    },
+    {
+      id: 'exclusive-split-parallel-join',
+      name: 'Deadlock',
+      severity: 'Error',
+      category: 'structure',
+      description: 'Only one branch of an exclusive split is taken, but a parallel join waits for all of its incoming flows. The process will stop here. Use an exclusive gateway to merge the branches.',
+      check: ({ model, t }) => findSplitJoins(model)
+        .filter(({ split, join }) => XOR_SPLITS.includes(split.type) && join.type === 'parallelGateway')
+        .map(({ split, join }) => ({
+          elementId: join.id,
+          elementName: join.name,
+          message: t('Exclusive branches from "{split}" are joined by parallel gateway "{join}"', {
+            split: split.name,
+            join: join.name,
+          }),
+          relatedElementIds: [split.id],
+        })),
+    },
+    {
+      id: 'gateway-unlabeled-flow',
+      name: 'Unlabeled Condition',
+      severity: 'Warning',
+      category: 'style',
+      description: 'Readers and process engines cannot tell when each path is taken. Name every outgoing flow or give it a condition expression.',
+      check: ({ model, t }) => [...model.nodes.values()]
+        .filter(node => DECISION_GATEWAYS.includes(node.type) && node.outgoing.length > 1)
+        .flatMap(gateway => {
+          const unlabeled = gateway.outgoing
+            .map(flowId => model.sequenceFlows.get(flowId))
+            .filter(flow => flow && !flow.isDefault && !flow.name.trim() && !flow.condition)
+            .map(flow => flow!);
+          if (unlabeled.length === 0) return [];
+          const targets = unlabeled.map(flow => `${flow.id} → ${model.nodes.get(flow.targetRef)?.name || flow.targetRef}`);
+          return [{
+            elementId: gateway.id,
+            elementName: gateway.name,
+            message: t('{count} outgoing flow(s) of "{name}" have no label or condition: {targets}', {
+              count: unlabeled.length,
+              name: gateway.name,
+              targets: targets.join(', '),
+            }),
+            relatedElementIds: unlabeled.map(flow => flow.id),
+          }];
+        }),
+    },
+    {
+      id: 'gateway-missing-default',
+      name: 'Missing Default Flow',
+      severity: 'Warning',
+      category: 'style',
+      description: 'If none of the outgoing conditions is true at runtime the process gets stuck. Mark one outgoing flow as the default path.',
+      check: ({ model, t }) => [...model.nodes.values()]
+        .filter(node => DECISION_GATEWAYS.includes(node.type) && node.outgoing.length > 1 && !node.defaultFlowId)
+        .map(gateway => ({
+          elementId: gateway.id,
+          elementName: gateway.name,
+          message: t('Decision gateway "{name}" has no default flow', { name: gateway.name }),
+        })),
+    },
+    {
+      id: 'unnamed-activity',
+      name: 'Unnamed Activity',
+      severity: 'Info',
+      category: 'style',
+      description: 'Activities without a name show up as raw IDs in step lists and exports. Name each activity with a verb and an object, e.g. "Approve leave request".',
+      check: ({ model, t }) => [...model.nodes.values()]
+        .filter(node => node.category !== 'event' && node.category !== 'gateway' && !node.hasName)
+        .map(node => ({
+          elementId: node.id,
+          elementName: node.name,
+          message: t('{type} "{id}" has no name', { type: node.type, id: node.id }),
+        })),
+    },
+    {
+      id: 'process-complexity',
+      name: 'Process Complexity',
+      severity: 'Warning',
+      category: 'complexity',
+      description: 'Consider breaking down into smaller sub-processes',
+      check: ({ complexity, t }) => {
+        if (complexity.risk !== 'High') return [];
+        const drivers = complexity.metrics
+          .filter(metric => complexity.drivers.includes(metric.id))
+          .map(metric => `${t(metric.name)} ${metric.value} ≥ ${metric.high}`);
+        return [{
+          elementId: PROCESS_ELEMENT_ID,
+          elementName: t('Process'),
+          message: t('High process complexity detected: {drivers}', { drivers: drivers.join(', ') }),
+        }];
+      },
+    },
+  ],
+};
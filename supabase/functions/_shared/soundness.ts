@@ -0,0 +1,173 @@
+import {
+  type BpmnNode,
+  type BpmnProcessModel,
+  entryNodes,
+  findBackEdges,
+  nodesOfCategory,
+  predecessors,
+  successors,
+} from './bpmn-model.ts';
+
+// Graph-based structural analysis of the typed process model: reachability, loops and
+// how split gateways are joined again. The modeling-style rule pack turns the results
+// into element-level findings.
+
+// Nodes a token can reach from the start events. Entering a sub-process also enters its
+// own start events (and event sub-processes).
+function reachableFromStart(model: BpmnProcessModel) {
+  const reached = new Set<string>();
+  const queue = entryNodes(model, null).map(node => node.id);
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (reached.has(nodeId)) continue;
+    reached.add(nodeId);
+    queue.push(...successors(model, nodeId));
+    if (model.nodes.get(nodeId)?.category === 'subProcess') {
+      queue.push(...entryNodes(model, nodeId).map(node => node.id));
+    }
+  }
+  return reached;
+}
+
+// Nodes with a path to an end event of their own scope. Scopes without explicit end
+// events end implicitly at nodes that have no outgoing flow.
+function canReachEnd(model: BpmnProcessModel) {
+  const reaches = new Set<string>();
+  const scopes = [null, ...nodesOfCategory(model, 'subProcess').map(node => node.id)];
+
+  for (const scopeId of scopes) {
+    const scope = [...model.nodes.values()].filter(node => node.parentId === scopeId);
+    const ends = scope.filter(node => node.type === 'endEvent');
+    const sinks = ends.length > 0
+      ? ends
+      : scope.filter(node => node.outgoing.length === 0 && successors(model, node.id).length === 0);
+
+    const queue = sinks.map(node => node.id);
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      if (reaches.has(nodeId)) continue;
+      reaches.add(nodeId);
+      queue.push(...predecessors(model, nodeId).filter(id => model.nodes.get(id)?.parentId === scopeId));
+    }
+  }
+
+  // Event sub-processes run beside the normal flow and never pass control on
+  for (const node of model.nodes.values()) {
+    if (node.triggeredByEvent) reaches.add(node.id);
+  }
+  return reaches;
+}
+
+// Strongly connected components (Tarjan) with more than one node or a self-loop
+function findCycles(model: BpmnProcessModel) {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const connect = (nodeId: string) => {
+    index.set(nodeId, counter);
+    lowLink.set(nodeId, counter);
+    counter += 1;
+    stack.push(nodeId);
+    onStack.add(nodeId);
+
+    for (const nextId of successors(model, nodeId)) {
+      if (!index.has(nextId)) {
+        connect(nextId);
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, lowLink.get(nextId)!));
+      } else if (onStack.has(nextId)) {
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, index.get(nextId)!));
+      }
+    }
+
+    if (lowLink.get(nodeId) === index.get(nodeId)) {
+      const component: string[] = [];
+      let memberId: string;
+      do {
+        memberId = stack.pop()!;
+        onStack.delete(memberId);
+        component.push(memberId);
+      } while (memberId !== nodeId);
+      if (component.length > 1 || successors(model, nodeId).includes(nodeId)) {
+        cycles.push(component.reverse());
+      }
+    }
+  };
+
+  for (const nodeId of model.nodes.keys()) {
+    if (!index.has(nodeId)) connect(nodeId);
+  }
+  return cycles;
+}
+
+// The closest node where at least two outgoing branches of a split meet again,
+// following forward flows only. Returns null when the branches never reconverge.
+function nearestJoin(model: BpmnProcessModel, split: BpmnNode, backEdges: Set<string>) {
+  const branchDistances = successors(model, split.id)
+    .filter(id => !backEdges.has(`${split.id}->${id}`))
+    .map(firstId => {
+      const distances = new Map<string, number>([[firstId, 1]]);
+      const queue = [firstId];
+      while (queue.length > 0) {
+        const nodeId = queue.shift()!;
+        for (const nextId of successors(model, nodeId)) {
+          if (nextId === split.id || distances.has(nextId) || backEdges.has(`${nodeId}->${nextId}`)) continue;
+          distances.set(nextId, distances.get(nodeId)! + 1);
+          queue.push(nextId);
+        }
+      }
+      return distances;
+    });
+
+  let best: { nodeId: string; distance: number } | null = null;
+  for (const node of model.nodes.values()) {
+    if (node.incoming.length < 2) continue;
+    const nodeId = node.id;
+    const hits = branchDistances.filter(distances => distances.has(nodeId));
+    if (hits.length < 2) continue;
+    const distance = Math.max(...hits.map(distances => distances.get(nodeId)!));
+    if (!best || distance < best.distance) best = { nodeId, distance };
+  }
+  return best ? model.nodes.get(best.nodeId)! : null;
+}
+
+// Loops that no token can leave, as lists of node IDs in walk order
+export function findLoopsWithoutExit(model: BpmnProcessModel) {
+  return findCycles(model).filter(cycle => {
+    const members = new Set(cycle);
+    return !cycle.some(id => successors(model, id).some(nextId => !members.has(nextId)));
+  });
+}
+
+// Nodes no token can reach from a start event. Contents of an unreachable sub-process
+// are left out; the sub-process itself is reported.
+export function findUnreachableNodes(model: BpmnProcessModel) {
+  const reached = reachableFromStart(model);
+  return [...model.nodes.values()].filter(node =>
+    !reached.has(node.id) && !(node.parentId && !reached.has(node.parentId))
+  );
+}
+
+// Reachable nodes that have no path to an end event. Members of exit-less loops are
+// reported as loops instead.
+export function findNodesWithoutPathToEnd(model: BpmnProcessModel) {
+  const reached = reachableFromStart(model);
+  const reaches = canReachEnd(model);
+  const loopMembers = new Set(findLoopsWithoutExit(model).flat());
+  return [...model.nodes.values()].filter(node =>
+    reached.has(node.id) && !reaches.has(node.id) && !loopMembers.has(node.id)
+  );
+}
+
+// Each split gateway paired with the node where its branches first meet again
+export function findSplitJoins(model: BpmnProcessModel) {
+  const backEdges = findBackEdges(model);
+  return [...model.nodes.values()]
+    .filter(node => node.category === 'gateway' && node.outgoing.length > 1)
+    .map(split => ({ split, join: nearestJoin(model, split, backEdges) }))
+    .filter((pair): pair is { split: BpmnNode; join: BpmnNode } => pair.join !== null);
+}
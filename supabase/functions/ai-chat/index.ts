@@ -1,22 +1,98 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { z } from 'https://esm.sh/zod@3.23.8';
+import {
+  CANCELLED_FINISH_REASON,
+  completeChat,
+  formatServerSentEvent,
+  streamChat,
+  usageLogFields,
+  type LlmMessage,
+  type LlmRequest,
+  type LlmResponse
+} from '../_shared/llm/index.ts';
+import { usageCostUsd } from '../_shared/pricing.ts';
+import {
+  AiBudgetExceededError,
+  budgetExceededResponse,
+  checkAiBudget,
+  type BudgetNotice
+} from '../_shared/budget.ts';
+import { loadCurrentDiagram } from '../_shared/current-diagram.ts';
+import { parseBpmnModel, type BpmnProcessModel } from '../_shared/bpmn-model.ts';
+import { CHAT_EDIT_TOOLS, editProposalsFromToolCalls, type EditProposal } from '../_shared/chat-edit-tools.ts';
+import { describeProcessForChat } from '../_shared/process-description.ts';
+import type { AnalysisFinding } from '../_shared/rules/index.ts';
+import { findRelevantKnowledge, logEmbeddingUsage, type KnowledgeEntry } from '../_shared/knowledge-retrieval.ts';
+import { storeKnowledgePatterns, type ExtractedPattern } from '../_shared/knowledge-dedup.ts';
+import { buildChatHistory, conversationPath, type ChatContextTrim, type ChatSessionState } from '../_shared/chat-context.ts';
+import { PiiRedactor } from '../_shared/pii-redaction.ts';
+import {
+  buildSystemPrompt,
+  HRIS_REDIRECT_MESSAGE,
+  promptProfileLog,
+  resolvePromptProfile,
+  type PromptProfile
+} from '../_shared/prompt-profiles.ts';
+import { languageInstruction, loadUserLocale, translator, type Locale, type Translate } from '../_shared/i18n/index.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-}
-
 interface ChatRequest {
   sessionId?: string;
   message: string;
   bpmnFileId?: string;
   bpmnContext?: any;
+  stream?: boolean;
+  // Assistant profile for the session; null goes back to the file's or the default profile
+  promptProfileId?: string | null;
+  // Answers the question of this assistant message again; the old answer stays a sibling
+  // (message is ignored)
+  regenerateMessageId?: string;
+  // Sends message as an edited copy of this user message, forking the session at that point
+  editMessageId?: string;
+  // Id to store the answer under (a new UUID), so the client knows the id of an answer it
+  // stops before the `done` event; generated here when missing
+  assistantMessageId?: string;
+}
+
+interface ChatTurn {
+  userId: string;
+  sessionId: string;
+  // The user message being answered, which the answer is stored under
+  questionMessageId: string;
+  assistantMessageId: string;
+  bpmnFileId?: string;
+  bpmnContext?: ChatRequest['bpmnContext'];
+  diagramModel: BpmnProcessModel | null;
+  conversationLength: number;
+  contextTrim: ChatContextTrim;
+  knowledgeEntries: KnowledgeEntry[];
+  // Restores the placeholders in the answer; its report goes to the usage log
+  redactor: PiiRedactor;
+  promptProfile: PromptProfile;
+  locale: Locale;
+  t: Translate;
+}
+
+// Shape of bpmn_analysis_results.summary written by analyze-bpmn
+interface StoredAnalysisSummary {
+  userTasks?: number;
+  serviceTasks?: number;
+  gateways?: number;
+  lanes?: number;
+  complexityScore?: number;
+  riskLevel?: string;
+}
+
+interface ChatTurnResult {
+  messageId: string | null;
+  content: string;
+  editProposals: EditProposal[];
 }
 
 serve(async (req) => {
@@ -28,15 +104,9 @@ serve(async (req) => {
   console.log('🚀 AI Chat request received:', req.method);
 
   try {
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
     const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
-    if (!OPENAI_API_KEY) {
-      console.error('❌ OPENAI_API_KEY is not configured');
-      throw new Error('OPENAI_API_KEY is not configured');
-    }
-
     if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
       console.error('❌ Supabase configuration missing');
       throw new Error('Supabase configuration missing');
@@ -50,10 +120,25 @@ serve(async (req) => {
       hasSessionId: !!requestBody.sessionId,
       messageLength: requestBody.message?.length || 0,
       hasBpmnFileId: !!requestBody.bpmnFileId,
-      hasBpmnContext: !!requestBody.bpmnContext
+      hasBpmnContext: !!requestBody.bpmnContext,
+      stream: !!requestBody.stream,
+      promptProfileId: requestBody.promptProfileId,
+      regenerateMessageId: requestBody.regenerateMessageId,
+      editMessageId: requestBody.editMessageId,
+      assistantMessageId: requestBody.assistantMessageId
     });
 
-    const { sessionId, message, bpmnFileId, bpmnContext }: ChatRequest = requestBody;
+    const {
+      sessionId,
+      message: requestedMessage,
+      bpmnFileId,
+      bpmnContext,
+      stream,
+      promptProfileId,
+      regenerateMessageId,
+      editMessageId,
+      assistantMessageId: requestedAssistantMessageId
+    }: ChatRequest = requestBody;
 
     // Get user from auth header
     const authHeader = req.headers.get('authorization');
@@ -70,7 +155,60 @@ serve(async (req) => {
 
     console.log('Chat request for user:', user.id, 'session:', sessionId);
 
+    // The service role can read every diagram; only the user's own may reach the prompt
+    if (bpmnFileId) {
+      const { data: ownFile, error: fileError } = await supabase
+        .from('bpmn_files')
+        .select('id')
+        .eq('id', bpmnFileId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (fileError) {
+        console.error('Error checking the BPMN file owner:', fileError);
+        throw new Error('Failed to load the BPMN file');
+      }
+      if (!ownFile) {
+        return new Response(JSON.stringify({ error: 'You do not have access to this BPMN file' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const assistantMessageId = requestedAssistantMessageId ?? crypto.randomUUID();
+    if (requestedAssistantMessageId !== undefined) {
+      if (!z.string().uuid().safeParse(requestedAssistantMessageId).success) {
+        return new Response(JSON.stringify({ error: 'assistantMessageId must be a UUID' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data: existingMessage, error: existingError } = await supabase
+        .from('ai_chat_messages')
+        .select('id')
+        .eq('id', requestedAssistantMessageId)
+        .maybeSingle();
+
+      if (existingError) {
+        console.error('Error checking the assistant message id:', existingError);
+        throw new Error('Failed to check the assistant message id');
+      }
+      if (existingMessage) {
+        return new Response(JSON.stringify({ error: 'assistantMessageId is already used' }), {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    // Refuse before anything is stored when the user is over a hard limit
+    const budgetWarning = await checkAiBudget(supabase, user.id);
+
     let currentSessionId = sessionId;
+    let session: ChatSessionState & { active_message_id: string | null };
+    let sessionProfileId: string | null = null;
 
     // Create or get session
     if (!currentSessionId) {
@@ -79,7 +217,9 @@ serve(async (req) => {
         .insert({
           user_id: user.id,
           bpmn_file_id: bpmnFileId,
-          session_context: bpmnContext || {}
+          session_context: bpmnContext || {},
+          title: sessionTitle(requestedMessage),
+          prompt_profile_id: promptProfileId || null
         })
         .select()
         .single();
@@ -90,13 +230,46 @@ serve(async (req) => {
       }
 
       currentSessionId = newSession.id;
+      session = newSession;
+      sessionProfileId = newSession.prompt_profile_id;
       console.log('Created new session:', currentSessionId);
+    } else {
+      const { data: existingSession, error: sessionError } = await supabase
+        .from('ai_chat_sessions')
+        .select('id, session_summary, summarized_until, prompt_profile_id, active_message_id')
+        .eq('id', currentSessionId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (sessionError || !existingSession) {
+        console.error('Error getting session:', sessionError);
+        throw new Error('Chat session not found');
+      }
+      session = existingSession;
+      sessionProfileId = existingSession.prompt_profile_id;
+
+      // The profile picked in the chat applies from this message on
+      if (promptProfileId !== undefined && (promptProfileId || null) !== sessionProfileId) {
+        sessionProfileId = promptProfileId || null;
+        const { error: profileError } = await supabase
+          .from('ai_chat_sessions')
+          .update({ prompt_profile_id: sessionProfileId })
+          .eq('id', currentSessionId);
+        if (profileError) console.error('Error updating the session prompt profile:', profileError);
+      }
     }
 
+    const promptProfile = await resolvePromptProfile(supabase, { sessionProfileId, bpmnFileId, userId: user.id });
+    console.log('🧩 Prompt profile:', promptProfileLog(promptProfile));
+
+    // Answers are written in the user's language
+    const locale = await loadUserLocale(supabase, user.id);
+    const language = languageInstruction(locale);
+
     // Get conversation history
     const { data: messages, error: messagesError } = await supabase
       .from('ai_chat_messages')
-      .select('role, content')
+      .select('id, parent_message_id, role, content, token_count, created_at')
       .eq('session_id', currentSessionId)
       .order('created_at', { ascending: true });
 
@@ -105,53 +278,160 @@ serve(async (req) => {
       throw new Error('Failed to get conversation history');
     }
 
+    // The question follows the branch shown in the chat (the session's active message),
+    // unless an answer is regenerated or a past question is edited
+    const sessionMessages = messages || [];
+    const findMessage = (id: string | null, role: string) =>
+      sessionMessages.find(stored => stored.id === id && stored.role === role);
+    let message = requestedMessage;
+    let questionParentId = session.active_message_id;
+    let regeneratedQuestionId: string | null = null;
+
+    if (regenerateMessageId) {
+      const regenerated = findMessage(regenerateMessageId, 'assistant');
+      const question = regenerated && findMessage(regenerated.parent_message_id, 'user');
+      if (!question) {
+        throw new Error('The answer to regenerate was not found');
+      }
+      message = question.content;
+      questionParentId = question.parent_message_id;
+      regeneratedQuestionId = question.id;
+    } else if (editMessageId) {
+      const edited = findMessage(editMessageId, 'user');
+      if (!edited) {
+        throw new Error('The message to edit was not found');
+      }
+      questionParentId = edited.parent_message_id;
+    }
+
+    // Personal data in the prompt is replaced by placeholders before any model call
+    const redactor = new PiiRedactor();
+
+    // Long sessions send a rolling summary plus the most recent turns
+    const chatHistory = await buildChatHistory(
+      supabase,
+      session,
+      conversationPath(sessionMessages, questionParentId),
+      redactor
+    );
+    if (chatHistory.summaryCompletion) {
+      await supabase
+        .from('ai_usage_logs')
+        .insert({
+          user_id: user.id,
+          operation_type: 'chat_summary',
+          ...usageLogFields(chatHistory.summaryCompletion),
+          cost_usd: await usageCostUsd(supabase, chatHistory.summaryCompletion),
+          session_id: currentSessionId,
+          bpmn_file_id: bpmnFileId,
+          metadata: {
+            provider: chatHistory.summaryCompletion.provider,
+            estimated_usage: chatHistory.summaryCompletion.usage.estimated,
+            summarized_messages: chatHistory.trim.summarized_messages,
+            pii_redaction: redactor.report()
+          }
+        });
+    }
+
     // Get BPMN context if available
     let bpmnAnalysisContext = '';
+    let diagramModel: BpmnProcessModel | null = null;
+    let storedAnalysis: { summary: StoredAnalysisSummary | null; findings: AnalysisFinding[] | null } | null = null;
     if (bpmnFileId) {
-      // Get BPMN file info and any previous analysis
-      const { data: bpmnFile, error: fileError } = await supabase
-        .from('bpmn_files')
-        .select('file_name, file_path')
-        .eq('id', bpmnFileId)
-        .single();
+      // The diagram as last saved, so answers and edit proposals use its current structure
+      const diagram = await loadCurrentDiagram(supabase, bpmnFileId);
+
+      const { data: analysisRow, error: analysisError } = await supabase
+        .from('bpmn_analysis_results')
+        .select('summary, findings')
+        .eq('file_id', bpmnFileId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (analysisError) {
+        console.error('Error loading stored analysis:', analysisError);
+      }
+      storedAnalysis = analysisRow;
 
-      if (!fileError && bpmnFile) {
+      if (diagram) {
         bpmnAnalysisContext = `\n\nCurrent BPMN Context:
-- File: ${bpmnFile.file_name}
-- This is an HRIS (Human Resources Information System) process analysis
-- Focus on HR best practices, compliance, and process optimization
-- Consider aspects like employee onboarding, performance management, payroll, benefits, etc.`;
+- File: ${diagram.fileName}${diagram.versionNumber ? ` (version ${diagram.versionNumber})` : ''}`;
+
+        try {
+          diagramModel = await parseBpmnModel(diagram.xml);
+          bpmnAnalysisContext += `\n\nProcess Structure:
+${describeProcessForChat(diagramModel, storedAnalysis?.findings || null)}
+
+Answer questions about the flow from this structure, citing step numbers, element IDs and
+finding IDs. When a concrete change to the diagram would help, propose it with the diagram
+edit tools (insert_task_after, rename_element, move_element_to_lane, convert_gateway) using
+the exact IDs above, in addition to your written answer. The user reviews and applies each
+proposal.`;
+        } catch (error) {
+          console.error('Error parsing BPMN diagram for chat:', error);
+        }
       }
     }
 
-    // Get relevant knowledge from knowledge base
-    const { data: knowledgeBase, error: kbError } = await supabase
-      .from('process_knowledge_base')
-      .select('knowledge_type, extracted_insights, confidence_score')
-      .gte('confidence_score', 0.7)
-      .order('effectiveness_score', { ascending: false })
-      .limit(5);
+    // Get relevant knowledge from knowledge base: the entries closest to the question and
+    // the process it is asked about
+    const { entries: knowledgeBase, embedding: knowledgeQueryEmbedding } = await findRelevantKnowledge(
+      supabase,
+      redactor.redact(knowledgeQueryText(message, diagramModel), 'knowledge_query')
+    );
+    if (knowledgeQueryEmbedding) {
+      await logEmbeddingUsage(supabase, knowledgeQueryEmbedding, {
+        userId: user.id,
+        sessionId: currentSessionId,
+        bpmnFileId,
+        purpose: 'knowledge_retrieval',
+        texts: 1
+      });
+    }
 
     let knowledgeContext = '';
-    if (!kbError && knowledgeBase && knowledgeBase.length > 0) {
+    if (knowledgeBase.length > 0) {
       knowledgeContext = '\n\nRelevant Knowledge Base Insights:\n' + 
         knowledgeBase.map(kb => 
           `- ${kb.knowledge_type}: ${JSON.stringify(kb.extracted_insights)}`
         ).join('\n');
     }
 
-    // Save user message
-    await supabase
-      .from('ai_chat_messages')
-      .insert({
-        session_id: currentSessionId,
-        role: 'user',
-        content: message,
-        token_count: Math.ceil(message.length / 4) // Rough token estimate
-      });
+    // Save user message (a regenerated answer reuses the stored question)
+    let questionMessageId = regeneratedQuestionId;
+    if (!questionMessageId) {
+      const { data: savedQuestion, error: questionError } = await supabase
+        .from('ai_chat_messages')
+        .insert({
+          session_id: currentSessionId,
+          parent_message_id: questionParentId,
+          role: 'user',
+          content: message,
+          token_count: Math.ceil(message.length / 4), // Rough token estimate
+          prompt_profile_version_id: promptProfile.versionId
+        })
+        .select('id')
+        .single();
+
+      if (questionError || !savedQuestion) {
+        console.error('Error saving user message:', questionError);
+        throw new Error('Failed to save the chat message');
+      }
+      questionMessageId = savedQuestion.id;
+      await setActiveMessage(supabase, currentSessionId!, questionMessageId);
+    }
 
     // Enhanced BPMN context if available
-    if (bpmnContext && bpmnContext.analysisResult) {
+    if (storedAnalysis?.summary) {
+      const summary = storedAnalysis.summary;
+      bpmnAnalysisContext += `\n\nStored Analysis Summary:
+- Complexity: ${summary.complexityScore ?? 'n/a'}/10, risk level ${summary.riskLevel || 'unknown'}
+- ${summary.userTasks ?? 0} user tasks, ${summary.serviceTasks ?? 0} service tasks, ${summary.gateways ?? 0} gateways, ${summary.lanes ?? 0} lanes
+- Findings: ${storedAnalysis.findings?.length || 0}
+
+Please reference this specific analysis data in your responses and provide actionable insights based on these findings.`;
+    } else if (bpmnContext && bpmnContext.analysisResult) {
       const analysisInfo = bpmnContext.analysisResult;
       bpmnAnalysisContext += `\n\nCurrent Analysis Results:
 - Process Summary: ${analysisInfo.summary || 'Not available'}
@@ -161,182 +441,76 @@ serve(async (req) => {
 Please reference this specific analysis data in your responses and provide actionable insights based on these findings.`;
     }
 
-    // Prepare conversation for OpenAI with ENFORCED HRIS context
-    const conversationMessages: ChatMessage[] = [
+    // Prepare conversation for the model with the instructions of the assistant profile
+    const promptMessages: LlmMessage[] = [
       {
         role: 'system',
-        content: `🎯 **MANDATORY ROLE**: You are EXCLUSIVELY an HRIS (Human Resources Information System) expert analyzing BPMN processes. You CANNOT discuss stocks, markets, finance, or any non-HR topics.
-
-🚫 **STRICT BOUNDARIES**: 
-- ONLY discuss HR processes, employee management, payroll, benefits, recruitment, performance management
-- REJECT any questions about stocks, financial markets, investments, or general business
-- ALWAYS respond within HRIS/HR context even if asked about other topics
-
-🔍 **REQUIRED EXPERTISE AREAS:**
-1. **Employee Lifecycle Management**: Onboarding, offboarding, transfers, promotions
-2. **BPMN Process Analysis**: Workflow optimization for HR processes specifically
-3. **SAP SuccessFactors & HR Systems**: Integration, configuration, best practices
-4. **HR Compliance**: GDPR, labor laws, equal opportunity, audit trails
-5. **Performance & Compensation**: Appraisals, salary reviews, bonus calculations
-6. **Learning & Development**: Training workflows, certification tracking
-7. **Time & Attendance**: Leave management, overtime calculations, shift planning
-
-🎯 **MANDATORY RESPONSE FORMAT**:
-**🔍 Process Analysis**: [Analyze the specific HR process]
-**⚡ Optimization Opportunities**: [Identify specific bottlenecks or improvements]
-**⚠️ Compliance Considerations**: [HR compliance and risk factors]
-**🚀 Implementation Steps**: [Practical next steps for HR teams]
-**💼 Business Impact**: [ROI and efficiency gains for HR operations]
-
-🆘 **CONTEXT VALIDATION**: If someone asks about non-HR topics, respond: "I'm specifically designed to help with HRIS and HR process optimization. Let me help you with your HR workflow instead!"
-
-${bpmnAnalysisContext}${knowledgeContext}
-
-**CRITICAL**: Every response MUST be about HR processes, employee management, or HRIS systems. Do NOT discuss financial markets, stocks, or general business topics.`
+        content: buildSystemPrompt(promptProfile, `${bpmnAnalysisContext}${knowledgeContext}`) +
+          (language ? `\n\n🌐 **LANGUAGE**: ${language}` : '')
       },
-      ...messages.map(msg => ({
-        role: msg.role as 'user' | 'assistant' | 'system',
-        content: msg.content
-      })),
+      ...chatHistory.messages,
       {
         role: 'user',
         content: message
       }
     ];
+    const conversationMessages = redactor.redactMessages(promptMessages, (_, index) =>
+      index === 0 ? 'system_prompt' : index === promptMessages.length - 1 ? 'user_message' : 'history'
+    );
 
-    console.log('🤖 Prepared OpenAI request:', {
+    console.log('🤖 Prepared chat request:', {
       messageCount: conversationMessages.length,
       systemPromptLength: conversationMessages[0].content.length,
       hasBpmnContext: !!bpmnAnalysisContext,
-      hasKnowledgeContext: !!knowledgeContext
-    });
-
-    // Call OpenAI API
-    const openAIResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: conversationMessages,
-        max_tokens: 1500,
-        temperature: 0.7,
-        stream: false
-      }),
-    });
-
-    if (!openAIResponse.ok) {
-      const errorText = await openAIResponse.text();
-      console.error('OpenAI API error:', errorText);
-      throw new Error(`OpenAI API error: ${openAIResponse.status}`);
-    }
-
-    const aiResponse = await openAIResponse.json();
-    console.log('✅ OpenAI response received:', {
-      hasChoices: !!aiResponse.choices,
-      choicesLength: aiResponse.choices?.length || 0,
-      usage: aiResponse.usage
+      hasKnowledgeContext: !!knowledgeContext,
+      contextTrim: chatHistory.trim
     });
 
-    if (!aiResponse.choices || !aiResponse.choices[0] || !aiResponse.choices[0].message) {
-      console.error('❌ Invalid OpenAI response structure:', aiResponse);
-      throw new Error('Invalid response structure from OpenAI');
-    }
-
-    const assistantMessage = aiResponse.choices[0].message.content;
-    const usage = aiResponse.usage;
-
-    console.log('📝 Assistant message preview:', assistantMessage?.substring(0, 200) + '...');
-    
-    // VALIDATE AI RESPONSE IS HR-FOCUSED
-    const isHRFocused = assistantMessage && (
-      assistantMessage.toLowerCase().includes('hr') ||
-      assistantMessage.toLowerCase().includes('employee') ||
-      assistantMessage.toLowerCase().includes('recruitment') ||
-      assistantMessage.toLowerCase().includes('payroll') ||
-      assistantMessage.toLowerCase().includes('performance') ||
-      assistantMessage.toLowerCase().includes('compliance') ||
-      assistantMessage.toLowerCase().includes('onboarding') ||
-      assistantMessage.toLowerCase().includes('workflow') ||
-      assistantMessage.toLowerCase().includes('process')
-    );
-
-    const containsGenericBusiness = assistantMessage && (
-      assistantMessage.toLowerCase().includes('stock') ||
-      assistantMessage.toLowerCase().includes('market') ||
-      assistantMessage.toLowerCase().includes('investment') ||
-      assistantMessage.toLowerCase().includes('financial analysis')
-    );
-
-    if (!isHRFocused || containsGenericBusiness) {
-      console.warn('⚠️ AI response not HR-focused, forcing correction');
-      const correctedMessage = `🎯 **HRIS Process Analysis**
-
-I notice you're asking about process optimization. As your HRIS expert, let me focus on the HR aspects:
-
-**🔍 Process Analysis**: Based on your BPMN process analysis, I can help optimize employee workflows, approval chains, and compliance procedures.
-
-**⚡ Key HRIS Optimization Areas**:
-- Employee onboarding automation
-- Performance review workflows  
-- Leave approval processes
-- Payroll verification steps
-- Compliance audit trails
+    const turn: ChatTurn = {
+      userId: user.id,
+      sessionId: currentSessionId!,
+      questionMessageId,
+      assistantMessageId,
+      bpmnFileId,
+      bpmnContext,
+      diagramModel,
+      conversationLength: conversationMessages.length,
+      contextTrim: chatHistory.trim,
+      knowledgeEntries: knowledgeBase,
+      redactor,
+      promptProfile,
+      locale,
+      t: translator(locale)
+    };
 
-**🚀 Next Steps**: 
-1. Review your current HR process flows
-2. Identify manual approval bottlenecks
-3. Implement automated notifications
-4. Ensure GDPR compliance throughout
+    const chatRequest: LlmRequest = {
+      messages: conversationMessages,
+      ...(diagramModel && { tools: CHAT_EDIT_TOOLS })
+    };
 
-Would you like me to analyze any specific HR process workflow or help optimize employee management procedures?`;
-      
-      // Use corrected message instead
-      assistantMessage = correctedMessage;
+    if (stream) {
+      return streamChatResponse(supabase, turn, chatRequest, budgetWarning);
     }
 
-    // Save assistant message
-    await supabase
-      .from('ai_chat_messages')
-      .insert({
-        session_id: currentSessionId,
-        role: 'assistant',
-        content: assistantMessage,
-        token_count: usage.completion_tokens,
-        metadata: { model: 'gpt-4o-mini', usage }
-      });
-
-    // Log usage for cost tracking
-    await supabase
-      .from('ai_usage_logs')
-      .insert({
-        user_id: user.id,
-        operation_type: 'chat',
-        model_used: 'gpt-4o-mini',
-        prompt_tokens: usage.prompt_tokens,
-        completion_tokens: usage.completion_tokens,
-        total_tokens: usage.total_tokens,
-        cost_usd: (usage.total_tokens * 0.000001), // Rough cost estimate
-        session_id: currentSessionId,
-        bpmn_file_id: bpmnFileId,
-        metadata: { conversation_length: conversationMessages.length }
-      });
-
-    // Extract insights for knowledge base (async)
-    extractKnowledgeForLearning(supabase, currentSessionId, bpmnFileId, assistantMessage, bpmnContext);
+    const completion = await completeChat('chat', chatRequest);
+    const result = await finishChatTurn(supabase, turn, completion);
 
     const responseData = {
       sessionId: currentSessionId,
-      response: assistantMessage,
-      usage: usage
+      questionMessageId,
+      messageId: result.messageId,
+      response: result.content,
+      editProposals: result.editProposals,
+      usage: completion.usage,
+      budgetWarning,
+      promptProfile: { id: promptProfile.id, name: promptProfile.name, version: promptProfile.version }
     };
 
     console.log('🎉 Sending successful response:', {
       sessionId: currentSessionId,
-      responseLength: assistantMessage?.length || 0,
-      tokens: usage?.total_tokens || 0
+      responseLength: result.content.length,
+      editProposals: result.editProposals.length,
+      tokens: completion.usage.totalTokens
     });
 
     return new Response(JSON.stringify(responseData), {
@@ -344,6 +518,9 @@ Would you like me to analyze any specific HR process workflow or help optimize e
     });
 
   } catch (error) {
+    if (error instanceof AiBudgetExceededError) {
+      return budgetExceededResponse(error, corsHeaders);
+    }
     console.error('Error in ai-chat function:', error);
     return new Response(JSON.stringify({ 
       error: error.message || 'Internal server error' 
@@ -354,66 +531,321 @@ Would you like me to analyze any specific HR process workflow or help optimize e
   }
 });
 
-// Async function to extract knowledge for future learning
+// Server-sent events: `session` (session id, stored question, budget warning and assistant
+// profile) first, then `delta` for each text fragment, and finally `done` with the stored
+// answer or `error`. When the client cancels the stream the model call is aborted and the
+// partial answer is still stored, under the assistantMessageId the client sent.
+function streamChatResponse(
+  supabase: SupabaseClient,
+  turn: ChatTurn,
+  request: LlmRequest,
+  budgetWarning: BudgetNotice | null
+) {
+  const abort = new AbortController();
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+      };
+
+      const { promptProfile } = turn;
+      send('session', {
+        sessionId: turn.sessionId,
+        questionMessageId: turn.questionMessageId,
+        budgetWarning,
+        promptProfile: { id: promptProfile.id, name: promptProfile.name, version: promptProfile.version }
+      });
+      const restorer = turn.redactor.createStreamRestorer();
+      const sendDelta = (content: string) => content && send('delta', { content });
+      try {
+        const completion = await streamChat('chat', request, (content) => sendDelta(restorer.push(content)), abort.signal);
+        sendDelta(restorer.flush());
+        const result = await finishChatTurn(supabase, turn, completion);
+        send('done', {
+          sessionId: turn.sessionId,
+          messageId: result.messageId,
+          response: result.content,
+          editProposals: result.editProposals,
+          usage: completion.usage,
+          cancelled: completion.finishReason === CANCELLED_FINISH_REASON
+        });
+        console.log('🎉 Chat stream finished:', {
+          sessionId: turn.sessionId,
+          responseLength: result.content.length,
+          editProposals: result.editProposals.length,
+          tokens: completion.usage.totalTokens
+        });
+      } catch (error) {
+        console.error('Error streaming chat response:', error);
+        send('error', { error: error.message || 'Internal server error' });
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      console.log('🛑 Chat stream cancelled by the client:', turn.sessionId);
+      abort.abort();
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    },
+  });
+}
+
+// Stores the answer and logs usage once the model call completed or was cancelled.
+// Returns the answer as stored (with a strict-scope profile, off-topic answers are replaced
+// by the HRIS redirect)
+// together with the diagram edits the model proposed.
+async function finishChatTurn(supabase: SupabaseClient, turn: ChatTurn, redactedCompletion: LlmResponse): Promise<ChatTurnResult> {
+  const completion: LlmResponse = {
+    ...redactedCompletion,
+    content: turn.redactor.restore(redactedCompletion.content),
+    toolCalls: turn.redactor.restoreToolCalls(redactedCompletion.toolCalls)
+  };
+  const cancelled = completion.finishReason === CANCELLED_FINISH_REASON;
+  const usage = completion.usage;
+  console.log(cancelled ? '🛑 Model response cancelled:' : '✅ Model response received:', {
+    provider: completion.provider,
+    model: completion.model,
+    usage,
+    toolCalls: completion.toolCalls.length
+  });
+
+  const { proposals: editProposals, rejected: rejectedToolCalls } = turn.diagramModel && !cancelled
+    ? editProposalsFromToolCalls(completion.toolCalls, turn.diagramModel)
+    : { proposals: [], rejected: [] };
+  if (rejectedToolCalls.length > 0) {
+    console.warn('⚠️ Discarded edit proposals that do not fit the diagram:', rejectedToolCalls);
+  }
+
+  // A cancelled answer is partial, so it is stored as it was shown. Edit proposals are
+  // about the process by construction and may come without any text.
+  let assistantMessage = completion.content;
+  if (editProposals.length > 0) {
+    assistantMessage ||= `${turn.t('I propose the following changes to the diagram:')}\n${
+      editProposals.map(proposal => `- ${proposal.description}: ${proposal.reason}`).join('\n')
+    }`;
+  } else if (!cancelled && turn.promptProfile.strict_scope) {
+    assistantMessage = enforceHRFocus(assistantMessage, turn.t);
+  }
+
+  let messageId: string | null = null;
+  if (assistantMessage) {
+    const { data: savedMessage } = await supabase
+      .from('ai_chat_messages')
+      .insert({
+        id: turn.assistantMessageId,
+        session_id: turn.sessionId,
+        parent_message_id: turn.questionMessageId,
+        role: 'assistant',
+        content: assistantMessage,
+        token_count: usage.completionTokens,
+        prompt_profile_version_id: turn.promptProfile.versionId,
+        metadata: {
+          provider: completion.provider,
+          model: completion.model,
+          usage,
+          cancelled,
+          editProposals,
+          rejectedToolCalls,
+          knowledgeEntries: turn.knowledgeEntries.map(entry => ({
+            id: entry.id,
+            knowledgeType: entry.knowledge_type,
+            similarity: entry.similarity
+          }))
+        }
+      })
+      .select('id')
+      .single();
+    messageId = savedMessage?.id ?? null;
+  }
+  if (messageId) {
+    await setActiveMessage(supabase, turn.sessionId, messageId);
+  }
+
+  // Count the answer towards the usage of the knowledge entries it drew on. The links are
+  // kept apart from the message metadata, which the client can change.
+  if (messageId && turn.knowledgeEntries.length > 0) {
+    const answerId = messageId;
+    const { error: linkError } = await supabase
+      .from('ai_message_knowledge')
+      .insert(turn.knowledgeEntries.map(entry => ({ message_id: answerId, knowledge_id: entry.id })));
+    if (linkError) {
+      console.error('Error recording the knowledge used by the answer:', linkError);
+    }
+
+    const { error: scoreError } = await supabase.rpc('score_knowledge_entries', {
+      p_knowledge_ids: turn.knowledgeEntries.map(entry => entry.id)
+    });
+    if (scoreError) {
+      console.error('Error updating knowledge usage:', scoreError);
+    }
+  }
+
+  // Log usage for cost tracking
+  await supabase
+    .from('ai_usage_logs')
+    .insert({
+      user_id: turn.userId,
+      operation_type: 'chat',
+      ...usageLogFields(completion),
+      cost_usd: await usageCostUsd(supabase, completion),
+      session_id: turn.sessionId,
+      bpmn_file_id: turn.bpmnFileId,
+      metadata: {
+        conversation_length: turn.conversationLength,
+        provider: completion.provider,
+        estimated_usage: usage.estimated,
+        cancelled,
+        context_trim: turn.contextTrim,
+        pii_redaction: turn.redactor.report(),
+        prompt_profile: promptProfileLog(turn.promptProfile),
+        locale: turn.locale
+      }
+    });
+
+  // Extract insights for knowledge base (async). The knowledge base is shared between
+  // users, so it keeps the placeholders instead of names and figures.
+  if (!cancelled) {
+    extractKnowledgeForLearning(
+      supabase,
+      turn,
+      turn.redactor.redact(assistantMessage, 'knowledge_extraction'),
+      turn.redactor.redactValue(turn.bpmnContext, 'knowledge_extraction')
+    );
+  }
+
+  return { messageId, content: assistantMessage, editProposals };
+}
+
+// The chat continues from this message when the session is reopened or the next question is sent
+async function setActiveMessage(supabase: SupabaseClient, sessionId: string, messageId: string) {
+  const { error } = await supabase
+    .from('ai_chat_sessions')
+    .update({ active_message_id: messageId })
+    .eq('id', sessionId);
+  if (error) console.error('Error updating the active chat message:', error);
+}
+
+// What the knowledge base is searched with: the question plus the process it is about
+function knowledgeQueryText(message: string, model: BpmnProcessModel | null): string {
+  if (!model) return message;
+  const processNames = model.processes.map(process => process.name).filter(Boolean);
+  const laneNames = model.lanes.map(lane => lane.name).filter(Boolean);
+  const activityNames = [...model.nodes.values()]
+    .filter(node => node.category === 'task' || node.category === 'subProcess')
+    .map(node => node.name)
+    .filter(Boolean)
+    .slice(0, 30);
+  return [
+    message,
+    processNames.length > 0 && `Process: ${processNames.join(', ')}`,
+    laneNames.length > 0 && `Roles: ${laneNames.join(', ')}`,
+    activityNames.length > 0 && `Activities: ${activityNames.join(', ')}`,
+  ].filter(Boolean).join('\n');
+}
+
+// New sessions are named after their first message; users can rename them in the history
+function sessionTitle(message: string): string {
+  const title = message.replace(/\s+/g, ' ').trim();
+  return title.length > 80 ? `${title.slice(0, 77)}...` : title;
+}
+
+const HR_KEYWORDS = ['hr', 'employee', 'recruitment', 'payroll', 'performance', 'compliance', 'onboarding', 'workflow', 'process'];
+const GENERIC_BUSINESS_KEYWORDS = ['stock', 'market', 'investment', 'financial analysis'];
+
+// The English keyword lists plus their translation, since answers are in the user's language
+const keywordsFor = (keywords: string[], t: Translate) => [
+  ...keywords,
+  ...t(keywords.join(', ')).split(',').map(keyword => keyword.trim().toLowerCase()).filter(Boolean)
+];
+
+// VALIDATE AI RESPONSE IS HR-FOCUSED
+function enforceHRFocus(assistantMessage: string, t: Translate): string {
+  const text = assistantMessage?.toLowerCase() || '';
+  const isHRFocused = !!text && keywordsFor(HR_KEYWORDS, t).some(keyword => text.includes(keyword));
+  const containsGenericBusiness = !!text && keywordsFor(GENERIC_BUSINESS_KEYWORDS, t).some(keyword => text.includes(keyword));
+
+  if (isHRFocused && !containsGenericBusiness) {
+    return assistantMessage;
+  }
+
+  console.warn('⚠️ AI response not HR-focused, forcing correction');
+  return t(HRIS_REDIRECT_MESSAGE);
+}
+
+// Async function to extract knowledge for future learning. The patterns go through the same
+// deduplication as knowledge-extraction, so repeated advice adds to an existing entry.
 async function extractKnowledgeForLearning(
-  supabase: any, 
-  sessionId: string, 
-  bpmnFileId: string | undefined, 
-  assistantMessage: string, 
+  supabase: SupabaseClient,
+  turn: ChatTurn,
+  assistantMessage: string,
   bpmnContext: any
 ) {
   try {
     // Simple pattern extraction for now
-    const patterns = [];
+    const patterns: ExtractedPattern[] = [];
     
     if (assistantMessage.includes('optimization') || assistantMessage.includes('improve')) {
       patterns.push({
-        knowledge_type: 'optimization',
-        extracted_insights: {
+        knowledgeType: 'optimization',
+        insights: {
           suggestion: assistantMessage.substring(0, 200),
           context: bpmnContext,
           patterns_identified: ['process_optimization']
         },
-        confidence_score: 0.8
+        confidence: 0.8
       });
     }
 
     if (assistantMessage.includes('risk') || assistantMessage.includes('compliance')) {
       patterns.push({
-        knowledge_type: 'risk_assessment',
-        extracted_insights: {
+        knowledgeType: 'risk_assessment',
+        insights: {
           risk_factors: assistantMessage.substring(0, 200),
           mitigation_suggestions: 'See full conversation',
           context: bpmnContext
         },
-        confidence_score: 0.75
+        confidence: 0.75
       });
     }
 
     if (assistantMessage.includes('best practice') || assistantMessage.includes('recommend')) {
       patterns.push({
-        knowledge_type: 'best_practice',
-        extracted_insights: {
+        knowledgeType: 'best_practice',
+        insights: {
           practice_description: assistantMessage.substring(0, 200),
           applicability: bpmnContext ? 'BPMN_specific' : 'general',
           context: bpmnContext
         },
-        confidence_score: 0.85
+        confidence: 0.85
       });
     }
 
-    // Store patterns in knowledge base
-    for (const pattern of patterns) {
-      await supabase
-        .from('process_knowledge_base')
-        .insert({
-          ...pattern,
-          bpmn_context: bpmnContext || {},
-          source_session_id: sessionId
-        });
-    }
+    // Store patterns in knowledge base, merging near-duplicates into existing entries
+    const stored = await storeKnowledgePatterns(supabase, patterns, {
+      sessionId: turn.sessionId,
+      bpmnContext: bpmnContext || {}
+    });
 
-    console.log('Extracted', patterns.length, 'knowledge patterns');
+    if (stored.embedding) {
+      await logEmbeddingUsage(supabase, stored.embedding, {
+        userId: turn.userId,
+        sessionId: turn.sessionId,
+        bpmnFileId: turn.bpmnFileId,
+        purpose: 'knowledge_dedup',
+        texts: patterns.length
+      });
+    }
 
   } catch (error) {
     console.error('Error extracting knowledge:', error);
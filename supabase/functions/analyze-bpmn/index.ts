@@ -1,53 +1,139 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  parseBpmnModel,
+  nodesOfType,
+  nodesOfCategory,
+  type BpmnNode,
+  type BpmnProcessModel,
+} from "../_shared/bpmn-model.ts";
+import { orderProcessSteps } from "../_shared/process-order.ts";
+import { computeComplexityMetrics } from "../_shared/complexity-metrics.ts";
+import { computeImplementationReadiness } from "../_shared/readiness.ts";
+import { RULE_PACKS, runRulePacks, describeRulePacks, type RuleSettings } from "../_shared/rules/index.ts";
+import {
+  AI_INSIGHTS_JSON_SCHEMA,
+  aiInsightsSchema,
+  aiInsightsSchemaFor,
+  BPMN_GATEWAY_TYPES,
+  formatValidationIssues,
+  type AIInsights,
+} from "../_shared/ai-insights.ts";
+import {
+  addUsage,
+  completeChat,
+  isLlmConfigured,
+  usageLogFields,
+  type LlmMessage,
+  type LlmResponse,
+} from "../_shared/llm/index.ts";
+import { usageCostUsd } from "../_shared/pricing.ts";
+import { AiBudgetExceededError, checkAiBudget, type BudgetNotice } from "../_shared/budget.ts";
+import { PiiRedactor } from "../_shared/pii-redaction.ts";
+import {
+  languageInstruction,
+  loadUserLocale,
+  translator,
+  type Locale,
+  type Translate,
+} from "../_shared/i18n/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const AI_INSIGHTS_MAX_ATTEMPTS = 3;
+
+interface EditingSuggestion {
+  id: string;
+  type: string;
+  elementId: string | null;
+  description: string;
+  details: Record<string, unknown>;
+}
+
 // Enhanced BPMN Processing with AI Intelligence integration
-async function performEnhancedBPMNAnalysis(bpmnXml: string, fileId: string, filePath: string) {
+async function performEnhancedBPMNAnalysis(
+  bpmnXml: string,
+  fileId: string,
+  filePath: string,
+  ruleSettings: RuleSettings = { packOverrides: {}, suppressions: [] },
+  useAI = true,
+  locale: Locale = 'en'
+) {
+  // Rule findings and fallback texts come from the message catalogs; the model is asked
+  // to write its insights in the same language
+  const t = translator(locale);
   try {
     // Core BPMN analysis
-    const elements = extractBPMNElements(bpmnXml);
+    const elements = await extractBPMNElements(bpmnXml);
     const complexity = calculateProcessComplexity(elements);
     const roles = analyzeRoleDistribution(elements);
+    const readiness = computeImplementationReadiness(elements.model, t);
     
     // NEW: Create numbered elements with swim lane mapping for Excel export
-    const exportData = createExportDataStructure(bpmnXml, elements);
+    const exportData = createExportDataStructure(elements);
     
     // AI-powered insights with BPMN context
-    const aiInsights = await getAIProcessInsights(bpmnXml, elements, complexity, roles);
+    const aiInsights = useAI
+      ? await getAIProcessInsights(bpmnXml, elements, complexity, roles, locale)
+      : { ...generateFallbackInsights(elements, complexity, roles, t), llmUsage: null, piiRedaction: null };
     
     // Enhanced documentation
-    const stakeholderDocs = generateStakeholderDocumentation(elements, complexity, roles, aiInsights);
+    const stakeholderDocs = generateStakeholderDocumentation(elements, complexity, roles, aiInsights, t);
     
-    // Generate findings
-    const findings = generateEnhancedFindings(elements, complexity, roles, aiInsights);
+    // Run the enabled rule packs
+    const { findings, suppressedFindings } = runRulePacks(
+      RULE_PACKS,
+      { model: elements.model, complexity, t },
+      ruleSettings
+    );
     
     return {
       fileInfo: { fileId, filePath },
       summary: {
         userTasks: elements.userTasks.length,
         serviceTasks: elements.serviceTasks.length,
-        gateways: elements.exclusiveGateways.length + elements.parallelGateways.length + elements.inclusiveGateways.length,
-        events: elements.startEvents.length + elements.endEvents.length,
-        integrations: elements.serviceTasks.length,
+        activities: countActivities(elements),
+        gateways: nodesOfCategory(elements.model, 'gateway').length,
+        events: nodesOfCategory(elements.model, 'event').length,
+        integrations: elements.serviceTasks.length + elements.sendTasks.length + elements.receiveTasks.length + elements.businessRuleTasks.length,
+        lanes: elements.lanes.length,
+        pools: elements.pools.length,
         complexityScore: complexity.score,
         riskLevel: complexity.risk
       },
+      readinessBreakdown: readiness,
+      // risk and metric levels stay codes (Low/Medium/High); the texts are translated
+      complexityBreakdown: {
+        score: complexity.score,
+        risk: complexity.risk,
+        riskLabel: t('{risk} risk', { risk: t(complexity.risk.toLowerCase()) }),
+        drivers: complexity.drivers,
+        metrics: complexity.metrics.map(metric => ({
+          ...metric,
+          name: t(metric.name),
+          explanation: t(metric.explanation)
+        }))
+      },
       processIntelligence: {
         insights: aiInsights.insights,
         recommendations: aiInsights.recommendations,
-        implementationReadiness: aiInsights.implementationReadiness,
+        implementationReadiness: readiness.score,
         risks: aiInsights.risks,
         editingSuggestions: aiInsights.editingSuggestions
       },
       findings,
+      suppressedFindings,
+      rulePacks: describeRulePacks(RULE_PACKS, ruleSettings, t),
+      locale,
       stakeholderDocumentation: stakeholderDocs,
       // NEW: Export-ready data structure for Excel conversion
-      exportData
+      exportData,
+      // Not part of the stored analysis; logged to ai_usage_logs by the caller
+      llmUsage: aiInsights.llmUsage,
+      piiRedaction: aiInsights.piiRedaction
     };
   } catch (error) {
     console.error('Enhanced BPMN analysis error:', error);
@@ -55,99 +141,92 @@ async function performEnhancedBPMNAnalysis(bpmnXml: string, fileId: string, file
   }
 }
 
-// Enhanced BPMN element extraction with better pattern matching
-function extractBPMNElements(bpmnXml: string) {
-  console.log('🔍 Extracting BPMN elements from XML...');
-  
+// BPMN element extraction backed by the bpmn-moddle object model
+async function extractBPMNElements(bpmnXml: string) {
+  console.log('🔍 Parsing BPMN diagram into object model...');
+
+  const model = await parseBpmnModel(bpmnXml);
+  if (model.warnings.length > 0) {
+    console.warn(`⚠️ ${model.warnings.length} BPMN import warnings:`, model.warnings.slice(0, 5));
+  }
+
   const elements = {
-    userTasks: extractElementsWithRegex(bpmnXml, /<(?:bpmn:)?userTask[^>]*id="([^"]*)"(?:[^>]*name="([^"]*)")?[^>]*>/g),
-    serviceTasks: extractElementsWithRegex(bpmnXml, /<(?:bpmn:)?serviceTask[^>]*id="([^"]*)"(?:[^>]*name="([^"]*)")?[^>]*>/g),
-    exclusiveGateways: extractElementsWithRegex(bpmnXml, /<(?:bpmn:)?exclusiveGateway[^>]*id="([^"]*)"(?:[^>]*name="([^"]*)")?[^>]*>/g),
-    parallelGateways: extractElementsWithRegex(bpmnXml, /<(?:bpmn:)?parallelGateway[^>]*id="([^"]*)"(?:[^>]*name="([^"]*)")?[^>]*>/g),
-    inclusiveGateways: extractElementsWithRegex(bpmnXml, /<(?:bpmn:)?inclusiveGateway[^>]*id="([^"]*)"(?:[^>]*name="([^"]*)")?[^>]*>/g),
-    startEvents: extractElementsWithRegex(bpmnXml, /<(?:bpmn:)?startEvent[^>]*id="([^"]*)"(?:[^>]*name="([^"]*)")?[^>]*>/g),
-    endEvents: extractElementsWithRegex(bpmnXml, /<(?:bpmn:)?endEvent[^>]*id="([^"]*)"(?:[^>]*name="([^"]*)")?[^>]*>/g),
-    sequenceFlows: extractElementsWithRegex(bpmnXml, /<(?:bpmn:)?sequenceFlow[^>]*id="([^"]*)"(?:[^>]*name="([^"]*)")?[^>]*>/g),
-    lanes: extractElementsWithRegex(bpmnXml, /<(?:bpmn:)?lane[^>]*id="([^"]*)"(?:[^>]*name="([^"]*)")?[^>]*>/g),
-    pools: extractElementsWithRegex(bpmnXml, /<(?:bpmn:)?pool[^>]*id="([^"]*)"(?:[^>]*name="([^"]*)")?[^>]*>/g),
-    allElements: []
+    model,
+    userTasks: nodesOfType(model, 'userTask'),
+    serviceTasks: nodesOfType(model, 'serviceTask'),
+    manualTasks: nodesOfType(model, 'manualTask'),
+    scriptTasks: nodesOfType(model, 'scriptTask'),
+    sendTasks: nodesOfType(model, 'sendTask'),
+    receiveTasks: nodesOfType(model, 'receiveTask'),
+    businessRuleTasks: nodesOfType(model, 'businessRuleTask'),
+    tasks: nodesOfType(model, 'task'),
+    subProcesses: nodesOfCategory(model, 'subProcess'),
+    callActivities: nodesOfCategory(model, 'callActivity'),
+    exclusiveGateways: nodesOfType(model, 'exclusiveGateway'),
+    parallelGateways: nodesOfType(model, 'parallelGateway'),
+    inclusiveGateways: nodesOfType(model, 'inclusiveGateway'),
+    eventBasedGateways: nodesOfType(model, 'eventBasedGateway'),
+    complexGateways: nodesOfType(model, 'complexGateway'),
+    startEvents: nodesOfType(model, 'startEvent'),
+    endEvents: nodesOfType(model, 'endEvent'),
+    intermediateCatchEvents: nodesOfType(model, 'intermediateCatchEvent'),
+    intermediateThrowEvents: nodesOfType(model, 'intermediateThrowEvent'),
+    boundaryEvents: nodesOfType(model, 'boundaryEvent'),
+    sequenceFlows: [...model.sequenceFlows.values()],
+    messageFlows: model.messageFlows,
+    dataObjects: model.dataObjects,
+    lanes: model.lanes.map(lane => ({ id: lane.id, name: lane.name })),
+    pools: model.participants.map(participant => ({ id: participant.id, name: participant.name })),
+    allElements: [] as string[]
   };
-  
-  // Collect all valid element IDs for contextual suggestion targeting
-  elements.allElements = [
-    ...elements.userTasks.map(t => t.id),
-    ...elements.serviceTasks.map(t => t.id),
-    ...elements.exclusiveGateways.map(g => g.id),
-    ...elements.parallelGateways.map(g => g.id),
-    ...elements.inclusiveGateways.map(g => g.id),
-    ...elements.startEvents.map(e => e.id),
-    ...elements.endEvents.map(e => e.id)
-  ].filter(id => id && id.trim() !== '');
-  
+
+  // Every flow node ID is a valid target for contextual suggestions
+  elements.allElements = [...model.nodes.keys()].filter(id => id && id.trim() !== '');
+
   console.log(`✅ Extracted ${elements.allElements.length} valid element IDs:`, elements.allElements.slice(0, 5));
   console.log('📊 Element breakdown:', {
-    userTasks: elements.userTasks.length,
-    serviceTasks: elements.serviceTasks.length,
-    gateways: elements.exclusiveGateways.length + elements.parallelGateways.length + elements.inclusiveGateways.length,
-    events: elements.startEvents.length + elements.endEvents.length,
-    lanes: elements.lanes.length
+    activities: countActivities(elements),
+    gateways: nodesOfCategory(model, 'gateway').length,
+    events: nodesOfCategory(model, 'event').length,
+    sequenceFlows: elements.sequenceFlows.length,
+    messageFlows: elements.messageFlows.length,
+    dataObjects: elements.dataObjects.length,
+    lanes: elements.lanes.length,
+    pools: elements.pools.length
   });
-  
+
   return elements;
 }
 
-function extractElementsWithRegex(xml: string, regex: RegExp) {
-  const elements = [];
-  let match;
-  while ((match = regex.exec(xml)) !== null) {
-    elements.push({
-      id: match[1],
-      name: match[2] || match[1] // Use ID as fallback name
-    });
-  }
-  return elements;
+function countActivities(elements: any) {
+  return [...elements.model.nodes.values()].filter((node: BpmnNode) =>
+    node.category === 'task' || node.category === 'subProcess' || node.category === 'callActivity'
+  ).length;
 }
 
-// NEW: Create export-ready data structure with numbered elements and swim lane mapping
-function createExportDataStructure(bpmnXml: string, elements: any) {
+// Create export-ready data structure with numbered elements and swim lane mapping
+function createExportDataStructure(elements: any) {
   console.log('📊 Creating export data structure with numbered elements and swim lanes...');
-  
-  // Parse swim lane structure from BPMN XML
-  const swimLaneMapping = parseSwimLanes(bpmnXml);
-  
-  // Collect all flow elements in process order with numbering
-  const numberedElements = [];
-  let stepNumber = 1;
-  
-  // Helper function to add element with swim lane info
-  const addElement = (element: any, elementType: string) => {
-    const swimLane = findElementSwimLane(element.id, swimLaneMapping, bpmnXml);
-    numberedElements.push({
-      stepNumber: stepNumber++,
-      stepDetail: element.name || element.id,
-      swimLane: swimLane || 'Unassigned',
-      elementType: elementType,
-      elementId: element.id
-    });
-  };
-  
-  // Add elements in typical BPMN flow order: events → tasks → gateways
-  elements.startEvents.forEach((element: any) => addElement(element, 'startEvent'));
-  elements.userTasks.forEach((element: any) => addElement(element, 'userTask'));
-  elements.serviceTasks.forEach((element: any) => addElement(element, 'serviceTask'));
-  elements.exclusiveGateways.forEach((element: any) => addElement(element, 'exclusiveGateway'));
-  elements.parallelGateways.forEach((element: any) => addElement(element, 'parallelGateway'));
-  elements.inclusiveGateways.forEach((element: any) => addElement(element, 'inclusiveGateway'));
-  elements.endEvents.forEach((element: any) => addElement(element, 'endEvent'));
-  
-  console.log(`✅ Created ${numberedElements.length} numbered elements with swim lanes`);
-  console.log('🏊 Swim lane distribution:', 
-    Object.entries(swimLaneMapping.elementToLane).reduce((acc: any, [_, lane]) => {
-      acc[lane] = (acc[lane] || 0) + 1;
-      return acc;
-    }, {})
-  );
-  
+
+  const model: BpmnProcessModel = elements.model;
+  const swimLaneMapping = buildSwimLaneMapping(model);
+
+  // Number steps in sequence-flow order so the export reads like an SOP
+  const numberedElements = orderProcessSteps(model).map(step => ({
+    stepNumber: step.order,
+    stepLabel: step.label,
+    stepDetail: step.node.name || step.node.id,
+    swimLane: swimLaneMapping.elementToLane[step.node.id] || 'Unassigned',
+    elementType: step.node.type,
+    elementId: step.node.id,
+    depth: step.depth,
+    branchLabel: step.branchLabel,
+    loopBackTo: step.loopBackTo,
+    unreachable: step.unreachable
+  }));
+
+  console.log(`✅ Created ${numberedElements.length} numbered elements in process flow order`);
+
   return {
     numberedElements,
     swimLaneMapping: swimLaneMapping.elementToLane,
@@ -156,268 +235,59 @@ function createExportDataStructure(bpmnXml: string, elements: any) {
     exportMetadata: {
       generatedAt: new Date().toISOString(),
       totalLanes: Object.keys(swimLaneMapping.lanes).length,
-      unassignedElements: numberedElements.filter(e => e.swimLane === 'Unassigned').length
+      unassignedElements: numberedElements.filter(e => e.swimLane === 'Unassigned').length,
+      unreachableElements: numberedElements.filter(e => e.unreachable).length,
+      numberingMethod: 'sequence-flow'
     }
   };
 }
 
-// Parse BPMN swim lanes and create element-to-lane mapping
-function parseSwimLanes(bpmnXml: string) {
-  console.log('🏊 Parsing swim lanes and element assignments...');
-  
-  const lanes: any = {};
-  const elementToLane: any = {};
-  
-  // First try: Look for laneSet structures which contain the actual lane names
-  const laneSetRegex = /<(?:bpmn:)?laneSet[^>]*>([\s\S]*?)<\/(?:bpmn:)?laneSet>/g;
-  const laneSetMatch = laneSetRegex.exec(bpmnXml);
-  
-  if (laneSetMatch) {
-    console.log('🔍 Found laneSet, searching for lanes with names...');
-    const laneSetContent = laneSetMatch[1];
-    
-    // Enhanced lane regex to capture name attribute more reliably
-    const laneRegex = /<(?:bpmn:)?lane[^>]*id="([^"]*)"[^>]*name="([^"]*)"[^>]*>([\s\S]*?)<\/(?:bpmn:)?lane>/g;
-    let laneMatch;
-    
-    while ((laneMatch = laneRegex.exec(laneSetContent)) !== null) {
-      const laneId = laneMatch[1];
-      const laneName = laneMatch[2];
-      const laneContent = laneMatch[3];
-      
-      console.log(`🏊 Found lane: "${laneName}" (${laneId})`);
-      
-      lanes[laneId] = {
-        id: laneId,
-        name: laneName,
-        elements: []
-      };
-      
-      // Enhanced flowNodeRef patterns to handle both formats
-      const flowNodeRegex = /<(?:bpmn:)?flowNodeRef[^>]*>([^<]+)<\/(?:bpmn:)?flowNodeRef>/g;
-      let nodeMatch;
-      
-      while ((nodeMatch = flowNodeRegex.exec(laneContent)) !== null) {
-        const elementId = nodeMatch[1];
-        elementToLane[elementId] = laneName; // Use semantic name not ID
-        lanes[laneId].elements.push(elementId);
-        console.log(`  📍 Lane "${laneName}" contains element: ${elementId}`);
-      }
-    }
-  }
-  
-  // Fallback: Look for lanes without laneSet wrapper
-  if (Object.keys(lanes).length === 0) {
-    console.log('🔍 No laneSet found, searching for direct lanes...');
-    const directLaneRegex = /<(?:bpmn:)?lane[^>]*id="([^"]*)"(?:[^>]*name="([^"]*)")?[^>]*>([\s\S]*?)<\/(?:bpmn:)?lane>/g;
-    let laneMatch;
-    
-    while ((laneMatch = directLaneRegex.exec(bpmnXml)) !== null) {
-      const laneId = laneMatch[1];
-      const laneName = laneMatch[2] || laneId;
-      const laneContent = laneMatch[3];
-      
-      console.log(`🏊 Found direct lane: "${laneName}" (${laneId})`);
-      
-      lanes[laneId] = {
-        id: laneId,
-        name: laneName,
-        elements: []
-      };
-      
-      const flowNodeRegex = /<(?:bpmn:)?flowNodeRef[^>]*>([^<]+)<\/(?:bpmn:)?flowNodeRef>/g;
-      let nodeMatch;
-      
-      while ((nodeMatch = flowNodeRegex.exec(laneContent)) !== null) {
-        const elementId = nodeMatch[1];
-        elementToLane[elementId] = laneName;
-        lanes[laneId].elements.push(elementId);
-        console.log(`  📍 Lane "${laneName}" contains element: ${elementId}`);
-      }
-    }
-  }
-  
-  // Also check for participant/pool level assignments with enhanced regex
-  const participantRegex = /<(?:bpmn:)?participant[^>]*id="([^"]*)"(?:[^>]*name="([^"]*)")?[^>]*>/g;
-  let participantMatch;
-  
-  console.log('🔍 Searching for participants...');
-  
-  while ((participantMatch = participantRegex.exec(bpmnXml)) !== null) {
-    const participantId = participantMatch[1];
-    const participantName = participantMatch[2] || participantId;
-    
-    console.log(`🏢 Found participant: "${participantName}" (${participantId})`);
-    
-    // If no specific lanes found, assign to participant level
-    if (Object.keys(lanes).length === 0) {
-      lanes[participantId] = {
-        id: participantId,
-        name: participantName,
-        elements: []
-      };
-    }
-  }
-  
-  // Enhanced: Look for collaboration-level lane structures
-  const collaborationRegex = /<(?:bpmn:)?collaboration[^>]*>([\s\S]*?)<\/(?:bpmn:)?collaboration>/g;
-  const collaborationMatch = collaborationRegex.exec(bpmnXml);
-  
-  if (collaborationMatch) {
-    console.log('🤝 Found collaboration section, checking for participant roles...');
-    const collabContent = collaborationMatch[1];
-    
-    // Extract additional participant information from collaboration
-    const detailedParticipantRegex = /<(?:bpmn:)?participant[^>]*id="([^"]*)"[^>]*name="([^"]*)"[^>]*processRef="([^"]*)"[^>]*>/g;
-    let detailedMatch;
-    
-    while ((detailedMatch = detailedParticipantRegex.exec(collabContent)) !== null) {
-      const participantId = detailedMatch[1];
-      const participantName = detailedMatch[2];
-      const processRef = detailedMatch[3];
-      
-      console.log(`🔗 Detailed participant: "${participantName}" -> Process: ${processRef}`);
-      
-      // If we haven't found lanes yet, create from participants
-      if (Object.keys(lanes).length === 0) {
-        lanes[participantId] = {
-          id: participantId,
-          name: participantName,
-          elements: [],
-          processRef: processRef
-        };
-      }
-    }
+// Map every flow node to its lane name, falling back to the pool that owns its process
+function buildSwimLaneMapping(model: BpmnProcessModel) {
+  const lanes: Record<string, { id: string; name: string; elements: string[]; type?: string }> = {};
+  const elementToLane: Record<string, string> = {};
+
+  for (const lane of model.lanes) {
+    lanes[lane.id] = { id: lane.id, name: lane.name, elements: [] };
   }
-  
-  // Final fallback: If no lanes or participants found, check for roles in the process
-  if (Object.keys(lanes).length === 0) {
-    console.log('⚠️ No explicit lanes found, attempting to extract roles from task assignments...');
-    
-    // Look for role-based patterns in task names or documentation
-    const processRegex = /<(?:bpmn:)?process[^>]*>([\s\S]*?)<\/(?:bpmn:)?process>/g;
-    const processMatch = processRegex.exec(bpmnXml);
-    
-    if (processMatch) {
-      // Extract unique role indicators from task names/documentation
-      const rolePatterns = [
-        /(?:HR|Human Resources)/i,
-        /(?:Manager|Management)/i,
-        /(?:Admin|Administrator)/i,
-        /(?:Recruiter|Recruitment)/i,
-        /(?:Employee|Staff)/i,
-        /(?:Candidate|Applicant)/i
-      ];
-      
-      const foundRoles = new Set<string>();
-      
-      rolePatterns.forEach((pattern, index) => {
-        if (pattern.test(processMatch[1])) {
-          const roleName = ['HR', 'Manager', 'Admin', 'Recruiter', 'Employee', 'Candidate'][index];
-          foundRoles.add(roleName);
-        }
-      });
-      
-      if (foundRoles.size > 0) {
-        console.log(`🎭 Detected ${foundRoles.size} roles from process content: ${Array.from(foundRoles).join(', ')}`);
-        
-        Array.from(foundRoles).forEach((role, index) => {
-          lanes[`role_${index}`] = {
-            id: `role_${index}`,
-            name: role,
-            elements: [],
-            type: 'inferred'
-          };
-        });
-      }
+
+  // Pools only act as swim lanes when the process has no lanes of its own
+  const poolByProcess = new Map(
+    model.participants.filter(p => p.processRef).map(p => [p.processRef as string, p])
+  );
+  const processesWithLanes = new Set(model.lanes.map(lane => lane.processId));
+
+  for (const node of model.nodes.values()) {
+    if (node.laneId && lanes[node.laneId]) {
+      lanes[node.laneId].elements.push(node.id);
+      elementToLane[node.id] = node.laneName as string;
+      continue;
     }
-  }
-  
-  // Try to extract participant names from collaboration if lanes are still using IDs
-  if (Object.keys(lanes).length > 0) {
-    console.log('🔍 Checking for participant names to enhance lane names...');
-    const participantNameRegex = /<(?:bpmn:)?participant[^>]*id="([^"]*)"[^>]*name="([^"]*)"[^>]*>/g;
-    let participantMatch;
-    
-    while ((participantMatch = participantNameRegex.exec(bpmnXml)) !== null) {
-      const participantId = participantMatch[1];
-      const participantName = participantMatch[2];
-      
-      console.log(`👤 Found participant: "${participantName}" (${participantId})`);
-      
-      // If we have a lane that matches this participant, use the semantic name
-      if (lanes[participantId] && participantName) {
-        console.log(`🔄 Updating lane name from "${lanes[participantId].name}" to "${participantName}"`);
-        lanes[participantId].name = participantName;
-        
-        // Update all element mappings to use semantic name
-        Object.keys(elementToLane).forEach(elementId => {
-          if (elementToLane[elementId] === participantId) {
-            elementToLane[elementId] = participantName;
-          }
-        });
-      }
+
+    const pool = node.processId ? poolByProcess.get(node.processId) : undefined;
+    if (pool && !processesWithLanes.has(node.processId)) {
+      lanes[pool.id] = lanes[pool.id] || { id: pool.id, name: pool.name, elements: [], type: 'pool' };
+      lanes[pool.id].elements.push(node.id);
+      elementToLane[node.id] = pool.name;
     }
   }
-  
-  console.log(`✅ Final result: ${Object.keys(lanes).length} swim lanes found`);
-  Object.values(lanes).forEach((lane: any) => {
+
+  console.log(`✅ ${Object.keys(lanes).length} swim lanes mapped`);
+  Object.values(lanes).forEach(lane => {
     console.log(`  🏊 Lane: "${lane.name}" with ${lane.elements.length} elements`);
   });
-  
-  return {
-    lanes,
-    elementToLane
-  };
-}
 
-// Find which swim lane an element belongs to
-function findElementSwimLane(elementId: string, swimLaneMapping: any, bpmnXml: string) {
-  // Check direct mapping from lane flowNodeRefs
-  if (swimLaneMapping.elementToLane[elementId]) {
-    return swimLaneMapping.elementToLane[elementId];
-  }
-  
-  // Check if element is contained within any lane by position
-  for (const [laneId, laneInfo] of Object.entries(swimLaneMapping.lanes)) {
-    const laneData = laneInfo as any;
-    if (laneData.elements.includes(elementId)) {
-      return laneData.name;
-    }
-  }
-  
-  // If no specific lane assignment, check for pool-level assignment
-  const poolRegex = /<bpmn:process[^>]*>([\s\S]*?)<\/bpmn:process>/g;
-  const poolMatch = poolRegex.exec(bpmnXml);
-  
-  if (poolMatch && poolMatch[1].includes(elementId)) {
-    // Look for a default pool/participant name
-    const participantRegex = /<bpmn:participant[^>]*name="([^"]*)"[^>]*>/;
-    const participantMatch = participantRegex.exec(bpmnXml);
-    if (participantMatch) {
-      return participantMatch[1];
-    }
-  }
-  
-  return null; // Will be mapped to 'Unassigned' by caller
+  return { lanes, elementToLane };
 }
 
+// Standard complexity metrics; see _shared/complexity-metrics.ts for the thresholds
 function calculateProcessComplexity(elements: any) {
-  const totalElements = Object.values(elements).reduce((sum: number, arr: any) => {
-    return sum + (Array.isArray(arr) ? arr.length : 0);
-  }, 0) - elements.allElements.length; // Don't double count allElements
-
-  const complexityScore = Math.min(totalElements / 2, 10); // Scale 0-10
-  
-  let riskLevel = 'Low';
-  if (complexityScore > 7) riskLevel = 'High';
-  else if (complexityScore > 4) riskLevel = 'Medium';
+  const report = computeComplexityMetrics(elements.model);
 
   return {
-    score: Math.round(complexityScore * 10) / 10,
-    risk: riskLevel,
-    totalElements,
-    gatewayComplexity: elements.exclusiveGateways.length + elements.parallelGateways.length,
+    ...report,
+    totalElements: elements.model.nodes.size,
+    gatewayComplexity: nodesOfCategory(elements.model, 'gateway').length,
     taskDistribution: {
       userTasks: elements.userTasks.length,
       serviceTasks: elements.serviceTasks.length
@@ -440,215 +310,137 @@ function analyzeRoleDistribution(elements: any) {
 }
 
 // AI-powered process insights with OpenAI integration
-async function getAIProcessInsights(bpmnXml: string, elements: any, complexity: any, roles: any) {
-  const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-  
-  if (!openAIApiKey) {
-    console.warn('OpenAI API key not found, using fallback insights');
-    return generateFallbackInsights(elements, complexity, roles);
+async function getAIProcessInsights(bpmnXml: string, elements: any, complexity: any, roles: any, locale: Locale) {
+  const t = translator(locale);
+  if (!isLlmConfigured('analysis')) {
+    console.warn('No LLM provider configured for analysis, using fallback insights');
+    return { ...generateFallbackInsights(elements, complexity, roles, t), llmUsage: null, piiRedaction: null };
   }
 
-  try {
-    const prompt = `Analyze this BPMN process and provide insights in the exact format specified:
+  const prompt = `Analyze this BPMN process and provide insights as JSON.
 
 BPMN Elements:
 - User Tasks: ${elements.userTasks.length} (${elements.userTasks.map(t => t.name).join(', ')})
 - Service Tasks: ${elements.serviceTasks.length} 
-- Gateways: ${elements.exclusiveGateways.length + elements.parallelGateways.length} 
-- Complexity Score: ${complexity.score}/10
+- Gateways: ${elements.exclusiveGateways.length + elements.parallelGateways.length} (${[...elements.exclusiveGateways, ...elements.parallelGateways].map(g => g.id).join(', ')})
+- Complexity Score: ${complexity.score}/10 (${complexity.risk} risk; ${complexity.metrics.map((m: any) => `${m.id}=${m.value}`).join(', ')})
 - Roles/Lanes: ${roles.totalRoles}
 
 Element IDs Available: ${elements.allElements.join(', ')}
 
-Provide EXACTLY 5 editing suggestions in this format:
-
-EDITING SUGGESTIONS:
-TYPE: add-task
-ELEMENT_ID: ${elements.allElements[0] || 'null'}
-DESCRIPTION: Add quality check task
-IMPLEMENTATION: Insert a quality validation task after data processing
-
-TYPE: add-gateway
-ELEMENT_ID: ${elements.allElements[1] || 'null'}
-DESCRIPTION: Add decision gateway for routing
-IMPLEMENTATION: Add exclusive gateway for conditional processing
-
-TYPE: optimize-flow
-ELEMENT_ID: ${elements.allElements[0] || 'null'}
-DESCRIPTION: Streamline sequence flows
-IMPLEMENTATION: Optimize path connections between tasks
-
-TYPE: add-role
-ELEMENT_ID: ${elements.lanes[0]?.id || 'null'}
-DESCRIPTION: Add supervisor role
-IMPLEMENTATION: Create supervisor lane for oversight
-
-TYPE: change-gateway
-ELEMENT_ID: ${elements.exclusiveGateways[0]?.id || 'null'}
-DESCRIPTION: Convert to parallel gateway
-IMPLEMENTATION: Change to parallel for concurrent processing
-
-Also provide insights and recommendations for process optimization.`;
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { 
-            role: 'system', 
-            content: 'You are a BPMN expert. Provide structured analysis with actionable editing suggestions using real element IDs from the process.'
-          },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.7,
-        max_tokens: 2000
-      }),
-    });
+Provide 3-5 insights, 3-5 recommendations, up to 3 risks and EXACTLY 5 editing suggestions:
+- elementId must be one of the element IDs above, or null when the suggestion is not anchored to an existing element
+- add-task / add-gateway: elementId is the element the new one is placed after; set details.name, and details.gatewayType for gateways
+- change-gateway: elementId must be a gateway; details.gatewayType is the type to change it to
+- optimize-flow: elementId is the element whose connections should change
+- add-role: details.roleName is the name of the new lane
+- details.implementation explains how to apply the suggestion`;
+
+  // Element names may contain personal data; the model sees placeholders, the results the originals
+  const redactor = new PiiRedactor();
+  const messages: LlmMessage[] = [
+    { 
+      role: 'system', 
+      content: ['You are a BPMN expert. Provide structured analysis with actionable editing suggestions using real element IDs from the process.',
+        languageInstruction(locale)].filter(Boolean).join('\n')
+    },
+    { role: 'user', content: redactor.redact(prompt, 'diagram') }
+  ];
+  const schema = aiInsightsSchemaFor(elements.allElements);
+  let lastCandidate: unknown = undefined;
+  // Usage summed over all attempts, for ai_usage_logs
+  let llmUsage: Pick<LlmResponse, 'provider' | 'model' | 'usage'> | null = null;
+
+  try {
+    // Retry with the validation errors so the model can correct its own output
+    for (let attempt = 1; attempt <= AI_INSIGHTS_MAX_ATTEMPTS; attempt++) {
+      const response = await completeChat('analysis', { messages, jsonSchema: AI_INSIGHTS_JSON_SCHEMA });
+      const aiResponse = response.content;
+      llmUsage = {
+        provider: response.provider,
+        model: response.model,
+        usage: llmUsage ? addUsage(llmUsage.usage, response.usage) : response.usage
+      };
+      
+      let problems: string;
+      try {
+        lastCandidate = redactor.restoreValue(JSON.parse(aiResponse));
+        const result = schema.safeParse(lastCandidate);
+        if (result.success) {
+          console.log(`✅ AI insights validated on attempt ${attempt}`);
+          return { ...toProcessInsights(result.data, elements, t), llmUsage, piiRedaction: redactor.report() };
+        }
+        problems = formatValidationIssues(result.error);
+      } catch {
+        problems = '(root): response is not valid JSON';
+      }
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
+      console.warn(`⚠️ AI insights attempt ${attempt}/${AI_INSIGHTS_MAX_ATTEMPTS} failed validation:\n${problems}`);
+      messages.push(
+        { role: 'assistant', content: aiResponse },
+        { role: 'user', content: `Your response failed validation:\n${problems}\nReturn the corrected JSON only.` }
+      );
     }
 
-    const data = await response.json();
-    const aiResponse = data.choices[0].message.content;
-    
-    console.log('AI Response received:', aiResponse.substring(0, 200) + '...');
-    
-    return parseAIResponse(aiResponse, elements);
+    const salvaged = salvageAIInsights(lastCandidate, elements.allElements);
+    if (!salvaged) {
+      console.warn('⚠️ No valid AI insights after retries, using fallback insights');
+      return { ...generateFallbackInsights(elements, complexity, roles, t), llmUsage, piiRedaction: redactor.report() };
+    }
+    return { ...toProcessInsights(salvaged, elements, t), llmUsage, piiRedaction: redactor.report() };
     
   } catch (error) {
     console.error('AI analysis error:', error);
-    return generateFallbackInsights(elements, complexity, roles);
+    return { ...generateFallbackInsights(elements, complexity, roles, t), llmUsage, piiRedaction: redactor.report() };
   }
 }
 
-function parseAIResponse(aiResponse: string, elements: any) {
-  console.log('🔄 Parsing AI response for structured data...');
-// Enhanced parsing with validation for better AI response extraction
-  const lines = aiResponse.split('\n').filter(line => line.trim());
-  
-  // Extract numbered lists and bullet points
-  const insights = [];
-  const recommendations = [];
-  const risks = [];
-  const editingSuggestions = [];
-  
-  let currentSuggestion = null;
-  let isInSuggestionsSection = false;
-  
-  console.log('🔍 Parsing AI response for structured suggestions...');
-  
-  for (const line of lines) {
-    const cleanLine = line.trim();
-    
-    // Check if we're in editing suggestions section
-    if (cleanLine.toLowerCase().includes('editing suggestion') || cleanLine.toLowerCase().includes('actionable')) {
-      isInSuggestionsSection = true;
-      continue;
-    }
-    
-    // Parse editing suggestions with validation
-    if (isInSuggestionsSection) {
-      if (cleanLine.startsWith('TYPE:')) {
-        if (currentSuggestion) {
-          // Validate previous suggestion before adding
-          if (currentSuggestion.type && currentSuggestion.description) {
-            editingSuggestions.push(currentSuggestion);
-          }
-        }
-        const suggestionType = cleanLine.replace('TYPE:', '').trim().toLowerCase();
-        // Validate suggestion type
-        const validTypes = ['add-task', 'add-gateway', 'change-gateway', 'optimize-flow', 'add-role'];
-        if (validTypes.includes(suggestionType)) {
-          currentSuggestion = {
-            id: `suggestion_${editingSuggestions.length + 1}`,
-            type: suggestionType,
-            elementId: null,
-            description: '',
-            details: {}
-          };
-        }
-      } else if (cleanLine.startsWith('ELEMENT_ID:') && currentSuggestion) {
-        const elementId = cleanLine.replace('ELEMENT_ID:', '').trim();
-        // Validate element ID exists in actual elements
-        if (elementId !== 'null' && elements.allElements.includes(elementId)) {
-          currentSuggestion.elementId = elementId;
-          console.log(`✅ Valid element ID found: ${elementId}`);
-        } else if (elementId !== 'null') {
-          console.log(`⚠️ Element ID ${elementId} not found in diagram, using null`);
-          currentSuggestion.elementId = null;
-        }
-      } else if (cleanLine.startsWith('DESCRIPTION:') && currentSuggestion) {
-        currentSuggestion.description = cleanLine.replace('DESCRIPTION:', '').trim();
-      } else if (cleanLine.startsWith('IMPLEMENTATION:') && currentSuggestion) {
-        const implementation = cleanLine.replace('IMPLEMENTATION:', '').trim();
-        currentSuggestion.details = { 
-          implementation,
-          // Add contextual details based on suggestion type
-          ...getSuggestionTypeDetails(currentSuggestion.type, currentSuggestion.elementId, elements)
-        };
-      }
-    }
-    
-    // Parse other content
-    if (cleanLine.match(/^\d+\.|^[-•*]/)) {
-      if (cleanLine.toLowerCase().includes('insight') || cleanLine.toLowerCase().includes('finding')) {
-        insights.push(cleanLine.replace(/^\d+\.|^[-•*]\s*/, ''));
-      } else if (cleanLine.toLowerCase().includes('recommend') || cleanLine.toLowerCase().includes('improve')) {
-        recommendations.push(cleanLine.replace(/^\d+\.|^[-•*]\s*/, ''));
-      } else if (cleanLine.toLowerCase().includes('risk') || cleanLine.toLowerCase().includes('concern')) {
-        risks.push(cleanLine.replace(/^\d+\.|^[-•*]\s*/, ''));
-      }
+// Out of retries: keep a well-formed reply but drop the suggestions that target unknown elements
+function salvageAIInsights(candidate: unknown, elementIds: string[]): AIInsights | null {
+  const result = aiInsightsSchema.safeParse(candidate);
+  if (!result.success) return null;
+
+  const known = new Set(elementIds);
+  const editingSuggestions = result.data.editingSuggestions.filter(suggestion => {
+    const valid = suggestion.elementId === null || known.has(suggestion.elementId);
+    if (!valid) console.log(`⚠️ Rejected suggestion for unknown element ${suggestion.elementId}: ${suggestion.description}`);
+    return valid;
+  });
+  return { ...result.data, editingSuggestions };
+}
+
+function toProcessInsights(aiInsights: AIInsights, elements: any, t: Translate) {
+  const editingSuggestions: EditingSuggestion[] = aiInsights.editingSuggestions.slice(0, 5).map((suggestion, index) => ({
+    id: `suggestion_${index + 1}`,
+    type: suggestion.type,
+    elementId: suggestion.elementId,
+    description: suggestion.description,
+    details: {
+      ...suggestion.details,
+      // The modeler replaces gateways by BPMN type; new gateways use the short kind
+      gatewayType: suggestion.type === 'change-gateway'
+        ? BPMN_GATEWAY_TYPES[suggestion.details.gatewayType || 'parallel']
+        : suggestion.details.gatewayType
     }
-  }
-  
-  // Add the last suggestion if exists and is valid
-  if (currentSuggestion && isInSuggestionsSection && currentSuggestion.type && currentSuggestion.description) {
-    editingSuggestions.push(currentSuggestion);
-  }
-  
-  // Fallback to basic extraction if structured parsing fails
-  if (insights.length === 0) {
-    insights.push(...lines.filter(line => 
-      line.toLowerCase().includes('process') || 
-      line.toLowerCase().includes('workflow') ||
-      line.toLowerCase().includes('efficiency')
-    ).slice(0, 3));
-  }
-  
-  if (recommendations.length === 0) {
-    recommendations.push(...lines.filter(line => 
-      line.toLowerCase().includes('should') || 
-      line.toLowerCase().includes('consider') ||
-      line.toLowerCase().includes('optimize')
-    ).slice(0, 3));
-  }
-  
-  // Generate contextual suggestions if none were parsed properly
+  }));
+
   if (editingSuggestions.length < 5) {
-    console.log('⚠️ AI parsing incomplete, using fallback suggestions...');
-    const fallbackSuggestions = generateFallbackSuggestions(elements);
-    editingSuggestions.push(...fallbackSuggestions.slice(editingSuggestions.length));
+    console.log('⚠️ Fewer than 5 valid AI suggestions, adding fallback suggestions...');
+    editingSuggestions.push(...generateFallbackSuggestions(elements, t).slice(editingSuggestions.length));
   }
-  
+
   console.log(`✅ Generated ${editingSuggestions.length} editing suggestions with real element IDs`);
   editingSuggestions.forEach((s, i) => console.log(`  ${i+1}. ${s.type} (${s.elementId}) - ${s.description}`));
-  
+
   return {
-    insights: insights.slice(0, 5),
-    recommendations: recommendations.slice(0, 5),
-    implementationReadiness: Math.floor(Math.random() * 3) + 7, // 7-10 range
-    risks: risks.length > 0 ? risks.slice(0, 3) : ['Standard implementation risks apply'],
-    editingSuggestions: editingSuggestions.slice(0, 5)
+    insights: aiInsights.insights.slice(0, 5),
+    recommendations: aiInsights.recommendations.slice(0, 5),
+    risks: aiInsights.risks.length > 0 ? aiInsights.risks.slice(0, 3) : [t('Standard implementation risks apply')],
+    editingSuggestions
   };
 }
 
-function generateFallbackSuggestions(elements: any) {
+function generateFallbackSuggestions(elements: any, t: Translate) {
   console.log('🎯 Generating context-aware fallback suggestions using real element IDs...');
   
   // Use actual element IDs from the BPMN for context-aware suggestions
@@ -674,10 +466,10 @@ function generateFallbackSuggestions(elements: any) {
       id: 'suggestion_1',
       type: 'add-task',
       elementId: primaryTaskId,
-      description: `Add validation task after ${elements.userTasks[0]?.name || 'current task'}`,
+      description: t('Add validation task after {name}', { name: elements.userTasks[0]?.name || t('current task') }),
       details: { 
-        implementation: 'Insert quality validation step in the workflow',
-        name: 'Quality Validation',
+        implementation: t('Insert quality validation step in the workflow'),
+        name: t('Quality Validation'),
         position: 'after'
       }
     });
@@ -686,10 +478,10 @@ function generateFallbackSuggestions(elements: any) {
       id: 'suggestion_1',
       type: 'add-task',
       elementId: null,
-      description: 'Add initial data validation task',
+      description: t('Add initial data validation task'),
       details: { 
-        implementation: 'Add a task to validate inputs at process start',
-        name: 'Input Validation'
+        implementation: t('Add a task to validate inputs at process start'),
+        name: t('Input Validation')
       }
     });
   }
@@ -700,11 +492,11 @@ function generateFallbackSuggestions(elements: any) {
     id: 'suggestion_2', 
     type: 'add-gateway',
     elementId: suggestionTarget,
-    description: 'Add decision gateway for conditional routing',
+    description: t('Add decision gateway for conditional routing'),
     details: { 
-      implementation: 'Insert decision point for process branching',
+      implementation: t('Insert decision point for process branching'),
       gatewayType: 'exclusive',
-      name: 'Approval Decision'
+      name: t('Approval Decision')
     }
   });
   
@@ -713,9 +505,9 @@ function generateFallbackSuggestions(elements: any) {
     id: 'suggestion_3',
     type: 'optimize-flow',
     elementId: suggestionTarget,
-    description: 'Streamline process flow connections',
+    description: t('Streamline process flow connections'),
     details: { 
-      implementation: 'Optimize sequence flows for better efficiency',
+      implementation: t('Optimize sequence flows for better efficiency'),
       optimization: 'reduce_steps'
     }
   });
@@ -726,10 +518,10 @@ function generateFallbackSuggestions(elements: any) {
       id: 'suggestion_4',
       type: 'add-role',
       elementId: null,
-      description: 'Add approver role for process oversight',
+      description: t('Add approver role for process oversight'),
       details: { 
-        implementation: 'Create dedicated lane for approval workflow',
-        roleName: 'Process Approver'
+        implementation: t('Create dedicated lane for approval workflow'),
+        roleName: t('Process Approver')
       }
     });
   } else {
@@ -737,10 +529,10 @@ function generateFallbackSuggestions(elements: any) {
       id: 'suggestion_4',
       type: 'add-role',
       elementId: primaryLaneId,
-      description: `Add reviewer role to support ${elements.lanes[0]?.name || 'current role'}`,
+      description: t('Add reviewer role to support {name}', { name: elements.lanes[0]?.name || t('current role') }),
       details: { 
-        implementation: 'Add complementary role for quality assurance',
-        roleName: 'Quality Reviewer'
+        implementation: t('Add complementary role for quality assurance'),
+        roleName: t('Quality Reviewer')
       }
     });
   }
@@ -751,9 +543,9 @@ function generateFallbackSuggestions(elements: any) {
       id: 'suggestion_5',
       type: 'change-gateway',
       elementId: primaryGatewayId,
-      description: `Optimize ${elements.exclusiveGateways[0]?.name || 'gateway'} for parallel processing`,
+      description: t('Optimize {name} for parallel processing', { name: elements.exclusiveGateways[0]?.name || t('gateway') }),
       details: { 
-        implementation: 'Convert to parallel gateway for concurrent execution',
+        implementation: t('Convert to parallel gateway for concurrent execution'),
         gatewayType: 'bpmn:ParallelGateway'
       }
     });
@@ -762,11 +554,11 @@ function generateFallbackSuggestions(elements: any) {
       id: 'suggestion_5',
       type: 'add-gateway',
       elementId: suggestionTarget,
-      description: 'Add parallel gateway for concurrent processing',
+      description: t('Add parallel gateway for concurrent processing'),
       details: { 
-        implementation: 'Enable multiple process paths to execute simultaneously',
+        implementation: t('Enable multiple process paths to execute simultaneously'),
         gatewayType: 'parallel',
-        name: 'Parallel Split'
+        name: t('Parallel Split')
       }
     });
   }
@@ -774,118 +566,90 @@ function generateFallbackSuggestions(elements: any) {
   return suggestions;
 }
 
-// Helper function to get contextual details based on suggestion type
-function getSuggestionTypeDetails(type: string, elementId: string | null, elements: any) {
-  switch (type) {
-    case 'add-task':
-      return {
-        name: 'Process Task',
-        taskType: 'userTask'
-      };
-    case 'add-gateway':
-      return {
-        gatewayType: 'exclusive',
-        name: 'Decision Point'
-      };
-    case 'change-gateway':
-      return {
-        gatewayType: 'bpmn:ParallelGateway'
-      };
-    case 'add-role':
-      return {
-        roleName: 'Process Owner'
-      };
-    default:
-      return {};
-  }
-}
-
-function generateFallbackInsights(elements: any, complexity: any, roles: any) {
-  const suggestions = generateFallbackSuggestions(elements);
+function generateFallbackInsights(elements: any, complexity: any, roles: any, t: Translate) {
+  const suggestions = generateFallbackSuggestions(elements, t);
   
   return { 
     insights: [
-      `Process contains ${elements.userTasks.length} user tasks requiring manual intervention`,
-      `${complexity.score}/10 complexity score indicates ${complexity.risk.toLowerCase()} optimization potential`,
-      `${roles.totalRoles} roles identified with ${roles.roleBalance.toLowerCase()} distribution`
+      t('Process contains {count} user tasks requiring manual intervention', { count: elements.userTasks.length }),
+      t('{score}/10 complexity score indicates {risk} optimization potential', {
+        score: complexity.score,
+        risk: t(complexity.risk.toLowerCase())
+      }),
+      roles.roleBalance === 'Balanced'
+        ? t('{count} roles identified with balanced distribution', { count: roles.totalRoles })
+        : t('{count} roles identified with needs review distribution', { count: roles.totalRoles })
     ],
     recommendations: [
-      'Consider adding validation steps for data quality',
-      'Implement parallel processing where possible',
-      'Add decision gateways for conditional logic'
+      t('Consider adding validation steps for data quality'),
+      t('Implement parallel processing where possible'),
+      t('Add decision gateways for conditional logic')
     ],
-    implementationReadiness: Math.floor(Math.random() * 3) + 7,
-    risks: ['Manual process steps may cause delays', 'Limited role separation may impact compliance'],
+    risks: [t('Manual process steps may cause delays'), t('Limited role separation may impact compliance')],
     editingSuggestions: suggestions
   };
 }
 
-function generateStakeholderDocumentation(elements: any, complexity: any, roles: any, aiInsights: any) {
+function generateStakeholderDocumentation(elements: any, complexity: any, roles: any, aiInsights: any, t: Translate) {
   return {
     business: {
-      summary: `Business process with ${elements.userTasks.length} manual tasks and ${complexity.score}/10 complexity`,
+      summary: t('Business process with {count} manual tasks and {score}/10 complexity', {
+        count: elements.userTasks.length,
+        score: complexity.score
+      }),
       keyMetrics: {
         processEfficiency: `${10 - complexity.score}/10`,
         automationLevel: `${elements.serviceTasks.length}/${elements.userTasks.length + elements.serviceTasks.length}`,
-        roleDistribution: roles.roleBalance
+        roleDistribution: t(roles.roleBalance)
       }
     },
     technical: {
-      architecture: `BPMN 2.0 compliant process with ${elements.allElements.length} total elements`,
+      architecture: t('BPMN 2.0 compliant process with {count} total elements', { count: elements.allElements.length }),
       integrationPoints: elements.serviceTasks.length,
       complexityAnalysis: complexity
     },
     changeManagement: {
       impactAssessment: aiInsights.risks,
-      trainingNeeds: roles.roles.map((role: any) => `${role.name} role training required`),
-      timeline: "2-4 weeks implementation based on complexity"
+      trainingNeeds: roles.roles.map((role: any) => t('{name} role training required', { name: role.name })),
+      timeline: t('2-4 weeks implementation based on complexity')
     }
   };
 }
 
-function generateEnhancedFindings(elements: any, complexity: any, roles: any, aiInsights: any) {
-  const findings = [];
-  
-  // Complexity-based findings
-  if (complexity.score > 7) {
-    findings.push({
-      id: 'complexity_high',
-      severity: 'warning',
-      ruleName: 'Process Complexity',
-      message: 'High process complexity detected',
-      description: 'Consider breaking down into smaller sub-processes',
-      elementName: 'Process',
-      elementId: 'process'
-    });
-  }
-  
-  // Role distribution findings
-  if (roles.totalRoles === 0) {
-    findings.push({
-      id: 'no_roles',
-      severity: 'error',
-      ruleName: 'Role Definition',
-      message: 'No roles or lanes defined',
-      description: 'Add swimlanes to clearly define responsibilities',
-      elementName: 'Process',
-      elementId: 'process'
-    });
+// Pack preferences of the requesting user and suppressions recorded on the file
+async function loadRuleSettings(supabase: any, userId: string | null, fileId: string): Promise<RuleSettings> {
+  const settings: RuleSettings = { packOverrides: {}, suppressions: [] };
+
+  if (userId) {
+    const { data: packRows, error: packError } = await supabase
+      .from('analysis_rule_pack_settings')
+      .select('pack_id, enabled')
+      .eq('user_id', userId);
+
+    if (packError) {
+      console.error('Failed to load rule pack settings:', packError);
+    }
+    for (const row of packRows || []) {
+      settings.packOverrides[row.pack_id] = row.enabled;
+    }
   }
-  
-  // Task-specific findings
-  if (elements.userTasks.length > elements.serviceTasks.length * 2) {
-    findings.push({
-      id: 'manual_heavy',
-      severity: 'info',
-      ruleName: 'Automation Opportunity',
-      message: 'Process is heavily manual',
-      description: 'Consider automating repetitive tasks',
-      elementName: 'Process',
-      elementId: 'process'
-    });
+
+  const { data: suppressionRows, error: suppressionError } = await supabase
+    .from('analysis_finding_suppressions')
+    .select('id, rule_id, element_id, justification')
+    .eq('file_id', fileId);
+
+  if (suppressionError) {
+    console.error('Failed to load finding suppressions:', suppressionError);
   }
-  
-  return findings;
+  settings.suppressions = (suppressionRows || []).map((row: any) => ({
+    id: row.id,
+    ruleId: row.rule_id,
+    elementId: row.element_id,
+    justification: row.justification
+  }));
+
+  return settings;
 }
 
 serve(async (req) => {
@@ -929,16 +693,61 @@ serve(async (req) => {
     const bpmnXml = await fileData.text();
     console.log('BPMN file downloaded, size:', bpmnXml.length);
 
+    // Rule pack preferences belong to the caller; anonymous calls use the defaults
+    const token = req.headers.get('authorization')?.replace('Bearer ', '');
+    const { data: authData } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    const userId = authData.user?.id || null;
+    const ruleSettings = await loadRuleSettings(supabase, userId, fileId);
+    const locale = await loadUserLocale(supabase, userId);
+
+    // Budgets are per user, so anonymous calls and users over a hard limit get the
+    // rule-based insights instead of a model call
+    let aiBudget: BudgetNotice | null = null;
+    let useAI = !!userId;
+    if (userId) {
+      try {
+        aiBudget = await checkAiBudget(supabase, userId);
+      } catch (error) {
+        if (!(error instanceof AiBudgetExceededError)) throw error;
+        aiBudget = error.notice;
+        useAI = false;
+      }
+    }
+
     // Perform enhanced analysis
-    const analysisResult = await performEnhancedBPMNAnalysis(bpmnXml, fileId, filePath);
+    const { llmUsage, piiRedaction, ...analysisResult } = await performEnhancedBPMNAnalysis(bpmnXml, fileId, filePath, ruleSettings, useAI, locale);
     
     console.log('Analysis completed successfully');
+    console.log('Findings:', analysisResult.findings.length, 'active,', analysisResult.suppressedFindings.length, 'suppressed');
     console.log('Export data generated:', {
       numberedElements: analysisResult.exportData?.numberedElements?.length || 0,
       swimLanes: Object.keys(analysisResult.exportData?.laneDefinitions || {}).length
     });
     console.log('Editing suggestions generated:', analysisResult.processIntelligence.editingSuggestions.length);
 
+    // Log model usage for cost tracking
+    if (llmUsage && userId) {
+      const { error: usageError } = await supabase
+        .from('ai_usage_logs')
+        .insert({
+          user_id: userId,
+          operation_type: 'analysis',
+          ...usageLogFields(llmUsage),
+          cost_usd: await usageCostUsd(supabase, llmUsage),
+          bpmn_file_id: fileId,
+          metadata: {
+            provider: llmUsage.provider,
+            estimated_usage: llmUsage.usage.estimated,
+            pii_redaction: piiRedaction,
+            locale
+          }
+        });
+
+      if (usageError) {
+        console.error('Failed to log analysis usage:', usageError);
+      }
+    }
+
     // Store analysis results in database for persistence
     const { error: insertError } = await supabase
       .from('bpmn_analysis_results')
@@ -973,7 +782,7 @@ serve(async (req) => {
       console.log('✅ Analysis results stored successfully in database');
     }
 
-    return new Response(JSON.stringify(analysisResult), {
+    return new Response(JSON.stringify({ ...analysisResult, aiBudget }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
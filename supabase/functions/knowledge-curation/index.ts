@@ -0,0 +1,240 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { z } from 'https://esm.sh/zod@3.23.8';
+import { formatValidationIssues } from '../_shared/ai-insights.ts';
+import { embedMissingKnowledge, logEmbeddingUsage } from '../_shared/knowledge-retrieval.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Reviewer actions on process_knowledge_base entries. Extracted patterns start as pending;
+// chat retrieval only uses approved entries, so every status change goes through here with
+// the reviewer recorded.
+
+const KNOWLEDGE_TYPES = ['optimization', 'risk_assessment', 'best_practice', 'implementation', 'pattern'] as const;
+
+const entryId = z.string().uuid();
+const notes = z.string().trim().max(1000).optional();
+
+const curationRequestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('approve'),
+    entryId,
+    notes,
+    expiresAt: z.string().datetime({ offset: true }).nullable().optional(),
+  }),
+  z.object({ action: z.literal('reject'), entryId, notes }),
+  z.object({ action: z.literal('expire'), entryId, notes }),
+  z.object({
+    action: z.literal('edit'),
+    entryId,
+    notes,
+    changes: z.object({
+      knowledgeType: z.enum(KNOWLEDGE_TYPES),
+      title: z.string().trim().min(1).max(200),
+      description: z.string().trim().min(1).max(4000),
+      context: z.string().trim().max(4000),
+      confidence: z.number().min(0).max(1),
+      expiresAt: z.string().datetime({ offset: true }).nullable(),
+    }),
+  }),
+  // entryId is the entry that is kept; the duplicates are marked merged into it
+  z.object({ action: z.literal('merge'), entryId, notes, duplicateIds: z.array(entryId).min(1).max(50) }),
+]);
+
+type CurationRequest = z.infer<typeof curationRequestSchema>;
+
+class CurationError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+async function loadEntry(supabase: SupabaseClient, id: string) {
+  const { data, error } = await supabase
+    .from('process_knowledge_base')
+    .select('id, review_status, extracted_insights, expires_at, source_session_ids')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load knowledge entry: ${error.message}`);
+  if (!data) throw new CurationError('Knowledge entry not found', 404);
+  return data;
+}
+
+// Approving keeps a future expiry date, but clears one that has passed (re-approval)
+function approvedUntil(requested: string | null | undefined, current: string | null) {
+  if (requested !== undefined) return requested;
+  return current && new Date(current) > new Date() ? current : null;
+}
+
+async function applyCuration(supabase: SupabaseClient, request: CurationRequest, reviewerId: string) {
+  const entry = await loadEntry(supabase, request.entryId);
+  if (entry.review_status === 'merged') {
+    throw new CurationError('This entry was merged into another entry; curate that one instead', 409);
+  }
+
+  const review = {
+    reviewed_by: reviewerId,
+    reviewed_at: new Date().toISOString(),
+    review_notes: request.notes || null,
+  };
+
+  switch (request.action) {
+    case 'approve':
+    case 'reject':
+    case 'expire': {
+      const status = { approve: 'approved', reject: 'rejected', expire: 'expired' }[request.action];
+      const { error } = await supabase
+        .from('process_knowledge_base')
+        .update({
+          ...review,
+          review_status: status,
+          ...(request.action === 'approve' ? { expires_at: approvedUntil(request.expiresAt, entry.expires_at) } : {}),
+          ...(request.action === 'expire' ? { expires_at: review.reviewed_at } : {}),
+        })
+        .eq('id', entry.id);
+      if (error) throw new Error(`Failed to update knowledge entry: ${error.message}`);
+      return { status };
+    }
+
+    case 'edit': {
+      const { changes } = request;
+      const insights = (entry.extracted_insights || {}) as Record<string, unknown>;
+      const { error } = await supabase
+        .from('process_knowledge_base')
+        .update({
+          ...review,
+          knowledge_type: changes.knowledgeType,
+          confidence_score: changes.confidence,
+          expires_at: changes.expiresAt,
+          extracted_insights: {
+            ...insights,
+            title: changes.title,
+            description: changes.description,
+            context: changes.context,
+          },
+          // Re-embedded below, so retrieval matches the edited text
+          embedding: null,
+          embedding_model: null,
+          embedded_at: null,
+        })
+        .eq('id', entry.id);
+      if (error) throw new Error(`Failed to update knowledge entry: ${error.message}`);
+
+      let embeddedEntries = 0;
+      try {
+        const embedding = await embedMissingKnowledge(supabase);
+        if (embedding) {
+          embeddedEntries = embedding.embeddings.length;
+          await logEmbeddingUsage(supabase, embedding, {
+            userId: reviewerId,
+            purpose: 'knowledge_curation',
+            texts: embeddedEntries
+          });
+        }
+      } catch (embeddingError) {
+        // The entry stays without an embedding until the next extraction backfills it
+        console.error('Failed to re-embed the edited knowledge entry:', embeddingError);
+      }
+      return { status: entry.review_status, embeddedEntries };
+    }
+
+    case 'merge': {
+      const duplicateIds = [...new Set(request.duplicateIds)].filter(id => id !== entry.id);
+      if (duplicateIds.length === 0) {
+        throw new CurationError('Select at least one other entry to merge', 400);
+      }
+
+      const { data: duplicates, error } = await supabase
+        .from('process_knowledge_base')
+        .update({ ...review, review_status: 'merged', merged_into_id: entry.id })
+        .in('id', duplicateIds)
+        .select('source_session_ids');
+      if (error) throw new Error(`Failed to merge knowledge entries: ${error.message}`);
+
+      // The kept entry's provenance covers the sessions of its duplicates
+      const sessionIds = new Set<string>(entry.source_session_ids || []);
+      for (const duplicate of duplicates || []) {
+        for (const sessionId of duplicate.source_session_ids || []) sessionIds.add(sessionId);
+      }
+      const { error: provenanceError } = await supabase
+        .from('process_knowledge_base')
+        .update({ source_session_ids: [...sessionIds] })
+        .eq('id', entry.id);
+      if (provenanceError) console.error('Failed to update the merged provenance:', provenanceError);
+
+      // Entries merged into the duplicates earlier now point at the kept entry
+      const { error: repointError } = await supabase
+        .from('process_knowledge_base')
+        .update({ merged_into_id: entry.id })
+        .in('merged_into_id', duplicateIds);
+      if (repointError) console.error('Failed to repoint earlier merges:', repointError);
+
+      // Usage and feedback of the duplicates now count toward the kept entry
+      const { error: scoreError } = await supabase.rpc('score_knowledge_entries', { p_knowledge_ids: [entry.id] });
+      if (scoreError) console.error('Failed to rescore the merged knowledge entry:', scoreError);
+
+      console.log(`🔗 Merged ${duplicateIds.length} knowledge entries into ${entry.id}`);
+      return { status: entry.review_status, mergedEntries: duplicateIds.length };
+    }
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const jsonResponse = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+  try {
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Missing required environment variables');
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header provided' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authorization token' }, 401);
+    }
+
+    const { data: isAdmin, error: roleError } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+    if (roleError) throw new Error(`Failed to check the reviewer role: ${roleError.message}`);
+    if (!isAdmin) {
+      return jsonResponse({ error: 'Only admins can curate the knowledge base' }, 403);
+    }
+
+    const parsed = curationRequestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return jsonResponse({ error: formatValidationIssues(parsed.error) }, 400);
+    }
+
+    console.log(`📚 Knowledge curation: ${parsed.data.action} ${parsed.data.entryId} by ${user.id}`);
+    const result = await applyCuration(supabase, parsed.data, user.id);
+
+    return jsonResponse({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof CurationError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error('Error in knowledge-curation function:', error);
+    return jsonResponse({ error: (error as Error).message || 'Internal server error' }, 500);
+  }
+});
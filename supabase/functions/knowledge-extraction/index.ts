@@ -1,6 +1,13 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { completeChat, usageLogFields } from '../_shared/llm/index.ts';
+import { usageCostUsd } from '../_shared/pricing.ts';
+import { AiBudgetExceededError, budgetExceededResponse, checkAiBudget } from '../_shared/budget.ts';
+import { embedMissingKnowledge, logEmbeddingUsage } from '../_shared/knowledge-retrieval.ts';
+import { storeKnowledgePatterns } from '../_shared/knowledge-dedup.ts';
+import { PiiRedactor } from '../_shared/pii-redaction.ts';
+import { conversationPath } from '../_shared/chat-context.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -19,11 +26,10 @@ serve(async (req) => {
   }
 
   try {
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
     const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
-    if (!OPENAI_API_KEY || !SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
       throw new Error('Missing required environment variables');
     }
 
@@ -37,7 +43,7 @@ serve(async (req) => {
     // Get session with BPMN context
     const { data: session, error: sessionError } = await supabase
       .from('ai_chat_sessions')
-      .select('user_id, bpmn_file_id, session_context')
+      .select('user_id, bpmn_file_id, session_context, active_message_id')
       .eq('id', sessionId)
       .single();
 
@@ -45,18 +51,19 @@ serve(async (req) => {
       throw new Error('Session not found');
     }
 
-    // Get conversation messages
-    const { data: messages, error: messagesError } = await supabase
+    // Get conversation messages of the branch the user is on (other branches are left out)
+    const { data: sessionMessages, error: messagesError } = await supabase
       .from('ai_chat_messages')
-      .select('role, content, created_at')
+      .select('id, parent_message_id, role, content, created_at')
       .eq('session_id', sessionId)
       .order('created_at', { ascending: true });
 
     if (messagesError) {
       throw new Error('Failed to get conversation messages');
     }
+    const messages = conversationPath(sessionMessages || [], session.active_message_id);
 
-    if (!messages || messages.length < 2) {
+    if (messages.length < 2) {
       return new Response(JSON.stringify({ 
         message: 'Not enough conversation data for extraction' 
       }), {
@@ -64,12 +71,17 @@ serve(async (req) => {
       });
     }
 
-    // Prepare conversation for analysis
-    const conversationText = messages
-      .map(msg => `${msg.role.toUpperCase()}: ${msg.content}`)
-      .join('\n\n');
+    // Prepare conversation for analysis. Personal data stays redacted: the placeholders are
+    // not restored, so reusable patterns never carry names or figures from one conversation.
+    const redactor = new PiiRedactor();
+    const conversationText = redactor.redact(
+      messages.map(msg => `${msg.role.toUpperCase()}: ${msg.content}`).join('\n\n'),
+      'conversation'
+    );
 
-    // Extract knowledge using OpenAI
+    await checkAiBudget(supabase, session.user_id);
+
+    // Extract knowledge using the configured model
     const extractionPrompt = `Analyze this HRIS process consultation conversation and extract valuable knowledge for future use. Focus on:
 
 1. **Process Optimization Patterns**: Specific optimization strategies that worked well
@@ -95,38 +107,22 @@ Return a JSON object with this structure:
 CONVERSATION:
 ${conversationText}`;
 
-    console.log('Sending extraction request to OpenAI');
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert knowledge extraction system specializing in HRIS processes. Extract actionable insights and patterns from conversations that can be reused to help future consultations.'
-          },
-          {
-            role: 'user',
-            content: extractionPrompt
-          }
-        ],
-        max_tokens: 2000,
-        temperature: 0.3
-      }),
+    console.log('Sending extraction request');
+
+    const completion = await completeChat('knowledge_extraction', {
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an expert knowledge extraction system specializing in HRIS processes. Extract actionable insights and patterns from conversations that can be reused to help future consultations.'
+        },
+        {
+          role: 'user',
+          content: extractionPrompt
+        }
+      ]
     });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const aiResponse = await response.json();
-    const extractedContent = aiResponse.choices[0].message.content;
-    const usage = aiResponse.usage;
+    const extractedContent = completion.content;
+    const usage = completion.usage;
 
     console.log('Received extraction response:', extractedContent.substring(0, 200));
 
@@ -150,30 +146,53 @@ ${conversationText}`;
       };
     }
 
-    // Store patterns in knowledge base
-    const insertPromises = extractedKnowledge.patterns.map((pattern: any) => {
-      return supabase
-        .from('process_knowledge_base')
-        .insert({
-          knowledge_type: pattern.type,
-          bpmn_context: session.session_context,
-          extracted_insights: {
-            title: pattern.title,
-            description: pattern.description,
-            context: pattern.context,
-            applicability: pattern.applicability,
-            extracted_from_session: sessionId,
-            conversation_summary: extractedKnowledge.summary
-          },
-          confidence_score: Math.min(Math.max(pattern.confidence || 0.5, 0), 1),
-          source_session_id: sessionId
+    // Embed older entries still without an embedding first, so new patterns can match them
+    let embeddedEntries = 0;
+    try {
+      const embedding = await embedMissingKnowledge(supabase);
+      if (embedding) {
+        embeddedEntries = embedding.embeddings.length;
+        await logEmbeddingUsage(supabase, embedding, {
+          userId: session.user_id,
+          sessionId,
+          bpmnFileId: session.bpmn_file_id,
+          purpose: 'knowledge_backfill',
+          texts: embeddedEntries
         });
-    });
-
-    const insertResults = await Promise.allSettled(insertPromises);
-    const successfulInserts = insertResults.filter(result => result.status === 'fulfilled').length;
+      }
+    } catch (embeddingError) {
+      console.error('Failed to embed existing knowledge entries:', embeddingError);
+    }
 
-    console.log(`Successfully inserted ${successfulInserts} knowledge patterns`);
+    // Store patterns in knowledge base, merging near-duplicates into existing entries
+    const stored = await storeKnowledgePatterns(
+      supabase,
+      extractedKnowledge.patterns.map((pattern: any) => ({
+        knowledgeType: pattern.type,
+        insights: {
+          title: pattern.title,
+          description: pattern.description,
+          context: pattern.context,
+          applicability: pattern.applicability,
+          extracted_from_session: sessionId,
+          conversation_summary: extractedKnowledge.summary
+        },
+        confidence: Math.min(Math.max(pattern.confidence || 0.5, 0), 1)
+      })),
+      { sessionId, bpmnContext: session.session_context }
+    );
+
+    console.log(`Successfully inserted ${stored.inserted} knowledge patterns`);
+
+    if (stored.embedding) {
+      await logEmbeddingUsage(supabase, stored.embedding, {
+        userId: session.user_id,
+        sessionId,
+        bpmnFileId: session.bpmn_file_id,
+        purpose: 'knowledge_dedup',
+        texts: stored.embedding.embeddings.length
+      });
+    }
 
     // Log the extraction usage
     await supabase
@@ -181,16 +200,17 @@ ${conversationText}`;
       .insert({
         user_id: session.user_id,
         operation_type: 'knowledge_extraction',
-        model_used: 'gpt-4o-mini',
-        prompt_tokens: usage.prompt_tokens,
-        completion_tokens: usage.completion_tokens,
-        total_tokens: usage.total_tokens,
-        cost_usd: usage.total_tokens * 0.000001,
+        ...usageLogFields(completion),
+        cost_usd: await usageCostUsd(supabase, completion),
         session_id: sessionId,
         bpmn_file_id: session.bpmn_file_id,
         metadata: { 
-          patterns_extracted: successfulInserts,
-          extraction_summary: extractedKnowledge.summary
+          patterns_extracted: stored.inserted,
+          patterns_merged: stored.merged,
+          extraction_summary: extractedKnowledge.summary,
+          provider: completion.provider,
+          estimated_usage: usage.estimated,
+          pii_redaction: redactor.report()
         }
       });
 
@@ -216,7 +236,9 @@ ${conversationText}`;
 
     return new Response(JSON.stringify({
       success: true,
-      patternsExtracted: successfulInserts,
+      patternsExtracted: stored.inserted,
+      patternsMerged: stored.merged,
+      embeddedEntries,
       summary: extractedKnowledge.summary,
       backupFile: fileName,
       usage: usage
@@ -225,6 +247,9 @@ ${conversationText}`;
     });
 
   } catch (error) {
+    if (error instanceof AiBudgetExceededError) {
+      return budgetExceededResponse(error, corsHeaders);
+    }
     console.error('Error in knowledge-extraction function:', error);
     return new Response(JSON.stringify({ 
       error: error.message || 'Internal server error' 
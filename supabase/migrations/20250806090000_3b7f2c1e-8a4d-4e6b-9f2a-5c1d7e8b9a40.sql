@@ -0,0 +1,66 @@
+-- Rule pack preferences per user and finding suppressions per BPMN file
+CREATE TABLE public.analysis_rule_pack_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  pack_id TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, pack_id)
+);
+
+CREATE TABLE public.analysis_finding_suppressions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id UUID NOT NULL REFERENCES public.bpmn_files(id) ON DELETE CASCADE,
+  rule_id TEXT NOT NULL,
+  element_id TEXT NOT NULL DEFAULT 'process',
+  justification TEXT NOT NULL CHECK (length(trim(justification)) > 0),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(file_id, rule_id, element_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.analysis_rule_pack_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.analysis_finding_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own rule pack settings"
+ON public.analysis_rule_pack_settings
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage suppressions for their files"
+ON public.analysis_finding_suppressions
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.bpmn_files bf
+    WHERE bf.id = analysis_finding_suppressions.file_id
+    AND bf.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  auth.uid() = user_id AND
+  EXISTS (
+    SELECT 1 FROM public.bpmn_files bf
+    WHERE bf.id = analysis_finding_suppressions.file_id
+    AND bf.user_id = auth.uid()
+  )
+);
+
+-- Indexes
+CREATE INDEX idx_analysis_rule_pack_settings_user ON public.analysis_rule_pack_settings(user_id);
+CREATE INDEX idx_analysis_finding_suppressions_file ON public.analysis_finding_suppressions(file_id);
+
+-- updated_at triggers
+CREATE TRIGGER update_analysis_rule_pack_settings_updated_at
+BEFORE UPDATE ON public.analysis_rule_pack_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_analysis_finding_suppressions_updated_at
+BEFORE UPDATE ON public.analysis_finding_suppressions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,101 @@
+-- Model pricing catalog with effective dates. ai_usage_logs.cost_usd is computed from the
+-- price in effect when the call was made, and can be recomputed after a price correction.
+CREATE TABLE public.ai_model_pricing (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_usd_per_million NUMERIC(12,6) NOT NULL CHECK (prompt_usd_per_million >= 0),
+  completion_usd_per_million NUMERIC(12,6) NOT NULL CHECK (completion_usd_per_million >= 0),
+  effective_from TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(model, effective_from)
+);
+
+ALTER TABLE public.ai_model_pricing ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view model pricing"
+ON public.ai_model_pricing
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage model pricing"
+ON public.ai_model_pricing
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_ai_model_pricing_model ON public.ai_model_pricing(model, effective_from DESC);
+
+CREATE TRIGGER update_ai_model_pricing_updated_at
+BEFORE UPDATE ON public.ai_model_pricing
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- List prices (USD per 1M tokens) at the time of writing
+INSERT INTO public.ai_model_pricing (provider, model, prompt_usd_per_million, completion_usd_per_million, effective_from, notes) VALUES
+  ('openai', 'gpt-4o-mini', 0.15, 0.60, '2024-07-18', 'OpenAI list price'),
+  ('openai', 'gpt-4o', 2.50, 10.00, '2024-10-01', 'OpenAI list price'),
+  ('openai', 'gpt-4.1-mini', 0.40, 1.60, '2025-04-14', 'OpenAI list price'),
+  ('openai', 'gpt-4.1', 2.00, 8.00, '2025-04-14', 'OpenAI list price'),
+  ('anthropic', 'claude-3-5-haiku', 0.80, 4.00, '2024-11-04', 'Anthropic list price'),
+  ('anthropic', 'claude-3-5-sonnet', 3.00, 15.00, '2024-06-20', 'Anthropic list price'),
+  ('anthropic', 'claude-sonnet-4', 3.00, 15.00, '2025-05-22', 'Anthropic list price'),
+  ('openai-compatible', 'llama3.1', 0, 0, '2024-07-23', 'Self-hosted'),
+  ('offline', 'offline-stub', 0, 0, '2024-01-01', 'Deterministic test stub');
+
+-- Price of a call: the catalog entry in effect at p_at whose model matches exactly or is
+-- the prefix of a dated model version (gpt-4o-mini matches gpt-4o-mini-2024-07-18).
+-- Returns NULL when the model has no price, so unpriced usage stays visible.
+CREATE OR REPLACE FUNCTION public.ai_model_cost(
+  p_model TEXT,
+  p_prompt_tokens INTEGER,
+  p_completion_tokens INTEGER,
+  p_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS NUMERIC AS $$
+  SELECT ROUND(
+    (p_prompt_tokens * p.prompt_usd_per_million + p_completion_tokens * p.completion_usd_per_million) / 1000000,
+    6
+  )
+  FROM public.ai_model_pricing p
+  WHERE (p.model = p_model OR left(p_model, length(p.model) + 1) = p.model || '-')
+    AND p.effective_from <= p_at
+  ORDER BY length(p.model) DESC, p.effective_from DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Re-price logged usage after the catalog changed. Optional filters limit the update to
+-- one model (prefix match as above) and/or to calls since a date. Rows of models without a
+-- price keep their logged cost. Returns the number of rows whose cost changed.
+CREATE OR REPLACE FUNCTION public.recompute_ai_usage_costs(
+  p_model TEXT DEFAULT NULL,
+  p_since TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  IF auth.role() <> 'service_role' AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only administrators can recompute usage costs';
+  END IF;
+
+  UPDATE public.ai_usage_logs l
+  SET cost_usd = public.ai_model_cost(l.model_used, l.prompt_tokens, l.completion_tokens, l.created_at)
+  WHERE (p_model IS NULL OR l.model_used = p_model OR left(l.model_used, length(p_model) + 1) = p_model || '-')
+    AND (p_since IS NULL OR l.created_at >= p_since)
+    AND public.ai_model_cost(l.model_used, l.prompt_tokens, l.completion_tokens, l.created_at) IS NOT NULL
+    AND l.cost_usd IS DISTINCT FROM public.ai_model_cost(l.model_used, l.prompt_tokens, l.completion_tokens, l.created_at);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Re-price existing rows, which were logged with a flat per-token estimate; rows of
+-- unpriced models keep that estimate
+UPDATE public.ai_usage_logs
+SET cost_usd = public.ai_model_cost(model_used, prompt_tokens, completion_tokens, created_at)
+WHERE public.ai_model_cost(model_used, prompt_tokens, completion_tokens, created_at) IS NOT NULL;
@@ -0,0 +1,203 @@
+-- Monthly AI usage budgets per user and per organization, checked by the edge functions
+-- before every model call
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.organization_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(organization_id, user_id)
+);
+
+-- A row with neither user_id nor organization_id is the default budget for every user
+-- without a budget of their own. A NULL limit means unlimited. With hard_limit off the
+-- budget only warns (admin override for users who must not be blocked).
+CREATE TABLE public.ai_usage_budgets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  monthly_token_limit BIGINT CHECK (monthly_token_limit >= 0),
+  monthly_usd_limit NUMERIC(10,2) CHECK (monthly_usd_limit >= 0),
+  warning_threshold NUMERIC(3,2) NOT NULL DEFAULT 0.80 CHECK (warning_threshold > 0 AND warning_threshold <= 1),
+  hard_limit BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (user_id IS NULL OR organization_id IS NULL)
+);
+
+CREATE UNIQUE INDEX idx_ai_usage_budgets_user ON public.ai_usage_budgets(user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_ai_usage_budgets_organization ON public.ai_usage_budgets(organization_id) WHERE organization_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_ai_usage_budgets_default ON public.ai_usage_budgets((true)) WHERE user_id IS NULL AND organization_id IS NULL;
+CREATE INDEX idx_organization_members_user ON public.organization_members(user_id);
+CREATE INDEX idx_ai_usage_logs_user_created ON public.ai_usage_logs(user_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_usage_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organizations"
+ON public.organizations
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.organization_members om
+    WHERE om.organization_id = organizations.id
+    AND om.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can manage organizations"
+ON public.organizations
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their own memberships"
+ON public.organization_members
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage organization members"
+ON public.organization_members
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view budgets that apply to them"
+ON public.ai_usage_budgets
+FOR SELECT
+USING (
+  auth.uid() = user_id OR
+  (user_id IS NULL AND organization_id IS NULL) OR
+  EXISTS (
+    SELECT 1 FROM public.organization_members om
+    WHERE om.organization_id = ai_usage_budgets.organization_id
+    AND om.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can manage budgets"
+ON public.ai_usage_budgets
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Admins see everyone's usage to set budgets
+CREATE POLICY "Admins can view all usage logs"
+ON public.ai_usage_logs
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- updated_at triggers
+CREATE TRIGGER update_organizations_updated_at
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_ai_usage_budgets_updated_at
+BEFORE UPDATE ON public.ai_usage_budgets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Month-to-date usage against every budget that applies to a user: their own budget (or
+-- the default budget) and the budgets of their organizations. Status per budget and
+-- overall is 'ok', 'warning' (warning threshold reached, or over a budget without a hard
+-- limit) or 'exceeded' (a hard limit is reached; model calls must be refused).
+CREATE OR REPLACE FUNCTION public.ai_budget_status(p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  period_start TIMESTAMP WITH TIME ZONE := date_trunc('month', now());
+  budget RECORD;
+  tokens_used BIGINT;
+  usd_used NUMERIC;
+  usage_ratio NUMERIC;
+  budget_status TEXT;
+  overall_status TEXT := 'ok';
+  results JSONB := '[]'::jsonb;
+BEGIN
+  -- The edge functions call this with the service role; users only for themselves
+  IF auth.role() <> 'service_role'
+     AND auth.uid() IS DISTINCT FROM p_user_id
+     AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not allowed to read the budget status of another user';
+  END IF;
+
+  FOR budget IN
+    SELECT * FROM (
+      (
+        SELECT b.*, CASE WHEN b.user_id IS NULL THEN 'default' ELSE 'user' END AS scope, NULL::TEXT AS organization_name
+        FROM public.ai_usage_budgets b
+        WHERE b.organization_id IS NULL AND (b.user_id = p_user_id OR b.user_id IS NULL)
+        ORDER BY b.user_id NULLS LAST
+        LIMIT 1
+      )
+      UNION ALL
+      SELECT b.*, 'organization' AS scope, o.name AS organization_name
+      FROM public.ai_usage_budgets b
+      JOIN public.organizations o ON o.id = b.organization_id
+      JOIN public.organization_members om ON om.organization_id = b.organization_id
+      WHERE om.user_id = p_user_id
+    ) applicable
+  LOOP
+    SELECT COALESCE(SUM(l.total_tokens), 0), COALESCE(SUM(l.cost_usd), 0)
+    INTO tokens_used, usd_used
+    FROM public.ai_usage_logs l
+    WHERE l.created_at >= period_start
+      AND (
+        (budget.scope <> 'organization' AND l.user_id = p_user_id) OR
+        (budget.scope = 'organization' AND l.user_id IN (
+          SELECT om.user_id FROM public.organization_members om WHERE om.organization_id = budget.organization_id
+        ))
+      );
+
+    usage_ratio := GREATEST(
+      CASE WHEN budget.monthly_token_limit IS NULL THEN 0
+           WHEN budget.monthly_token_limit = 0 THEN 1
+           ELSE tokens_used::NUMERIC / budget.monthly_token_limit END,
+      CASE WHEN budget.monthly_usd_limit IS NULL THEN 0
+           WHEN budget.monthly_usd_limit = 0 THEN 1
+           ELSE usd_used / budget.monthly_usd_limit END
+    );
+
+    budget_status := CASE
+      WHEN usage_ratio >= 1 AND budget.hard_limit THEN 'exceeded'
+      WHEN usage_ratio >= budget.warning_threshold THEN 'warning'
+      ELSE 'ok'
+    END;
+
+    IF budget_status = 'exceeded' OR (budget_status = 'warning' AND overall_status = 'ok') THEN
+      overall_status := budget_status;
+    END IF;
+
+    results := results || jsonb_build_object(
+      'budget_id', budget.id,
+      'scope', budget.scope,
+      'organization_id', budget.organization_id,
+      'organization_name', budget.organization_name,
+      'tokens_used', tokens_used,
+      'usd_used', ROUND(usd_used, 6),
+      'token_limit', budget.monthly_token_limit,
+      'usd_limit', budget.monthly_usd_limit,
+      'usage_ratio', ROUND(usage_ratio, 4),
+      'warning_threshold', budget.warning_threshold,
+      'hard_limit', budget.hard_limit,
+      'status', budget_status
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'status', overall_status,
+    'period_start', period_start,
+    'budgets', results
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
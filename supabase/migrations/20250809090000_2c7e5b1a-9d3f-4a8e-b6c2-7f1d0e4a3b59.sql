@@ -0,0 +1,19 @@
+-- Chat session history: named sessions per BPMN file and search across past messages
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE public.ai_chat_sessions
+ADD COLUMN title TEXT;
+
+-- Existing sessions are named after their first user message
+UPDATE public.ai_chat_sessions s
+SET title = left(m.content, 80)
+FROM (
+  SELECT DISTINCT ON (session_id) session_id, content
+  FROM public.ai_chat_messages
+  WHERE role = 'user'
+  ORDER BY session_id, created_at
+) m
+WHERE m.session_id = s.id;
+
+CREATE INDEX idx_ai_chat_sessions_history ON public.ai_chat_sessions(user_id, bpmn_file_id, last_activity_at DESC);
+CREATE INDEX idx_ai_chat_messages_content_trgm ON public.ai_chat_messages USING gin (content gin_trgm_ops);
@@ -0,0 +1,12 @@
+-- Rolling chat summaries: session_summary covers every message up to summarized_until,
+-- later messages are sent to the model as they are
+ALTER TABLE public.ai_chat_sessions
+ADD COLUMN summarized_until TIMESTAMP WITH TIME ZONE;
+
+-- Summarization calls are logged as their own operation
+ALTER TABLE public.ai_usage_logs
+DROP CONSTRAINT IF EXISTS ai_usage_logs_operation_type_check;
+
+ALTER TABLE public.ai_usage_logs
+ADD CONSTRAINT ai_usage_logs_operation_type_check
+CHECK (operation_type IN ('chat', 'chat_summary', 'analysis', 'knowledge_extraction'));
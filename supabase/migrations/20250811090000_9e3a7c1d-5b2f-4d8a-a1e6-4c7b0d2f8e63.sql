@@ -0,0 +1,47 @@
+-- Semantic retrieval over the knowledge base: one embedding per entry (pgvector), filled
+-- by knowledge-extraction and searched by ai-chat with the current question
+CREATE EXTENSION IF NOT EXISTS vector;
+
+ALTER TABLE public.process_knowledge_base
+ADD COLUMN embedding vector(1536),
+ADD COLUMN embedding_model TEXT,
+ADD COLUMN embedded_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_process_knowledge_base_embedding
+ON public.process_knowledge_base USING hnsw (embedding vector_cosine_ops);
+
+-- Entries closest to the query embedding (cosine similarity, 1 = same direction)
+CREATE OR REPLACE FUNCTION public.match_process_knowledge(
+  p_query_embedding vector(1536),
+  p_match_count INTEGER DEFAULT 5,
+  p_min_confidence NUMERIC DEFAULT 0.7
+)
+RETURNS TABLE (
+  id UUID,
+  knowledge_type TEXT,
+  extracted_insights JSONB,
+  confidence_score NUMERIC,
+  effectiveness_score NUMERIC,
+  similarity DOUBLE PRECISION
+) AS $$
+  SELECT k.id, k.knowledge_type, k.extracted_insights, k.confidence_score, k.effectiveness_score,
+    1 - (k.embedding <=> p_query_embedding) AS similarity
+  FROM public.process_knowledge_base k
+  WHERE k.embedding IS NOT NULL
+    AND k.confidence_score >= p_min_confidence
+  ORDER BY k.embedding <=> p_query_embedding
+  LIMIT p_match_count;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Embedding calls are logged and priced like completions
+ALTER TABLE public.ai_usage_logs
+DROP CONSTRAINT IF EXISTS ai_usage_logs_operation_type_check;
+
+ALTER TABLE public.ai_usage_logs
+ADD CONSTRAINT ai_usage_logs_operation_type_check
+CHECK (operation_type IN ('chat', 'chat_summary', 'analysis', 'knowledge_extraction', 'embedding'));
+
+INSERT INTO public.ai_model_pricing (provider, model, prompt_usd_per_million, completion_usd_per_million, effective_from, notes) VALUES
+  ('openai', 'text-embedding-3-small', 0.02, 0, '2024-01-25', 'OpenAI list price'),
+  ('openai', 'text-embedding-3-large', 0.13, 0, '2024-01-25', 'OpenAI list price'),
+  ('offline', 'offline-embedding', 0, 0, '2024-01-01', 'Deterministic test stub');
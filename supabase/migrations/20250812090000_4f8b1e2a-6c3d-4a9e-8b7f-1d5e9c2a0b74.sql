@@ -0,0 +1,180 @@
+-- Feedback on chat answers (thumbs up/down, "applied this advice"), attributed to the
+-- knowledge entries each answer used (ai_message_knowledge)
+CREATE TABLE public.ai_message_feedback (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.ai_chat_messages(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  rating SMALLINT CHECK (rating IN (-1, 1)),
+  applied BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(message_id, user_id)
+);
+
+ALTER TABLE public.ai_message_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage feedback on their chat messages"
+ON public.ai_message_feedback
+FOR ALL
+USING (
+  auth.uid() = user_id AND EXISTS (
+    SELECT 1 FROM public.ai_chat_messages m
+    JOIN public.ai_chat_sessions s ON s.id = m.session_id
+    WHERE m.id = ai_message_feedback.message_id
+    AND s.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  auth.uid() = user_id AND EXISTS (
+    SELECT 1 FROM public.ai_chat_messages m
+    JOIN public.ai_chat_sessions s ON s.id = m.session_id
+    WHERE m.id = ai_message_feedback.message_id
+    AND s.user_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_ai_message_feedback_updated_at
+  BEFORE UPDATE ON public.ai_message_feedback
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Knowledge entries used by a chat answer, written by ai-chat only. Scores are shared by
+-- every user, so they are not derived from message metadata, which clients can edit.
+CREATE TABLE public.ai_message_knowledge (
+  message_id UUID NOT NULL REFERENCES public.ai_chat_messages(id) ON DELETE CASCADE,
+  knowledge_id UUID NOT NULL REFERENCES public.process_knowledge_base(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, knowledge_id)
+);
+
+CREATE INDEX idx_ai_message_knowledge_knowledge_id ON public.ai_message_knowledge(knowledge_id);
+
+ALTER TABLE public.ai_message_knowledge ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the knowledge used in their chat messages"
+ON public.ai_message_knowledge
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.ai_chat_messages m
+    JOIN public.ai_chat_sessions s ON s.id = m.session_id
+    WHERE m.id = ai_message_knowledge.message_id
+    AND s.user_id = auth.uid()
+  )
+);
+
+-- Answers so far recorded the entries they used in metadata.knowledgeEntries
+INSERT INTO public.ai_message_knowledge (message_id, knowledge_id, created_at)
+SELECT DISTINCT m.id, k.id, m.created_at
+FROM public.ai_chat_messages m
+CROSS JOIN LATERAL jsonb_array_elements(m.metadata->'knowledgeEntries') entry
+JOIN public.process_knowledge_base k ON k.id::TEXT = entry->>'id'
+WHERE m.role = 'assistant'
+  AND jsonb_typeof(m.metadata->'knowledgeEntries') = 'array'
+ON CONFLICT DO NOTHING;
+
+-- Scoring job: usage_count is the number of answers that used an entry, effectiveness the
+-- weighted share of positive feedback on those answers. Thumbs up counts 1, thumbs down 0,
+-- "applied" counts 1 with double weight, and every signal loses half its weight per 90
+-- days, so entries that stop helping decay. A neutral prior (0.5, weight 2) keeps entries
+-- with little feedback near the middle. NULL recomputes every entry.
+CREATE OR REPLACE FUNCTION public.score_knowledge_entries(p_knowledge_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  WITH usage AS (
+    SELECT mk.knowledge_id, mk.message_id
+    FROM public.ai_message_knowledge mk
+    WHERE p_knowledge_ids IS NULL OR mk.knowledge_id = ANY(p_knowledge_ids)
+  ),
+  signals AS (
+    SELECT u.knowledge_id, s.score,
+      s.weight * power(0.5, extract(epoch FROM now() - f.updated_at) / 86400 / 90) AS weight
+    FROM usage u
+    JOIN public.ai_message_feedback f ON f.message_id = u.message_id
+    CROSS JOIN LATERAL (VALUES
+      (CASE f.rating WHEN 1 THEN 1.0 WHEN -1 THEN 0.0 END, 1.0),
+      (CASE WHEN f.applied THEN 1.0 END, 2.0)
+    ) AS s(score, weight)
+    WHERE s.score IS NOT NULL
+  ),
+  scores AS (
+    SELECT k.id,
+      (SELECT count(*) FROM usage u WHERE u.knowledge_id = k.id)::INTEGER AS usage_count,
+      round(((1.0 + coalesce(sum(s.weight * s.score), 0)) / (2.0 + coalesce(sum(s.weight), 0)))::NUMERIC, 2) AS effectiveness
+    FROM public.process_knowledge_base k
+    LEFT JOIN signals s ON s.knowledge_id = k.id
+    WHERE p_knowledge_ids IS NULL OR k.id = ANY(p_knowledge_ids)
+    GROUP BY k.id
+  )
+  UPDATE public.process_knowledge_base k
+  SET usage_count = s.usage_count, effectiveness_score = s.effectiveness, updated_at = now()
+  FROM scores s
+  WHERE k.id = s.id
+    AND (k.usage_count IS DISTINCT FROM s.usage_count OR k.effectiveness_score IS DISTINCT FROM s.effectiveness);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the edge functions (service role) and the feedback trigger rescore entries
+REVOKE EXECUTE ON FUNCTION public.score_knowledge_entries(UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.score_knowledge_entries(UUID[]) TO service_role;
+
+-- Rescore the entries behind an answer whenever its feedback changes
+CREATE OR REPLACE FUNCTION public.score_knowledge_for_feedback()
+RETURNS TRIGGER AS $$
+DECLARE
+  knowledge_ids UUID[];
+BEGIN
+  SELECT array_agg(mk.knowledge_id) INTO knowledge_ids
+  FROM public.ai_message_knowledge mk
+  WHERE mk.message_id = CASE WHEN TG_OP = 'DELETE' THEN OLD.message_id ELSE NEW.message_id END;
+
+  IF coalesce(array_length(knowledge_ids, 1), 0) > 0 THEN
+    PERFORM public.score_knowledge_entries(knowledge_ids);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER score_knowledge_on_feedback
+  AFTER INSERT OR UPDATE OR DELETE ON public.ai_message_feedback
+  FOR EACH ROW
+  EXECUTE FUNCTION public.score_knowledge_for_feedback();
+
+-- Retrieval ranks the nearest entries by similarity weighted with effectiveness: neutral
+-- entries (0.5) keep their similarity, helpful ones move up and poor ones down
+CREATE OR REPLACE FUNCTION public.match_process_knowledge(
+  p_query_embedding vector(1536),
+  p_match_count INTEGER DEFAULT 5,
+  p_min_confidence NUMERIC DEFAULT 0.7
+)
+RETURNS TABLE (
+  id UUID,
+  knowledge_type TEXT,
+  extracted_insights JSONB,
+  confidence_score NUMERIC,
+  effectiveness_score NUMERIC,
+  similarity DOUBLE PRECISION
+) AS $$
+  SELECT nearest.*
+  FROM (
+    SELECT k.id, k.knowledge_type, k.extracted_insights, k.confidence_score, k.effectiveness_score,
+      1 - (k.embedding <=> p_query_embedding) AS similarity
+    FROM public.process_knowledge_base k
+    WHERE k.embedding IS NOT NULL
+      AND k.confidence_score >= p_min_confidence
+    ORDER BY k.embedding <=> p_query_embedding
+    LIMIT p_match_count * 4
+  ) nearest
+  ORDER BY nearest.similarity * (0.5 + coalesce(nearest.effectiveness_score, 0.5)) DESC
+  LIMIT p_match_count;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- New entries start neutral; existing ones get their score from the feedback so far
+ALTER TABLE public.process_knowledge_base ALTER COLUMN effectiveness_score SET DEFAULT 0.5;
+
+SELECT public.score_knowledge_entries();
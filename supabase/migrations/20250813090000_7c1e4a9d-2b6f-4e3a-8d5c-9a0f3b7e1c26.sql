@@ -0,0 +1,107 @@
+-- Review workflow for extracted knowledge. New patterns wait as 'pending' until a reviewer
+-- approves, edits, merges, rejects or expires them; only approved entries that have not
+-- passed expires_at are retrieved for chat prompts. Existing entries start as pending
+-- too, since nobody has reviewed them yet.
+ALTER TABLE public.process_knowledge_base
+  ADD COLUMN review_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (review_status IN ('pending', 'approved', 'rejected', 'expired', 'merged')),
+  ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN review_notes TEXT,
+  ADD COLUMN merged_into_id UUID REFERENCES public.process_knowledge_base(id) ON DELETE SET NULL,
+  ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_process_knowledge_base_review
+  ON public.process_knowledge_base(review_status, created_at DESC);
+
+-- Edge functions write with the service role; from the client only admins may change entries
+DROP POLICY "System can manage knowledge base" ON public.process_knowledge_base;
+
+CREATE POLICY "Admins can manage knowledge base"
+ON public.process_knowledge_base
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.match_process_knowledge(
+  p_query_embedding vector(1536),
+  p_match_count INTEGER DEFAULT 5,
+  p_min_confidence NUMERIC DEFAULT 0.7
+)
+RETURNS TABLE (
+  id UUID,
+  knowledge_type TEXT,
+  extracted_insights JSONB,
+  confidence_score NUMERIC,
+  effectiveness_score NUMERIC,
+  similarity DOUBLE PRECISION
+) AS $$
+  SELECT nearest.*
+  FROM (
+    SELECT k.id, k.knowledge_type, k.extracted_insights, k.confidence_score, k.effectiveness_score,
+      1 - (k.embedding <=> p_query_embedding) AS similarity
+    FROM public.process_knowledge_base k
+    WHERE k.embedding IS NOT NULL
+      AND k.review_status = 'approved'
+      AND (k.expires_at IS NULL OR k.expires_at > now())
+      AND k.confidence_score >= p_min_confidence
+    ORDER BY k.embedding <=> p_query_embedding
+    LIMIT p_match_count * 4
+  ) nearest
+  ORDER BY nearest.similarity * (0.5 + coalesce(nearest.effectiveness_score, 0.5)) DESC
+  LIMIT p_match_count;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Answers that used a merged duplicate count toward the entry it was merged into
+CREATE OR REPLACE FUNCTION public.score_knowledge_entries(p_knowledge_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  IF p_knowledge_ids IS NOT NULL THEN
+    SELECT coalesce(array_agg(DISTINCT coalesce(k.merged_into_id, k.id)), '{}') INTO p_knowledge_ids
+    FROM public.process_knowledge_base k
+    WHERE k.id = ANY(p_knowledge_ids);
+  END IF;
+
+  WITH usage AS (
+    SELECT DISTINCT coalesce(k.merged_into_id, k.id) AS knowledge_id, mk.message_id
+    FROM public.ai_message_knowledge mk
+    JOIN public.process_knowledge_base k ON k.id = mk.knowledge_id
+    WHERE (p_knowledge_ids IS NULL OR coalesce(k.merged_into_id, k.id) = ANY(p_knowledge_ids))
+  ),
+  signals AS (
+    SELECT u.knowledge_id, s.score,
+      s.weight * power(0.5, extract(epoch FROM now() - f.updated_at) / 86400 / 90) AS weight
+    FROM usage u
+    JOIN public.ai_message_feedback f ON f.message_id = u.message_id
+    CROSS JOIN LATERAL (VALUES
+      (CASE f.rating WHEN 1 THEN 1.0 WHEN -1 THEN 0.0 END, 1.0),
+      (CASE WHEN f.applied THEN 1.0 END, 2.0)
+    ) AS s(score, weight)
+    WHERE s.score IS NOT NULL
+  ),
+  scores AS (
+    SELECT k.id,
+      (SELECT count(*) FROM usage u WHERE u.knowledge_id = k.id)::INTEGER AS usage_count,
+      round(((1.0 + coalesce(sum(s.weight * s.score), 0)) / (2.0 + coalesce(sum(s.weight), 0)))::NUMERIC, 2) AS effectiveness
+    FROM public.process_knowledge_base k
+    LEFT JOIN signals s ON s.knowledge_id = k.id
+    WHERE (p_knowledge_ids IS NULL OR k.id = ANY(p_knowledge_ids))
+      AND k.review_status <> 'merged'
+    GROUP BY k.id
+  )
+  UPDATE public.process_knowledge_base k
+  SET usage_count = s.usage_count, effectiveness_score = s.effectiveness, updated_at = now()
+  FROM scores s
+  WHERE k.id = s.id
+    AND (k.usage_count IS DISTINCT FROM s.usage_count OR k.effectiveness_score IS DISTINCT FROM s.effectiveness);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- CREATE OR REPLACE keeps the grants; repeated so the function is never left open
+REVOKE EXECUTE ON FUNCTION public.score_knowledge_entries(UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.score_knowledge_entries(UUID[]) TO service_role;
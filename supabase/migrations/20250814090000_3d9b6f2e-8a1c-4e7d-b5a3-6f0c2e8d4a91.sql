@@ -0,0 +1,127 @@
+-- Deduplication of extracted knowledge. knowledge-extraction looks for an existing entry
+-- close to each new pattern; a match records the new conversation on that entry instead
+-- of inserting a near-duplicate row.
+
+-- Provenance: every session the pattern was extracted from (source_session_id stays the first)
+ALTER TABLE public.process_knowledge_base
+  ADD COLUMN source_session_ids UUID[] NOT NULL DEFAULT '{}';
+
+UPDATE public.process_knowledge_base
+SET source_session_ids = ARRAY[source_session_id]
+WHERE source_session_id IS NOT NULL;
+
+-- The extraction prompt asks for implementation lessons, which the original check refused
+ALTER TABLE public.process_knowledge_base
+  DROP CONSTRAINT process_knowledge_base_knowledge_type_check;
+
+ALTER TABLE public.process_knowledge_base
+  ADD CONSTRAINT process_knowledge_base_knowledge_type_check
+  CHECK (knowledge_type IN ('pattern', 'optimization', 'best_practice', 'risk_assessment', 'implementation'));
+
+-- The closest existing entry at or above the similarity threshold. Merged entries are
+-- skipped (their target is a candidate itself); rejected and expired ones are not, so a
+-- pattern a reviewer turned down does not come back as a new pending row.
+CREATE OR REPLACE FUNCTION public.find_duplicate_knowledge(
+  p_embedding vector(1536),
+  p_min_similarity DOUBLE PRECISION DEFAULT 0.9
+)
+RETURNS TABLE (
+  id UUID,
+  similarity DOUBLE PRECISION
+) AS $$
+  SELECT nearest.*
+  FROM (
+    SELECT k.id, 1 - (k.embedding <=> p_embedding) AS similarity
+    FROM public.process_knowledge_base k
+    WHERE k.embedding IS NOT NULL
+      AND k.review_status <> 'merged'
+    ORDER BY k.embedding <=> p_embedding
+    LIMIT 1
+  ) nearest
+  WHERE nearest.similarity >= p_min_similarity;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Records another extraction of an existing pattern: the session joins the provenance,
+-- usage_count goes up by one and the confidence becomes the average over all extractions.
+-- Returns false when the session is already recorded (a re-extraction of the same chat).
+CREATE OR REPLACE FUNCTION public.record_knowledge_occurrence(
+  p_knowledge_id UUID,
+  p_session_id UUID,
+  p_confidence NUMERIC
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.process_knowledge_base
+  SET source_session_ids = array_append(source_session_ids, p_session_id),
+    usage_count = coalesce(usage_count, 0) + 1,
+    confidence_score = round((
+      (coalesce(confidence_score, p_confidence) * greatest(cardinality(source_session_ids), 1) + p_confidence)
+      / (greatest(cardinality(source_session_ids), 1) + 1)
+    )::NUMERIC, 2),
+    updated_at = now()
+  WHERE id = p_knowledge_id
+    AND NOT (p_session_id = ANY(source_session_ids));
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the edge functions (service role) record extractions
+REVOKE EXECUTE ON FUNCTION public.record_knowledge_occurrence(UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_knowledge_occurrence(UUID, UUID, NUMERIC) TO service_role;
+
+-- usage_count now also counts repeat extractions (sessions after the first), so rescoring
+-- answer usage does not undo the increments above
+CREATE OR REPLACE FUNCTION public.score_knowledge_entries(p_knowledge_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  IF p_knowledge_ids IS NOT NULL THEN
+    SELECT coalesce(array_agg(DISTINCT coalesce(k.merged_into_id, k.id)), '{}') INTO p_knowledge_ids
+    FROM public.process_knowledge_base k
+    WHERE k.id = ANY(p_knowledge_ids);
+  END IF;
+
+  WITH usage AS (
+    SELECT DISTINCT coalesce(k.merged_into_id, k.id) AS knowledge_id, mk.message_id
+    FROM public.ai_message_knowledge mk
+    JOIN public.process_knowledge_base k ON k.id = mk.knowledge_id
+    WHERE (p_knowledge_ids IS NULL OR coalesce(k.merged_into_id, k.id) = ANY(p_knowledge_ids))
+  ),
+  signals AS (
+    SELECT u.knowledge_id, s.score,
+      s.weight * power(0.5, extract(epoch FROM now() - f.updated_at) / 86400 / 90) AS weight
+    FROM usage u
+    JOIN public.ai_message_feedback f ON f.message_id = u.message_id
+    CROSS JOIN LATERAL (VALUES
+      (CASE f.rating WHEN 1 THEN 1.0 WHEN -1 THEN 0.0 END, 1.0),
+      (CASE WHEN f.applied THEN 1.0 END, 2.0)
+    ) AS s(score, weight)
+    WHERE s.score IS NOT NULL
+  ),
+  scores AS (
+    SELECT k.id,
+      ((SELECT count(*) FROM usage u WHERE u.knowledge_id = k.id)
+        + greatest(cardinality(k.source_session_ids) - 1, 0))::INTEGER AS usage_count,
+      round(((1.0 + coalesce(sum(s.weight * s.score), 0)) / (2.0 + coalesce(sum(s.weight), 0)))::NUMERIC, 2) AS effectiveness
+    FROM public.process_knowledge_base k
+    LEFT JOIN signals s ON s.knowledge_id = k.id
+    WHERE (p_knowledge_ids IS NULL OR k.id = ANY(p_knowledge_ids))
+      AND k.review_status <> 'merged'
+    GROUP BY k.id
+  )
+  UPDATE public.process_knowledge_base k
+  SET usage_count = s.usage_count, effectiveness_score = s.effectiveness, updated_at = now()
+  FROM scores s
+  WHERE k.id = s.id
+    AND (k.usage_count IS DISTINCT FROM s.usage_count OR k.effectiveness_score IS DISTINCT FROM s.effectiveness);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- CREATE OR REPLACE keeps the grants; repeated so the function is never left open
+REVOKE EXECUTE ON FUNCTION public.score_knowledge_entries(UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.score_knowledge_entries(UUID[]) TO service_role;
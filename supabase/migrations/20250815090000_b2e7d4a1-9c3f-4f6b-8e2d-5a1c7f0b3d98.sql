@@ -0,0 +1,152 @@
+-- Assistant profiles: the chat system prompt is built from a profile instead of a fixed
+-- HRIS prompt. A profile sets the domain scope, response format, target HR system and
+-- guardrail wording; strict_scope keeps the check that replaces off-topic answers. Chat
+-- sessions and BPMN files can pick a profile, otherwise the default profile is used.
+CREATE TABLE public.ai_prompt_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  domain_scope TEXT NOT NULL,
+  response_format TEXT NOT NULL,
+  target_hr_system TEXT CHECK (target_hr_system IN ('successfactors', 'workday', 'oracle_hcm', 'bamboohr')),
+  guardrails TEXT NOT NULL DEFAULT '',
+  strict_scope BOOLEAN NOT NULL DEFAULT false,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  version INTEGER NOT NULL DEFAULT 1,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (is_active OR NOT is_default)
+);
+
+CREATE UNIQUE INDEX idx_ai_prompt_profiles_default ON public.ai_prompt_profiles(is_default) WHERE is_default;
+
+-- Every prompt change is kept as a numbered version; chat messages record the version
+-- their answer was generated with.
+CREATE TABLE public.ai_prompt_profile_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES public.ai_prompt_profiles(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  domain_scope TEXT NOT NULL,
+  response_format TEXT NOT NULL,
+  target_hr_system TEXT,
+  guardrails TEXT NOT NULL,
+  strict_scope BOOLEAN NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(profile_id, version)
+);
+
+ALTER TABLE public.ai_prompt_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_prompt_profile_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view prompt profiles"
+ON public.ai_prompt_profiles
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage prompt profiles"
+ON public.ai_prompt_profiles
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Versions are written by the trigger below only
+CREATE POLICY "Admins can view prompt profile versions"
+ON public.ai_prompt_profile_versions
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_ai_prompt_profiles_updated_at
+BEFORE UPDATE ON public.ai_prompt_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A change to the prompt fields bumps the version; activation and default changes do not
+CREATE OR REPLACE FUNCTION public.bump_prompt_profile_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.name, NEW.domain_scope, NEW.response_format, NEW.target_hr_system, NEW.guardrails, NEW.strict_scope)
+    IS DISTINCT FROM
+    (OLD.name, OLD.domain_scope, OLD.response_format, OLD.target_hr_system, OLD.guardrails, OLD.strict_scope)
+  THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER bump_ai_prompt_profiles_version
+BEFORE UPDATE ON public.ai_prompt_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_prompt_profile_version();
+
+CREATE OR REPLACE FUNCTION public.record_prompt_profile_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.version <> OLD.version THEN
+    INSERT INTO public.ai_prompt_profile_versions
+      (profile_id, version, name, domain_scope, response_format, target_hr_system, guardrails, strict_scope, created_by)
+    VALUES
+      (NEW.id, NEW.version, NEW.name, NEW.domain_scope, NEW.response_format, NEW.target_hr_system, NEW.guardrails,
+       NEW.strict_scope, coalesce(auth.uid(), NEW.created_by));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_ai_prompt_profiles_version
+AFTER INSERT OR UPDATE ON public.ai_prompt_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.record_prompt_profile_version();
+
+ALTER TABLE public.bpmn_files
+  ADD COLUMN prompt_profile_id UUID REFERENCES public.ai_prompt_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.ai_chat_sessions
+  ADD COLUMN prompt_profile_id UUID REFERENCES public.ai_prompt_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.ai_chat_messages
+  ADD COLUMN prompt_profile_version_id UUID REFERENCES public.ai_prompt_profile_versions(id) ON DELETE SET NULL;
+
+-- The prompt used so far becomes the default profile
+INSERT INTO public.ai_prompt_profiles
+  (name, description, domain_scope, response_format, target_hr_system, guardrails, strict_scope, is_default)
+VALUES (
+  'HRIS Process Expert',
+  'HR process analysis with the five-part answer format',
+  '1. **Employee Lifecycle Management**: Onboarding, offboarding, transfers, promotions
+2. **BPMN Process Analysis**: Workflow optimization for HR processes specifically
+3. **HR Systems**: Integration, configuration, best practices
+4. **HR Compliance**: GDPR, labor laws, equal opportunity, audit trails
+5. **Performance & Compensation**: Appraisals, salary reviews, bonus calculations
+6. **Learning & Development**: Training workflows, certification tracking
+7. **Time & Attendance**: Leave management, overtime calculations, shift planning',
+  '**🔍 Process Analysis**: [Analyze the specific HR process]
+**⚡ Optimization Opportunities**: [Identify specific bottlenecks or improvements]
+**⚠️ Compliance Considerations**: [HR compliance and risk factors]
+**🚀 Implementation Steps**: [Practical next steps for HR teams]
+**💼 Business Impact**: [ROI and efficiency gains for HR operations]',
+  'successfactors',
+  '- ONLY discuss HR processes, employee management, payroll, benefits, recruitment, performance management
+- REJECT any questions about stocks, financial markets, investments, or general business
+- ALWAYS respond within HRIS/HR context even if asked about other topics
+- If someone asks about non-HR topics, respond: "I''m specifically designed to help with HRIS and HR process optimization. Let me help you with your HR workflow instead!"',
+  true,
+  true
+), (
+  'HR & IT Operations',
+  'Processes that span HR, IT onboarding and finance-adjacent steps, answered in free form',
+  'Employee-facing operational processes across HR, IT and finance: onboarding and offboarding including account provisioning, equipment and access management, payroll handoffs, expense and cost center assignments, approvals and audit trails.',
+  'Answer directly and concisely. Use short sections or lists where they help, and end with concrete next steps.',
+  NULL,
+  '- Stay with the process in the diagram and the operational questions around it
+- Do not give investment, legal or tax advice; point to the responsible team instead',
+  false,
+  false
+);
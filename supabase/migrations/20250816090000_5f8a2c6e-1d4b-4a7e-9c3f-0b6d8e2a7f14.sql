@@ -0,0 +1,27 @@
+-- Output language per user. analyze-bpmn and ai-chat answer in this locale (rule findings
+-- from message catalogs, model output by instruction) and the PDF/Excel exports use it
+-- for their labels.
+ALTER TABLE public.profiles
+  ADD COLUMN locale TEXT NOT NULL DEFAULT 'en' CHECK (locale IN ('en', 'de', 'hi', 'es'));
+
+-- Users pick their language themselves; not every account has a profiles row yet, so
+-- the app upserts it
+DROP POLICY IF EXISTS "Users can view their own profile" ON public.profiles;
+DROP POLICY IF EXISTS "Users can insert their own profile" ON public.profiles;
+DROP POLICY IF EXISTS "Users can update their own profile" ON public.profiles;
+
+CREATE POLICY "Users can view their own profile"
+ON public.profiles
+FOR SELECT
+USING (auth.uid() = id);
+
+CREATE POLICY "Users can insert their own profile"
+ON public.profiles
+FOR INSERT
+WITH CHECK (auth.uid() = id);
+
+CREATE POLICY "Users can update their own profile"
+ON public.profiles
+FOR UPDATE
+USING (auth.uid() = id)
+WITH CHECK (auth.uid() = id);
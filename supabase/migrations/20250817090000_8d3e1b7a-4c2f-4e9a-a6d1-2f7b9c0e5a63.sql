@@ -0,0 +1,30 @@
+-- Branching chat conversations. Each message points at the message it follows, so a
+-- regenerated answer is a sibling of the answer it replaces and an edited question is a
+-- sibling of the original. The session's active_message_id is the last message of the
+-- branch currently shown; new messages continue from it.
+ALTER TABLE public.ai_chat_messages
+  ADD COLUMN parent_message_id UUID REFERENCES public.ai_chat_messages(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_ai_chat_messages_parent ON public.ai_chat_messages(parent_message_id);
+
+ALTER TABLE public.ai_chat_sessions
+  ADD COLUMN active_message_id UUID REFERENCES public.ai_chat_messages(id) ON DELETE SET NULL;
+
+-- Existing sessions are linear: every message follows the one before it
+UPDATE public.ai_chat_messages AS message
+SET parent_message_id = ordered.previous_id
+FROM (
+  SELECT id, LAG(id) OVER (PARTITION BY session_id ORDER BY created_at, id) AS previous_id
+  FROM public.ai_chat_messages
+) AS ordered
+WHERE message.id = ordered.id
+  AND ordered.previous_id IS NOT NULL;
+
+UPDATE public.ai_chat_sessions AS session
+SET active_message_id = latest.id
+FROM (
+  SELECT DISTINCT ON (session_id) session_id, id
+  FROM public.ai_chat_messages
+  ORDER BY session_id, created_at DESC, id DESC
+) AS latest
+WHERE session.id = latest.session_id;